@@ -0,0 +1,15 @@
+CREATE TABLE `agent_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`title` text NOT NULL,
+	`messages_json` text DEFAULT '[]' NOT NULL,
+	`tool_runs_json` text DEFAULT '[]' NOT NULL,
+	`decisions_json` text DEFAULT '[]' NOT NULL,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_agent_sessions_project_updated` ON `agent_sessions` (`project_id`,`updated_at`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `ai_usage` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` text,
+	`provider_id` text NOT NULL,
+	`provider_name` text NOT NULL,
+	`provider_type` text NOT NULL,
+	`model` text NOT NULL,
+	`feature` text NOT NULL,
+	`input_tokens` integer NOT NULL,
+	`output_tokens` integer NOT NULL,
+	`cost` real,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_ai_usage_created` ON `ai_usage` (`created_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `project_prefs` ADD `worktree_recipe` text;
\ No newline at end of file
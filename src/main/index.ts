@@ -18,6 +18,8 @@ import { registerSettingsHandlers } from "./ipc/settings.js";
 import { registerRepoHandlers } from "./ipc/repo.js";
 import { registerEventsHandlers } from "./ipc/events.js";
 import { registerCliHandlers, installCli, uninstallCli } from "./ipc/cli.js";
+import { registerAgentHandlers } from "./ipc/agent.js";
+import { registerActivityHandlers } from "./ipc/activity.js";
 
 const OPEN_REPO_ARG = "--open-repo";
 const EVENT_OPEN_REPO = "events:openRepo";
@@ -88,7 +90,7 @@ async function preloadRecentProjectLogs(): Promise<void> {
 			const prefs = await getProjectPrefs(project.id);
 			const cwd = prefs?.active_worktree_path?.trim() || project.path;
 			const [commits, unpushed] = await Promise.all([
-				provider.getLog(cwd, { limit: PRELOAD_COMMIT_LIMIT }),
+				provider.getLog(cwd, { limit: PRELOAD_COMMIT_LIMIT, topoOrder: true }),
 				provider.getUnpushedOids(cwd),
 			]);
 			const headOid = commits.length > 0 ? commits[0]!.oid : null;
@@ -257,6 +259,8 @@ app.whenReady().then(async () => {
 	registerRepoHandlers();
 	registerEventsHandlers();
 	registerCliHandlers();
+	registerAgentHandlers();
+	registerActivityHandlers();
 
 	buildAppMenu();
 
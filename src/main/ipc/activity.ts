@@ -0,0 +1,47 @@
+import { app, dialog, ipcMain } from "electron";
+import { writeFile } from "fs/promises";
+import {
+	clearGitActivity,
+	formatGitActivity,
+	getGitActivity,
+	startGitActivityLog,
+} from "../services/git/activity.js";
+import { emitGitActivity } from "./events.js";
+import type { GitActivityEntry } from "../../shared/types.js";
+
+function toFileName(date: Date): string {
+	const stamp = date.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+	return `gitagen-git-activity-${stamp}.log`;
+}
+
+export function registerActivityHandlers(): void {
+	startGitActivityLog(emitGitActivity);
+
+	ipcMain.handle("activity:list", async (_, projectId?: string): Promise<GitActivityEntry[]> => {
+		return getGitActivity(projectId);
+	});
+
+	ipcMain.handle("activity:clear", async (): Promise<void> => {
+		clearGitActivity();
+	});
+
+	ipcMain.handle("activity:export", async (_, projectId?: string): Promise<string | null> => {
+		const now = new Date();
+		const result = await dialog.showSaveDialog({
+			title: "Export Git Activity",
+			defaultPath: toFileName(now),
+			filters: [{ name: "Log", extensions: ["log", "txt"] }],
+		});
+		if (result.canceled || !result.filePath) return null;
+		const header = [
+			`Gitagen ${app.getVersion()} on ${process.platform} ${process.arch}`,
+			`Exported ${now.toISOString()}`,
+		].join("\n");
+		await writeFile(
+			result.filePath,
+			`${header}\n\n${formatGitActivity(getGitActivity(projectId))}\n`,
+			"utf-8"
+		);
+		return result.filePath;
+	});
+}
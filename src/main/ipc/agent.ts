@@ -0,0 +1,70 @@
+import { dialog, ipcMain } from "electron";
+import { writeFile } from "fs/promises";
+import type { UIMessage } from "ai";
+import { abortAgentRun, getAgentStatus, runAgent } from "../services/ai/agent-run.js";
+import { exportSessionMarkdown, getSession, listSessions } from "../services/ai/agent-sessions.js";
+import { deleteAgentSession } from "../services/cache/queries.js";
+import type { AgentSession, AgentSessionSummary, AgentStatus } from "../../shared/types.js";
+
+function toFileName(title: string): string {
+	const slug = title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, 60);
+	return `${slug || "agent-session"}.md`;
+}
+
+export function registerAgentHandlers(): void {
+	ipcMain.handle("agent:getStatus", async (): Promise<AgentStatus> => {
+		return getAgentStatus();
+	});
+
+	ipcMain.handle(
+		"agent:run",
+		async (
+			event,
+			runId: string,
+			projectId: string,
+			sessionId: string,
+			messages: UIMessage[]
+		): Promise<void> => {
+			await runAgent(runId, projectId, sessionId, messages, event.sender);
+		}
+	);
+
+	ipcMain.handle("agent:abort", async (_, runId: string): Promise<void> => {
+		abortAgentRun(runId);
+	});
+
+	ipcMain.handle(
+		"agent:listSessions",
+		async (_, projectId: string): Promise<AgentSessionSummary[]> => {
+			return listSessions(projectId);
+		}
+	);
+
+	ipcMain.handle(
+		"agent:getSession",
+		async (_, sessionId: string): Promise<AgentSession | null> => {
+			return getSession(sessionId);
+		}
+	);
+
+	ipcMain.handle("agent:deleteSession", async (_, sessionId: string): Promise<void> => {
+		await deleteAgentSession(sessionId);
+	});
+
+	ipcMain.handle("agent:exportSession", async (_, sessionId: string): Promise<string | null> => {
+		const session = await getSession(sessionId);
+		if (!session) throw new Error("Agent session not found");
+		const result = await dialog.showSaveDialog({
+			title: "Export Agent Session",
+			defaultPath: toFileName(session.title),
+			filters: [{ name: "Markdown", extensions: ["md"] }],
+		});
+		if (result.canceled || !result.filePath) return null;
+		await writeFile(result.filePath, await exportSessionMarkdown(session), "utf-8");
+		return result.filePath;
+	});
+}
@@ -1,9 +1,19 @@
 import { BrowserWindow } from "electron";
-import type { ConflictState } from "../../shared/types.js";
+import type {
+	ConflictState,
+	GitActivityEntry,
+	HookRunEvent,
+	OperationProgressEvent,
+	WorktreeRecipeEvent,
+} from "../../shared/types.js";
 
 export const EVENT_REPO_UPDATED = "events:repoUpdated";
 export const EVENT_REPO_ERROR = "events:repoError";
 export const EVENT_CONFLICT_DETECTED = "events:conflictDetected";
+export const EVENT_HOOK_RUN = "events:hookRun";
+export const EVENT_OPERATION_PROGRESS = "events:operationProgress";
+export const EVENT_WORKTREE_RECIPE = "events:worktreeRecipe";
+export const EVENT_GIT_ACTIVITY = "events:gitActivity";
 
 interface RepoUpdatedPayload {
 	projectId: string;
@@ -55,6 +65,22 @@ export function emitConflictDetected(projectId: string, state: ConflictState): v
 	broadcast(EVENT_CONFLICT_DETECTED, payload);
 }
 
+export function emitHookRun(event: HookRunEvent): void {
+	broadcast(EVENT_HOOK_RUN, event);
+}
+
+export function emitOperationProgress(event: OperationProgressEvent): void {
+	broadcast(EVENT_OPERATION_PROGRESS, event);
+}
+
+export function emitWorktreeRecipe(event: WorktreeRecipeEvent): void {
+	broadcast(EVENT_WORKTREE_RECIPE, event);
+}
+
+export function emitGitActivity(entry: GitActivityEntry): void {
+	broadcast(EVENT_GIT_ACTIVITY, entry);
+}
+
 export function registerEventsHandlers(): void {
 	// No request-response handlers needed; renderer subscribes to event channels.
 }
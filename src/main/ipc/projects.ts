@@ -1,8 +1,9 @@
 import { ipcMain } from "electron";
 import { randomUUID } from "crypto";
 import { rmSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
 import { homedir } from "os";
-import { resolve, sep } from "path";
+import { basename, join, resolve, sep } from "path";
 import {
 	listProjects as dbListProjects,
 	getProject,
@@ -12,10 +13,23 @@ import {
 	deleteProject,
 	type ProjectRow,
 } from "../services/cache/queries.js";
+import { mapWithConcurrency } from "../services/concurrency.js";
 import { createGitProvider } from "../services/git/index.js";
+import { runOperation } from "../services/git/operations.js";
+import {
+	getGitignoreTemplate,
+	listGitignoreTemplates,
+} from "../services/git/gitignore-templates.js";
+import type { GitProvider } from "../services/git/types.js";
 import { getAppSettings } from "../services/settings/store.js";
 import { removeWorktree as removeWorktreeManager } from "../services/worktree/manager.js";
-import type { GroupedProject, Project } from "../../shared/types.js";
+import type {
+	AddProjectResult,
+	CloneRepositoryOptions,
+	GroupedProject,
+	InitRepositoryOptions,
+	Project,
+} from "../../shared/types.js";
 
 const GITAGEN_DIR = resolve(homedir(), ".gitagen");
 const TOPLEVEL_CACHE_TTL_MS = 5 * 60 * 1000;
@@ -47,6 +61,40 @@ function rowToProject(row: ProjectRow): Project {
 	};
 }
 
+async function addProject(name: string, path: string): Promise<Project> {
+	const existing = await getProjectByPath(path);
+	if (existing) return rowToProject(existing);
+	const id = randomUUID();
+	const now = Math.floor(Date.now() / 1000);
+	await insertProject(id, name, path, now, now);
+	return rowToProject((await getProject(id))!);
+}
+
+/** The optional steps after `git init`; the folder is already a repository when they run. */
+async function setUpRepository(
+	git: GitProvider,
+	path: string,
+	init: InitRepositoryOptions
+): Promise<void> {
+	if (init.gitignoreTemplate) {
+		const template = getGitignoreTemplate(init.gitignoreTemplate);
+		if (!template) throw new Error(`Unknown .gitignore template: ${init.gitignoreTemplate}`);
+		const file = join(path, ".gitignore");
+		const current = await readFile(file, "utf-8").catch(() => "");
+		const separator = current && !current.endsWith("\n") ? "\n\n" : current ? "\n" : "";
+		await writeFile(file, `${current}${separator}${template}`);
+	}
+	if (init.remote) await git.addRemote(path, init.remote.name, init.remote.url);
+	if (init.initialCommit) {
+		await git.stageAll(path);
+		await git.commit(path, {
+			message: "Initial commit",
+			sign: (await getAppSettings()).signing.enabled,
+			allowEmpty: true,
+		});
+	}
+}
+
 function normalizePath(p: string): string {
 	return resolve(p);
 }
@@ -56,26 +104,6 @@ function isManagedWorktreePath(p: string): boolean {
 	return resolved === GITAGEN_DIR || resolved.startsWith(`${GITAGEN_DIR}${sep}`);
 }
 
-async function mapWithConcurrency<T, R>(
-	items: readonly T[],
-	limit: number,
-	mapper: (item: T, index: number) => Promise<R>
-): Promise<R[]> {
-	if (items.length === 0) return [];
-	const results = Array.from({ length: items.length }) as R[];
-	let nextIndex = 0;
-	const worker = async () => {
-		while (true) {
-			const index = nextIndex++;
-			if (index >= items.length) return;
-			results[index] = await mapper(items[index], index);
-		}
-	};
-	const workerCount = Math.min(limit, items.length);
-	await Promise.all(Array.from({ length: workerCount }, () => worker()));
-	return results;
-}
-
 async function getToplevelCached(
 	projectPath: string,
 	provider: ReturnType<typeof createGitProvider>
@@ -144,15 +172,54 @@ export function registerProjectsHandlers(): void {
 		return grouped;
 	});
 
-	ipcMain.handle("projects:add", async (_, name: string, path: string): Promise<Project> => {
-		const existing = await getProjectByPath(path);
-		if (existing) return rowToProject(existing);
-		const id = randomUUID();
-		const now = Math.floor(Date.now() / 1000);
-		await insertProject(id, name, path, now, now);
-		return rowToProject((await getProject(id))!);
+	ipcMain.handle(
+		"projects:add",
+		async (
+			_,
+			name: string,
+			path: string,
+			init?: InitRepositoryOptions
+		): Promise<AddProjectResult> => {
+			const existing = await getProjectByPath(path);
+			if (existing) return { status: "added", project: rowToProject(existing) };
+			const git = createGitProvider(await getAppSettings());
+			if (await git.isRepository(path)) {
+				return { status: "added", project: await addProject(name, path) };
+			}
+			if (!init) return { status: "notARepository" };
+			await git.initRepository(path, {
+				initialBranch: init.initialBranch.trim() || undefined,
+			});
+			// Added before the optional steps: once initialized, the folder would otherwise be
+			// added later without them, e.g. after an initial commit fails for lack of user.email
+			const project = await addProject(name, path);
+			try {
+				await setUpRepository(git, path, init);
+			} catch (error) {
+				const initError = error instanceof Error ? error.message : String(error);
+				return { status: "added", project, initError };
+			}
+			return { status: "added", project };
+		}
+	);
+
+	ipcMain.handle("projects:listGitignoreTemplates", async (): Promise<string[]> => {
+		return listGitignoreTemplates();
 	});
 
+	ipcMain.handle(
+		"projects:clone",
+		async (_, opts: CloneRepositoryOptions & { operationId?: string }): Promise<Project> => {
+			const { operationId, ...cloneOpts } = opts;
+			const directory = resolve(cloneOpts.directory);
+			const git = createGitProvider(await getAppSettings());
+			await runOperation(operationId, null, "clone", (operation) =>
+				git.clone({ ...cloneOpts, directory, ...operation })
+			);
+			return addProject(basename(directory), directory);
+		}
+	);
+
 	ipcMain.handle("projects:remove", async (_, projectId: string): Promise<void> => {
 		const project = await getProject(projectId);
 		await deleteProject(projectId);
@@ -1,7 +1,15 @@
 import { BrowserWindow, dialog, ipcMain, shell, type MessageBoxOptions } from "electron";
 import { generateCommitMessage } from "../services/ai/commit-message.js";
+import { lintCommitMessageInRepo } from "../services/ai/commit-lint.js";
 import { resolve, normalize } from "path";
-import { createGitProvider } from "../services/git/index.js";
+import { createGitProvider, resolveGitBinary } from "../services/git/index.js";
+import { buildPartialPatch } from "../services/git/partial-patch.js";
+import { runHookedAction } from "../services/git/hook-run.js";
+import {
+	cancelOperation,
+	OperationCancelledError,
+	runOperation,
+} from "../services/git/operations.js";
 import type { GitProvider } from "../services/git/types.js";
 import { getAppSettings } from "../services/settings/store.js";
 import {
@@ -15,13 +23,17 @@ import {
 	getLogCache,
 	setLogCache,
 	updateProjectLastOpened,
+	moveProjectPath,
 } from "../services/cache/queries.js";
 import { prefsRowToPrefs } from "../services/cache/utils.js";
 import {
 	listWorktrees as listWorktreesManager,
 	addWorktree as addWorktreeManager,
 	removeWorktree as removeWorktreeManager,
+	moveWorktree as moveWorktreeManager,
 	pruneWorktrees as pruneWorktreesManager,
+	getWorktreeDashboard,
+	resolveWorktreePath,
 } from "../services/worktree/manager.js";
 import { emitConflictDetected, emitRepoError, emitRepoUpdated } from "./events.js";
 import { watchProject, unwatchProject } from "../services/watcher/index.js";
@@ -29,15 +41,22 @@ import type {
 	AddWorktreeOptions,
 	AddWorktreeResult,
 	BranchInfo,
+	CheckpointInfo,
 	CommitInfo,
+	CommitLintIssue,
+	CommitMessageSource,
 	ConfirmDialogOptions,
-	ConflictState,
+	ConflictFileVersions,
 	FileChange,
+	PatchSelection,
+	RebaseOptions,
 	ProjectOpenData,
 	ProjectPrefs,
 	RemoteInfo,
 	RepoStatus,
 	TreeNode,
+	WorktreeDashboard,
+	WorktreeLocation,
 } from "../../shared/types.js";
 
 const AGENT_DEBUG = process.env.GITAGEN_AGENT_DEBUG === "1";
@@ -86,11 +105,23 @@ async function getRepoPath(projectId: string): Promise<string | null> {
 	return activePath && activePath.trim() !== "" ? activePath : project.path;
 }
 
+/** The project's worktree location override, else the global setting. */
+async function getWorktreeLocation(projectId: string): Promise<WorktreeLocation> {
+	const prefs = await getProjectPrefs(projectId);
+	const override = prefs ? prefsRowToPrefs(prefs).worktreeLocation : null;
+	return override ?? (await getAppSettings()).worktreeLocation;
+}
+
 async function getGitProvider(): Promise<GitProvider> {
 	const settings = await getAppSettings();
 	return createGitProvider(settings);
 }
 
+/** The configured git binary, or null for `git` from PATH, as used by the provider. */
+async function getGitBinary(): Promise<string | null> {
+	return resolveGitBinary((await getAppSettings()).gitBinaryPath);
+}
+
 function buildFingerprintKeyValue(fingerprint: {
 	repoPath: string;
 	headOid: string;
@@ -157,18 +188,26 @@ async function invalidateAndEmit(projectId: string): Promise<void> {
 
 async function emitConflictsIfAny(projectId: string, git: GitProvider, cwd: string): Promise<void> {
 	try {
-		const conflictFiles = await git.getConflictFiles(cwd);
-		if (conflictFiles.length === 0) return;
-		const state: ConflictState = {
-			type: "merge",
-			conflictFiles,
-		};
+		const state = await git.getConflictState(cwd);
+		if (!state || state.conflictFiles.length === 0) return;
 		emitConflictDetected(projectId, state);
 	} catch (error) {
 		console.error("[emitConflictsIfAny] Failed to check conflicts:", error);
 	}
 }
 
+function resolvePathInRepo(cwd: string, filePath: string): string {
+	const normalizedFilePath = normalize(filePath);
+	if (normalizedFilePath.startsWith("..") || filePath.includes("\0")) {
+		throw new Error("Invalid file path");
+	}
+	const fullPath = resolve(cwd, filePath);
+	if (!fullPath.startsWith(resolve(cwd))) {
+		throw new Error("Path traversal detected");
+	}
+	return fullPath;
+}
+
 async function runMutation<T>(
 	projectId: string,
 	action: (git: GitProvider, cwd: string) => Promise<T>,
@@ -185,11 +224,34 @@ async function runMutation<T>(
 		}
 		return result;
 	} catch (error) {
-		emitRepoError(projectId, error);
+		if (opts?.emitConflicts) {
+			// A merge, rebase or cherry-pick that stops on conflicts fails, but still changed the repo.
+			await invalidateAndEmit(projectId).catch(() => {});
+			await emitConflictsIfAny(projectId, git, cwd);
+		}
+		// The user asked for this, so it is not reported as a failure
+		if (!(error instanceof OperationCancelledError)) emitRepoError(projectId, error);
 		throw error;
 	}
 }
 
+async function applyPatchSelection(
+	git: GitProvider,
+	cwd: string,
+	filePath: string,
+	selection: PatchSelection,
+	action: "stage" | "unstage" | "discard"
+): Promise<void> {
+	const scope = action === "unstage" ? "staged" : "unstaged";
+	const patch = await git.getPatch({ cwd, filePath, scope });
+	if (!patch) throw new Error(`No ${scope} changes for ${filePath}`);
+	const partial = buildPartialPatch(patch, selection, { reverse: action !== "stage" });
+	if (!partial) throw new Error("Selection does not contain any changed lines");
+	if (action === "stage") await git.stagePatch(cwd, partial);
+	else if (action === "unstage") await git.unstagePatch(cwd, partial);
+	else await git.discardPatch(cwd, partial);
+}
+
 export function registerRepoHandlers(): void {
 	ipcMain.handle(
 		"repo:openProject",
@@ -497,6 +559,33 @@ export function registerRepoHandlers(): void {
 		await runMutation(projectId, (git, cwd) => git.unstageFiles(cwd, paths));
 	});
 
+	ipcMain.handle(
+		"repo:stageSelection",
+		async (_, projectId: string, filePath: string, selection: PatchSelection) => {
+			await runMutation(projectId, (git, cwd) =>
+				applyPatchSelection(git, cwd, filePath, selection, "stage")
+			);
+		}
+	);
+
+	ipcMain.handle(
+		"repo:unstageSelection",
+		async (_, projectId: string, filePath: string, selection: PatchSelection) => {
+			await runMutation(projectId, (git, cwd) =>
+				applyPatchSelection(git, cwd, filePath, selection, "unstage")
+			);
+		}
+	);
+
+	ipcMain.handle(
+		"repo:discardSelection",
+		async (_, projectId: string, filePath: string, selection: PatchSelection) => {
+			await runMutation(projectId, (git, cwd) =>
+				applyPatchSelection(git, cwd, filePath, selection, "discard")
+			);
+		}
+	);
+
 	ipcMain.handle("repo:stageAll", async (_, projectId: string) => {
 		await runMutation(projectId, (git, cwd) => git.stageAll(cwd));
 	});
@@ -526,15 +615,7 @@ export function registerRepoHandlers(): void {
 		async (_, projectId: string, filePath: string): Promise<void> => {
 			const cwd = await getRepoPath(projectId);
 			if (!cwd) throw new Error("Project not found");
-			const normalizedFilePath = normalize(filePath);
-			if (normalizedFilePath.startsWith("..") || filePath.includes("\0")) {
-				throw new Error("Invalid file path");
-			}
-			const fullPath = resolve(cwd, filePath);
-			if (!fullPath.startsWith(resolve(cwd))) {
-				throw new Error("Path traversal detected");
-			}
-			await shell.openPath(fullPath);
+			await shell.openPath(resolvePathInRepo(cwd, filePath));
 		}
 	);
 
@@ -601,17 +682,28 @@ export function registerRepoHandlers(): void {
 			_,
 			projectId: string,
 			message: string,
-			opts?: { amend?: boolean; sign?: boolean }
+			opts?: { amend?: boolean; sign?: boolean; noVerify?: boolean }
 		) => {
 			const cwd = await getRepoPath(projectId);
 			if (!cwd) throw new Error("Project not found");
 			const git = await getGitProvider();
 			try {
-				const result = await git.commit(cwd, {
-					message,
-					amend: opts?.amend,
-					sign: opts?.sign ?? (await getAppSettings()).signing.enabled,
-				});
+				const sign = opts?.sign ?? (await getAppSettings()).signing.enabled;
+				const result = await runHookedAction(
+					projectId,
+					git,
+					cwd,
+					"commit",
+					opts?.noVerify,
+					(onOutput) =>
+						git.commit(cwd, {
+							message,
+							amend: opts?.amend,
+							sign,
+							noVerify: opts?.noVerify,
+							onOutput,
+						})
+				);
 				await invalidateAndEmit(projectId);
 				await emitConflictsIfAny(projectId, git, cwd);
 				return result;
@@ -637,16 +729,34 @@ export function registerRepoHandlers(): void {
 		}
 	});
 
-	ipcMain.handle("repo:generateCommitMessage", async (event, projectId: string) => {
-		return generateCommitMessage(projectId, event.sender);
-	});
+	ipcMain.handle(
+		"repo:generateCommitMessage",
+		async (event, projectId: string, source?: CommitMessageSource) => {
+			return generateCommitMessage(projectId, event.sender, source);
+		}
+	);
+
+	ipcMain.handle(
+		"repo:lintCommitMessage",
+		async (_, projectId: string, message: string): Promise<CommitLintIssue[]> => {
+			const cwd = await getRepoPath(projectId);
+			if (!cwd) throw new Error("Project not found");
+			return lintCommitMessageInRepo(cwd, message);
+		}
+	);
 
 	ipcMain.handle(
 		"repo:getLog",
 		async (
 			_,
 			projectId: string,
-			opts?: { limit?: number; branch?: string; offset?: number }
+			opts?: {
+				limit?: number;
+				branch?: string;
+				offset?: number;
+				path?: string;
+				topoOrder?: boolean;
+			}
 		) => {
 			const startedAt = Date.now();
 			debugRepo(
@@ -660,7 +770,8 @@ export function registerRepoHandlers(): void {
 			}
 			try {
 				const git = await getGitProvider();
-				const shouldCache = !opts?.branch && !opts?.offset;
+				// The cache seeds the log panel, which asks for the graph's topological order
+				const shouldCache = !!opts?.topoOrder && !opts.branch && !opts.offset && !opts.path;
 				const [commits, unpushed] = await Promise.all([
 					git.getLog(cwd, opts),
 					shouldCache ? git.getUnpushedOids(cwd) : Promise.resolve(null),
@@ -717,6 +828,20 @@ export function registerRepoHandlers(): void {
 		}
 	});
 
+	ipcMain.handle(
+		"repo:getBlame",
+		async (_, projectId: string, filePath: string, rev?: string) => {
+			const cwd = await getRepoPath(projectId);
+			if (!cwd) return null;
+			try {
+				return await (await getGitProvider()).getBlame(cwd, filePath, rev);
+			} catch (error) {
+				emitRepoError(projectId, error);
+				return null;
+			}
+		}
+	);
+
 	// Branches
 	ipcMain.handle("repo:listBranches", async (_, projectId: string) => {
 		const cwd = await getRepoPath(projectId);
@@ -771,8 +896,16 @@ export function registerRepoHandlers(): void {
 	// Remotes
 	ipcMain.handle(
 		"repo:fetch",
-		async (_, projectId: string, opts?: { remote?: string; prune?: boolean }) => {
-			return runMutation(projectId, (git, cwd) => git.fetch(cwd, opts));
+		async (
+			_,
+			projectId: string,
+			opts?: { remote?: string; all?: boolean; prune?: boolean; operationId?: string }
+		) => {
+			return runMutation(projectId, (git, cwd) =>
+				runOperation(opts?.operationId, projectId, "fetch", (operation) =>
+					git.fetch(cwd, { ...opts, ...operation })
+				)
+			);
 		}
 	);
 
@@ -786,11 +919,17 @@ export function registerRepoHandlers(): void {
 				branch?: string;
 				rebase?: boolean;
 				behind?: number;
+				operationId?: string;
 			}
 		) => {
-			return runMutation(projectId, (git, cwd) => git.pull(cwd, opts), {
-				emitConflicts: true,
-			});
+			return runMutation(
+				projectId,
+				(git, cwd) =>
+					runOperation(opts?.operationId, projectId, "pull", (operation) =>
+						git.pull(cwd, { ...opts, ...operation })
+					),
+				{ emitConflicts: true }
+			);
 		}
 	);
 
@@ -805,12 +944,24 @@ export function registerRepoHandlers(): void {
 				force?: boolean;
 				setUpstream?: boolean;
 				ahead?: number;
+				noVerify?: boolean;
+				operationId?: string;
 			}
 		) => {
-			return runMutation(projectId, (git, cwd) => git.push(cwd, opts));
+			return runMutation(projectId, (git, cwd) =>
+				runHookedAction(projectId, git, cwd, "push", opts?.noVerify, (onOutput) =>
+					runOperation(opts?.operationId, projectId, "push", (operation) =>
+						git.push(cwd, { ...opts, ...operation, onOutput })
+					)
+				)
+			);
 		}
 	);
 
+	ipcMain.handle("repo:cancelOperation", async (_, operationId: string): Promise<boolean> => {
+		return cancelOperation(operationId);
+	});
+
 	ipcMain.handle(
 		"repo:pushTags",
 		async (_, projectId: string, opts?: { remote?: string; tags?: string[] }) => {
@@ -923,7 +1074,7 @@ export function registerRepoHandlers(): void {
 	});
 
 	// Rebase
-	ipcMain.handle("repo:rebase", async (_, projectId: string, opts: { onto: string }) => {
+	ipcMain.handle("repo:rebase", async (_, projectId: string, opts: RebaseOptions) => {
 		await runMutation(projectId, (git, cwd) => git.rebase(cwd, opts), {
 			emitConflicts: true,
 		});
@@ -962,19 +1113,35 @@ export function registerRepoHandlers(): void {
 		});
 	});
 
+	// Agent plan checkpoints
+	ipcMain.handle(
+		"repo:getCheckpoint",
+		async (_, projectId: string, name: string): Promise<CheckpointInfo | null> => {
+			const cwd = await getRepoPath(projectId);
+			if (!cwd) return null;
+			try {
+				return await (await getGitProvider()).getCheckpoint(cwd, name);
+			} catch (error) {
+				emitRepoError(projectId, error);
+				return null;
+			}
+		}
+	);
+
+	ipcMain.handle("repo:restoreCheckpoint", async (_, projectId: string, name: string) => {
+		await runMutation(projectId, (git, cwd) => git.restoreCheckpoint(cwd, name));
+	});
+
 	// Conflicts
 	ipcMain.handle("repo:getConflictFiles", async (_, projectId: string) => {
 		const cwd = await getRepoPath(projectId);
 		if (!cwd) return [];
 		try {
-			const conflictFiles = await (await getGitProvider()).getConflictFiles(cwd);
-			if (conflictFiles.length > 0) {
-				emitConflictDetected(projectId, {
-					type: "merge",
-					conflictFiles,
-				});
+			const state = await (await getGitProvider()).getConflictState(cwd);
+			if (state && state.conflictFiles.length > 0) {
+				emitConflictDetected(projectId, state);
 			}
-			return conflictFiles;
+			return state?.conflictFiles ?? [];
 		} catch (error) {
 			emitRepoError(projectId, error);
 			return [];
@@ -987,13 +1154,53 @@ export function registerRepoHandlers(): void {
 		});
 	});
 
+	ipcMain.handle("repo:getConflictState", async (_, projectId: string) => {
+		const cwd = await getRepoPath(projectId);
+		if (!cwd) return null;
+		try {
+			return await (await getGitProvider()).getConflictState(cwd);
+		} catch (error) {
+			emitRepoError(projectId, error);
+			return null;
+		}
+	});
+
+	ipcMain.handle(
+		"repo:getConflictVersions",
+		async (_, projectId: string, filePath: string): Promise<ConflictFileVersions | null> => {
+			const cwd = await getRepoPath(projectId);
+			if (!cwd) return null;
+			try {
+				resolvePathInRepo(cwd, filePath);
+				return await (await getGitProvider()).getConflictVersions(cwd, filePath);
+			} catch (error) {
+				emitRepoError(projectId, error);
+				return null;
+			}
+		}
+	);
+
+	ipcMain.handle(
+		"repo:resolveConflict",
+		async (_, projectId: string, filePath: string, content: string | null) => {
+			await runMutation(
+				projectId,
+				(git, cwd) => {
+					resolvePathInRepo(cwd, filePath);
+					return git.resolveConflict(cwd, filePath, content);
+				},
+				{ emitConflicts: true }
+			);
+		}
+	);
+
 	// Config
 	ipcMain.handle("repo:getEffectiveConfig", async (_, projectId: string) => {
 		const { getEffectiveConfig } = await import("../services/settings/git-config.js");
 		const cwd = await getRepoPath(projectId);
 		if (!cwd) return [];
 		try {
-			return getEffectiveConfig(cwd);
+			return await getEffectiveConfig(cwd, await getGitBinary());
 		} catch (error) {
 			emitRepoError(projectId, error);
 			return [];
@@ -1007,7 +1214,7 @@ export function registerRepoHandlers(): void {
 			const cwd = await getRepoPath(projectId);
 			if (!cwd) return;
 			try {
-				setLocalConfig(cwd, key, value);
+				await setLocalConfig(cwd, key, value, await getGitBinary());
 				await invalidateAndEmit(projectId);
 			} catch (error) {
 				emitRepoError(projectId, error);
@@ -1025,7 +1232,7 @@ export function registerRepoHandlers(): void {
 				return { ok: false, message: "Project not found." };
 			}
 			try {
-				return testSigningConfig(cwd, key);
+				return await testSigningConfig(cwd, key, await getGitBinary());
 			} catch (error) {
 				emitRepoError(projectId, error);
 				return {
@@ -1062,6 +1269,7 @@ export function registerRepoHandlers(): void {
 			if (!project) throw new Error("Project not found");
 			try {
 				const sourceWorktreePath = (await getRepoPath(projectId)) ?? project.path;
+				const prefs = await getProjectPrefs(projectId);
 				const result = await addWorktreeManager(
 					project.path,
 					project.name,
@@ -1070,6 +1278,11 @@ export function registerRepoHandlers(): void {
 						newBranch: options?.newBranch,
 						copyGitIgnores: options?.copyGitIgnores,
 						sourceWorktreePath,
+						location: await getWorktreeLocation(projectId),
+						recipe: {
+							projectId,
+							steps: prefs ? prefsRowToPrefs(prefs).worktreeRecipe : null,
+						},
 					},
 					await getGitProvider()
 				);
@@ -1078,6 +1291,7 @@ export function registerRepoHandlers(): void {
 					path: result.worktreePath,
 					copiedGitignoreCount: result.copiedGitignoreCount,
 					copyGitignoreError: result.copyGitignoreError,
+					recipe: result.recipe,
 				};
 			} catch (error) {
 				emitRepoError(projectId, error);
@@ -1093,8 +1307,56 @@ export function registerRepoHandlers(): void {
 			if (!project) return;
 			try {
 				const provider = await getGitProvider();
-				await removeWorktreeManager(project.path, worktreePath, provider, force);
+				const prefs = await getProjectPrefs(projectId);
+				const recipe = prefs ? prefsRowToPrefs(prefs).worktreeRecipe : null;
+				await removeWorktreeManager(project.path, worktreePath, provider, force, {
+					projectId,
+					commands: recipe?.preRemove ?? [],
+				});
+				emitRepoUpdated(projectId);
+			} catch (error) {
+				if (!(error instanceof OperationCancelledError)) emitRepoError(projectId, error);
+				throw error;
+			}
+		}
+	);
+
+	ipcMain.handle(
+		"repo:resolveWorktreePath",
+		async (_, projectId: string, branch: string): Promise<string> => {
+			const project = await getProject(projectId);
+			if (!project) throw new Error("Project not found");
+			return resolveWorktreePath(
+				project.path,
+				project.name,
+				branch,
+				await getWorktreeLocation(projectId)
+			);
+		}
+	);
+
+	ipcMain.handle(
+		"repo:moveWorktree",
+		async (_, projectId: string, worktreePath: string, newPath: string): Promise<string> => {
+			const project = await getProject(projectId);
+			if (!project) throw new Error("Project not found");
+			try {
+				const provider = await getGitProvider();
+				const worktrees = await listWorktreesManager(project.path, provider);
+				if (!worktrees.some((w) => w.path === worktreePath && !w.isMainWorktree)) {
+					throw new Error(`Not a linked worktree of ${project.name}: ${worktreePath}`);
+				}
+				const wasActive = (await getRepoPath(projectId)) === worktreePath;
+				const movedPath = await moveWorktreeManager(
+					project.path,
+					worktreePath,
+					newPath,
+					provider
+				);
+				await moveProjectPath(worktreePath, movedPath);
+				if (wasActive) watchProject(projectId, movedPath);
 				emitRepoUpdated(projectId);
+				return movedPath;
 			} catch (error) {
 				emitRepoError(projectId, error);
 				throw error;
@@ -1102,6 +1364,29 @@ export function registerRepoHandlers(): void {
 		}
 	);
 
+	ipcMain.handle(
+		"repo:getWorktreeDashboard",
+		async (_, projectId: string): Promise<WorktreeDashboard> => {
+			const project = await getProject(projectId);
+			if (!project) throw new Error("Project not found");
+			return getWorktreeDashboard(project.path, await getGitProvider());
+		}
+	);
+
+	ipcMain.handle(
+		"repo:openWorktreeInEditor",
+		async (_, projectId: string, worktreePath: string): Promise<void> => {
+			const project = await getProject(projectId);
+			if (!project) throw new Error("Project not found");
+			const worktrees = await listWorktreesManager(project.path, await getGitProvider());
+			if (!worktrees.some((w) => w.path === worktreePath)) {
+				throw new Error(`Not a worktree of ${project.name}: ${worktreePath}`);
+			}
+			const error = await shell.openPath(worktreePath);
+			if (error) throw new Error(error);
+		}
+	);
+
 	ipcMain.handle("repo:pruneWorktrees", async (_, projectId: string) => {
 		const project = await getProject(projectId);
 		if (!project) return;
@@ -1,34 +1,34 @@
 import { ipcMain, dialog } from "electron";
 import {
 	getAppSettings,
+	getAppSettingsForRenderer,
 	setAppSettings,
-	getAppSettingsWithKeys,
+	resolveApiKey,
 } from "../services/settings/store.js";
 import { validateGitBinary, discoverGitBinaries, getSshAgentInfo } from "../services/git/index.js";
 import { getProjectPrefs, setProjectPrefs } from "../services/cache/queries.js";
 import { prefsRowToPrefs } from "../services/cache/utils.js";
 import { fetchModelsFromProvider, type FetchModelsResult } from "../services/ai/models.js";
-import { getAllProviders } from "../services/ai/index.js";
+import { getAllProviders, getProviderInfo } from "../services/ai/index.js";
+import { getAIUsageReport } from "../services/ai/usage.js";
 import type {
 	AppSettings,
 	ProjectPrefs,
 	AIProviderType,
 	AIProviderDescriptor,
+	AIUsageReport,
 } from "../../shared/types.js";
 
 export function registerSettingsHandlers(): void {
 	ipcMain.handle("settings:getGlobal", async (): Promise<AppSettings> => {
-		return await getAppSettings();
-	});
-
-	ipcMain.handle("settings:getGlobalWithKeys", async (): Promise<AppSettings> => {
-		return getAppSettingsWithKeys();
+		return getAppSettingsForRenderer();
 	});
 
 	ipcMain.handle(
 		"settings:setGlobal",
 		async (_, partial: Partial<AppSettings>): Promise<AppSettings> => {
-			return setAppSettings(partial);
+			await setAppSettings(partial);
+			return getAppSettingsForRenderer();
 		}
 	);
 
@@ -89,6 +89,8 @@ export function registerSettingsHandlers(): void {
 		"cerebras",
 		"fireworks",
 		"openai-compatible",
+		"ollama",
+		"llamacpp",
 	];
 
 	function isValidUrl(url: string): boolean {
@@ -104,13 +106,19 @@ export function registerSettingsHandlers(): void {
 		return VALID_PROVIDER_TYPES.includes(type as AIProviderType);
 	}
 
+	function normalizeBaseURL(type: AIProviderType, baseURL: string | undefined): string {
+		const url = baseURL?.trim() || getProviderInfo(type)?.defaultBaseURL || "";
+		return url.replace(/\/+$/, "");
+	}
+
 	ipcMain.handle(
 		"settings:fetchModels",
 		async (
 			_,
 			type: AIProviderType,
 			apiKey: string,
-			baseURL?: string
+			baseURL?: string,
+			providerId?: string
 		): Promise<FetchModelsResult> => {
 			if (!isValidProviderType(type)) {
 				return { success: false, models: [], error: "Invalid provider type" };
@@ -122,7 +130,27 @@ export function registerSettingsHandlers(): void {
 					error: "Invalid base URL: must be http or https",
 				};
 			}
-			return fetchModelsFromProvider(type, apiKey, baseURL);
+			let key = apiKey;
+			if (providerId) {
+				const resolved = await resolveApiKey(providerId, apiKey);
+				const stored = (await getAppSettings()).ai.providers.find(
+					(provider) => provider.id === providerId
+				);
+				// A saved key only goes where it was saved for; the renderer picks type and URL
+				const sameTarget =
+					!!stored &&
+					stored.type === type &&
+					normalizeBaseURL(type, stored.baseURL) === normalizeBaseURL(type, baseURL);
+				if (resolved !== apiKey && !sameTarget) {
+					return {
+						success: false,
+						models: [],
+						error: "Enter the API key again to use it with a different provider or base URL",
+					};
+				}
+				key = resolved;
+			}
+			return fetchModelsFromProvider(type, key, baseURL);
 		}
 	);
 
@@ -131,6 +159,13 @@ export function registerSettingsHandlers(): void {
 			id: provider.id,
 			displayName: provider.displayName,
 			requiresBaseURL: provider.requiresBaseURL,
+			requiresApiKey: provider.requiresApiKey,
+			defaultBaseURL: provider.defaultBaseURL,
 		}));
 	});
+
+	ipcMain.handle("settings:getAIUsage", async (): Promise<AIUsageReport> => {
+		const settings = await getAppSettings();
+		return getAIUsageReport(settings.aiUsage);
+	});
 }
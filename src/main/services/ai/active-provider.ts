@@ -0,0 +1,45 @@
+import { getAppSettingsWithKeys } from "../settings/store.js";
+import { createAIProvider, getProviderInfo } from "./index.js";
+import { assertWithinBudget } from "./usage.js";
+import type { AIProvider } from "./types.js";
+import type { AIProviderInstance, AppSettings } from "../../../shared/types.js";
+
+export interface ActiveProvider {
+	instance: AIProviderInstance;
+	provider: AIProvider;
+	settings: AppSettings;
+}
+
+/**
+ * Builds the provider selected in Settings. API keys are read from the keychain here, in the
+ * main process, and never leave it. Every AI call goes through here, so this is also where the
+ * monthly budget is enforced.
+ */
+export async function resolveActiveProvider(): Promise<ActiveProvider> {
+	const settings = await getAppSettingsWithKeys();
+	const { activeProviderId, providers } = settings.ai;
+
+	if (!activeProviderId) throw new Error("No AI provider configured. Add one in Settings.");
+	const instance = providers.find((p) => p.id === activeProviderId);
+	if (!instance) throw new Error("AI provider not found. Reconfigure in Settings.");
+
+	const providerInfo = getProviderInfo(instance.type);
+	if (providerInfo?.requiresApiKey !== false && !instance.apiKey?.trim()) {
+		throw new Error("AI provider missing API key. Add it in Settings.");
+	}
+	if (!instance.defaultModel?.trim()) {
+		throw new Error("No model selected. Select a model for your AI provider in Settings.");
+	}
+	if (providerInfo?.requiresBaseURL && !instance.baseURL?.trim()) {
+		throw new Error("AI provider requires a Base URL. Configure it in Settings.");
+	}
+
+	await assertWithinBudget(settings.aiUsage);
+
+	const provider = createAIProvider(instance.type, {
+		apiKey: instance.apiKey,
+		baseURL: instance.baseURL,
+		model: instance.defaultModel,
+	});
+	return { instance, provider, settings };
+}
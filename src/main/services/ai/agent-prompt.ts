@@ -1,5 +1,6 @@
 import dedent from "dedent";
-import type { CommitStyle } from "../../../shared/types";
+import { formatCommitConventions, type CommitConventions } from "./commit-conventions.js";
+import type { CommitStyle } from "../../../shared/types.js";
 
 const COMMIT_STYLE_GUIDANCE: Record<CommitStyle, string> = {
 	conventional:
@@ -52,16 +53,29 @@ const BASE_SYSTEM_PROMPT = dedent`
 	## Mutating Tools (Allowed)
 
 	- stage_files, unstage_files, stage_all, unstage_all
-	- create_commit
+	- create_commit, amend_commit, undo_last_commit
+	- cherry_pick, revert_commits, merge_branch, rebase_onto, squash_commits
 	- stash_create, stash_apply, stash_pop
 	- fetch, pull, push
 	- switch_branch, create_branch
 	- create_tag, delete_tag, push_tag
 
+	## History Rewriting
+
+	- Only amend, undo, rebase or squash when the user asks for it.
+	- Check get_log first and never rewrite commits that are already pushed unless the user insists.
+	- Before an approved plan's first write, a checkpoint is recorded automatically; the user can
+	  roll the whole plan back from its plan card. Pushes are not undone by a rollback.
+
+	## Git Hooks
+
+	- Commits and pushes run the repository's hooks. When one fails, the error names the hook and
+	  its exit code; summarize the hook's output and propose fixing the cause.
+	- Set noVerify only when the user explicitly asks to skip hooks.
+
 	## Forbidden Scope
 
-	Do not perform destructive/history-rewrite actions.
-	Never propose or execute: force push, rebase, cherry-pick, branch delete, hard reset, discard-all.
+	Never propose or execute: force push, branch delete, hard reset, discard-all.
 `;
 
 const COMMUNICATION_STYLE = dedent`
@@ -72,8 +86,13 @@ const COMMUNICATION_STYLE = dedent`
 	- Report tool errors clearly and suggest the next safe step.
 `;
 
-export function buildGitAgentSystemPrompt(commitStyle: CommitStyle): string {
-	return `${BASE_SYSTEM_PROMPT}\n\n${buildCommitGuidance(commitStyle)}\n\n${COMMUNICATION_STYLE}`;
+export function buildGitAgentSystemPrompt(
+	commitStyle: CommitStyle,
+	conventions: CommitConventions = {}
+): string {
+	const projectRules = formatCommitConventions(conventions);
+	const guidance = projectRules
+		? `${buildCommitGuidance(commitStyle)}\n\n${projectRules}`
+		: buildCommitGuidance(commitStyle);
+	return `${BASE_SYSTEM_PROMPT}\n\n${guidance}\n\n${COMMUNICATION_STYLE}`;
 }
-
-export const GIT_AGENT_SYSTEM_PROMPT = buildGitAgentSystemPrompt("conventional");
@@ -0,0 +1,219 @@
+import type { WebContents } from "electron";
+import {
+	ToolLoopAgent,
+	convertToModelMessages,
+	stepCountIs,
+	validateUIMessages,
+	type InferUITools,
+	type UIDataTypes,
+	type UIMessage,
+} from "ai";
+import { resolveActiveProvider, type ActiveProvider } from "./active-provider.js";
+import { buildGitAgentSystemPrompt } from "./agent-prompt.js";
+import { recordAgentRun } from "./agent-sessions.js";
+import { createGitAgentTools, getApprovedPlan, getRepoPath } from "./agent-tools.js";
+import { loadCommitConventions } from "./commit-conventions.js";
+import { recordAIUsage } from "./usage.js";
+import type {
+	AgentRunEvent,
+	AgentStatus,
+	AgentTokenUsage,
+	AgentToolRun,
+} from "../../../shared/types.js";
+
+const AI_AGENT_EVENT = "ai:agentEvent";
+
+const TOOL_TIMEOUT_MS = 30_000;
+const AGENT_STEP_TIMEOUT_MS = 45_000;
+const AGENT_CHUNK_TIMEOUT_MS = 12_000;
+const MAX_AGENT_STEPS = 20;
+
+const activeRuns = new Map<string, AbortController>();
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			reject(new Error(`${label} timed out after ${timeoutMs}ms`));
+		}, timeoutMs);
+		promise.then(
+			(result) => {
+				clearTimeout(timer);
+				resolve(result);
+			},
+			(error: unknown) => {
+				clearTimeout(timer);
+				reject(error);
+			}
+		);
+	});
+}
+
+export async function getAgentStatus(): Promise<AgentStatus> {
+	try {
+		const { instance } = await resolveActiveProvider();
+		return {
+			ready: true,
+			provider: { name: instance.name, type: instance.type, model: instance.defaultModel },
+		};
+	} catch (error) {
+		return { ready: false, error: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+/**
+ * Runs one agent turn over the conversation so far and streams UI message chunks, tool run
+ * status and trace lines to `sender`. Resolves when the model stops or calls propose_actions,
+ * which the user answers before the renderer starts the next run. The conversation, the
+ * run's tool calls and its token usage are then saved to the session, and the usage to the
+ * AI usage log, even if the run fails.
+ */
+export async function runAgent(
+	runId: string,
+	projectId: string,
+	sessionId: string,
+	messages: UIMessage[],
+	sender: WebContents
+): Promise<void> {
+	const send = (event: AgentRunEvent) => {
+		if (!sender.isDestroyed()) sender.send(AI_AGENT_EVENT, event);
+	};
+	const trace = (level: "info" | "warn" | "error", message: string) =>
+		send({ runId, kind: "trace", level, message });
+	const finishedRuns: AgentToolRun[] = [];
+	const usage: AgentTokenUsage = { inputTokens: 0, outputTokens: 0 };
+	let conversation = messages;
+	let active: ActiveProvider | null = null;
+
+	const runTool = async <T>(
+		toolName: string,
+		ctx: { toolCallId?: string },
+		run: () => Promise<T>,
+		opts?: { timeout?: boolean }
+	): Promise<T> => {
+		const startedAt = Date.now();
+		const toolCallId = ctx.toolCallId ?? `${toolName}-${startedAt}`;
+		const toolRun: AgentToolRun = { toolName, toolCallId, status: "running", startedAt };
+		send({ runId, kind: "tool-run", run: toolRun });
+		trace("info", `${toolName}#${toolCallId} started`);
+		try {
+			const result =
+				opts?.timeout === false
+					? await run()
+					: await withTimeout(run(), TOOL_TIMEOUT_MS, `${toolName}#${toolCallId}`);
+			const endedAt = Date.now();
+			finishedRuns.push({ ...toolRun, status: "done", endedAt });
+			send({ runId, kind: "tool-run", run: { ...toolRun, status: "done", endedAt } });
+			trace("info", `${toolName}#${toolCallId} completed in ${endedAt - startedAt}ms`);
+			return result;
+		} catch (error) {
+			const endedAt = Date.now();
+			const message = error instanceof Error ? error.message : String(error);
+			const failedRun: AgentToolRun = {
+				...toolRun,
+				status: "failed",
+				endedAt,
+				error: message,
+			};
+			finishedRuns.push(failedRun);
+			send({ runId, kind: "tool-run", run: failedRun });
+			trace(
+				"error",
+				`${toolName}#${toolCallId} failed after ${endedAt - startedAt}ms: ${message}`
+			);
+			throw error;
+		}
+	};
+
+	const controller = new AbortController();
+	activeRuns.set(runId, controller);
+	try {
+		active = await resolveActiveProvider();
+		const { instance, provider, settings } = active;
+		trace(
+			"info",
+			`run started with provider=${instance.name} type=${instance.type} model=${instance.defaultModel}`
+		);
+		const tools = await createGitAgentTools(projectId, getApprovedPlan(messages), runTool);
+		const repoPath = await getRepoPath(projectId);
+		const conventions = repoPath ? await loadCommitConventions(repoPath) : {};
+		const agent = new ToolLoopAgent({
+			model: provider.getLanguageModel(),
+			instructions: buildGitAgentSystemPrompt(
+				settings.ai.commitStyle ?? "conventional",
+				conventions
+			),
+			tools,
+			stopWhen: stepCountIs(MAX_AGENT_STEPS),
+			timeout: {
+				stepMs: AGENT_STEP_TIMEOUT_MS,
+				chunkMs: AGENT_CHUNK_TIMEOUT_MS,
+			},
+			onStepFinish: (step) => {
+				usage.inputTokens += step.usage.inputTokens ?? 0;
+				usage.outputTokens += step.usage.outputTokens ?? 0;
+				const calledTools = step.toolCalls.map((call) => call.toolName).join(", ");
+				const resolvedTools = step.toolResults.map((result) => result.toolName).join(", ");
+				trace(
+					"info",
+					[
+						`step finished reason=${step.finishReason}`,
+						calledTools ? `calls=[${calledTools}]` : null,
+						resolvedTools ? `results=[${resolvedTools}]` : null,
+						step.warnings?.length ? `warnings=${step.warnings.length}` : null,
+					]
+						.filter(Boolean)
+						.join(" ")
+				);
+			},
+			onFinish: ({ finishReason, steps }) => {
+				trace("info", `agent loop finished reason=${finishReason} steps=${steps.length}`);
+			},
+		});
+
+		const validated = await validateUIMessages<
+			UIMessage<unknown, UIDataTypes, InferUITools<typeof tools>>
+		>({ messages, tools });
+		const result = await agent.stream({
+			prompt: await convertToModelMessages(validated, { tools }),
+			abortSignal: controller.signal,
+		});
+		const reader = result
+			.toUIMessageStream({
+				sendReasoning: true,
+				sendSources: true,
+				originalMessages: validated,
+				onFinish: ({ messages: updated }) => {
+					conversation = updated;
+				},
+				onError: (error) => (error instanceof Error ? error.message : String(error)),
+			})
+			.getReader();
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			send({ runId, kind: "chunk", chunk: value });
+		}
+	} finally {
+		activeRuns.delete(runId);
+		if (active) {
+			await recordAIUsage(
+				projectId,
+				"agent",
+				active.instance,
+				usage,
+				active.settings.aiUsage
+			).catch((error: unknown) => {
+				console.error("[runAgent] Failed to record usage:", error);
+			});
+		}
+		await recordAgentRun(sessionId, projectId, conversation, finishedRuns, usage).catch(
+			(error: unknown) => {
+				console.error("[runAgent] Failed to save session:", error);
+			}
+		);
+	}
+}
+
+export function abortAgentRun(runId: string): void {
+	activeRuns.get(runId)?.abort();
+}
@@ -0,0 +1,201 @@
+import type { UIMessage } from "ai";
+import {
+	getAgentSession,
+	getProject,
+	listAgentSessions,
+	setAgentSession,
+	type AgentSessionRow,
+	type AgentSessionSummaryRow,
+} from "../cache/queries.js";
+import type {
+	AgentPlanDecision,
+	AgentSession,
+	AgentSessionSummary,
+	AgentTokenUsage,
+	AgentToolRun,
+} from "../../../shared/types.js";
+
+const MAX_TITLE_LENGTH = 80;
+/** Tool payloads beyond this are cut in exports; diffs and logs would drown the conversation. */
+const MAX_EXPORT_PAYLOAD_CHARS = 2000;
+
+function rowToSummary(row: AgentSessionSummaryRow): AgentSessionSummary {
+	return {
+		id: row.id,
+		projectId: row.project_id,
+		title: row.title,
+		usage: { inputTokens: row.input_tokens, outputTokens: row.output_tokens },
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+function rowToSession(row: AgentSessionRow): AgentSession {
+	return {
+		...rowToSummary(row),
+		messages: JSON.parse(row.messages_json || "[]"),
+		toolRuns: JSON.parse(row.tool_runs_json || "[]"),
+		decisions: JSON.parse(row.decisions_json || "[]"),
+	};
+}
+
+function getMessageText(message: UIMessage): string {
+	return message.parts
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.join("")
+		.trim();
+}
+
+function getSessionTitle(messages: UIMessage[]): string {
+	const first = messages.find((message) => message.role === "user");
+	const line = (first ? getMessageText(first) : "").split("\n")[0]?.trim() ?? "";
+	if (!line) return "Untitled session";
+	return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+function getPlanDecisions(messages: UIMessage[]): AgentPlanDecision[] {
+	const decisions: AgentPlanDecision[] = [];
+	for (const message of messages) {
+		for (const part of message.parts) {
+			if (part.type !== "tool-propose_actions" || part.state !== "output-available") continue;
+			const output = part.output as Partial<AgentPlanDecision> | undefined;
+			if (output?.decision !== "approved" && output?.decision !== "revise") continue;
+			decisions.push({
+				toolCallId: part.toolCallId,
+				planId: output.planId ?? "",
+				decision: output.decision,
+				...(output.feedback ? { feedback: output.feedback } : {}),
+			});
+		}
+	}
+	return decisions;
+}
+
+export async function listSessions(projectId: string): Promise<AgentSessionSummary[]> {
+	const rows = await listAgentSessions(projectId);
+	return rows.map(rowToSummary);
+}
+
+export async function getSession(sessionId: string): Promise<AgentSession | null> {
+	const row = await getAgentSession(sessionId);
+	return row ? rowToSession(row) : null;
+}
+
+/**
+ * Stores the conversation after a run. Each run carries the whole conversation, so messages
+ * and decisions are replaced while tool runs and token usage accumulate across runs.
+ */
+export async function recordAgentRun(
+	sessionId: string,
+	projectId: string,
+	messages: UIMessage[],
+	toolRuns: AgentToolRun[],
+	usage: AgentTokenUsage
+): Promise<void> {
+	const existing = await getAgentSession(sessionId);
+	if (existing && existing.project_id !== projectId) {
+		throw new Error(`Agent session ${sessionId} belongs to another project`);
+	}
+	const now = Math.floor(Date.now() / 1000);
+	const previousRuns: AgentToolRun[] = existing ? JSON.parse(existing.tool_runs_json) : [];
+	await setAgentSession({
+		id: sessionId,
+		project_id: projectId,
+		title: existing?.title ?? getSessionTitle(messages),
+		messages_json: JSON.stringify(messages),
+		tool_runs_json: JSON.stringify([...previousRuns, ...toolRuns]),
+		decisions_json: JSON.stringify(getPlanDecisions(messages)),
+		input_tokens: (existing?.input_tokens ?? 0) + usage.inputTokens,
+		output_tokens: (existing?.output_tokens ?? 0) + usage.outputTokens,
+		created_at: existing?.created_at ?? now,
+		updated_at: now,
+	});
+}
+
+function formatPayload(value: unknown): string {
+	const raw = typeof value === "string" ? value : JSON.stringify(value, null, 2);
+	if (raw === undefined) return "";
+	return raw.length > MAX_EXPORT_PAYLOAD_CHARS
+		? `${raw.slice(0, MAX_EXPORT_PAYLOAD_CHARS)}\n… (${raw.length - MAX_EXPORT_PAYLOAD_CHARS} more characters)`
+		: raw;
+}
+
+function codeBlock(text: string, lang = ""): string {
+	const fence = text.includes("```") ? "````" : "```";
+	return `${fence}${lang}\n${text}\n${fence}`;
+}
+
+function formatPlan(input: unknown, decision: AgentPlanDecision | undefined): string[] {
+	const plan = (input ?? {}) as {
+		planId?: string;
+		summary?: string;
+		actions?: { tool: string; args?: unknown; reasoning?: string }[];
+	};
+	const lines = [
+		`**Proposed plan${plan.planId ? ` \`${plan.planId}\`` : ""}:** ${plan.summary ?? ""}`,
+		"",
+	];
+	plan.actions?.forEach((action, index) => {
+		const args = action.args === undefined ? "" : ` ${JSON.stringify(action.args)}`;
+		const reasoning = action.reasoning ? ` — ${action.reasoning}` : "";
+		lines.push(`${index + 1}. \`${action.tool}\`${args}${reasoning}`);
+	});
+	if (decision) {
+		const feedback = decision.feedback ? `: ${decision.feedback}` : "";
+		lines.push("", `**Decision:** ${decision.decision}${feedback}`);
+	} else {
+		lines.push("", "**Decision:** none");
+	}
+	return lines;
+}
+
+/** Renders a session as Markdown, suitable for attaching to a code review. */
+export async function exportSessionMarkdown(session: AgentSession): Promise<string> {
+	const project = await getProject(session.projectId);
+	const decisions = new Map(session.decisions.map((decision) => [decision.toolCallId, decision]));
+	const runs = new Map(session.toolRuns.map((run) => [run.toolCallId, run]));
+	const lines = [
+		`# ${session.title}`,
+		"",
+		...(project ? [`- Project: ${project.name} (\`${project.path}\`)`] : []),
+		`- Started: ${new Date(session.createdAt * 1000).toISOString()}`,
+		`- Last updated: ${new Date(session.updatedAt * 1000).toISOString()}`,
+		`- Tokens: ${session.usage.inputTokens} input, ${session.usage.outputTokens} output`,
+	];
+
+	for (const message of session.messages as UIMessage[]) {
+		if (message.role === "system") continue;
+		if (lines.at(-1) !== "") lines.push("");
+		lines.push(`## ${message.role === "user" ? "User" : "Agent"}`, "");
+		for (const part of message.parts) {
+			if (part.type === "text") {
+				if (part.text.trim()) lines.push(part.text.trim(), "");
+				continue;
+			}
+			if (part.type === "tool-propose_actions") {
+				lines.push(...formatPlan(part.input, decisions.get(part.toolCallId)), "");
+				continue;
+			}
+			if (!part.type.startsWith("tool-") || !("toolCallId" in part)) continue;
+			const toolName = part.type.slice("tool-".length);
+			const run = runs.get(part.toolCallId);
+			const status =
+				run?.status ??
+				(part.state === "output-error"
+					? "failed"
+					: part.state === "output-available"
+						? "done"
+						: "incomplete");
+			lines.push(`**Tool \`${toolName}\`** (${status})`, "");
+			if (part.input !== undefined && Object.keys(part.input ?? {}).length > 0) {
+				lines.push(codeBlock(formatPayload(part.input), "json"), "");
+			}
+			if (part.state === "output-available") {
+				lines.push("Result:", "", codeBlock(formatPayload(part.output)), "");
+			} else if (part.state === "output-error") {
+				lines.push(`Error: ${part.errorText}`, "");
+			}
+		}
+	}
+	return `${lines.join("\n").trimEnd()}\n`;
+}
@@ -0,0 +1,687 @@
+import { tool, type UIMessage } from "ai";
+import { z } from "zod";
+import { createGitProvider } from "../git/index.js";
+import type { GitProvider } from "../git/types.js";
+import { runHookedAction } from "../git/hook-run.js";
+import { getProject, getProjectPrefs, invalidateProjectCache } from "../cache/queries.js";
+import { getAppSettings } from "../settings/store.js";
+import { emitConflictDetected, emitRepoUpdated } from "../../ipc/events.js";
+
+export type AgentRunTool = <T>(
+	toolName: string,
+	ctx: { toolCallId?: string },
+	run: () => Promise<T>,
+	opts?: { timeout?: boolean }
+) => Promise<T>;
+
+export async function getRepoPath(projectId: string): Promise<string | null> {
+	const project = await getProject(projectId);
+	if (!project) return null;
+	const prefs = await getProjectPrefs(projectId);
+	const activePath = prefs?.active_worktree_path;
+	return activePath && activePath.trim() !== "" ? activePath : project.path;
+}
+
+export interface ApprovedPlan {
+	planId: string;
+	/** The propose_actions call the user approved; also names the plan's checkpoint */
+	toolCallId: string;
+}
+
+/**
+ * Finds the plan the user just approved. Only the latest propose_actions call counts: a newer
+ * proposal, or a request to revise, withdraws any earlier approval. The approval only holds
+ * for the run that directly follows the decision, so it must sit in the last message with no
+ * step after it; a later message or run, including one in a reopened session, needs a new one.
+ */
+export function getApprovedPlan(messages: UIMessage[]): ApprovedPlan | null {
+	let approved: ApprovedPlan | null = null;
+	for (const [index, message] of messages.entries()) {
+		if (message.role !== "assistant") continue;
+		const isLast = index === messages.length - 1;
+		for (const part of message.parts) {
+			if (part.type === "step-start") {
+				approved = null;
+				continue;
+			}
+			if (part.type !== "tool-propose_actions") continue;
+			const output =
+				"output" in part ? (part.output as { decision?: string; planId?: string }) : null;
+			approved =
+				isLast &&
+				part.state === "output-available" &&
+				output?.decision === "approved" &&
+				output.planId
+					? { planId: output.planId, toolCallId: part.toolCallId }
+					: null;
+		}
+	}
+	return approved;
+}
+
+function assertApprovedPlan(planId: string, approved: ApprovedPlan | null): ApprovedPlan {
+	if (!planId.trim()) {
+		throw new Error("Missing planId. Request approval with propose_actions first.");
+	}
+	if (!approved) {
+		throw new Error("No approved plan available. Call propose_actions and wait for approval.");
+	}
+	if (approved.planId !== planId) {
+		throw new Error(
+			`planId "${planId}" is not approved. Current approved planId is "${approved.planId}".`
+		);
+	}
+	return approved;
+}
+
+async function emitConflictsIfAny(projectId: string, git: GitProvider, cwd: string): Promise<void> {
+	try {
+		const state = await git.getConflictState(cwd);
+		if (!state || state.conflictFiles.length === 0) return;
+		emitConflictDetected(projectId, state);
+	} catch (error) {
+		console.error("[agent-tools] Failed to check conflicts:", error);
+	}
+}
+
+/**
+ * Git tools for the agent, run against the project's active worktree. Write tools only run
+ * once the user has approved the plan they belong to, and the plan's first write records a
+ * checkpoint the user can roll the whole plan back to.
+ */
+export async function createGitAgentTools(
+	projectId: string,
+	approvedPlan: ApprovedPlan | null,
+	runTool: AgentRunTool
+) {
+	const cwd = await getRepoPath(projectId);
+	if (!cwd) throw new Error("Project not found");
+	const settings = await getAppSettings();
+	const git = createGitProvider(settings);
+
+	const runWriteTool = async <T>(
+		toolName: string,
+		planId: string,
+		ctx: { toolCallId?: string },
+		run: () => Promise<T>,
+		opts?: { emitConflicts?: boolean }
+	): Promise<T> => {
+		// Writes aren't raced against the tool timeout: git keeps running after the timeout
+		// rejects, so the agent would move on mid-rebase. Git's own timeouts bound them instead.
+		return runTool(
+			toolName,
+			ctx,
+			async () => {
+				const plan = assertApprovedPlan(planId, approvedPlan);
+				if (!(await git.getCheckpoint(cwd, plan.toolCallId))) {
+					await git.createCheckpoint(cwd, plan.toolCallId);
+				}
+				try {
+					return await run();
+				} finally {
+					await invalidateProjectCache(projectId);
+					emitRepoUpdated(projectId);
+					if (opts?.emitConflicts) await emitConflictsIfAny(projectId, git, cwd);
+				}
+			},
+			{ timeout: false }
+		);
+	};
+
+	return {
+		get_status: tool({
+			description:
+				"Get current repository status including branch plus staged, unstaged, and untracked files",
+			inputSchema: z.object({}),
+			execute: async (_, ctx) =>
+				runTool("get_status", ctx, async () => {
+					const status = await git.getStatus(cwd);
+					return (
+						status ?? {
+							headOid: "",
+							branch: "",
+							staged: [],
+							unstaged: [],
+							untracked: [],
+						}
+					);
+				}),
+		}),
+
+		get_all_diffs: tool({
+			description: "Get diffs for all changed files",
+			inputSchema: z.object({}),
+			execute: async (_, ctx) =>
+				runTool("get_all_diffs", ctx, async () => {
+					const status = await git.getStatus(cwd);
+					if (!status) return [];
+					const entries = [
+						...status.staged.map((f) => ({ path: f.path, scope: "staged" as const })),
+						...status.unstaged.map((f) => ({
+							path: f.path,
+							scope: "unstaged" as const,
+						})),
+						...status.untracked.map((f) => ({
+							path: f.path,
+							scope: "untracked" as const,
+						})),
+					];
+					const diffs = await Promise.all(
+						entries.map(async (entry) => {
+							const diff = await git.getPatch({
+								cwd,
+								filePath: entry.path,
+								scope: entry.scope,
+							});
+							return diff != null ? { ...entry, diff } : null;
+						})
+					);
+					return diffs.filter((entry) => entry != null);
+				}),
+		}),
+
+		get_file_diff: tool({
+			description: "Get diff for a specific file and scope",
+			inputSchema: z.object({
+				filePath: z.string(),
+				scope: z.enum(["staged", "unstaged", "untracked"]),
+			}),
+			execute: async ({ filePath, scope }, ctx) =>
+				runTool("get_file_diff", ctx, async () => {
+					return (await git.getPatch({ cwd, filePath, scope })) ?? "";
+				}),
+		}),
+
+		get_log: tool({
+			description: "Get recent commit history",
+			inputSchema: z.object({
+				limit: z.number().int().positive().max(100).optional(),
+			}),
+			execute: async ({ limit }, ctx) =>
+				runTool("get_log", ctx, async () => {
+					return await git.getLog(cwd, { limit: limit ?? 20 });
+				}),
+		}),
+
+		list_branches: tool({
+			description: "List local branches and tracking/ahead/behind info",
+			inputSchema: z.object({}),
+			execute: async (_, ctx) =>
+				runTool("list_branches", ctx, async () => {
+					return await git.listBranches(cwd);
+				}),
+		}),
+
+		list_remotes: tool({
+			description: "List configured remotes",
+			inputSchema: z.object({}),
+			execute: async (_, ctx) =>
+				runTool("list_remotes", ctx, async () => {
+					return await git.listRemotes(cwd);
+				}),
+		}),
+
+		list_stash: tool({
+			description: "List stash entries",
+			inputSchema: z.object({}),
+			execute: async (_, ctx) =>
+				runTool("list_stash", ctx, async () => {
+					return await git.stashList(cwd);
+				}),
+		}),
+
+		list_tags: tool({
+			description: "List git tags in the repository",
+			inputSchema: z.object({}),
+			execute: async (_, ctx) =>
+				runTool("list_tags", ctx, async () => {
+					return await git.listTags(cwd);
+				}),
+		}),
+
+		stage_files: tool({
+			description: "Stage specific files",
+			inputSchema: z.object({
+				planId: z.string(),
+				paths: z.array(z.string()).min(1),
+			}),
+			execute: async ({ planId, paths }, ctx) =>
+				runWriteTool("stage_files", planId, ctx, async () => {
+					await git.stageFiles(cwd, paths);
+					return { success: true, staged: paths };
+				}),
+		}),
+
+		unstage_files: tool({
+			description: "Unstage specific files",
+			inputSchema: z.object({
+				planId: z.string(),
+				paths: z.array(z.string()).min(1),
+			}),
+			execute: async ({ planId, paths }, ctx) =>
+				runWriteTool("unstage_files", planId, ctx, async () => {
+					await git.unstageFiles(cwd, paths);
+					return { success: true, unstaged: paths };
+				}),
+		}),
+
+		stage_all: tool({
+			description: "Stage all changed files",
+			inputSchema: z.object({
+				planId: z.string(),
+			}),
+			execute: async ({ planId }, ctx) =>
+				runWriteTool("stage_all", planId, ctx, async () => {
+					await git.stageAll(cwd);
+					return { success: true };
+				}),
+		}),
+
+		unstage_all: tool({
+			description: "Unstage all staged files",
+			inputSchema: z.object({
+				planId: z.string(),
+			}),
+			execute: async ({ planId }, ctx) =>
+				runWriteTool("unstage_all", planId, ctx, async () => {
+					await git.unstageAll(cwd);
+					return { success: true };
+				}),
+		}),
+
+		create_commit: tool({
+			description:
+				"Create a git commit from current staged files. noVerify skips the pre-commit and commit-msg hooks; set it only when the user asks to skip hooks",
+			inputSchema: z.object({
+				planId: z.string(),
+				message: z.string().min(1),
+				amend: z.boolean().optional(),
+				noVerify: z.boolean().optional(),
+			}),
+			execute: async ({ planId, message, amend, noVerify }, ctx) =>
+				runWriteTool("create_commit", planId, ctx, async () => {
+					return await runHookedAction(
+						projectId,
+						git,
+						cwd,
+						"commit",
+						noVerify,
+						(onOutput) =>
+							git.commit(cwd, {
+								message,
+								amend,
+								sign: settings.signing.enabled,
+								noVerify,
+								onOutput,
+							})
+					);
+				}),
+		}),
+
+		amend_commit: tool({
+			description:
+				"Amend the last commit with the currently staged files, optionally replacing its message. noVerify skips the pre-commit and commit-msg hooks; set it only when the user asks to skip hooks",
+			inputSchema: z.object({
+				planId: z.string(),
+				message: z.string().min(1).optional(),
+				noVerify: z.boolean().optional(),
+			}),
+			execute: async ({ planId, message, noVerify }, ctx) =>
+				runWriteTool("amend_commit", planId, ctx, async () => {
+					let nextMessage = message;
+					if (!nextMessage) {
+						const head = await git.getCommitDetail(cwd, "HEAD");
+						if (!head) throw new Error("There is no commit to amend");
+						nextMessage = [head.message, head.body.trim()].filter(Boolean).join("\n\n");
+					}
+					return await runHookedAction(
+						projectId,
+						git,
+						cwd,
+						"commit",
+						noVerify,
+						(onOutput) =>
+							git.commit(cwd, {
+								message: nextMessage,
+								amend: true,
+								sign: settings.signing.enabled,
+								noVerify,
+								onOutput,
+							})
+					);
+				}),
+		}),
+
+		undo_last_commit: tool({
+			description: "Undo the last commit, keeping its changes staged",
+			inputSchema: z.object({
+				planId: z.string(),
+			}),
+			execute: async ({ planId }, ctx) =>
+				runWriteTool("undo_last_commit", planId, ctx, async () => {
+					await git.undoLastCommit(cwd);
+					return { success: true };
+				}),
+		}),
+
+		cherry_pick: tool({
+			description: "Cherry-pick one or more commits onto the current branch, oldest first",
+			inputSchema: z.object({
+				planId: z.string(),
+				refs: z.array(z.string()).min(1),
+			}),
+			execute: async ({ planId, refs }, ctx) =>
+				runWriteTool(
+					"cherry_pick",
+					planId,
+					ctx,
+					async () => {
+						await git.cherryPick(cwd, refs);
+						return { success: true, picked: refs };
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		revert_commits: tool({
+			description: "Create commits that revert one or more earlier commits",
+			inputSchema: z.object({
+				planId: z.string(),
+				refs: z.array(z.string()).min(1),
+			}),
+			execute: async ({ planId, refs }, ctx) =>
+				runWriteTool(
+					"revert_commits",
+					planId,
+					ctx,
+					async () => {
+						await git.revertCommits(cwd, refs);
+						return { success: true, reverted: refs };
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		merge_branch: tool({
+			description: "Merge another branch into the current branch",
+			inputSchema: z.object({
+				planId: z.string(),
+				source: z.string(),
+				noFf: z.boolean().optional(),
+				squash: z.boolean().optional(),
+				message: z.string().optional(),
+			}),
+			execute: async ({ planId, source, noFf, squash, message }, ctx) =>
+				runWriteTool(
+					"merge_branch",
+					planId,
+					ctx,
+					async () => {
+						await git.mergeBranch(cwd, source, { noFf, squash, message });
+						return { success: true, merged: source };
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		rebase_onto: tool({
+			description: "Rebase the current branch onto another branch or commit",
+			inputSchema: z.object({
+				planId: z.string(),
+				onto: z.string(),
+			}),
+			execute: async ({ planId, onto }, ctx) =>
+				runWriteTool(
+					"rebase_onto",
+					planId,
+					ctx,
+					async () => {
+						await git.rebase(cwd, { onto });
+						return { success: true, onto };
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		squash_commits: tool({
+			description:
+				"Squash the last `count` commits of the current branch into one commit with a new message",
+			inputSchema: z.object({
+				planId: z.string(),
+				count: z.number().int().min(2).max(50),
+				message: z.string().min(1),
+			}),
+			execute: async ({ planId, count, message }, ctx) =>
+				runWriteTool(
+					"squash_commits",
+					planId,
+					ctx,
+					async () => {
+						const log = await git.getLog(cwd, { limit: count + 1 });
+						const base = log[count];
+						if (!base) throw new Error("Cannot squash into the root commit");
+						const squashed = log.slice(0, count).reverse();
+						if (squashed.some((commit) => commit.parents.length > 1)) {
+							throw new Error("Cannot squash across merge commits");
+						}
+						await git.rebase(cwd, {
+							onto: base.oid,
+							todo: squashed.map((commit, index) => ({
+								oid: commit.oid,
+								action: index === 0 ? "reword" : "fixup",
+								message: index === 0 ? message : undefined,
+							})),
+						});
+						return { success: true, squashed: count };
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		stash_create: tool({
+			description: "Create a stash entry",
+			inputSchema: z.object({
+				planId: z.string(),
+				message: z.string().optional(),
+				includeUntracked: z.boolean().optional(),
+			}),
+			execute: async ({ planId, message, includeUntracked }, ctx) =>
+				runWriteTool("stash_create", planId, ctx, async () => {
+					await git.stash(cwd, { message, includeUntracked });
+					return { success: true };
+				}),
+		}),
+
+		stash_apply: tool({
+			description: "Apply a stash entry",
+			inputSchema: z.object({
+				planId: z.string(),
+				index: z.number().int().min(0).optional(),
+			}),
+			execute: async ({ planId, index }, ctx) =>
+				runWriteTool(
+					"stash_apply",
+					planId,
+					ctx,
+					async () => {
+						await git.stashApply(cwd, index);
+						return { success: true, index };
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		stash_pop: tool({
+			description: "Pop a stash entry",
+			inputSchema: z.object({
+				planId: z.string(),
+				index: z.number().int().min(0).optional(),
+			}),
+			execute: async ({ planId, index }, ctx) =>
+				runWriteTool(
+					"stash_pop",
+					planId,
+					ctx,
+					async () => {
+						await git.stashPop(cwd, index);
+						return { success: true, index };
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		fetch: tool({
+			description: "Fetch from remote",
+			inputSchema: z.object({
+				planId: z.string(),
+				remote: z.string().optional(),
+				prune: z.boolean().optional(),
+			}),
+			execute: async ({ planId, remote, prune }, ctx) =>
+				runWriteTool("fetch", planId, ctx, async () => {
+					return await git.fetch(cwd, { remote, prune });
+				}),
+		}),
+
+		pull: tool({
+			description: "Pull from remote",
+			inputSchema: z.object({
+				planId: z.string(),
+				remote: z.string().optional(),
+				branch: z.string().optional(),
+				rebase: z.boolean().optional(),
+			}),
+			execute: async ({ planId, remote, branch, rebase }, ctx) =>
+				runWriteTool(
+					"pull",
+					planId,
+					ctx,
+					async () => {
+						return await git.pull(cwd, { remote, branch, rebase });
+					},
+					{ emitConflicts: true }
+				),
+		}),
+
+		push: tool({
+			description:
+				"Push to remote. noVerify skips the pre-push hook; set it only when the user asks to skip hooks",
+			inputSchema: z.object({
+				planId: z.string(),
+				remote: z.string().optional(),
+				branch: z.string().optional(),
+				setUpstream: z.boolean().optional(),
+				noVerify: z.boolean().optional(),
+			}),
+			execute: async ({ planId, remote, branch, setUpstream, noVerify }, ctx) =>
+				runWriteTool("push", planId, ctx, async () => {
+					return await runHookedAction(
+						projectId,
+						git,
+						cwd,
+						"push",
+						noVerify,
+						(onOutput) =>
+							git.push(cwd, { remote, branch, setUpstream, noVerify, onOutput })
+					);
+				}),
+		}),
+
+		switch_branch: tool({
+			description: "Switch to another branch",
+			inputSchema: z.object({
+				planId: z.string(),
+				name: z.string(),
+			}),
+			execute: async ({ planId, name }, ctx) =>
+				runWriteTool("switch_branch", planId, ctx, async () => {
+					await git.switchBranch(cwd, name);
+					return { success: true, branch: name };
+				}),
+		}),
+
+		create_branch: tool({
+			description: "Create a new branch",
+			inputSchema: z.object({
+				planId: z.string(),
+				name: z.string(),
+				startPoint: z.string().optional(),
+			}),
+			execute: async ({ planId, name, startPoint }, ctx) =>
+				runWriteTool("create_branch", planId, ctx, async () => {
+					await git.createBranch(cwd, name, startPoint);
+					return { success: true, branch: name, startPoint: startPoint ?? null };
+				}),
+		}),
+
+		create_tag: tool({
+			description: "Create a git tag at a commit or ref",
+			inputSchema: z.object({
+				planId: z.string(),
+				name: z.string(),
+				message: z.string().optional(),
+				ref: z.string().optional(),
+			}),
+			execute: async ({ planId, name, message, ref }, ctx) =>
+				runWriteTool("create_tag", planId, ctx, async () => {
+					await git.createTag(cwd, name, { message, ref });
+					return { success: true, tag: name, ref: ref ?? "HEAD" };
+				}),
+		}),
+
+		delete_tag: tool({
+			description: "Delete a git tag",
+			inputSchema: z.object({
+				planId: z.string(),
+				name: z.string(),
+			}),
+			execute: async ({ planId, name }, ctx) =>
+				runWriteTool("delete_tag", planId, ctx, async () => {
+					await git.deleteTag(cwd, name);
+					return { success: true, deleted: name };
+				}),
+		}),
+
+		push_tag: tool({
+			description: "Push one or more tags to the remote",
+			inputSchema: z.object({
+				planId: z.string(),
+				tags: z.array(z.string()).min(1),
+				remote: z.string().optional(),
+			}),
+			execute: async ({ planId, tags, remote }, ctx) =>
+				runWriteTool("push_tag", planId, ctx, async () => {
+					const result = await git.pushTags(cwd, { tags, remote });
+					return {
+						success: true,
+						tagsPushed: result.tagsPushed,
+						tags: tags,
+					};
+				}),
+		}),
+
+		// No execute: the call ends the run and the user answers it from the renderer
+		propose_actions: tool({
+			description:
+				"Present an action plan and wait for approval before any mutating tool call. Always call this before writes.",
+			inputSchema: z.object({
+				planId: z.string(),
+				summary: z.string(),
+				actions: z.array(
+					z.object({
+						id: z.string().optional(),
+						type: z.enum(["read", "write"]).optional(),
+						tool: z.string(),
+						args: z.union([z.string(), z.record(z.string(), z.unknown())]).optional(),
+						reasoning: z.string().optional(),
+					})
+				),
+			}),
+			outputSchema: z.object({
+				decision: z.enum(["approved", "revise"]),
+				planId: z.string(),
+				feedback: z.string().optional(),
+			}),
+		}),
+	};
+}
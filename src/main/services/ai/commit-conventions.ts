@@ -0,0 +1,186 @@
+import { readFile } from "fs/promises";
+import { isAbsolute, join } from "path";
+import safeRegex from "safe-regex2";
+import { resolveGitBinary } from "../git/index.js";
+import { createGitClient } from "../git/runner.js";
+import { getAppSettings } from "../settings/store.js";
+import type { CommitLintRule } from "../../../shared/types.js";
+
+/** Checked-in project config at the repository root. */
+export const PROJECT_CONFIG_FILE = ".gitagen.json";
+
+/** Matches keys like `ABC-123` at the start of the branch name or of a path segment. */
+const DEFAULT_ISSUE_KEY_PATTERN = "(?:^|/)([A-Z][A-Z0-9]+-\\d+)";
+
+export interface CommitConventions {
+	/** Extra instructions for the model, on top of the selected commit style */
+	prompt?: string;
+	/** Allowed commit types, e.g. `feat`, `fix` */
+	types?: string[];
+	/** Allowed scopes */
+	scopes?: string[];
+	/** Issue key taken from the current branch; every subject starts with `<key>: ` */
+	issueKey?: string;
+	/** Body layout to follow, from `.gitagen.json` or git's `commit.template` */
+	bodyTemplate?: string;
+	/** Extra lint rules; see `lintCommitMessage` */
+	lintRules?: CommitLintRule[];
+}
+
+/**
+ * Shape of the `commit` section in `.gitagen.json`. `issueKey` is `true` for the default
+ * pattern, or a regex whose first capture group (or whole match) is the key.
+ */
+interface CommitConfigFile {
+	prompt?: unknown;
+	types?: unknown;
+	scopes?: unknown;
+	issueKey?: unknown;
+	bodyTemplate?: unknown;
+	lint?: unknown;
+}
+
+function stringList(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const list = value.filter((item): item is string => typeof item === "string" && !!item.trim());
+	return list.length > 0 ? list.map((item) => item.trim()) : undefined;
+}
+
+function nonEmpty(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function lintRules(value: unknown): CommitLintRule[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const rules: CommitLintRule[] = [];
+	for (const item of value) {
+		const rule = (item ?? {}) as Record<string, unknown>;
+		if (typeof rule.pattern !== "string" || typeof rule.message !== "string") continue;
+		rules.push({
+			pattern: rule.pattern,
+			message: rule.message,
+			target: rule.target === "body" || rule.target === "message" ? rule.target : "subject",
+			forbid: rule.forbid === true,
+			severity: rule.severity === "error" ? "error" : "warning",
+		});
+	}
+	return rules.length > 0 ? rules : undefined;
+}
+
+async function readCommitConfig(cwd: string): Promise<CommitConfigFile | null> {
+	let raw: string;
+	try {
+		raw = await readFile(join(cwd, PROJECT_CONFIG_FILE), "utf-8");
+	} catch {
+		return null;
+	}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		throw new Error(`${PROJECT_CONFIG_FILE} is not valid JSON: ${reason}`);
+	}
+	const commit = (parsed as { commit?: unknown } | null)?.commit;
+	return commit && typeof commit === "object" ? (commit as CommitConfigFile) : null;
+}
+
+export function getIssueKey(
+	branch: string,
+	pattern: string = DEFAULT_ISSUE_KEY_PATTERN
+): string | null {
+	let regex: RegExp;
+	try {
+		regex = new RegExp(pattern);
+	} catch {
+		throw new Error(
+			`${PROJECT_CONFIG_FILE}: commit.issueKey is not a valid regular expression`
+		);
+	}
+	if (!safeRegex(regex)) {
+		throw new Error(
+			`${PROJECT_CONFIG_FILE}: commit.issueKey may take exponential time; simplify its nested repetition`
+		);
+	}
+	const match = branch.match(regex);
+	if (!match) return null;
+	return (match[1] ?? match[0]).trim() || null;
+}
+
+/**
+ * Reads the repository's commit conventions: the `commit` section of `.gitagen.json`, with git's
+ * `commit.template` as the body template when the file does not set one.
+ */
+export async function loadCommitConventions(cwd: string): Promise<CommitConventions> {
+	const settings = await getAppSettings();
+	const git = createGitClient(cwd, { binary: resolveGitBinary(settings.gitBinaryPath) });
+	const config = await readCommitConfig(cwd);
+	const conventions: CommitConventions = {
+		prompt: nonEmpty(config?.prompt),
+		types: stringList(config?.types),
+		scopes: stringList(config?.scopes),
+		bodyTemplate: nonEmpty(config?.bodyTemplate),
+		lintRules: lintRules(config?.lint),
+	};
+
+	if (config?.issueKey === true || typeof config?.issueKey === "string") {
+		// symbolic-ref also names unborn branches; it fails when HEAD is detached
+		const branch = await git
+			.raw(["symbolic-ref", "--short", "HEAD"])
+			.then((name) => name.trim())
+			.catch(() => "");
+		const pattern = config.issueKey === true ? undefined : config.issueKey;
+		const key = branch ? getIssueKey(branch, pattern) : null;
+		if (key) conventions.issueKey = key;
+	}
+
+	if (!conventions.bodyTemplate) {
+		// --path expands a leading ~; relative paths are relative to the repository root
+		const templatePath = await git
+			.raw(["config", "--path", "--get", "commit.template"])
+			.then((value) => value.trim())
+			.catch(() => "");
+		if (templatePath) {
+			const template = await readFile(
+				isAbsolute(templatePath) ? templatePath : join(cwd, templatePath),
+				"utf-8"
+			).catch(() => "");
+			conventions.bodyTemplate = nonEmpty(template);
+		}
+	}
+	return conventions;
+}
+
+/** Prompt section describing the conventions, or an empty string when there are none. */
+export function formatCommitConventions(conventions: CommitConventions): string {
+	const rules: string[] = [];
+	if (conventions.issueKey) {
+		rules.push(`- Start every subject line with "${conventions.issueKey}: ".`);
+	}
+	if (conventions.types) {
+		rules.push(`- Allowed commit types: ${conventions.types.join(", ")}. Use no other type.`);
+	}
+	if (conventions.scopes) {
+		rules.push(
+			`- Allowed scopes: ${conventions.scopes.join(", ")}. Leave the scope out rather than invent one.`
+		);
+	}
+	if (conventions.bodyTemplate) {
+		rules.push(
+			"- Lay out the body following this template. Lines starting with # are guidance and must not appear in the message:",
+			"```",
+			conventions.bodyTemplate.trimEnd(),
+			"```"
+		);
+	}
+	if (conventions.prompt) rules.push(conventions.prompt.trim());
+	if (rules.length === 0) return "";
+	return `## Project Conventions\nThese come from the repository and take precedence over the rules above.\n${rules.join("\n")}`;
+}
+
+/** Models do not always remember the prefix, so make sure the subject carries it. */
+export function applyIssueKey(message: string, conventions: CommitConventions): string {
+	const key = conventions.issueKey;
+	if (!key || message.startsWith(key)) return message;
+	return `${key}: ${message}`;
+}
@@ -0,0 +1,286 @@
+import safeRegex from "safe-regex2";
+import { resolveGitBinary } from "../git/index.js";
+import { createGitClient } from "../git/runner.js";
+import { getAppSettings } from "../settings/store.js";
+import {
+	loadCommitConventions,
+	PROJECT_CONFIG_FILE,
+	type CommitConventions,
+} from "./commit-conventions.js";
+import type { CommitLintIssue, CommitLintRule, CommitStyle } from "../../../shared/types.js";
+
+const MAX_SUBJECT_LENGTH = 72;
+const MAX_BODY_LINE_LENGTH = 80;
+
+/** Types accepted under the conventional style when the project does not list its own. */
+const CONVENTIONAL_TYPES = [
+	"feat",
+	"fix",
+	"docs",
+	"style",
+	"refactor",
+	"perf",
+	"test",
+	"build",
+	"ci",
+	"chore",
+	"revert",
+];
+
+const CONVENTIONAL_SUBJECT = /^([A-Za-z]+)(?:\(([^()]+)\))?(!)?: (\S.*)$/;
+const EMOJI_PREFIX = /^(?:\p{Extended_Pictographic}\uFE0F?|:[a-z0-9_+-]+:)\s*/u;
+/** Words ending in "ed" that are not past tense. */
+const NOT_PAST_TENSE = new Set([
+	"bed",
+	"embed",
+	"exceed",
+	"feed",
+	"need",
+	"proceed",
+	"red",
+	"seed",
+	"shed",
+	"shred",
+	"speed",
+	"succeed",
+]);
+
+export interface LintCommitMessageOptions {
+	/**
+	 * Lines starting with this character are dropped before linting. Git only strips comments
+	 * from messages it opens in an editor or with `commit.cleanup=strip`; `commit -m` keeps them.
+	 */
+	commentChar?: string;
+}
+
+/** Drops the surrounding blank lines, and the comment lines when given, that git strips on commit. */
+function cleanMessage(message: string, commentChar?: string): string[] {
+	const lines = message
+		.split(/\r?\n/)
+		.filter((line) => !commentChar || !line.startsWith(commentChar))
+		.map((line) => line.trimEnd());
+	while (lines.length > 0 && lines[0] === "") lines.shift();
+	while (lines.length > 0 && lines.at(-1) === "") lines.pop();
+	return lines;
+}
+
+function lintStyle(
+	description: string,
+	style: CommitStyle,
+	conventions: CommitConventions
+): { issues: CommitLintIssue[]; description: string } {
+	const issues: CommitLintIssue[] = [];
+	if (style === "conventional") {
+		const match = description.match(CONVENTIONAL_SUBJECT);
+		if (!match) {
+			issues.push({
+				rule: "conventional-format",
+				severity: "warning",
+				message: "Subject does not follow Conventional Commits: type(scope): description",
+				line: 1,
+			});
+			return { issues, description };
+		}
+		const [, type, scope, , rest] = match;
+		const types = conventions.types ?? CONVENTIONAL_TYPES;
+		if (!types.includes(type!)) {
+			issues.push({
+				rule: "type-enum",
+				severity: "warning",
+				message: `Unknown type "${type}"; use one of ${types.join(", ")}`,
+				line: 1,
+			});
+		}
+		if (scope && conventions.scopes && !conventions.scopes.includes(scope)) {
+			issues.push({
+				rule: "scope-enum",
+				severity: "warning",
+				message: `Unknown scope "${scope}"; use one of ${conventions.scopes.join(", ")}`,
+				line: 1,
+			});
+		}
+		return { issues, description: rest! };
+	}
+	if (style === "emoji") {
+		const match = description.match(EMOJI_PREFIX);
+		if (!match) {
+			issues.push({
+				rule: "subject-emoji",
+				severity: "warning",
+				message: "Subject should start with an emoji",
+				line: 1,
+			});
+			return { issues, description };
+		}
+		return { issues, description: description.slice(match[0].length) };
+	}
+	return { issues, description };
+}
+
+function lintCustomRule(
+	rule: CommitLintRule,
+	subject: string,
+	body: string,
+	message: string
+): CommitLintIssue | null {
+	let regex: RegExp;
+	try {
+		regex = new RegExp(rule.pattern, "m");
+	} catch {
+		return {
+			rule: "custom",
+			severity: "error",
+			message: `${PROJECT_CONFIG_FILE}: lint pattern "${rule.pattern}" is not a valid regular expression`,
+		};
+	}
+	// Lints run on every keystroke, so a pattern that can backtrack exponentially is never run
+	if (!safeRegex(regex)) {
+		return {
+			rule: "custom",
+			severity: "error",
+			message: `${PROJECT_CONFIG_FILE}: lint pattern "${rule.pattern}" may take exponential time; simplify its nested repetition`,
+		};
+	}
+	const text = rule.target === "subject" ? subject : rule.target === "body" ? body : message;
+	if (regex.test(text) !== rule.forbid) return null;
+	return {
+		rule: "custom",
+		severity: rule.severity,
+		message: rule.message,
+		...(rule.target === "subject" ? { line: 1 } : {}),
+	};
+}
+
+/**
+ * Checks a commit message against the shared message rules, the commit style and the project's
+ * conventions.
+ */
+export function lintCommitMessage(
+	message: string,
+	style: CommitStyle,
+	conventions: CommitConventions = {},
+	options: LintCommitMessageOptions = {}
+): CommitLintIssue[] {
+	const lines = cleanMessage(message, options.commentChar);
+	const subject = lines[0] ?? "";
+	if (!subject) {
+		return [{ rule: "subject-empty", severity: "error", message: "Subject is empty", line: 1 }];
+	}
+
+	const issues: CommitLintIssue[] = [];
+	if (subject.length > MAX_SUBJECT_LENGTH) {
+		issues.push({
+			rule: "subject-max-length",
+			severity: "warning",
+			message: `Subject is ${subject.length} characters; keep it to ${MAX_SUBJECT_LENGTH}`,
+			line: 1,
+		});
+	}
+	if (subject.endsWith(".")) {
+		issues.push({
+			rule: "subject-full-stop",
+			severity: "warning",
+			message: "Subject should not end with a period",
+			line: 1,
+		});
+	}
+
+	let description = subject;
+	const key = conventions.issueKey;
+	if (key) {
+		if (subject.startsWith(`${key}: `)) {
+			description = subject.slice(key.length + 2);
+		} else {
+			issues.push({
+				rule: "issue-key",
+				severity: "warning",
+				message: `Subject should start with "${key}: "`,
+				line: 1,
+			});
+		}
+	}
+
+	const styled = lintStyle(description, style, conventions);
+	issues.push(...styled.issues);
+	const firstWord = styled.description.split(/\s/)[0]?.toLowerCase() ?? "";
+	if (firstWord.length > 4 && firstWord.endsWith("ed") && !NOT_PAST_TENSE.has(firstWord)) {
+		issues.push({
+			rule: "subject-mood",
+			severity: "warning",
+			message: `Use the imperative mood ("Fix", not "Fixed")`,
+			line: 1,
+		});
+	}
+
+	if (lines.length > 1 && lines[1] !== "") {
+		issues.push({
+			rule: "body-leading-blank",
+			severity: "warning",
+			message: "Leave the second line blank to separate subject and body",
+			line: 2,
+		});
+	}
+	lines.forEach((line, index) => {
+		// Unbreakable lines such as URLs cannot be wrapped, so they are allowed through
+		if (index === 0 || line.length <= MAX_BODY_LINE_LENGTH || !/\s/.test(line.trim())) return;
+		issues.push({
+			rule: "body-max-line-length",
+			severity: "warning",
+			message: `Line is ${line.length} characters; wrap the body at ${MAX_BODY_LINE_LENGTH}`,
+			line: index + 1,
+		});
+	});
+
+	const body = lines.slice(1).join("\n").trim();
+	for (const rule of conventions.lintRules ?? []) {
+		const issue = lintCustomRule(rule, subject, body, lines.join("\n"));
+		if (issue) issues.push(issue);
+	}
+	return issues;
+}
+
+/**
+ * The comment character git strips from `commit -m` messages in the repository at `cwd`, which
+ * it only does when `commit.cleanup` is `strip`.
+ */
+async function readStrippedCommentChar(
+	cwd: string,
+	binary: string | null
+): Promise<string | undefined> {
+	const git = createGitClient(cwd, { binary });
+	const read = (key: string) =>
+		git
+			.raw(["config", "--get", key])
+			.then((value) => value.trim())
+			.catch(() => "");
+	if ((await read("commit.cleanup")) !== "strip") return undefined;
+	const commentChar = await read("core.commentChar");
+	// With "auto", git only picks another character for messages it opens in an editor
+	return commentChar && commentChar !== "auto" ? commentChar : "#";
+}
+
+/** Lints with the configured commit style and the conventions of the repository at `cwd`. */
+export async function lintCommitMessageInRepo(
+	cwd: string,
+	message: string
+): Promise<CommitLintIssue[]> {
+	const settings = await getAppSettings();
+	const commentChar = await readStrippedCommentChar(
+		cwd,
+		resolveGitBinary(settings.gitBinaryPath)
+	);
+	const configIssues: CommitLintIssue[] = [];
+	// A broken config file is reported, but should not hide the built-in rules
+	const conventions = await loadCommitConventions(cwd).catch((error): CommitConventions => {
+		configIssues.push({
+			rule: "config",
+			severity: "error",
+			message: error instanceof Error ? error.message : String(error),
+		});
+		return {};
+	});
+	return [
+		...configIssues,
+		...lintCommitMessage(message, settings.ai.commitStyle, conventions, { commentChar }),
+	];
+}
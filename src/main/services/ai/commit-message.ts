@@ -1,10 +1,16 @@
 import type { WebContents } from "electron";
-import simpleGit from "simple-git";
 import { getProject, getProjectPrefs } from "../cache/queries.js";
-import { getAppSettings, getAppSettingsWithKeys } from "../settings/store.js";
-import { createAIProvider, getProviderInfo } from "./index.js";
-import { buildMessages } from "./prompts.js";
-import type { CommitStyle } from "../../../shared/types.js";
+import { resolveGitBinary } from "../git/index.js";
+import { createGitClient, type GitClient } from "../git/runner.js";
+import { getAppSettings } from "../settings/store.js";
+import { resolveActiveProvider } from "./active-provider.js";
+import { applyIssueKey, loadCommitConventions } from "./commit-conventions.js";
+import { getModelContextWindow } from "./context-windows.js";
+import { planDiffPrompt } from "./diff-budget.js";
+import { buildChunkSummaryMessages, buildMessages, buildMessagesFromSummaries } from "./prompts.js";
+import { recordAIUsage } from "./usage.js";
+import type { CommitMessageSource, CommitStyle } from "../../../shared/types.js";
+import type { ChatMessage } from "./types.js";
 
 const AI_COMMIT_CHUNK = "ai:commitChunk";
 
@@ -18,75 +24,107 @@ async function getRepoPath(projectId: string): Promise<string | null> {
 
 async function createGit(cwd: string) {
 	const settings = await getAppSettings();
-	const opts: { baseDir: string; binary?: string } = { baseDir: cwd };
-	if (settings.gitBinaryPath) opts.binary = settings.gitBinaryPath;
-	return simpleGit(opts);
+	return createGitClient(cwd, { binary: resolveGitBinary(settings.gitBinaryPath) });
 }
 
-async function getDiff(cwd: string): Promise<string> {
-	const git = await createGit(cwd);
-	const status = await git.status();
-
-	// Check for staged, unstaged, and untracked files
-	const hasStaged = status.files.some((f) => f.index !== " " && f.index !== "?");
-	const hasUnstaged = status.files.some((f) => f.working_dir !== " " && f.working_dir !== "?");
-	const hasUntracked = status.not_added.length > 0;
-
-	// If only untracked files exist, throw an error
-	if (!hasStaged && !hasUnstaged && hasUntracked) {
-		throw new Error(
-			"Only untracked files found. Stage files first before generating a commit message."
+/** Untracked files have no diff against the index, so compare them against nothing instead. */
+async function getUntrackedDiff(git: GitClient, paths: string[]): Promise<string> {
+	const diffs: string[] = [];
+	for (const path of paths) {
+		// Exits 1 when the sides differ, which they always do here
+		diffs.push(
+			await git.raw(["diff", "--no-index", "--", "/dev/null", path], { okExitCodes: [1] })
 		);
 	}
+	return diffs.join("");
+}
 
-	// If nothing is staged but there are unstaged files, stage them
-	if (!hasStaged && hasUnstaged) {
-		const unstagedPaths = status.files
-			.filter((f) => f.working_dir !== " " && f.working_dir !== "?")
-			.map((f) => f.path);
-		if (unstagedPaths.length > 0) {
-			await git.add(unstagedPaths);
+async function getDiff(cwd: string, source: CommitMessageSource): Promise<string> {
+	const git = await createGit(cwd);
+
+	if (source.scope === "staged") {
+		const diff = await git.raw(["diff", "--cached"]);
+		if (!diff.trim()) {
+			throw new Error(
+				"Nothing is staged. Stage changes first or describe all changes instead."
+			);
 		}
+		return diff;
 	}
 
-	return (await git.diff(["--cached"])) || "";
+	// List files inside untracked directories individually so each gets its own diff
+	const untrackedPaths = (await git.raw(["ls-files", "--others", "--exclude-standard", "-z"]))
+		.split("\0")
+		.filter(Boolean);
+	const paths = source.scope === "selected" ? (source.paths ?? []) : null;
+	if (paths && paths.length === 0) throw new Error("Select at least one file to describe.");
+	const pathArgs = paths ? ["--", ...paths] : [];
+	// A selected untracked directory ("dir/") covers every file beneath it
+	const untracked = untrackedPaths.filter(
+		(path) => !paths || paths.some((p) => p === path || (p.endsWith("/") && path.startsWith(p)))
+	);
+
+	// Staged and unstaged changes together, read without touching the index
+	const hasHead = await git
+		.raw(["rev-parse", "--verify", "HEAD"])
+		.then(() => true)
+		.catch(() => false);
+	const trackedDiff = hasHead
+		? await git.raw(["diff", "HEAD", ...pathArgs])
+		: (await git.raw(["diff", "--cached", ...pathArgs])) +
+			(await git.raw(["diff", ...pathArgs]));
+	return trackedDiff + (await getUntrackedDiff(git, untracked));
 }
 
 export async function generateCommitMessage(
 	projectId: string,
-	webContents: WebContents
+	webContents: WebContents,
+	source: CommitMessageSource = { scope: "staged" }
 ): Promise<string> {
 	const repoPath = await getRepoPath(projectId);
 	if (!repoPath) throw new Error("Project not found");
 
-	const settings = await getAppSettingsWithKeys();
-	const { activeProviderId, providers, commitStyle } = settings.ai;
-
-	if (!activeProviderId) throw new Error("No AI provider configured. Add one in Settings.");
-	const providerInstance = providers.find((p) => p.id === activeProviderId);
-	if (!providerInstance) throw new Error("AI provider not found. Reconfigure in Settings.");
-	if (!providerInstance.apiKey?.trim()) {
-		throw new Error("AI provider missing API key. Add it in Settings.");
-	}
-	if (!providerInstance.defaultModel?.trim()) {
-		throw new Error("No model selected. Select a model for your AI provider in Settings.");
-	}
+	const { instance: providerInstance, provider, settings } = await resolveActiveProvider();
 
-	const providerInfo = getProviderInfo(providerInstance.type);
-	if (providerInfo?.requiresBaseURL && !providerInstance.baseURL?.trim()) {
-		throw new Error("AI provider requires a Base URL. Configure it in Settings.");
-	}
-
-	const diff = await getDiff(repoPath);
+	const diff = await getDiff(repoPath, source);
 	if (!diff.trim()) throw new Error("No changes to describe");
 
-	const provider = createAIProvider(providerInstance.type, {
-		apiKey: providerInstance.apiKey,
-		baseURL: providerInstance.baseURL,
-		model: providerInstance.defaultModel,
-	});
-
-	const messages = buildMessages(diff, commitStyle as CommitStyle);
+	const style = settings.ai.commitStyle as CommitStyle;
+	const conventions = await loadCommitConventions(repoPath);
+	const plan = planDiffPrompt(diff, getModelContextWindow(providerInstance.defaultModel));
+	let messages: ChatMessage[];
+	if (plan.kind === "direct") {
+		messages = buildMessages(plan.content, style, conventions);
+	} else {
+		// Summarize one chunk at a time to stay within local servers' concurrency
+		const summaries: string[] = [];
+		for (const [index, chunk] of plan.chunks.entries()) {
+			const summary = await provider.chat(
+				buildChunkSummaryMessages(
+					plan.chunkStatSummary,
+					chunk,
+					index + 1,
+					plan.chunks.length
+				),
+				{ maxTokens: 300 }
+			);
+			await recordAIUsage(
+				projectId,
+				"commit-message",
+				providerInstance,
+				summary.usage,
+				settings.aiUsage
+			);
+			summaries.push(summary.content.trim());
+		}
+		messages = buildMessagesFromSummaries(
+			plan.statSummary,
+			summaries,
+			plan.omittedFiles,
+			style,
+			conventions
+		);
+	}
 
 	const result = await provider.streamChat(messages, {
 		maxTokens: 200,
@@ -94,6 +132,13 @@ export async function generateCommitMessage(
 			webContents.send(AI_COMMIT_CHUNK, chunk);
 		},
 	});
-
-	return result.content.trim();
+	await recordAIUsage(
+		projectId,
+		"commit-message",
+		providerInstance,
+		result.usage,
+		settings.aiUsage
+	);
+
+	return applyIssueKey(result.content.trim(), conventions);
 }
@@ -0,0 +1,32 @@
+/** Context window (in tokens) assumed when a model is not in the table below. */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Known context windows by model ID pattern, most specific first. Providers do not expose this
+ * consistently, so we match on the model name and fall back conservatively.
+ */
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+	[/gpt-4\.1/, 1_000_000],
+	[/gpt-5/, 400_000],
+	[/gpt-4o|gpt-4-turbo|o1|o3|o4/, 128_000],
+	[/gpt-4/, 8192],
+	[/gpt-3\.5/, 16_385],
+	[/claude/, 200_000],
+	[/gemini/, 1_000_000],
+	[/llama-?3\.[1-3]|llama-?4/, 128_000],
+	[/llama-?3/, 8192],
+	[/qwen-?3|qwen2\.5/, 32_768],
+	[/deepseek/, 64_000],
+	[/mistral-(large|medium)|codestral/, 128_000],
+	[/mixtral|mistral/, 32_768],
+	[/gpt-oss/, 128_000],
+	[/kimi|glm-4/, 128_000],
+];
+
+export function getModelContextWindow(model: string): number {
+	const id = model.toLowerCase();
+	for (const [pattern, tokens] of CONTEXT_WINDOWS) {
+		if (pattern.test(id)) return tokens;
+	}
+	return DEFAULT_CONTEXT_WINDOW;
+}
@@ -0,0 +1,309 @@
+/** Rough chars-per-token ratio for diffs; code tokenizes denser than prose, so stay conservative. */
+const CHARS_PER_TOKEN = 3;
+/** Tokens kept free for the system prompt and the generated message. */
+const RESERVED_TOKENS = 1024;
+const MIN_DIFF_TOKENS = 1500;
+/** Even huge context windows get a capped diff; past this point more context rarely helps. */
+const MAX_DIFF_TOKENS = 24_000;
+/** Switch to map-reduce when proportional truncation would keep less than this share of the diff. */
+const MAP_REDUCE_MIN_KEPT_RATIO = 0.5;
+const MAX_MAP_CHUNKS = 8;
+/** Leaves room in the map chunks for file headers repeated when a file spans chunks. */
+const MAP_FILL_RATIO = 0.9;
+const MAX_STAT_LINES = 300;
+/** Each map prompt repeats the stat summary, so it may take at most this share of the budget. */
+const MAP_STAT_SUMMARY_RATIO = 0.25;
+
+const LOCKFILE_NAMES = new Set([
+	"package-lock.json",
+	"npm-shrinkwrap.json",
+	"pnpm-lock.yaml",
+	"yarn.lock",
+	"bun.lockb",
+	"bun.lock",
+	"Cargo.lock",
+	"Gemfile.lock",
+	"poetry.lock",
+	"uv.lock",
+	"Pipfile.lock",
+	"composer.lock",
+	"go.sum",
+	"Podfile.lock",
+	"flake.lock",
+	"mix.lock",
+	"pubspec.lock",
+]);
+
+const GENERATED_PATTERNS = [
+	/\.min\.(js|css)$/,
+	/\.map$/,
+	/\.snap$/,
+	/\.pb\.go$/,
+	/_pb2\.py$/,
+	/[._]generated\.[^/]+$/,
+	/(^|\/)(dist|build|out|vendor|node_modules)\//,
+];
+
+/** Marker comments tools put at the top of generated sources. */
+const GENERATED_MARKER = /@generated|DO NOT EDIT/;
+
+export interface DiffFile {
+	path: string;
+	status: "A" | "M" | "D" | "R";
+	oldPath?: string;
+	additions: number;
+	deletions: number;
+	binary: boolean;
+	/** Why the file's diff is left out of the prompt, if it is */
+	skipReason?: "lockfile" | "generated" | "binary";
+	/** File header lines up to the first hunk */
+	header: string[];
+	/** Hunk lines, including `@@` headers */
+	body: string[];
+}
+
+export type DiffPromptPlan =
+	| { kind: "direct"; content: string }
+	/** The diff is too large to fit; summarize each chunk, then write from the summaries */
+	| {
+			kind: "map-reduce";
+			statSummary: string;
+			/** `statSummary`, shortened to leave room for a chunk in each map prompt */
+			chunkStatSummary: string;
+			chunks: string[];
+			omittedFiles: number;
+	  };
+
+/** Diff token budget for a model: half the window minus headroom, clamped to a sane range. */
+export function getDiffTokenBudget(contextWindow: number): number {
+	const budget = Math.floor(contextWindow / 2) - RESERVED_TOKENS;
+	return Math.min(MAX_DIFF_TOKENS, Math.max(MIN_DIFF_TOKENS, budget));
+}
+
+function parsePath(line: string, prefix: string): string | null {
+	if (!line.startsWith(prefix)) return null;
+	const path = line.slice(prefix.length);
+	return path === "/dev/null" ? null : path.replace(/^[ab]\//, "");
+}
+
+function classify(file: DiffFile): DiffFile["skipReason"] {
+	if (file.binary) return "binary";
+	const name = file.path.split("/").pop() ?? file.path;
+	if (LOCKFILE_NAMES.has(name)) return "lockfile";
+	if (GENERATED_PATTERNS.some((pattern) => pattern.test(file.path))) return "generated";
+	const leadingAdded = file.body.filter((line) => line.startsWith("+")).slice(0, 5);
+	if (leadingAdded.some((line) => GENERATED_MARKER.test(line))) return "generated";
+	return undefined;
+}
+
+/** Splits a `git diff` into per-file sections with change counts. */
+export function parseDiffFiles(diff: string): DiffFile[] {
+	const files: DiffFile[] = [];
+	let current: DiffFile | null = null;
+	const finish = () => {
+		if (!current) return;
+		current.skipReason = classify(current);
+		files.push(current);
+	};
+	for (const line of diff.split("\n")) {
+		if (line.startsWith("diff --git ")) {
+			finish();
+			const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+			current = {
+				path: match?.[2] ?? line.slice("diff --git ".length),
+				status: "M",
+				additions: 0,
+				deletions: 0,
+				binary: false,
+				header: [line],
+				body: [],
+			};
+			continue;
+		}
+		if (!current) continue;
+		if (current.body.length === 0 && !line.startsWith("@@")) {
+			if (line === "") continue;
+			current.header.push(line);
+			if (line.startsWith("new file mode")) current.status = "A";
+			else if (line.startsWith("deleted file mode")) current.status = "D";
+			else if (line.startsWith("rename from ")) {
+				current.status = "R";
+				current.oldPath = line.slice("rename from ".length);
+			} else if (line.startsWith("rename to "))
+				current.path = line.slice("rename to ".length);
+			else if (line.startsWith("Binary files ")) current.binary = true;
+			else current.path = parsePath(line, "+++ ") ?? current.path;
+			continue;
+		}
+		current.body.push(line);
+		if (line.startsWith("+")) current.additions++;
+		else if (line.startsWith("-")) current.deletions++;
+	}
+	finish();
+	return files;
+}
+
+function formatStatSummary(files: DiffFile[], maxLines = MAX_STAT_LINES): string {
+	const lines = files.slice(0, maxLines).map((file) => {
+		const path = file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+		const stat = file.binary ? "binary" : `+${file.additions} -${file.deletions}`;
+		const note = file.skipReason ? ` (${file.skipReason}, diff omitted)` : "";
+		return `${file.status} ${path} | ${stat}${note}`;
+	});
+	if (files.length > maxLines) {
+		lines.push(`... and ${files.length - maxLines} more files`);
+	}
+	return `Changed files (${files.length}):\n${lines.join("\n")}`;
+}
+
+/** The stat summary with as many file lines as fit in `maxChars`. */
+function fitStatSummary(files: DiffFile[], maxChars: number): string {
+	let maxLines = MAX_STAT_LINES;
+	let summary = formatStatSummary(files, maxLines);
+	while (summary.length > maxChars && maxLines > 0) {
+		maxLines = Math.floor(maxLines / 2);
+		summary = formatStatSummary(files, maxLines);
+	}
+	return summary;
+}
+
+function fileText(file: DiffFile): string {
+	return [...file.header, ...file.body].join("\n");
+}
+
+/** Keeps the header and as many leading diff lines as fit, noting how much was cut. */
+function truncateFile(file: DiffFile, maxChars: number): DiffFile {
+	if (fileText(file).length <= maxChars) return file;
+	const body: string[] = [];
+	let used = file.header.join("\n").length;
+	let index = 0;
+	for (; index < file.body.length; index++) {
+		const line = file.body[index]!;
+		if (used + line.length + 1 > maxChars) break;
+		body.push(line);
+		used += line.length + 1;
+	}
+	if (index < file.body.length) {
+		body.push(`[... ${file.body.length - index} more lines of this file omitted]`);
+	}
+	return { ...file, body };
+}
+
+/**
+ * Splits a character budget across files by change size. Files smaller than their share
+ * keep their full diff and hand the remainder back to the larger ones.
+ */
+function allocateBudget(files: DiffFile[], budgetChars: number): number[] {
+	const sizes = files.map((file) => fileText(file).length);
+	const allocation = files.map(() => 0);
+	let remaining = budgetChars;
+	let pending = files.map((_, index) => index);
+	while (pending.length > 0 && remaining > 0) {
+		const weight = (index: number) =>
+			Math.max(1, files[index]!.additions + files[index]!.deletions);
+		const totalWeight = pending.reduce((sum, index) => sum + weight(index), 0);
+		const shares = pending.map((index) =>
+			Math.floor((remaining * weight(index)) / totalWeight)
+		);
+		const fitting = pending.filter((index, i) => sizes[index]! <= shares[i]!);
+		if (fitting.length === 0) {
+			pending.forEach((index, i) => (allocation[index] = shares[i]!));
+			break;
+		}
+		for (const index of fitting) {
+			allocation[index] = sizes[index]!;
+			remaining -= sizes[index]!;
+		}
+		pending = pending.filter((index) => !fitting.includes(index));
+	}
+	return allocation;
+}
+
+/**
+ * Packs file diffs line by line into chunks of at most `chunkChars`. A file that spills into
+ * the next chunk gets its header repeated there so each chunk reads on its own.
+ */
+function chunkFiles(files: DiffFile[], chunkChars: number): { text: string; files: Set<number> }[] {
+	const chunks: { text: string; files: Set<number> }[] = [];
+	let lines: string[] = [];
+	let chunkFileIndexes = new Set<number>();
+	let used = 0;
+	const flush = () => {
+		if (lines.length > 0) chunks.push({ text: lines.join("\n"), files: chunkFileIndexes });
+		lines = [];
+		chunkFileIndexes = new Set();
+		used = 0;
+	};
+	files.forEach((file, index) => {
+		const header = file.header.join("\n");
+		if (used > 0 && used + header.length + 1 > chunkChars) flush();
+		lines.push(header);
+		chunkFileIndexes.add(index);
+		used += header.length + 1;
+		for (const line of file.body) {
+			// A single line longer than a whole chunk is cut rather than dropped
+			const text = line.slice(0, chunkChars - header.length - 2);
+			if (used + text.length + 1 > chunkChars) {
+				flush();
+				lines.push(header);
+				chunkFileIndexes.add(index);
+				used = header.length + 1;
+			}
+			lines.push(text);
+			used += text.length + 1;
+		}
+	});
+	flush();
+	return chunks;
+}
+
+/**
+ * Fits a staged diff into the model's budget: a per-file stat summary first, then file diffs
+ * sized by change volume with lockfiles and generated files left out. When even that would
+ * drop most of the diff, returns chunks to summarize separately instead.
+ */
+export function planDiffPrompt(diff: string, contextWindow: number): DiffPromptPlan {
+	const files = parseDiffFiles(diff);
+	const statSummary = formatStatSummary(files);
+	const included = files.filter((file) => !file.skipReason);
+	const budgetChars = getDiffTokenBudget(contextWindow) * CHARS_PER_TOKEN;
+	const diffChars = budgetChars - statSummary.length;
+	const totalChars = included.reduce((sum, file) => sum + fileText(file).length + 1, 0);
+
+	if (totalChars <= diffChars) {
+		return {
+			kind: "direct",
+			content: [statSummary, ...included.map(fileText)].join("\n\n"),
+		};
+	}
+
+	if (diffChars / totalChars >= MAP_REDUCE_MIN_KEPT_RATIO) {
+		const allocation = allocateBudget(included, diffChars);
+		const parts = included.map((file, index) =>
+			fileText(truncateFile(file, allocation[index]!))
+		);
+		return { kind: "direct", content: [statSummary, ...parts].join("\n\n") };
+	}
+
+	// Each map prompt is the summary plus one chunk, so chunks get what the summary leaves
+	const chunkStatSummary = fitStatSummary(
+		files,
+		Math.floor(budgetChars * MAP_STAT_SUMMARY_RATIO)
+	);
+	const chunkChars = budgetChars - chunkStatSummary.length;
+	// Share the map budget across files up front so one huge file cannot crowd out the rest
+	const mapChars = Math.floor(chunkChars * MAX_MAP_CHUNKS * MAP_FILL_RATIO);
+	const allocation = totalChars > mapChars ? allocateBudget(included, mapChars) : null;
+	const fitted = allocation
+		? included.map((file, index) => truncateFile(file, allocation[index]!))
+		: included;
+	const chunks = chunkFiles(fitted, chunkChars).slice(0, MAX_MAP_CHUNKS);
+	const chunkedFiles = new Set(chunks.flatMap((chunk) => [...chunk.files]));
+	return {
+		kind: "map-reduce",
+		statSummary,
+		chunkStatSummary,
+		chunks: chunks.map((chunk) => chunk.text),
+		omittedFiles: included.length - chunkedFiles.size,
+	};
+}
@@ -1,14 +1,20 @@
+import { AnthropicProvider } from "./providers/anthropic.js";
 import { OpenAIProvider } from "./providers/openai.js";
 import { OpenRouterProvider } from "./providers/openrouter.js";
 import { OpenAICompatibleProvider } from "./providers/openai-compatible.js";
 import { CerebrasProvider } from "./providers/cerebras.js";
 import { FireworksProvider } from "./providers/fireworks.js";
+import { OllamaProvider, DEFAULT_OLLAMA_BASE_URL } from "./providers/ollama.js";
+import { LlamaCppProvider, DEFAULT_LLAMACPP_BASE_URL } from "./providers/llamacpp.js";
 import type { AIProvider, AIProviderConfig } from "./types.js";
 
 export interface ProviderInfo {
 	id: string;
 	displayName: string;
 	requiresBaseURL: boolean;
+	requiresApiKey: boolean;
+	/** Prefilled base URL for providers that usually run on a known local address */
+	defaultBaseURL?: string;
 }
 
 interface ProviderEntry extends ProviderInfo {
@@ -20,32 +26,60 @@ const PROVIDERS: Record<string, ProviderEntry> = {
 		id: "openai",
 		displayName: "OpenAI",
 		requiresBaseURL: false,
+		requiresApiKey: true,
 		create: (config) => new OpenAIProvider(config),
 	},
+	anthropic: {
+		id: "anthropic",
+		displayName: "Anthropic",
+		requiresBaseURL: false,
+		requiresApiKey: true,
+		create: (config) => new AnthropicProvider(config),
+	},
 	openrouter: {
 		id: "openrouter",
 		displayName: "OpenRouter",
 		requiresBaseURL: false,
+		requiresApiKey: true,
 		create: (config) => new OpenRouterProvider(config),
 	},
 	"openai-compatible": {
 		id: "openai-compatible",
 		displayName: "OpenAI Compatible",
 		requiresBaseURL: true,
+		requiresApiKey: true,
 		create: (config) => new OpenAICompatibleProvider(config),
 	},
 	cerebras: {
 		id: "cerebras",
 		displayName: "Cerebras",
 		requiresBaseURL: false,
+		requiresApiKey: true,
 		create: (config) => new CerebrasProvider(config),
 	},
 	fireworks: {
 		id: "fireworks",
 		displayName: "Fireworks",
 		requiresBaseURL: false,
+		requiresApiKey: true,
 		create: (config) => new FireworksProvider(config),
 	},
+	ollama: {
+		id: "ollama",
+		displayName: "Ollama",
+		requiresBaseURL: false,
+		requiresApiKey: false,
+		defaultBaseURL: DEFAULT_OLLAMA_BASE_URL,
+		create: (config) => new OllamaProvider(config),
+	},
+	llamacpp: {
+		id: "llamacpp",
+		displayName: "llama.cpp server",
+		requiresBaseURL: false,
+		requiresApiKey: false,
+		defaultBaseURL: DEFAULT_LLAMACPP_BASE_URL,
+		create: (config) => new LlamaCppProvider(config),
+	},
 };
 
 export function getProviderInfo(id: string): ProviderInfo | undefined {
@@ -55,6 +89,8 @@ export function getProviderInfo(id: string): ProviderInfo | undefined {
 		id: provider.id,
 		displayName: provider.displayName,
 		requiresBaseURL: provider.requiresBaseURL,
+		requiresApiKey: provider.requiresApiKey,
+		defaultBaseURL: provider.defaultBaseURL,
 	};
 }
 
@@ -63,6 +99,8 @@ export function getAllProviders(): ProviderInfo[] {
 		id: provider.id,
 		displayName: provider.displayName,
 		requiresBaseURL: provider.requiresBaseURL,
+		requiresApiKey: provider.requiresApiKey,
+		defaultBaseURL: provider.defaultBaseURL,
 	}));
 }
 
@@ -12,15 +12,15 @@ export async function fetchModelsFromProvider(
 	apiKey: string,
 	baseURL?: string
 ): Promise<FetchModelsResult> {
-	if (!apiKey.trim()) {
-		return { success: false, models: [], error: "API key required" };
-	}
-
 	const providerInfo = getProviderInfo(type);
 	if (!providerInfo) {
 		return { success: false, models: [], error: `Unknown provider type: ${type}` };
 	}
 
+	if (providerInfo.requiresApiKey && !apiKey.trim()) {
+		return { success: false, models: [], error: "API key required" };
+	}
+
 	if (providerInfo.requiresBaseURL && !baseURL?.trim()) {
 		return { success: false, models: [], error: "Base URL required for this provider" };
 	}
@@ -1,14 +1,8 @@
 import dedent from "dedent";
 import type { CommitStyle } from "../../../shared/types.js";
+import { formatCommitConventions, type CommitConventions } from "./commit-conventions.js";
 import type { ChatMessage } from "./types.js";
 
-const MAX_DIFF_CHARS = 8000;
-
-function truncateDiff(diff: string): string {
-	if (diff.length <= MAX_DIFF_CHARS) return diff;
-	return diff.slice(0, MAX_DIFF_CHARS) + "\n\n[diff truncated for length]";
-}
-
 const SHARED_RULES = dedent`
 	## Rules
 	- Output ONLY the commit message. No quotes, backticks, or extra commentary.
@@ -47,10 +41,59 @@ const SYSTEM_PROMPTS: Record<CommitStyle, string> = {
 	`,
 };
 
-export function buildMessages(diff: string, style: CommitStyle): ChatMessage[] {
-	const truncated = truncateDiff(diff);
+const CHUNK_SUMMARY_PROMPT = dedent`
+	You summarize one part of a large git diff. The summaries of all parts are later combined to write a single commit message.
+	Output 1-5 terse bullet points describing what changed and, where the diff makes it clear, why. Mention the files or areas involved.
+	Output ONLY the bullet points.
+`;
+
+function buildSystemPrompt(style: CommitStyle, conventions: CommitConventions): string {
+	const projectRules = formatCommitConventions(conventions);
+	return projectRules ? `${SYSTEM_PROMPTS[style]}\n\n${projectRules}` : SYSTEM_PROMPTS[style];
+}
+
+/** `diff` is the budgeted prompt content from `planDiffPrompt`: stat summary followed by file diffs. */
+export function buildMessages(
+	diff: string,
+	style: CommitStyle,
+	conventions: CommitConventions = {}
+): ChatMessage[] {
+	return [
+		{ role: "system", content: buildSystemPrompt(style, conventions) },
+		{ role: "user", content: `Write a commit message for this diff:\n\n${diff}` },
+	];
+}
+
+export function buildChunkSummaryMessages(
+	statSummary: string,
+	chunk: string,
+	part: number,
+	totalParts: number
+): ChatMessage[] {
+	return [
+		{ role: "system", content: CHUNK_SUMMARY_PROMPT },
+		{
+			role: "user",
+			content: `${statSummary}\n\nPart ${part} of ${totalParts} of the diff:\n\n${chunk}`,
+		},
+	];
+}
+
+/** Final step of map-reduce: write the message from per-chunk summaries instead of the raw diff. */
+export function buildMessagesFromSummaries(
+	statSummary: string,
+	summaries: string[],
+	omittedFiles: number,
+	style: CommitStyle,
+	conventions: CommitConventions = {}
+): ChatMessage[] {
+	const omitted =
+		omittedFiles > 0 ? `\n\n(${omittedFiles} more files were too large to summarize.)` : "";
 	return [
-		{ role: "system", content: SYSTEM_PROMPTS[style] },
-		{ role: "user", content: `Write a commit message for this diff:\n\n${truncated}` },
+		{ role: "system", content: buildSystemPrompt(style, conventions) },
+		{
+			role: "user",
+			content: `Write a commit message for a change too large to show in full. ${statSummary}\n\nSummaries of the diff, part by part:\n\n${summaries.join("\n\n")}${omitted}`,
+		},
 	];
 }
@@ -0,0 +1,114 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { generateText, streamText, type LanguageModel } from "ai";
+import type {
+	AIProvider,
+	AIProviderConfig,
+	ChatMessage,
+	ChatOptions,
+	ChatResult,
+	StreamOptions,
+} from "../types.js";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export class AnthropicProvider implements AIProvider {
+	readonly id = "anthropic";
+	readonly displayName = "Anthropic";
+	readonly model: string;
+	private client: ReturnType<typeof createAnthropic>;
+	private apiKey: string;
+	private baseURL: string;
+
+	constructor(config: AIProviderConfig) {
+		this.model = config.model;
+		this.apiKey = config.apiKey;
+		this.baseURL = (config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+		this.client = createAnthropic({
+			apiKey: config.apiKey,
+			baseURL: this.baseURL,
+		});
+	}
+
+	async chat(messages: ChatMessage[], _options?: ChatOptions): Promise<ChatResult> {
+		const result = await generateText({
+			model: this.client(this.model),
+			messages,
+		});
+
+		return {
+			content: result.text,
+			usage: result.usage
+				? {
+						inputTokens: result.usage.inputTokens ?? 0,
+						outputTokens: result.usage.outputTokens ?? 0,
+						totalTokens: result.usage.totalTokens ?? 0,
+					}
+				: undefined,
+			finishReason: this.mapFinishReason(result.finishReason),
+		};
+	}
+
+	async streamChat(messages: ChatMessage[], options: StreamOptions): Promise<ChatResult> {
+		const result = streamText({
+			model: this.client(this.model),
+			messages,
+		});
+
+		for await (const chunk of result.textStream) {
+			options.onChunk(chunk);
+		}
+
+		const [text, usage, finishReason] = await Promise.all([
+			result.text,
+			result.usage,
+			result.finishReason,
+		]);
+
+		return {
+			content: text,
+			usage: usage
+				? {
+						inputTokens: usage.inputTokens ?? 0,
+						outputTokens: usage.outputTokens ?? 0,
+						totalTokens: usage.totalTokens ?? 0,
+					}
+				: undefined,
+			finishReason: this.mapFinishReason(finishReason),
+		};
+	}
+
+	getLanguageModel(): LanguageModel {
+		return this.client(this.model);
+	}
+
+	async getAvailableModels(): Promise<string[]> {
+		const response = await fetch(`${this.baseURL}/models?limit=1000`, {
+			headers: {
+				"x-api-key": this.apiKey,
+				"anthropic-version": ANTHROPIC_VERSION,
+			},
+		});
+
+		if (!response.ok) {
+			throw new Error(`Failed to fetch models: ${response.status}`);
+		}
+
+		// The API lists newest models first, which is the order we want to offer them in
+		const data = (await response.json()) as { data: { id: string }[] };
+		return data.data.map((m) => m.id);
+	}
+
+	private mapFinishReason(reason: string | undefined): ChatResult["finishReason"] {
+		switch (reason) {
+			case "stop":
+				return "stop";
+			case "length":
+				return "length";
+			case "content-filter":
+				return "content-filter";
+			default:
+				return "unknown";
+		}
+	}
+}
@@ -1,5 +1,5 @@
 import { createCerebras } from "@ai-sdk/cerebras";
-import { generateText, streamText } from "ai";
+import { generateText, streamText, type LanguageModel } from "ai";
 import type {
 	AIProvider,
 	AIProviderConfig,
@@ -73,6 +73,10 @@ export class CerebrasProvider implements AIProvider {
 		};
 	}
 
+	getLanguageModel(): LanguageModel {
+		return this.client(this.model);
+	}
+
 	async getAvailableModels(): Promise<string[]> {
 		const response = await fetch("https://api.cerebras.ai/v1/models", {
 			headers: {
@@ -1,5 +1,5 @@
 import { createFireworks } from "@ai-sdk/fireworks";
-import { generateText, streamText } from "ai";
+import { generateText, streamText, type LanguageModel } from "ai";
 import type {
 	AIProvider,
 	AIProviderConfig,
@@ -73,6 +73,10 @@ export class FireworksProvider implements AIProvider {
 		};
 	}
 
+	getLanguageModel(): LanguageModel {
+		return this.client(this.model);
+	}
+
 	async getAvailableModels(): Promise<string[]> {
 		const response = await fetch("https://api.fireworks.ai/inference/v1/models", {
 			headers: {
@@ -0,0 +1,123 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { generateText, streamText, type LanguageModel } from "ai";
+import type {
+	AIProvider,
+	AIProviderConfig,
+	ChatMessage,
+	ChatOptions,
+	ChatResult,
+	StreamOptions,
+} from "../types.js";
+
+export const DEFAULT_LLAMACPP_BASE_URL = "http://localhost:8080";
+
+export class LlamaCppProvider implements AIProvider {
+	readonly id = "llamacpp";
+	readonly displayName = "llama.cpp server";
+	readonly model: string;
+	private client: ReturnType<typeof createOpenAICompatible>;
+	private baseURL: string;
+	private apiKey: string;
+
+	constructor(config: AIProviderConfig) {
+		this.model = config.model;
+		// Accept the server root as well as its OpenAI-compatible /v1 prefix
+		this.baseURL = (config.baseURL || DEFAULT_LLAMACPP_BASE_URL)
+			.replace(/\/+$/, "")
+			.replace(/\/v1$/, "");
+		this.apiKey = config.apiKey;
+		this.client = createOpenAICompatible({
+			name: "llamacpp",
+			apiKey: config.apiKey || undefined,
+			baseURL: `${this.baseURL}/v1`,
+		});
+	}
+
+	async chat(messages: ChatMessage[], _options?: ChatOptions): Promise<ChatResult> {
+		const result = await generateText({
+			model: this.client(this.model),
+			messages,
+		});
+
+		return {
+			content: result.text,
+			usage: result.usage
+				? {
+						inputTokens: result.usage.inputTokens ?? 0,
+						outputTokens: result.usage.outputTokens ?? 0,
+						totalTokens: result.usage.totalTokens ?? 0,
+					}
+				: undefined,
+			finishReason: this.mapFinishReason(result.finishReason),
+		};
+	}
+
+	async streamChat(messages: ChatMessage[], options: StreamOptions): Promise<ChatResult> {
+		const result = streamText({
+			model: this.client(this.model),
+			messages,
+		});
+
+		for await (const chunk of result.textStream) {
+			options.onChunk(chunk);
+		}
+
+		const [text, usage, finishReason] = await Promise.all([
+			result.text,
+			result.usage,
+			result.finishReason,
+		]);
+
+		return {
+			content: text,
+			usage: usage
+				? {
+						inputTokens: usage.inputTokens ?? 0,
+						outputTokens: usage.outputTokens ?? 0,
+						totalTokens: usage.totalTokens ?? 0,
+					}
+				: undefined,
+			finishReason: this.mapFinishReason(finishReason),
+		};
+	}
+
+	getLanguageModel(): LanguageModel {
+		return this.client(this.model);
+	}
+
+	async getAvailableModels(): Promise<string[]> {
+		// llama-server serves the model it was started with; newer builds can route several
+		const data = (await this.request("/v1/models")) as { data: { id: string }[] };
+		return data.data.map((m) => m.id).sort((a, b) => a.localeCompare(b));
+	}
+
+	private async request(path: string): Promise<unknown> {
+		let response: Response;
+		try {
+			response = await fetch(`${this.baseURL}${path}`, {
+				headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+			});
+		} catch {
+			throw new Error(`Cannot reach llama.cpp server at ${this.baseURL}`);
+		}
+
+		if (!response.ok) {
+			throw new Error(`Failed to fetch models: ${response.status}`);
+		}
+
+		return response.json();
+	}
+
+	private mapFinishReason(reason: string | undefined): ChatResult["finishReason"] {
+		switch (reason) {
+			case "stop":
+				return "stop";
+			case "length":
+				return "length";
+			case "content-filter":
+				return "content-filter";
+			default:
+				return "unknown";
+		}
+	}
+}
@@ -1,5 +1,5 @@
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
-import { generateText, streamText } from "ai";
+import { generateText, streamText, type LanguageModel } from "ai";
 import type {
 	AIProvider,
 	AIProviderConfig,
@@ -79,6 +79,10 @@ export class OpenAICompatibleProvider implements AIProvider {
 		};
 	}
 
+	getLanguageModel(): LanguageModel {
+		return this.client(this.model);
+	}
+
 	async getAvailableModels(): Promise<string[]> {
 		const url = this.baseURL.endsWith("/") ? `${this.baseURL}models` : `${this.baseURL}/models`;
 		const response = await fetch(url, {
@@ -1,5 +1,5 @@
 import { createOpenAI } from "@ai-sdk/openai";
-import { generateText, streamText } from "ai";
+import { generateText, streamText, type LanguageModel } from "ai";
 import type {
 	AIProvider,
 	AIProviderConfig,
@@ -72,6 +72,10 @@ export class OpenAIProvider implements AIProvider {
 		};
 	}
 
+	getLanguageModel(): LanguageModel {
+		return this.client(this.model);
+	}
+
 	async getAvailableModels(): Promise<string[]> {
 		const response = await fetch("https://api.openai.com/v1/models", {
 			headers: {
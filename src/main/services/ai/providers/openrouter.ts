@@ -1,5 +1,5 @@
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-import { generateText, streamText } from "ai";
+import { generateText, streamText, type LanguageModel } from "ai";
 import type {
 	AIProvider,
 	AIProviderConfig,
@@ -73,6 +73,10 @@ export class OpenRouterProvider implements AIProvider {
 		};
 	}
 
+	getLanguageModel(): LanguageModel {
+		return this.client(this.model);
+	}
+
 	async getAvailableModels(): Promise<string[]> {
 		const response = await fetch("https://openrouter.ai/api/v1/models", {
 			headers: {
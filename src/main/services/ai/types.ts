@@ -1,3 +1,5 @@
+import type { LanguageModel } from "ai";
+
 export interface ChatMessage {
 	role: "system" | "user" | "assistant";
 	content: string;
@@ -40,4 +42,6 @@ export interface AIProvider {
 	chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
 	streamChat(messages: ChatMessage[], options: StreamOptions): Promise<ChatResult>;
 	getAvailableModels(): Promise<string[]>;
+	/** The underlying AI SDK model, for callers that drive it directly (e.g. the agent loop) */
+	getLanguageModel(): LanguageModel;
 }
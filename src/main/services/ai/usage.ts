@@ -0,0 +1,191 @@
+import {
+	getAIUsageCostSince,
+	insertAIUsage,
+	listAIUsageSince,
+	listProjects,
+} from "../cache/queries.js";
+import type { AIUsageRow } from "../cache/queries.js";
+import type { ChatUsage } from "./types.js";
+import type {
+	AIFeature,
+	AIProviderInstance,
+	AIUsageGroup,
+	AIUsageReport,
+	AIUsageSettings,
+	AIUsageTotals,
+	ModelPrice,
+} from "../../../shared/types.js";
+
+/** Providers that run on the user's machine and never bill. */
+const LOCAL_PROVIDER_TYPES = new Set(["ollama", "llamacpp"]);
+
+/**
+ * List prices (USD per million tokens) at the time of writing. Matched by substring so routed IDs
+ * like `openai/gpt-4o` resolve too; users override or extend these in Settings.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+	{ model: "gpt-5", inputPerMillion: 1.25, outputPerMillion: 10 },
+	{ model: "gpt-5-mini", inputPerMillion: 0.25, outputPerMillion: 2 },
+	{ model: "gpt-5-nano", inputPerMillion: 0.05, outputPerMillion: 0.4 },
+	{ model: "gpt-4.1", inputPerMillion: 2, outputPerMillion: 8 },
+	{ model: "gpt-4.1-mini", inputPerMillion: 0.4, outputPerMillion: 1.6 },
+	{ model: "gpt-4.1-nano", inputPerMillion: 0.1, outputPerMillion: 0.4 },
+	{ model: "gpt-4o", inputPerMillion: 2.5, outputPerMillion: 10 },
+	{ model: "gpt-4o-mini", inputPerMillion: 0.15, outputPerMillion: 0.6 },
+	{ model: "o4-mini", inputPerMillion: 1.1, outputPerMillion: 4.4 },
+	{ model: "claude-opus-4", inputPerMillion: 15, outputPerMillion: 75 },
+	{ model: "claude-sonnet-4", inputPerMillion: 3, outputPerMillion: 15 },
+	{ model: "claude-3-7-sonnet", inputPerMillion: 3, outputPerMillion: 15 },
+	{ model: "claude-3-5-sonnet", inputPerMillion: 3, outputPerMillion: 15 },
+	{ model: "claude-haiku-4", inputPerMillion: 1, outputPerMillion: 5 },
+	{ model: "claude-3-5-haiku", inputPerMillion: 0.8, outputPerMillion: 4 },
+	{ model: "gemini-2.5-pro", inputPerMillion: 1.25, outputPerMillion: 10 },
+	{ model: "gemini-2.5-flash", inputPerMillion: 0.3, outputPerMillion: 2.5 },
+];
+
+function findPrice(model: string, prices: ModelPrice[]): ModelPrice | null {
+	const id = model.toLowerCase();
+	let best: ModelPrice | null = null;
+	for (const price of prices) {
+		const pattern = price.model.trim().toLowerCase();
+		if (!pattern || !id.includes(pattern)) continue;
+		if (!best || pattern.length > best.model.trim().length) best = price;
+	}
+	return best;
+}
+
+/** User prices win over the built-in table; local providers are free. `null` when unknown. */
+export function getModelPrice(
+	providerType: string,
+	model: string,
+	settings: AIUsageSettings
+): ModelPrice | null {
+	if (LOCAL_PROVIDER_TYPES.has(providerType)) {
+		return { model, inputPerMillion: 0, outputPerMillion: 0 };
+	}
+	return findPrice(model, settings.prices) ?? findPrice(model, DEFAULT_MODEL_PRICES);
+}
+
+export async function recordAIUsage(
+	projectId: string | null,
+	feature: AIFeature,
+	instance: AIProviderInstance,
+	usage: Pick<ChatUsage, "inputTokens" | "outputTokens"> | undefined,
+	settings: AIUsageSettings
+): Promise<void> {
+	if (!usage || (usage.inputTokens === 0 && usage.outputTokens === 0)) return;
+	const price = getModelPrice(instance.type, instance.defaultModel, settings);
+	await insertAIUsage({
+		project_id: projectId,
+		provider_id: instance.id,
+		provider_name: instance.name,
+		provider_type: instance.type,
+		model: instance.defaultModel,
+		feature,
+		input_tokens: usage.inputTokens,
+		output_tokens: usage.outputTokens,
+		cost: price
+			? (usage.inputTokens * price.inputPerMillion +
+					usage.outputTokens * price.outputPerMillion) /
+				1_000_000
+			: null,
+		created_at: Math.floor(Date.now() / 1000),
+	});
+}
+
+function startOfMonth(date = new Date()): number {
+	return Math.floor(new Date(date.getFullYear(), date.getMonth(), 1).getTime() / 1000);
+}
+
+function startOfDay(date = new Date()): number {
+	return Math.floor(
+		new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / 1000
+	);
+}
+
+function formatUsd(amount: number): string {
+	return `$${amount.toFixed(2)}`;
+}
+
+/** Refuses further AI calls once this month's spend reaches the configured budget. */
+export async function assertWithinBudget(settings: AIUsageSettings): Promise<void> {
+	if (settings.monthlyBudget === null) return;
+	const spent = await getAIUsageCostSince(startOfMonth());
+	if (spent >= settings.monthlyBudget) {
+		throw new Error(
+			`Monthly AI budget of ${formatUsd(settings.monthlyBudget)} reached (${formatUsd(spent)} spent). Raise or clear it in Settings > AI.`
+		);
+	}
+}
+
+function emptyTotals(): AIUsageTotals {
+	return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedTokens: 0 };
+}
+
+function addRow(totals: AIUsageTotals, row: AIUsageRow): void {
+	totals.requests++;
+	totals.inputTokens += row.input_tokens;
+	totals.outputTokens += row.output_tokens;
+	if (row.cost === null) totals.unpricedTokens += row.input_tokens + row.output_tokens;
+	else totals.cost += row.cost;
+}
+
+function groupBy(rows: AIUsageRow[], label: (row: AIUsageRow) => string): AIUsageGroup[] {
+	const groups = new Map<string, AIUsageGroup>();
+	for (const row of rows) {
+		const key = label(row);
+		let group = groups.get(key);
+		if (!group) {
+			group = { label: key, ...emptyTotals() };
+			groups.set(key, group);
+		}
+		addRow(group, row);
+	}
+	return [...groups.values()].sort(
+		(a, b) =>
+			b.cost - a.cost || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens)
+	);
+}
+
+function toLocalDate(seconds: number): string {
+	const date = new Date(seconds * 1000);
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Today's and this calendar month's totals, broken down by day, provider, model and project. */
+export async function getAIUsageReport(settings: AIUsageSettings): Promise<AIUsageReport> {
+	const [rows, projects] = await Promise.all([listAIUsageSince(startOfMonth()), listProjects()]);
+	const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+	const todayStart = startOfDay();
+
+	const today = emptyTotals();
+	const month = emptyTotals();
+	const daily = new Map<string, AIUsageTotals & { date: string }>();
+	for (const row of rows) {
+		addRow(month, row);
+		if (row.created_at >= todayStart) addRow(today, row);
+		const date = toLocalDate(row.created_at);
+		let day = daily.get(date);
+		if (!day) {
+			day = { date, ...emptyTotals() };
+			daily.set(date, day);
+		}
+		addRow(day, row);
+	}
+
+	return {
+		today,
+		month,
+		monthlyBudget: settings.monthlyBudget,
+		// Rows come newest first, so days are already in order
+		daily: [...daily.values()],
+		byProvider: groupBy(rows, (row) => row.provider_name),
+		byModel: groupBy(rows, (row) => row.model),
+		byProject: groupBy(rows, (row) =>
+			row.project_id ? (projectNames.get(row.project_id) ?? "Removed project") : "No project"
+		),
+		defaultPrices: DEFAULT_MODEL_PRICES,
+	};
+}
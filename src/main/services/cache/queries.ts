@@ -1,6 +1,16 @@
-import { and, desc, eq, sql } from "drizzle-orm";
+import { and, desc, eq, gte, sql } from "drizzle-orm";
 import { getDb } from "./sqlite.js";
-import { appSettings, logCache, patchCache, projectPrefs, projects, repoCache } from "./schema.js";
+import {
+	agentSessions,
+	aiUsage,
+	appSettings,
+	logCache,
+	patchCache,
+	projectPrefs,
+	projects,
+	repoCache,
+} from "./schema.js";
+import type { WorktreeLocation, WorktreeRecipe } from "../../../shared/types.js";
 
 export async function getAppSetting(key: string): Promise<string | null> {
 	const db = await getDb();
@@ -94,6 +104,19 @@ export async function updateProjectLastOpened(id: string, lastOpenedAt: number):
 	await db.update(projects).set({ lastOpenedAt }).where(eq(projects.id, id));
 }
 
+/**
+ * Points everything recorded at `oldPath` to `newPath` after a worktree moved: projects opened
+ * from it and projects that had it as their active worktree.
+ */
+export async function moveProjectPath(oldPath: string, newPath: string): Promise<void> {
+	const db = await getDb();
+	await db.update(projects).set({ path: newPath }).where(eq(projects.path, oldPath));
+	await db
+		.update(projectPrefs)
+		.set({ activeWorktreePath: newPath })
+		.where(eq(projectPrefs.activeWorktreePath, oldPath));
+}
+
 export async function deleteProject(id: string): Promise<void> {
 	const db = await getDb();
 	await Promise.all([
@@ -101,6 +124,7 @@ export async function deleteProject(id: string): Promise<void> {
 		db.delete(repoCache).where(eq(repoCache.projectId, id)),
 		db.delete(patchCache).where(eq(patchCache.projectId, id)),
 		db.delete(logCache).where(eq(logCache.projectId, id)),
+		db.delete(agentSessions).where(eq(agentSessions.projectId, id)),
 	]);
 	await db.delete(projects).where(eq(projects.id, id));
 }
@@ -112,6 +136,8 @@ export interface ProjectPrefsRow {
 	selected_file_path: string | null;
 	sidebar_scroll_top: number;
 	active_worktree_path: string | null;
+	worktree_recipe: string | null;
+	worktree_location: string | null;
 }
 
 export async function getProjectPrefs(projectId: string): Promise<ProjectPrefsRow | null> {
@@ -124,6 +150,8 @@ export async function getProjectPrefs(projectId: string): Promise<ProjectPrefsRo
 			selected_file_path: projectPrefs.selectedFilePath,
 			sidebar_scroll_top: projectPrefs.sidebarScrollTop,
 			active_worktree_path: projectPrefs.activeWorktreePath,
+			worktree_recipe: projectPrefs.worktreeRecipe,
+			worktree_location: projectPrefs.worktreeLocation,
 		})
 		.from(projectPrefs)
 		.where(eq(projectPrefs.projectId, projectId));
@@ -139,9 +167,13 @@ export async function setProjectPrefs(
 		selectedFilePath?: string | null;
 		sidebarScrollTop?: number;
 		activeWorktreePath?: string | null;
+		worktreeRecipe?: WorktreeRecipe | null;
+		/** Unlike the other fields, null clears the override */
+		worktreeLocation?: WorktreeLocation | null;
 	}
 ): Promise<void> {
 	const db = await getDb();
+	const worktreeLocation = prefs.worktreeLocation ? JSON.stringify(prefs.worktreeLocation) : null;
 	await db
 		.insert(projectPrefs)
 		.values({
@@ -153,6 +185,8 @@ export async function setProjectPrefs(
 			selectedFilePath: prefs.selectedFilePath ?? null,
 			sidebarScrollTop: prefs.sidebarScrollTop ?? 0,
 			activeWorktreePath: prefs.activeWorktreePath ?? null,
+			worktreeRecipe: prefs.worktreeRecipe ? JSON.stringify(prefs.worktreeRecipe) : null,
+			worktreeLocation,
 		})
 		.onConflictDoUpdate({
 			target: projectPrefs.projectId,
@@ -163,6 +197,11 @@ export async function setProjectPrefs(
 				selectedFilePath: sql`COALESCE(${prefs.selectedFilePath !== undefined ? prefs.selectedFilePath : null}, selected_file_path)`,
 				sidebarScrollTop: sql`COALESCE(${prefs.sidebarScrollTop !== undefined ? prefs.sidebarScrollTop : null}, sidebar_scroll_top)`,
 				activeWorktreePath: sql`COALESCE(${prefs.activeWorktreePath !== undefined ? prefs.activeWorktreePath : null}, active_worktree_path)`,
+				worktreeRecipe: sql`COALESCE(${prefs.worktreeRecipe ? JSON.stringify(prefs.worktreeRecipe) : null}, worktree_recipe)`,
+				worktreeLocation:
+					prefs.worktreeLocation !== undefined
+						? worktreeLocation
+						: sql`worktree_location`,
 			},
 		});
 }
@@ -353,3 +392,138 @@ export async function deleteLogCache(projectId: string): Promise<void> {
 	const db = await getDb();
 	await db.delete(logCache).where(eq(logCache.projectId, projectId));
 }
+
+// --- Agent sessions ---
+
+export interface AgentSessionSummaryRow {
+	id: string;
+	project_id: string;
+	title: string;
+	input_tokens: number;
+	output_tokens: number;
+	created_at: number;
+	updated_at: number;
+}
+
+export interface AgentSessionRow extends AgentSessionSummaryRow {
+	messages_json: string;
+	tool_runs_json: string;
+	decisions_json: string;
+}
+
+const agentSessionSummaryColumns = {
+	id: agentSessions.id,
+	project_id: agentSessions.projectId,
+	title: agentSessions.title,
+	input_tokens: agentSessions.inputTokens,
+	output_tokens: agentSessions.outputTokens,
+	created_at: agentSessions.createdAt,
+	updated_at: agentSessions.updatedAt,
+};
+
+export async function listAgentSessions(projectId: string): Promise<AgentSessionSummaryRow[]> {
+	const db = await getDb();
+	const rows = await db
+		.select(agentSessionSummaryColumns)
+		.from(agentSessions)
+		.where(eq(agentSessions.projectId, projectId))
+		.orderBy(desc(agentSessions.updatedAt));
+	return rows as AgentSessionSummaryRow[];
+}
+
+export async function getAgentSession(id: string): Promise<AgentSessionRow | null> {
+	const db = await getDb();
+	const rows = await db
+		.select({
+			...agentSessionSummaryColumns,
+			messages_json: agentSessions.messagesJson,
+			tool_runs_json: agentSessions.toolRunsJson,
+			decisions_json: agentSessions.decisionsJson,
+		})
+		.from(agentSessions)
+		.where(eq(agentSessions.id, id));
+	return rows[0] ? (rows[0] as AgentSessionRow) : null;
+}
+
+export async function setAgentSession(row: AgentSessionRow): Promise<void> {
+	const db = await getDb();
+	const values = {
+		title: row.title,
+		messagesJson: row.messages_json,
+		toolRunsJson: row.tool_runs_json,
+		decisionsJson: row.decisions_json,
+		inputTokens: row.input_tokens,
+		outputTokens: row.output_tokens,
+		updatedAt: row.updated_at,
+	};
+	await db
+		.insert(agentSessions)
+		.values({ id: row.id, projectId: row.project_id, createdAt: row.created_at, ...values })
+		.onConflictDoUpdate({ target: agentSessions.id, set: values });
+}
+
+export async function deleteAgentSession(id: string): Promise<void> {
+	const db = await getDb();
+	await db.delete(agentSessions).where(eq(agentSessions.id, id));
+}
+
+// --- AI usage ---
+
+export interface AIUsageRow {
+	project_id: string | null;
+	provider_id: string;
+	provider_name: string;
+	provider_type: string;
+	model: string;
+	feature: string;
+	input_tokens: number;
+	output_tokens: number;
+	cost: number | null;
+	created_at: number;
+}
+
+export async function insertAIUsage(row: AIUsageRow): Promise<void> {
+	const db = await getDb();
+	await db.insert(aiUsage).values({
+		projectId: row.project_id,
+		providerId: row.provider_id,
+		providerName: row.provider_name,
+		providerType: row.provider_type,
+		model: row.model,
+		feature: row.feature,
+		inputTokens: row.input_tokens,
+		outputTokens: row.output_tokens,
+		cost: row.cost,
+		createdAt: row.created_at,
+	});
+}
+
+export async function listAIUsageSince(since: number): Promise<AIUsageRow[]> {
+	const db = await getDb();
+	const rows = await db
+		.select({
+			project_id: aiUsage.projectId,
+			provider_id: aiUsage.providerId,
+			provider_name: aiUsage.providerName,
+			provider_type: aiUsage.providerType,
+			model: aiUsage.model,
+			feature: aiUsage.feature,
+			input_tokens: aiUsage.inputTokens,
+			output_tokens: aiUsage.outputTokens,
+			cost: aiUsage.cost,
+			created_at: aiUsage.createdAt,
+		})
+		.from(aiUsage)
+		.where(gte(aiUsage.createdAt, since))
+		.orderBy(desc(aiUsage.createdAt));
+	return rows as AIUsageRow[];
+}
+
+export async function getAIUsageCostSince(since: number): Promise<number> {
+	const db = await getDb();
+	const rows = await db
+		.select({ total: sql<number>`COALESCE(SUM(${aiUsage.cost}), 0)` })
+		.from(aiUsage)
+		.where(gte(aiUsage.createdAt, since));
+	return Number(rows[0]?.total ?? 0);
+}
@@ -1,4 +1,4 @@
-import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { index, integer, real, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
 
 export const appSettings = sqliteTable("app_settings", {
 	key: text("key").notNull().primaryKey(),
@@ -28,6 +28,8 @@ export const projectPrefs = sqliteTable("project_prefs", {
 	selectedFilePath: text("selected_file_path"),
 	sidebarScrollTop: integer("sidebar_scroll_top").notNull().default(0),
 	activeWorktreePath: text("active_worktree_path"),
+	worktreeRecipe: text("worktree_recipe"),
+	worktreeLocation: text("worktree_location"),
 });
 
 export const repoCache = sqliteTable(
@@ -93,3 +95,44 @@ export const logCache = sqliteTable("log_cache", {
 	unpushedOidsJson: text("unpushed_oids_json"),
 	updatedAt: integer("updated_at").notNull(),
 });
+
+export const agentSessions = sqliteTable(
+	"agent_sessions",
+	{
+		id: text("id").notNull().primaryKey(),
+		projectId: text("project_id")
+			.notNull()
+			.references(() => projects.id),
+		title: text("title").notNull(),
+		messagesJson: text("messages_json").notNull().default("[]"),
+		toolRunsJson: text("tool_runs_json").notNull().default("[]"),
+		decisionsJson: text("decisions_json").notNull().default("[]"),
+		inputTokens: integer("input_tokens").notNull().default(0),
+		outputTokens: integer("output_tokens").notNull().default(0),
+		createdAt: integer("created_at").notNull(),
+		updatedAt: integer("updated_at").notNull(),
+	},
+	(table) => [index("idx_agent_sessions_project_updated").on(table.projectId, table.updatedAt)]
+);
+
+/**
+ * No foreign key to `projects`: spend stays on record, and counts toward the monthly budget,
+ * after a project is removed.
+ */
+export const aiUsage = sqliteTable(
+	"ai_usage",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		projectId: text("project_id"),
+		providerId: text("provider_id").notNull(),
+		providerName: text("provider_name").notNull(),
+		providerType: text("provider_type").notNull(),
+		model: text("model").notNull(),
+		feature: text("feature").notNull(),
+		inputTokens: integer("input_tokens").notNull(),
+		outputTokens: integer("output_tokens").notNull(),
+		cost: real("cost"),
+		createdAt: integer("created_at").notNull(),
+	},
+	(table) => [index("idx_ai_usage_created").on(table.createdAt)]
+);
@@ -9,5 +9,7 @@ export function prefsRowToPrefs(row: ProjectPrefsRow): ProjectPrefs {
 		selectedFilePath: row.selected_file_path,
 		sidebarScrollTop: row.sidebar_scroll_top,
 		activeWorktreePath: row.active_worktree_path ?? null,
+		worktreeRecipe: row.worktree_recipe ? JSON.parse(row.worktree_recipe) : null,
+		worktreeLocation: row.worktree_location ? JSON.parse(row.worktree_location) : null,
 	};
 }
@@ -0,0 +1,20 @@
+/** Maps `items` with at most `limit` mappers in flight, keeping results in input order. */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	limit: number,
+	mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+	if (items.length === 0) return [];
+	const results = Array.from({ length: items.length }) as R[];
+	let nextIndex = 0;
+	const worker = async () => {
+		while (true) {
+			const index = nextIndex++;
+			if (index >= items.length) return;
+			results[index] = await mapper(items[index], index);
+		}
+	};
+	const workerCount = Math.min(limit, items.length);
+	await Promise.all(Array.from({ length: workerCount }, () => worker()));
+	return results;
+}
@@ -0,0 +1,130 @@
+import { readFile } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import { getProjectByPath } from "../cache/queries.js";
+import { onGitInvocation, redactCredentials, redactGitArgs, type GitInvocation } from "./runner.js";
+import type { GitActivityEntry } from "../../../shared/types.js";
+
+/** The log keeps this many of the most recent commands. */
+const MAX_ENTRIES = 500;
+/** Output kept per stream and entry; what git prints first usually explains a failure. */
+const MAX_OUTPUT_CHARS = 20_000;
+/** Extra output redacted past the cut, so a credential straddling it is still masked whole. */
+const REDACT_MARGIN_CHARS = 2_000;
+
+const entries: GitActivityEntry[] = [];
+let nextId = 1;
+/** Recording waits for the project lookup; chaining keeps entries in the order commands finished. */
+let recording: Promise<void> = Promise.resolve();
+const projectIdsByCwd = new Map<string, string>();
+
+function quoteArg(arg: string): string {
+	if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+	return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Redacts a stream and keeps its start. Only that start is scanned, as output can run to
+ * megabytes.
+ */
+function redactOutput(output: string): { text: string; truncated: boolean } {
+	const text = redactCredentials(output.slice(0, MAX_OUTPUT_CHARS + REDACT_MARGIN_CHARS));
+	if (output.length <= MAX_OUTPUT_CHARS) return { text, truncated: false };
+	return { text: text.slice(0, MAX_OUTPUT_CHARS), truncated: true };
+}
+
+/** A linked worktree's `.git` file points into the main repository's `.git/worktrees`. */
+async function findMainWorktree(cwd: string): Promise<string> {
+	try {
+		const contents = await readFile(join(cwd, ".git"), "utf-8");
+		const gitDir = contents.match(/^gitdir:\s*(.+)$/m)?.[1]?.trim();
+		if (gitDir) {
+			const worktreesDir = dirname(resolve(cwd, gitDir));
+			if (basename(worktreesDir) === "worktrees") return dirname(dirname(worktreesDir));
+		}
+	} catch {
+		// .git is a directory, or cwd is not a repository root
+	}
+	return cwd;
+}
+
+async function resolveProjectId(cwd: string): Promise<string | null> {
+	const cached = projectIdsByCwd.get(cwd);
+	if (cached) return cached;
+	// Misses are not cached: the folder may be added as a project later, e.g. after a clone
+	const project = await getProjectByPath(await findMainWorktree(resolve(cwd)));
+	if (project) projectIdsByCwd.set(cwd, project.id);
+	return project?.id ?? null;
+}
+
+function toEntry(
+	id: number,
+	invocation: GitInvocation,
+	projectId: string | null
+): GitActivityEntry {
+	const stdout = redactOutput(invocation.stdout);
+	const stderr = redactOutput(invocation.stderr);
+	return {
+		id,
+		projectId,
+		// Entries are streamed to the renderer and exported for bug reports, so never hold tokens
+		command: [invocation.binary, ...redactGitArgs(invocation.args)].map(quoteArg).join(" "),
+		cwd: invocation.cwd,
+		startedAt: invocation.startedAt,
+		durationMs: invocation.durationMs,
+		exitCode: invocation.exitCode,
+		error: invocation.error ? redactCredentials(invocation.error) : null,
+		stdout: stdout.text,
+		stderr: stderr.text,
+		truncated: stdout.truncated || stderr.truncated,
+	};
+}
+
+/** Records every git command from now on and passes each new entry to `onEntry`. */
+export function startGitActivityLog(onEntry: (entry: GitActivityEntry) => void): () => void {
+	return onGitInvocation((invocation) => {
+		const id = nextId++;
+		recording = recording.then(async () => {
+			const projectId = await resolveProjectId(invocation.cwd).catch(() => null);
+			const entry = toEntry(id, invocation, projectId);
+			entries.push(entry);
+			if (entries.length > MAX_ENTRIES) entries.splice(0, entries.length - MAX_ENTRIES);
+			onEntry(entry);
+		});
+	});
+}
+
+/** Recorded entries, oldest first; with `projectId`, only that project's. */
+export function getGitActivity(projectId?: string): GitActivityEntry[] {
+	return projectId ? entries.filter((entry) => entry.projectId === projectId) : [...entries];
+}
+
+export function clearGitActivity(): void {
+	entries.length = 0;
+}
+
+function indent(text: string): string {
+	return text
+		.trimEnd()
+		.split("\n")
+		.map((line) => `    ${line}`)
+		.join("\n");
+}
+
+/** Plain-text log of `list` for attaching to bug reports. */
+export function formatGitActivity(list: GitActivityEntry[]): string {
+	return list
+		.map((entry) => {
+			const outcome =
+				entry.error ?? (entry.exitCode === 0 ? "ok" : `exit code ${entry.exitCode}`);
+			const lines = [
+				`[${new Date(entry.startedAt).toISOString()}] ${outcome} in ${entry.durationMs} ms`,
+				`$ ${entry.command}`,
+				`cwd: ${entry.cwd}`,
+			];
+			if (entry.stdout.trim()) lines.push("stdout:", indent(entry.stdout));
+			if (entry.stderr.trim()) lines.push("stderr:", indent(entry.stderr));
+			if (entry.truncated) lines.push("(output truncated)");
+			return lines.join("\n");
+		})
+		.join("\n\n");
+}
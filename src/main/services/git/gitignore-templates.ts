@@ -0,0 +1,149 @@
+/** `.gitignore` templates offered when initializing a repository, condensed from github/gitignore. */
+const GITIGNORE_TEMPLATES: Record<string, string> = {
+	Node: `# Dependencies
+node_modules/
+.pnpm-store/
+
+# Build output
+dist/
+build/
+out/
+coverage/
+*.tsbuildinfo
+
+# Logs
+logs/
+*.log
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+pnpm-debug.log*
+
+# Environment
+.env
+.env.*
+!.env.example
+
+# Caches
+.cache/
+.eslintcache
+.parcel-cache/
+.next/
+.nuxt/
+.turbo/
+`,
+	Python: `# Byte-compiled files
+__pycache__/
+*.py[cod]
+*$py.class
+
+# Packaging
+build/
+dist/
+*.egg-info/
+.eggs/
+wheels/
+
+# Virtual environments
+.venv/
+venv/
+env/
+.env
+
+# Test and tool caches
+.pytest_cache/
+.mypy_cache/
+.ruff_cache/
+.tox/
+.coverage
+htmlcov/
+
+# Notebooks
+.ipynb_checkpoints/
+`,
+	Go: `# Binaries
+*.exe
+*.exe~
+*.dll
+*.so
+*.dylib
+bin/
+
+# Test output
+*.test
+*.out
+coverage.*
+
+# Workspace
+go.work
+go.work.sum
+
+# Environment
+.env
+`,
+	Rust: `# Build output
+target/
+
+# Backup files from rustfmt
+**/*.rs.bk
+
+# Debug info
+*.pdb
+`,
+	Java: `# Compiled classes and archives
+*.class
+*.jar
+*.war
+*.ear
+
+# Build tools
+target/
+build/
+.gradle/
+!gradle/wrapper/gradle-wrapper.jar
+
+# Logs
+*.log
+hs_err_pid*
+
+# IDE
+.idea/
+*.iml
+`,
+	Swift: `# Xcode
+xcuserdata/
+DerivedData/
+*.xcscmblueprint
+*.xccheckout
+
+# Swift Package Manager
+.build/
+.swiftpm/
+Packages/
+
+# CocoaPods and Carthage
+Pods/
+Carthage/Build/
+`,
+	macOS: `.DS_Store
+.AppleDouble
+.LSOverride
+._*
+.Spotlight-V100
+.Trashes
+`,
+	Windows: `Thumbs.db
+ehthumbs.db
+Desktop.ini
+$RECYCLE.BIN/
+*.lnk
+`,
+};
+
+export function listGitignoreTemplates(): string[] {
+	return Object.keys(GITIGNORE_TEMPLATES);
+}
+
+export function getGitignoreTemplate(name: string): string | null {
+	return Object.hasOwn(GITIGNORE_TEMPLATES, name) ? GITIGNORE_TEMPLATES[name]! : null;
+}
@@ -0,0 +1,41 @@
+import { randomUUID } from "crypto";
+import { emitHookRun } from "../../ipc/events.js";
+import { HookFailedError } from "./hooks.js";
+import type { GitProvider } from "./types.js";
+import type { HookAction } from "../../../shared/types.js";
+
+/**
+ * Runs a commit or push, streaming hook output to the renderer as `events:hookRun`. Nothing is
+ * sent when hooks are skipped or none are installed, so the output pane only opens when hooks run.
+ */
+export async function runHookedAction<T>(
+	projectId: string,
+	git: GitProvider,
+	cwd: string,
+	action: HookAction,
+	noVerify: boolean | undefined,
+	run: (onOutput?: (text: string) => void) => Promise<T>
+): Promise<T> {
+	const hooks = noVerify ? [] : await git.getInstalledHooks(cwd, action);
+	if (hooks.length === 0) return run();
+
+	const runId = randomUUID();
+	emitHookRun({ type: "start", runId, projectId, action, hooks });
+	try {
+		const result = await run((text) => emitHookRun({ type: "output", runId, projectId, text }));
+		emitHookRun({ type: "end", runId, projectId, failure: null });
+		return result;
+	} catch (error) {
+		emitHookRun({
+			type: "end",
+			runId,
+			projectId,
+			failure:
+				error instanceof HookFailedError
+					? { hook: error.hook, exitCode: error.exitCode }
+					: null,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		throw error;
+	}
+}
@@ -0,0 +1,126 @@
+import { access, mkdtemp, readFile, rm } from "fs/promises";
+import { constants } from "fs";
+import { tmpdir } from "os";
+import { basename, join, resolve } from "path";
+import type { GitClient } from "./runner.js";
+import type { HookAction, HookFailure } from "../../../shared/types.js";
+
+/** Hooks git runs for each action that can stop it. `--no-verify` skips all of them. */
+export const BLOCKING_HOOKS: Record<HookAction, string[]> = {
+	commit: ["pre-commit", "commit-msg"],
+	push: ["pre-push"],
+};
+
+export class HookFailedError extends Error {
+	readonly hook: string;
+	readonly exitCode: number;
+
+	constructor(hook: string, exitCode: number, cause: unknown) {
+		const detail = cause instanceof Error ? cause.message.trim() : "";
+		super(`${hook} hook failed with exit code ${exitCode}${detail ? `\n${detail}` : ""}`);
+		this.name = "HookFailedError";
+		this.hook = hook;
+		this.exitCode = exitCode;
+	}
+}
+
+async function isExecutable(path: string): Promise<boolean> {
+	try {
+		// Windows has no execute bit; git runs any hook file there
+		await access(path, process.platform === "win32" ? constants.F_OK : constants.X_OK);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Of `names`, the hooks installed in the repository's hooks directory, honouring `core.hooksPath`. */
+export async function findInstalledHooks(
+	git: { raw(args: string[]): Promise<string> },
+	cwd: string,
+	names: string[]
+): Promise<string[]> {
+	let hooksDir: string;
+	try {
+		hooksDir = (await git.raw(["rev-parse", "--git-path", "hooks"])).trim();
+	} catch {
+		return [];
+	}
+	if (!hooksDir) return [];
+	const dir = resolve(cwd, hooksDir);
+	const installed: string[] = [];
+	for (const name of names) {
+		if (await isExecutable(join(dir, name))) installed.push(name);
+	}
+	return installed;
+}
+
+interface TraceEvent {
+	event?: string;
+	sid?: string;
+	child_id?: number;
+	child_class?: string;
+	hook_name?: string;
+	argv?: string[];
+	code?: number;
+}
+
+/**
+ * Finds the hook that exited non-zero in a trace2 event log. Nested git processes log to the same
+ * file under a `parent/child` session ID, so only the top-level process's children are considered.
+ */
+function findHookFailure(log: string): HookFailure | null {
+	const hooks = new Map<number, string>();
+	let failure: HookFailure | null = null;
+	for (const line of log.split("\n")) {
+		if (!line.trim()) continue;
+		let event: TraceEvent;
+		try {
+			event = JSON.parse(line);
+		} catch {
+			continue;
+		}
+		if (!event.sid || event.sid.includes("/") || event.child_id === undefined) continue;
+		if (event.event === "child_start" && event.child_class === "hook") {
+			hooks.set(event.child_id, event.hook_name ?? basename(event.argv?.[0] ?? "hook"));
+		} else if (event.event === "child_exit" && event.code) {
+			const hook = hooks.get(event.child_id);
+			if (hook) failure = { hook, exitCode: event.code };
+		}
+	}
+	return failure;
+}
+
+/**
+ * Runs a command that may trigger hooks with the environment `task` receives. Git does not say
+ * which hook stopped it, so the run is traced and a hook failure rethrown as `HookFailedError`
+ * with the hook's own exit code.
+ */
+export async function traceHooks<T>(
+	task: (env: { GIT_TRACE2_EVENT: string }) => Promise<T>
+): Promise<T> {
+	const traceDir = await mkdtemp(join(tmpdir(), "gitagen-trace-"));
+	const traceFile = join(traceDir, "events.json");
+	try {
+		return await task({ GIT_TRACE2_EVENT: traceFile });
+	} catch (error) {
+		const failure = findHookFailure(await readFile(traceFile, "utf-8").catch(() => ""));
+		if (failure) throw new HookFailedError(failure.hook, failure.exitCode, error);
+		throw error;
+	} finally {
+		await rm(traceDir, { recursive: true, force: true });
+	}
+}
+
+/** `traceHooks` for a `GitClient`, streaming the command's stdout and stderr to `onOutput`. */
+export function runWithHookTrace<T>(
+	git: GitClient,
+	onOutput: ((text: string) => void) | undefined,
+	task: (git: GitClient) => Promise<T>
+): Promise<T> {
+	return traceHooks((env) => {
+		git.env(env);
+		if (onOutput) git.onOutput(onOutput);
+		return task(git);
+	});
+}
@@ -1,5 +1,6 @@
 import { execSync } from "child_process";
 import { existsSync } from "fs";
+import { createProcessGitProvider } from "./process-provider.js";
 import { createSimpleGitProvider } from "./simple-git-provider.js";
 import type { AppSettings } from "../../../shared/types.js";
 import type { GitProvider } from "./types.js";
@@ -42,7 +43,9 @@ export function resolveGitBinary(binaryPath: string | null): string | null {
 
 export function createGitProvider(settings: Partial<AppSettings> = {}): GitProvider {
 	const binary = resolveGitBinary(settings.gitBinaryPath ?? null);
-	return createSimpleGitProvider(binary);
+	return settings.gitProvider === "simple-git"
+		? createSimpleGitProvider(binary)
+		: createProcessGitProvider(binary);
 }
 
 export interface SshAgentInfo {
@@ -61,5 +64,6 @@ export function getSshAgentInfo(): SshAgentInfo {
 }
 
 export { ensureSshAuthSock } from "./env.js";
+export { createProcessGitProvider } from "./process-provider.js";
 export { createSimpleGitProvider } from "./simple-git-provider.js";
 export type { GitProvider, RepoFingerprint } from "./types.js";
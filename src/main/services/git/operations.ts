@@ -0,0 +1,65 @@
+import { emitOperationProgress } from "../../ipc/events.js";
+import type { GitOperationOptions } from "./types.js";
+import type { GitOperationKind } from "../../../shared/types.js";
+
+const OPERATION_LABELS: Record<GitOperationKind, string> = {
+	fetch: "Fetch",
+	pull: "Pull",
+	push: "Push",
+	clone: "Clone",
+	worktreeSetup: "Worktree setup",
+	worktreeTeardown: "Worktree teardown",
+};
+
+const running = new Map<string, AbortController>();
+
+export class OperationCancelledError extends Error {
+	constructor(kind: GitOperationKind) {
+		super(`${OPERATION_LABELS[kind]} cancelled`);
+		this.name = "OperationCancelledError";
+	}
+}
+
+/**
+ * Runs a long git operation under a caller-chosen ID, reporting its progress on
+ * `events:operationProgress` until `cancelOperation` is called with the same ID. Without an ID
+ * the operation runs as before, with no events and no way to cancel it.
+ */
+export async function runOperation<T>(
+	operationId: string | undefined,
+	projectId: string | null,
+	kind: GitOperationKind,
+	run: (opts: GitOperationOptions) => Promise<T>
+): Promise<T> {
+	if (!operationId) return run({});
+	if (running.has(operationId)) throw new Error(`Operation ${operationId} is already running`);
+
+	const controller = new AbortController();
+	running.set(operationId, controller);
+	const base = { operationId, projectId, kind };
+	emitOperationProgress({ type: "start", ...base });
+	try {
+		const result = await run({
+			signal: controller.signal,
+			onProgress: (progress) =>
+				emitOperationProgress({ type: "progress", ...base, ...progress }),
+		});
+		emitOperationProgress({ type: "end", ...base, status: "done" });
+		return result;
+	} catch (error) {
+		const cancelled = controller.signal.aborted;
+		emitOperationProgress({ type: "end", ...base, status: cancelled ? "cancelled" : "failed" });
+		if (cancelled) throw new OperationCancelledError(kind);
+		throw error;
+	} finally {
+		running.delete(operationId);
+	}
+}
+
+/** Kills the operation's git process. Returns false when no such operation is running. */
+export function cancelOperation(operationId: string): boolean {
+	const controller = running.get(operationId);
+	if (!controller) return false;
+	controller.abort();
+	return true;
+}
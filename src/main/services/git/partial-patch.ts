@@ -0,0 +1,231 @@
+import type { DiffSide, PatchSelection } from "../../../shared/types.js";
+
+interface PatchLine {
+	kind: " " | "-" | "+" | "\\";
+	text: string;
+	oldLine: number | null;
+	newLine: number | null;
+}
+
+interface PatchHunk {
+	oldStart: number;
+	newStart: number;
+	heading: string;
+	lines: PatchLine[];
+}
+
+interface ParsedFilePatch {
+	header: string[];
+	hunks: PatchHunk[];
+}
+
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/;
+
+function parseFilePatch(patch: string): ParsedFilePatch {
+	const header: string[] = [];
+	const hunks: PatchHunk[] = [];
+	let current: PatchHunk | null = null;
+	let oldLine = 0;
+	let newLine = 0;
+	const rawLines = patch.split("\n");
+	if (rawLines[rawLines.length - 1] === "") rawLines.pop();
+	for (const raw of rawLines) {
+		const match = raw.match(HUNK_HEADER_REGEX);
+		if (match) {
+			current = {
+				oldStart: Number(match[1]),
+				newStart: Number(match[2]),
+				heading: match[3] ?? "",
+				lines: [],
+			};
+			hunks.push(current);
+			oldLine = current.oldStart;
+			newLine = current.newStart;
+			continue;
+		}
+		if (!current) {
+			header.push(raw);
+			continue;
+		}
+		const kind = raw[0];
+		if (kind === "-") {
+			current.lines.push({ kind, text: raw, oldLine: oldLine++, newLine: null });
+		} else if (kind === "+") {
+			current.lines.push({ kind, text: raw, oldLine: null, newLine: newLine++ });
+		} else if (kind === "\\") {
+			current.lines.push({ kind, text: raw, oldLine: null, newLine: null });
+		} else {
+			current.lines.push({
+				kind: " ",
+				text: raw.startsWith(" ") ? raw : ` ${raw}`,
+				oldLine: oldLine++,
+				newLine: newLine++,
+			});
+		}
+	}
+	return { header, hunks };
+}
+
+function matchesLine(line: PatchLine, lineNumber: number, side: DiffSide): boolean {
+	if (line.kind === "\\") return false;
+	return (side === "deletions" ? line.oldLine : line.newLine) === lineNumber;
+}
+
+/** A line numbered on the side it changed: a deletion by its old number, an addition by its new one. */
+function matchesChangedLine(line: PatchLine, lineNumber: number): boolean {
+	if (line.kind === "-") return line.oldLine === lineNumber;
+	if (line.kind === "+") return line.newLine === lineNumber;
+	return false;
+}
+
+/** Flat position (hunk, line) of the first diff line matching `predicate`. */
+function findLine(
+	hunks: PatchHunk[],
+	predicate: (line: PatchLine) => boolean
+): [number, number] | null {
+	for (let h = 0; h < hunks.length; h++) {
+		const lines = hunks[h]!.lines;
+		for (let l = 0; l < lines.length; l++) {
+			if (predicate(lines[l]!)) return [h, l];
+		}
+	}
+	return null;
+}
+
+/**
+ * Flat position of the diff line with the given line number. Without a side the number is
+ * ambiguous, since old and new numbering overlap; a changed line is preferred over context.
+ */
+function findPosition(
+	hunks: PatchHunk[],
+	lineNumber: number,
+	side: DiffSide | undefined
+): [number, number] | null {
+	if (side) return findLine(hunks, (line) => matchesLine(line, lineNumber, side));
+	return (
+		findLine(hunks, (line) => matchesChangedLine(line, lineNumber)) ??
+		findLine(hunks, (line) => matchesLine(line, lineNumber, "additions"))
+	);
+}
+
+function comparePositions(a: [number, number], b: [number, number]): number {
+	return a[0] !== b[0] ? a[0] - b[0] : a[1] - b[1];
+}
+
+function collectSelectedLines(
+	hunks: PatchHunk[],
+	selection: PatchSelection
+): Set<PatchLine> | null {
+	const { range } = selection;
+	let start = findPosition(hunks, range.start, range.side);
+	let end = findPosition(hunks, range.end, range.endSide ?? range.side);
+	if (!start || !end) return null;
+	if (comparePositions(start, end) > 0) [start, end] = [end, start];
+	const selected = new Set<PatchLine>();
+	for (let h = start[0]; h <= end[0]; h++) {
+		const lines = hunks[h]!.lines;
+		const from = selection.wholeHunks || h > start[0] ? 0 : start[1];
+		const to = selection.wholeHunks || h < end[0] ? lines.length - 1 : end[1];
+		for (let l = from; l <= to; l++) {
+			const line = lines[l]!;
+			if (line.kind === "-" || line.kind === "+") selected.add(line);
+		}
+	}
+	return selected;
+}
+
+/**
+ * A partial selection of a file addition or deletion leaves content on both sides. Where the
+ * patch is applied to the side that has the file, it has to be expressed as a plain
+ * modification of the existing path; applied to the side without the file, it still creates it.
+ */
+function normalizeHeader(header: string[], reverse: boolean): string[] {
+	// Forward patches apply to the old side, reversed ones to the new side
+	const missingOnTarget = reverse ? "+++ /dev/null" : "--- /dev/null";
+	if (header.includes(missingOnTarget)) return header;
+	const pathLine = header.find(
+		(line) =>
+			(line.startsWith("--- ") || line.startsWith("+++ ")) && !line.endsWith("/dev/null")
+	);
+	const path = pathLine?.slice(6) ?? "";
+	return header
+		.filter(
+			(line) => !line.startsWith("new file mode") && !line.startsWith("deleted file mode")
+		)
+		.map((line) => {
+			if (line === "--- /dev/null") return `--- a/${path}`;
+			if (line === "+++ /dev/null") return `+++ b/${path}`;
+			return line;
+		});
+}
+
+/**
+ * Builds a patch containing only the selected changes of a single-file diff.
+ * With `reverse`, the result is meant for `git apply --reverse` (unstage/discard):
+ * unselected additions become context and unselected deletions are dropped.
+ * Otherwise unselected additions are dropped and unselected deletions become context.
+ * Returns null when the selection contains no changed lines.
+ */
+export function buildPartialPatch(
+	patch: string,
+	selection: PatchSelection,
+	opts: { reverse?: boolean } = {}
+): string | null {
+	const parsed = parseFilePatch(patch);
+	const selected = collectSelectedLines(parsed.hunks, selection);
+	if (!selected || selected.size === 0) return null;
+
+	const totalChanges = parsed.hunks.reduce(
+		(sum, hunk) => sum + hunk.lines.filter((l) => l.kind === "-" || l.kind === "+").length,
+		0
+	);
+	const out: string[] =
+		selected.size < totalChanges
+			? normalizeHeader(parsed.header, !!opts.reverse)
+			: [...parsed.header];
+	let originalDelta = 0;
+	let partialDelta = 0;
+	for (const hunk of parsed.hunks) {
+		const hunkDelta = hunk.lines.reduce(
+			(sum, line) => sum + (line.kind === "+" ? 1 : line.kind === "-" ? -1 : 0),
+			0
+		);
+		if (!hunk.lines.some((line) => selected.has(line))) {
+			originalDelta += hunkDelta;
+			continue;
+		}
+		const body: string[] = [];
+		let oldCount = 0;
+		let newCount = 0;
+		let previousKept = false;
+		for (const line of hunk.lines) {
+			if (line.kind === "\\") {
+				if (previousKept) body.push(line.text);
+				continue;
+			}
+			let kind = line.kind;
+			if (kind !== " " && !selected.has(line)) {
+				const keepAsContext = opts.reverse ? kind === "+" : kind === "-";
+				if (!keepAsContext) {
+					previousKept = false;
+					continue;
+				}
+				kind = " ";
+			}
+			body.push(kind + line.text.slice(1));
+			if (kind !== "+") oldCount++;
+			if (kind !== "-") newCount++;
+			previousKept = true;
+		}
+		// The side the patch is applied to keeps its line numbers; the other side shifts by
+		// the difference between the original and the partial size change so far.
+		const shift = partialDelta - originalDelta;
+		const oldStart = opts.reverse ? hunk.oldStart - shift : hunk.oldStart;
+		const newStart = opts.reverse ? hunk.newStart : hunk.newStart + shift;
+		out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${hunk.heading}`);
+		out.push(...body);
+		originalDelta += hunkDelta;
+		partialDelta += newCount - oldCount;
+	}
+	return `${out.join("\n")}\n`;
+}
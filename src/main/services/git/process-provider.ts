@@ -0,0 +1,1569 @@
+import { statSync } from "fs";
+import { copyFile, mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import type {
+	CheckpointInfo,
+	ConflictState,
+	FileChange,
+	GitChangeType,
+	StashDetail,
+	TagInfo,
+} from "../../../shared/types.js";
+import { BLOCKING_HOOKS, findInstalledHooks, runWithHookTrace } from "./hooks.js";
+import { createProgressParser } from "./progress.js";
+import { createGitClient, LONG_GIT_TIMEOUT_MS, type GitClient } from "./runner.js";
+
+const MAX_NEW_FILE_BYTES = 1024 * 1024;
+const STATUS_CACHE_TTL_MS = 1000;
+const STATUS_CACHE_MAX_SIZE = 50;
+const statusCache = new Map<string, { status: StatusSnapshot; fetchedAt: number }>();
+
+/** `git status` output; `index` and `workingDir` are the two letters of the short format. */
+interface StatusSnapshot {
+	/** Tracked paths with changes */
+	files: { path: string; index: string; workingDir: string }[];
+	untracked: string[];
+	ahead: number;
+	behind: number;
+}
+
+async function readStatus(git: GitClient): Promise<StatusSnapshot> {
+	const out = await git.raw(["status", "--porcelain", "--branch", "--untracked-files=all", "-z"]);
+	const status: StatusSnapshot = { files: [], untracked: [], ahead: 0, behind: 0 };
+	const entries = out.split("\0");
+	for (let i = 0; i < entries.length; i++) {
+		const entry = entries[i]!;
+		if (entry.startsWith("## ")) {
+			status.ahead = Number(entry.match(/\bahead (\d+)/)?.[1] ?? 0);
+			status.behind = Number(entry.match(/\bbehind (\d+)/)?.[1] ?? 0);
+			continue;
+		}
+		if (entry.length < 4) continue;
+		const index = entry[0]!;
+		const workingDir = entry[1]!;
+		const path = entry.slice(3);
+		if (index === "?") {
+			status.untracked.push(path);
+			continue;
+		}
+		if (index === "!") continue;
+		// Renames and copies are followed by the original path
+		if ("RC".includes(index) || "RC".includes(workingDir)) i++;
+		status.files.push({ path, index, workingDir });
+	}
+	return status;
+}
+
+function evictLruStatusCache(): void {
+	if (statusCache.size <= STATUS_CACHE_MAX_SIZE) return;
+	let oldestKey: string | null = null;
+	let oldestTime = Infinity;
+	for (const [key, entry] of statusCache) {
+		if (entry.fetchedAt < oldestTime) {
+			oldestTime = entry.fetchedAt;
+			oldestKey = key;
+		}
+	}
+	if (oldestKey) statusCache.delete(oldestKey);
+}
+
+async function getStatusCached(git: GitClient, cwd: string): Promise<StatusSnapshot | null> {
+	const cached = statusCache.get(cwd);
+	const now = Date.now();
+	if (cached && now - cached.fetchedAt < STATUS_CACHE_TTL_MS) {
+		return cached.status;
+	}
+	const status = await readStatus(git).catch(() => null);
+	if (status) {
+		evictLruStatusCache();
+		statusCache.set(cwd, { status, fetchedAt: now });
+	}
+	return status;
+}
+
+async function resolveGitDir(repoPath: string): Promise<string | null> {
+	const dotGitPath = join(repoPath, ".git");
+	try {
+		const st = await stat(dotGitPath);
+		if (st.isDirectory()) return dotGitPath;
+		if (!st.isFile()) return null;
+		const contents = await readFile(dotGitPath, "utf-8");
+		const match = contents.match(/^gitdir:\s*(.+)$/m);
+		if (!match) return null;
+		return resolve(repoPath, match[1].trim());
+	} catch {
+		return null;
+	}
+}
+
+async function readNumberFile(path: string): Promise<number | undefined> {
+	try {
+		const value = Number.parseInt((await readFile(path, "utf-8")).trim(), 10);
+		return Number.isFinite(value) ? value : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+async function pathExists(path: string): Promise<boolean> {
+	try {
+		await stat(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Reads the operation markers git leaves in the git dir while a merge, rebase or cherry-pick is stopped. */
+async function detectConflictOperation(
+	gitDir: string
+): Promise<Omit<ConflictState, "conflictFiles"> | null> {
+	for (const dir of ["rebase-merge", "rebase-apply"]) {
+		const rebaseDir = join(gitDir, dir);
+		if (!(await pathExists(rebaseDir))) continue;
+		const interactive = dir === "rebase-merge";
+		return {
+			type: "rebase",
+			currentStep: await readNumberFile(join(rebaseDir, interactive ? "msgnum" : "next")),
+			totalSteps: await readNumberFile(join(rebaseDir, interactive ? "end" : "last")),
+		};
+	}
+	if (await pathExists(join(gitDir, "CHERRY_PICK_HEAD"))) return { type: "cherry-pick" };
+	if (await pathExists(join(gitDir, "MERGE_HEAD"))) return { type: "merge" };
+	return null;
+}
+
+async function listGitPaths(git: GitClient, args: string[]): Promise<string[]> {
+	try {
+		return (await git.raw(args)).split("\0").filter(Boolean);
+	} catch {
+		return [];
+	}
+}
+
+async function applyPatch(git: GitClient, patch: string, args: string[]): Promise<void> {
+	await git.raw(["apply", "--whitespace=nowarn", ...args, "-"], { input: patch });
+}
+
+async function buildNewFileDiff(repoPath: string, filePath: string): Promise<string | null> {
+	try {
+		const fullPath = join(repoPath, filePath);
+		const stats = await stat(fullPath);
+		if (stats.size > MAX_NEW_FILE_BYTES) return null;
+		const content = await readFile(fullPath, "utf-8");
+		if (content.includes("\0")) return null;
+		const lines = content.split(/\r?\n/);
+		const addCount = lines.length;
+		const diffLines = lines.map((line) => `+${line}`).join("\n");
+		const eof = content.endsWith("\n") ? "" : "\n";
+		return `diff --git a/${filePath} b/${filePath}
+new file mode 100644
+index 0000000..0000000
+--- /dev/null
++++ b/${filePath}
+@@ -0,0 +1,${addCount} @@
+${diffLines}${eof}`;
+	} catch {
+		return null;
+	}
+}
+import type { GetPatchOptions, GitProvider, RepoFingerprint, WorktreeSummary } from "./types.js";
+import type {
+	BlameCommit,
+	BlameResult,
+	BranchInfo,
+	CommitDetail,
+	CommitInfo,
+	CommitRef,
+	ConflictFileVersions,
+	FetchResultSummary,
+	PullResultSummary,
+	PushResultSummary,
+	RebaseOptions,
+	RebaseTodoEntry,
+	RepoStatus,
+	RemoteInfo,
+	StashEntry,
+	TreeNode,
+	WorktreeInfo,
+} from "../../../shared/types.js";
+
+/** Parses `git blame --line-porcelain` output, where every line repeats its commit headers. */
+function parseBlamePorcelain(out: string, path: string, rev: string | null): BlameResult {
+	const commits: Record<string, BlameCommit> = {};
+	const lines: BlameResult["lines"] = [];
+	let current: { oid: string; originalLine: number; finalLine: number } | null = null;
+	let headers: Map<string, string> = new Map();
+	for (const raw of out.split("\n")) {
+		if (raw.startsWith("\t")) {
+			if (!current) continue;
+			if (!commits[current.oid]) {
+				const previous = headers.get("previous")?.match(/^([0-9a-f]+) (.+)$/);
+				const time = Number(headers.get("author-time") ?? 0);
+				commits[current.oid] = {
+					oid: current.oid,
+					author: {
+						name: headers.get("author") ?? "",
+						email: (headers.get("author-mail") ?? "").replace(/^<|>$/g, ""),
+						date: new Date(time * 1000).toISOString(),
+					},
+					summary: headers.get("summary") ?? "",
+					...(previous && { previous: { oid: previous[1]!, path: previous[2]! } }),
+				};
+			}
+			lines.push({
+				oid: current.oid,
+				lineNumber: current.finalLine,
+				originalLineNumber: current.originalLine,
+				content: raw.slice(1),
+			});
+			current = null;
+			headers = new Map();
+			continue;
+		}
+		const header = raw.match(/^([0-9a-f]{40,64}) (\d+) (\d+)(?: \d+)?$/);
+		if (header && !current) {
+			current = {
+				oid: header[1]!,
+				originalLine: Number(header[2]),
+				finalLine: Number(header[3]),
+			};
+			continue;
+		}
+		const space = raw.indexOf(" ");
+		if (space === -1) headers.set(raw, "");
+		else headers.set(raw.slice(0, space), raw.slice(space + 1));
+	}
+	return { path, rev, commits, lines };
+}
+
+/** Parses a `%D` decoration list produced with `--decorate=full`. */
+function parseDecorations(raw: string): CommitRef[] {
+	const refs: CommitRef[] = [];
+	for (const part of raw.split(", ")) {
+		const decoration = part.trim();
+		if (!decoration) continue;
+		if (decoration === "HEAD") {
+			refs.push({ name: "HEAD", type: "head" });
+			continue;
+		}
+		const current = decoration.startsWith("HEAD -> ");
+		const ref = current ? decoration.slice("HEAD -> ".length) : decoration;
+		if (ref.startsWith("tag: refs/tags/")) {
+			refs.push({ name: ref.slice("tag: refs/tags/".length), type: "tag" });
+		} else if (ref.startsWith("refs/heads/")) {
+			refs.push({ name: ref.slice("refs/heads/".length), type: "branch", current });
+		} else if (ref.startsWith("refs/remotes/") && !ref.endsWith("/HEAD")) {
+			refs.push({ name: ref.slice("refs/remotes/".length), type: "remote" });
+		}
+	}
+	return refs;
+}
+
+/**
+ * Summarizes the ref update lines `git fetch` writes to stderr, e.g.
+ * `   1a2b3c4..5d6e7f8  main       -> origin/main` or ` * [new tag]         v1.0       -> v1.0`.
+ */
+function parseFetchOutput(stderr: string): FetchResultSummary {
+	const summary: FetchResultSummary = {
+		branchesUpdated: 0,
+		tagsUpdated: 0,
+		refsDeleted: 0,
+		newBranchRefs: [],
+	};
+	for (const line of stderr.split(/\r?\n|\r/)) {
+		const match = line.match(/^ (.) (\[[^\]]+\]|\S+)\s+\S+\s+-> (\S+)/);
+		if (!match) continue;
+		const [, flag, summaryText, to] = match as [string, string, string, string];
+		if (flag === "-") summary.refsDeleted += 1;
+		else if (flag === "t" || summaryText === "[new tag]") summary.tagsUpdated += 1;
+		else if (flag !== "!") {
+			summary.branchesUpdated += 1;
+			summary.newBranchRefs.push(to);
+		}
+	}
+	return summary;
+}
+
+/**
+ * Reads `git push --porcelain` output: one tab-separated line per ref, flagged `=` when it was
+ * already up to date and `!` when rejected.
+ */
+function parsePushPorcelain(stdout: string): { refsPushed: number; branch?: string } {
+	let refsPushed = 0;
+	let branch: string | undefined;
+	for (const line of stdout.split("\n")) {
+		const [flagged, refs] = line.split("\t");
+		if (!flagged || !refs || !" +-*".includes(flagged[0]!)) continue;
+		refsPushed += 1;
+		const local = refs.split(":")[0] ?? "";
+		if (!branch && local.startsWith("refs/heads/")) branch = local.slice("refs/heads/".length);
+	}
+	return { refsPushed, branch };
+}
+
+async function listTagNames(git: GitClient): Promise<string[]> {
+	return (await git.raw(["tag", "-l"])).split("\n").filter(Boolean);
+}
+
+/** Directory inside the git dir holding the generated todo and reword messages of a planned rebase. */
+const REBASE_PLAN_DIR = "gitagen-rebase";
+
+function shellQuote(value: string): string {
+	return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Turns a rebase plan into git's todo format. Rewords are expressed as a pick followed by an
+ * `exec` amending the message from a file, so git never needs to open an editor for them. The
+ * amend runs the repository's hooks; a rejected message stops the rebase at that commit.
+ */
+async function writeRebasePlan(
+	planDir: string,
+	todo: RebaseTodoEntry[],
+	gitCommand: string
+): Promise<string> {
+	const firstKept = todo.find((entry) => entry.action !== "drop");
+	if (!firstKept) throw new Error("Rebase plan drops every commit");
+	if (firstKept.action === "squash" || firstKept.action === "fixup") {
+		throw new Error("The first commit in a rebase plan cannot be squashed or fixed up");
+	}
+	await rm(planDir, { recursive: true, force: true });
+	await mkdir(planDir, { recursive: true });
+	const lines: string[] = [];
+	for (const [index, entry] of todo.entries()) {
+		const message = entry.message?.trim();
+		if (entry.action !== "reword" || !message) {
+			lines.push(`${entry.action === "reword" ? "pick" : entry.action} ${entry.oid}`);
+			continue;
+		}
+		const messagePath = join(planDir, `${index}.msg`);
+		await writeFile(messagePath, `${message}\n`, "utf-8");
+		lines.push(`pick ${entry.oid}`);
+		lines.push(
+			`exec ${shellQuote(gitCommand)} commit --amend --allow-empty -F ${shellQuote(messagePath)}`
+		);
+	}
+	const todoPath = join(planDir, "git-rebase-todo");
+	await writeFile(todoPath, `${lines.join("\n")}\n`, "utf-8");
+	return todoPath;
+}
+
+/** Removes the plan files once no rebase is in progress anymore. */
+async function cleanupRebasePlan(cwd: string): Promise<void> {
+	const gitDir = await resolveGitDir(cwd);
+	if (!gitDir) return;
+	const operation = await detectConflictOperation(gitDir);
+	if (operation?.type === "rebase") return;
+	await rm(join(gitDir, REBASE_PLAN_DIR), { recursive: true, force: true });
+}
+
+/** Environment for commands that may make git want an editor: accept the prepared message as-is. */
+function nonInteractiveEnv(extra?: Record<string, string>): Record<string, string> {
+	return { GIT_EDITOR: "true", ...extra };
+}
+
+const CHECKPOINT_REF_PREFIX = "refs/gitagen/checkpoints/";
+/** Older checkpoints are pruned when a new one is recorded. */
+const MAX_CHECKPOINTS = 20;
+/** Checkpoint commits are internal and never pushed, and the repo may have no identity configured. */
+const CHECKPOINT_IDENTITY = {
+	GIT_AUTHOR_NAME: "Gitagen",
+	GIT_AUTHOR_EMAIL: "gitagen@localhost",
+	GIT_COMMITTER_NAME: "Gitagen",
+	GIT_COMMITTER_EMAIL: "gitagen@localhost",
+};
+
+function checkpointRef(name: string): string {
+	const safe = name.replace(/[^A-Za-z0-9_-]/g, "-");
+	if (!safe) throw new Error("Checkpoint name is empty");
+	return `${CHECKPOINT_REF_PREFIX}${safe}`;
+}
+
+/**
+ * Checkpoints are stored like stash entries: a commit of the working tree whose parents are
+ * HEAD and a commit of the index. The branch that was checked out goes in the message.
+ */
+async function readCheckpoint(git: GitClient, name: string): Promise<CheckpointInfo | null> {
+	let out: string;
+	try {
+		out = await git.raw(["log", "-1", "--format=%P%x00%cI%x00%B", checkpointRef(name)]);
+	} catch {
+		return null;
+	}
+	const [parents = "", createdAt = "", message = ""] = out.split("\0");
+	const headOid = parents.trim().split(/\s+/)[0];
+	if (!headOid) return null;
+	const branch = message.match(/^branch: (.+)$/m)?.[1]?.trim() ?? null;
+	return { name, headOid, branch, createdAt: createdAt.trim() };
+}
+
+/**
+ * With `signal`, aborting it kills the running git process. Network commands and those running
+ * hooks pass `LONG_GIT_TIMEOUT_MS`; the rest use the runner's default limit.
+ */
+function createGit(
+	cwd: string,
+	binary?: string | null,
+	opts?: { signal?: AbortSignal; timeoutMs?: number }
+): GitClient {
+	return createGitClient(cwd, { binary, signal: opts?.signal, timeoutMs: opts?.timeoutMs });
+}
+
+function buildTreeFromPaths(
+	paths: string[],
+	statusMap: Map<string, string>,
+	changedOnly: boolean
+): TreeNode[] {
+	interface MutableNode {
+		name: string;
+		path: string;
+		children: Map<string, MutableNode>;
+		fileStatus?: string;
+	}
+
+	const root: MutableNode = {
+		name: "",
+		path: "",
+		children: new Map(),
+	};
+
+	function ensurePath(parts: string[], fileStatus?: string) {
+		let current = root;
+		let pathSoFar = "";
+		for (let i = 0; i < parts.length; i++) {
+			const part = parts[i];
+			pathSoFar = pathSoFar ? pathSoFar + "/" + part : part;
+			const isLast = i === parts.length - 1;
+
+			if (!current.children.has(part)) {
+				current.children.set(part, {
+					name: part,
+					path: pathSoFar,
+					children: new Map(),
+					...(isLast && fileStatus && { fileStatus }),
+				});
+			}
+			const child = current.children.get(part)!;
+			if (isLast && fileStatus) child.fileStatus = fileStatus;
+			current = child;
+		}
+	}
+
+	for (const p of paths) {
+		const status = statusMap.get(p);
+		if (changedOnly && !status) continue;
+		const parts = p.split("/").filter(Boolean);
+		if (parts.length === 0) continue;
+		ensurePath(parts, status ?? undefined);
+	}
+
+	function toTreeNode(node: MutableNode, depth: number): TreeNode[] {
+		const result: TreeNode[] = [];
+		const sorted = Array.from(node.children.entries()).sort(([a], [b]) =>
+			a.localeCompare(b, undefined, { sensitivity: "base" })
+		);
+		for (const [, child] of sorted) {
+			const hasChildren = child.children.size > 0;
+			result.push({
+				path: child.path,
+				name: child.name,
+				kind: hasChildren ? "dir" : "file",
+				depth,
+				hasChildren,
+				gitStatus: child.fileStatus,
+			});
+			if (hasChildren) {
+				result.push(...toTreeNode(child, depth + 1));
+			}
+		}
+		return result;
+	}
+
+	return toTreeNode(root, 0);
+}
+
+function statusToMap(status: StatusSnapshot): Map<string, string> {
+	const m = new Map<string, string>();
+	for (const f of status.files) {
+		if (f.index !== " " && f.index !== "?") m.set(f.path, "staged");
+		else if (f.workingDir !== " ") m.set(f.path, "unstaged");
+	}
+	for (const p of status.untracked) m.set(p, "untracked");
+	return m;
+}
+
+export function createProcessGitProvider(binary?: string | null): GitProvider {
+	return {
+		async getTree(opts): Promise<TreeNode[]> {
+			const git = createGit(opts.cwd, binary);
+			const includeIgnored = Boolean(opts.includeIgnored) && !opts.changedOnly;
+			const includeTracked = !opts.changedOnly;
+			const [ignoredPaths, trackedPaths, status] = await Promise.all([
+				includeIgnored
+					? listGitPaths(git, [
+							"ls-files",
+							"--others",
+							"--ignored",
+							"--exclude-standard",
+							"-z",
+						])
+					: Promise.resolve([]),
+				includeTracked ? listGitPaths(git, ["ls-files", "-z"]) : Promise.resolve([]),
+				getStatusCached(git, opts.cwd),
+			]);
+			const allPaths = new Set<string>();
+			for (const p of trackedPaths) allPaths.add(p);
+			for (const p of ignoredPaths) allPaths.add(p);
+			if (status) {
+				for (const f of status.files) allPaths.add(f.path);
+				for (const p of status.untracked) allPaths.add(p);
+			}
+			const statusMap = status ? statusToMap(status) : new Map();
+			return buildTreeFromPaths(Array.from(allPaths), statusMap, opts.changedOnly ?? false);
+		},
+
+		async getStatus(cwd: string): Promise<RepoStatus | null> {
+			try {
+				const git = createGit(cwd, binary);
+				const [head, branch, status] = await Promise.all([
+					git.raw(["rev-parse", "HEAD"]).catch(() => ""),
+					git
+						.raw(["symbolic-ref", "--short", "-q", "HEAD"], { okExitCodes: [1] })
+						.catch(() => ""),
+					getStatusCached(git, cwd),
+				]);
+				if (!status) return null;
+				const headOid = head.trim();
+				const currentBranch = branch.trim();
+				const stagedPaths = new Set<string>();
+				const unstagedPaths = new Set<string>();
+				const staged: FileChange[] = [];
+				const unstaged: FileChange[] = [];
+				const untracked: FileChange[] = [];
+				for (const f of status.files) {
+					if (f.index !== " " && f.index !== "?") {
+						stagedPaths.add(f.path);
+						staged.push({ path: f.path, changeType: f.index as GitChangeType });
+					}
+					if (f.workingDir !== " ") {
+						unstagedPaths.add(f.path);
+						unstaged.push({ path: f.path, changeType: f.workingDir as GitChangeType });
+					}
+				}
+				for (const p of status.untracked) {
+					if (!stagedPaths.has(p) && !unstagedPaths.has(p)) {
+						untracked.push({ path: p, changeType: "?" });
+					}
+				}
+				return { headOid, branch: currentBranch, staged, unstaged, untracked };
+			} catch {
+				return null;
+			}
+		},
+
+		async getPatch(opts: GetPatchOptions): Promise<string | null> {
+			try {
+				const git = createGit(opts.cwd, binary);
+				if (opts.scope === "staged") {
+					return await git.raw(["diff", "--cached", "--", opts.filePath]);
+				}
+				if (opts.scope === "untracked") {
+					try {
+						// Exits with 1 when the files differ, which they always do here
+						return await git.raw(
+							["diff", "--no-index", "/dev/null", join(opts.cwd, opts.filePath)],
+							{ okExitCodes: [1] }
+						);
+					} catch {
+						return await buildNewFileDiff(opts.cwd, opts.filePath);
+					}
+				}
+				return await git.raw(["diff", "--", opts.filePath]);
+			} catch {
+				return null;
+			}
+		},
+
+		async getHeadOid(cwd: string): Promise<string | null> {
+			try {
+				const git = createGit(cwd, binary);
+				const r = await git.raw(["rev-parse", "HEAD"]);
+				return r.trim();
+			} catch {
+				return null;
+			}
+		},
+
+		async getToplevel(cwd: string): Promise<string | null> {
+			try {
+				const git = createGit(cwd, binary);
+				const out = await git.raw(["rev-parse", "--show-toplevel"]);
+				return out.trim();
+			} catch {
+				return null;
+			}
+		},
+
+		async getRepoFingerprint(cwd: string): Promise<RepoFingerprint | null> {
+			try {
+				const git = createGit(cwd, binary);
+				const [head, status] = await Promise.all([
+					git.raw(["rev-parse", "HEAD"]).catch(() => ""),
+					getStatusCached(git, cwd),
+				]);
+				const headOid = head.trim();
+				const gitDir = (await resolveGitDir(cwd)) ?? join(cwd, ".git");
+				const indexPath = join(gitDir, "index");
+				let indexMtimeMs = 0;
+				let headMtimeMs = 0;
+				try {
+					indexMtimeMs = statSync(indexPath).mtimeMs;
+				} catch {
+					// no index
+				}
+				try {
+					headMtimeMs = statSync(join(gitDir, "HEAD")).mtimeMs;
+				} catch {
+					// no head file
+				}
+				const statusHash = status
+					? JSON.stringify({
+							staged: status.files.filter((f) => f.index !== " " && f.index !== "?"),
+							unstaged: status.files.filter((f) => f.workingDir !== " "),
+						})
+					: "";
+				return {
+					repoPath: cwd,
+					headOid,
+					indexMtimeMs,
+					headMtimeMs,
+					statusHash,
+				};
+			} catch {
+				return null;
+			}
+		},
+
+		async stageFiles(cwd: string, paths: string[]): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["add", "--", ...paths]);
+		},
+
+		async unstageFiles(cwd: string, paths: string[]): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["reset", "--", ...paths]);
+		},
+
+		async stagePatch(cwd: string, patch: string): Promise<void> {
+			await applyPatch(createGit(cwd, binary), patch, ["--cached"]);
+		},
+
+		async unstagePatch(cwd: string, patch: string): Promise<void> {
+			await applyPatch(createGit(cwd, binary), patch, ["--cached", "--reverse"]);
+		},
+
+		async discardPatch(cwd: string, patch: string): Promise<void> {
+			await applyPatch(createGit(cwd, binary), patch, ["--reverse"]);
+		},
+
+		async stageAll(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["add", "-A"]);
+		},
+
+		async unstageAll(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["reset", "HEAD"]);
+		},
+
+		async discardFiles(cwd: string, paths: string[]): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["checkout", "--", ...paths]);
+		},
+
+		async discardAllUnstaged(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["checkout", "."]);
+		},
+
+		async deleteUntrackedFiles(cwd: string, paths: string[]): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["clean", "-f", "-f", "--", ...paths]);
+		},
+
+		async discardAll(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["reset", "--hard", "HEAD"]);
+			await git.raw(["clean", "-f", "-d", "-f"]);
+		},
+
+		async commit(cwd, opts): Promise<{ oid: string; signed: boolean }> {
+			const git = createGit(cwd, binary);
+			const customArgs: string[] = [];
+			if (opts.amend) customArgs.push("--amend");
+			if (opts.sign) customArgs.push("-S");
+			if (opts.noVerify) customArgs.push("--no-verify");
+			if (opts.allowEmpty) customArgs.push("--allow-empty");
+			// A separate instance, so the trace and output handler only apply to the commit itself
+			await runWithHookTrace(
+				createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS }),
+				opts.onOutput,
+				(hooked) => hooked.raw(["commit", "-m", opts.message, ...customArgs])
+			);
+			const rev = await git.raw(["rev-parse", "HEAD"]);
+			const oid = rev.trim();
+			const logOut = await git.raw(["log", "-1", "--format=%G?"]);
+			const signed = logOut.trim() === "G" || logOut.trim() === "S";
+			return { oid, signed };
+		},
+
+		async getLog(cwd, opts): Promise<CommitInfo[]> {
+			const git = createGit(cwd, binary);
+			// Each record starts with a separator so path-scoped logs can append --name-status lines
+			const args = [
+				"log",
+				"--decorate=full",
+				"--format=%x1e%H%n%s%n%an%n%ae%n%ai%n%P%n%G?%n%D",
+			];
+			// --skip stops --follow from seeing the renames it skips over, so path-scoped
+			// pages are read from the start and sliced instead
+			const skip = opts?.path ? 0 : (opts?.offset ?? 0);
+			const sliceFrom = opts?.path ? (opts.offset ?? 0) : 0;
+			// Commit dates can be skewed, so only topological order guarantees parents after children
+			if (opts?.topoOrder) args.push("--topo-order");
+			if (opts?.limit) args.push(`-n`, String(opts.limit + sliceFrom));
+			if (skip) args.push("--skip", String(skip));
+			if (opts?.path) args.push("--follow", "--name-status");
+			if (opts?.branch) args.push(opts.branch);
+			if (opts?.path) args.push("--", opts.path);
+			const out = await git.raw(args);
+			const entries: CommitInfo[] = [];
+			for (const record of out.split("\x1e")) {
+				const lines = record.split("\n");
+				const oid = lines[0]?.trim() ?? "";
+				if (!oid) continue;
+				const entry: CommitInfo = {
+					oid,
+					message: lines[1] ?? "",
+					author: {
+						name: lines[2] ?? "",
+						email: lines[3] ?? "",
+						date: lines[4] ?? "",
+					},
+					parents: (lines[5] ?? "").split(/\s+/).filter(Boolean),
+					signed: (lines[6] ?? "") === "G" || (lines[6] ?? "") === "S",
+					refs: parseDecorations(lines[7] ?? ""),
+				};
+				if (opts?.path) {
+					// "M\tpath" or "R100\told\tnew"; the last column is the name in this commit
+					const status = lines.slice(8).find((line) => line.includes("\t"));
+					entry.path = status?.split("\t").pop() ?? opts.path;
+				}
+				entries.push(entry);
+			}
+			return sliceFrom ? entries.slice(sliceFrom) : entries;
+		},
+
+		async getCommitDetail(cwd: string, oid: string): Promise<CommitDetail | null> {
+			const git = createGit(cwd, binary);
+			try {
+				const [logOut, patchOut] = await Promise.all([
+					git.raw([
+						"log",
+						"-1",
+						"--format=%H%x00%s%x00%b%x00%an%x00%ae%x00%ai%x00%P%x00%G?",
+						oid,
+					]),
+					git.raw(["diff-tree", "-p", "--root", oid]),
+				]);
+				const parts = logOut.trim().split("\0");
+				if (parts.length < 8) return null;
+				const [
+					oidVal,
+					message,
+					body,
+					authorName,
+					authorEmail,
+					authorDate,
+					parentsStr,
+					gpgStatus,
+				] = parts;
+				return {
+					oid: oidVal?.trim() ?? oid,
+					message: message ?? "",
+					body: body ?? "",
+					author: {
+						name: authorName ?? "",
+						email: authorEmail ?? "",
+						date: authorDate ?? "",
+					},
+					parents: (parentsStr ?? "").split(/\s+/).filter(Boolean),
+					signed: gpgStatus === "G" || gpgStatus === "S",
+					patch: patchOut?.trim() ?? "",
+				};
+			} catch {
+				return null;
+			}
+		},
+
+		async getBlame(cwd: string, path: string, rev?: string): Promise<BlameResult> {
+			const git = createGit(cwd, binary);
+			const args = ["blame", "--line-porcelain"];
+			if (rev) args.push(rev);
+			args.push("--", path);
+			const out = await git.raw(args);
+			return parseBlamePorcelain(out, path, rev ?? null);
+		},
+
+		async getUnpushedOids(cwd: string): Promise<string[] | null> {
+			const git = createGit(cwd, binary);
+			try {
+				const out = await git.raw(["log", "@{u}..HEAD", "--format=%H"]);
+				return out.trim().split("\n").filter(Boolean);
+			} catch {
+				// No upstream tracking branch configured
+				return null;
+			}
+		},
+
+		async undoLastCommit(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["reset", "--soft", "HEAD~1"]);
+		},
+
+		async listBranches(cwd: string): Promise<BranchInfo[]> {
+			const git = createGit(cwd, binary);
+			const [out, status] = await Promise.all([
+				git.raw([
+					"for-each-ref",
+					"--format=%(refname:short)%00%(upstream:short)%00%(HEAD)",
+					"refs/heads",
+				]),
+				getStatusCached(git, cwd),
+			]);
+			const result: BranchInfo[] = [];
+			for (const line of out.split("\n")) {
+				const [name, tracking, head] = line.split("\0");
+				if (!name) continue;
+				const current = head === "*";
+				result.push({
+					name,
+					current,
+					tracking: tracking || undefined,
+					ahead: current ? (status?.ahead ?? 0) : 0,
+					behind: current ? (status?.behind ?? 0) : 0,
+				});
+			}
+			return result;
+		},
+
+		async createBranch(cwd: string, name: string, startPoint?: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			if (startPoint) await git.raw(["checkout", "-b", name, startPoint]);
+			else await git.raw(["branch", name]);
+		},
+
+		async switchBranch(cwd: string, name: string): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			await git.raw(["checkout", name]);
+		},
+
+		async deleteBranch(cwd: string, name: string, force?: boolean): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["branch", force ? "-D" : "-d", name]);
+		},
+
+		async renameBranch(cwd: string, oldName: string, newName: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["branch", "-m", oldName, newName]);
+		},
+
+		async mergeBranch(cwd, source, opts): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			const args: string[] = [source];
+			if (opts?.noFf) args.unshift("--no-ff");
+			if (opts?.squash) args.unshift("--squash");
+			if (opts?.message) args.push("-m", opts.message);
+			await git.raw(["merge", ...args]);
+		},
+
+		async isRepository(cwd: string): Promise<boolean> {
+			try {
+				const out = await createGit(cwd, binary).raw([
+					"rev-parse",
+					"--is-inside-work-tree",
+				]);
+				return out.trim() === "true";
+			} catch {
+				return false;
+			}
+		},
+
+		async initRepository(cwd, opts): Promise<void> {
+			const git = createGit(cwd, binary);
+			const args = ["init"];
+			if (opts?.initialBranch) args.push(`--initial-branch=${opts.initialBranch}`);
+			await git.raw(args);
+		},
+
+		async clone(opts): Promise<void> {
+			const directory = resolve(opts.directory);
+			const parent = dirname(directory);
+			await mkdir(parent, { recursive: true });
+			const git = createGit(parent, binary, {
+				signal: opts.signal,
+				timeoutMs: LONG_GIT_TIMEOUT_MS,
+			});
+			const args: string[] = [];
+			if (opts.onProgress) {
+				args.push("--progress");
+				git.onOutput(createProgressParser(opts.onProgress));
+			}
+			if (opts.branch) args.push("--branch", opts.branch);
+			if (opts.depth) args.push("--depth", String(opts.depth));
+			const sparsePaths = opts.sparsePaths ?? [];
+			if (sparsePaths.length > 0) args.push("--sparse");
+			if (opts.recurseSubmodules) args.push("--recurse-submodules");
+			await git.raw(["clone", ...args, "--", opts.url, directory]);
+			if (sparsePaths.length > 0) {
+				await createGit(directory, binary, { signal: opts.signal }).raw([
+					"sparse-checkout",
+					"set",
+					"--",
+					...sparsePaths,
+				]);
+			}
+		},
+
+		async fetch(cwd, opts): Promise<FetchResultSummary> {
+			const git = createGit(cwd, binary, {
+				signal: opts?.signal,
+				timeoutMs: LONG_GIT_TIMEOUT_MS,
+			});
+			const args: string[] = [];
+			if (opts?.onProgress) {
+				args.push("--progress");
+				git.onOutput(createProgressParser(opts.onProgress));
+			}
+			if (opts?.all) args.push("--all");
+			else if (opts?.remote) args.push(opts.remote);
+			if (opts?.prune) args.push("--prune");
+			const { stderr } = await git.run(["fetch", ...args]);
+			return parseFetchOutput(stderr);
+		},
+
+		async pull(cwd, opts): Promise<PullResultSummary> {
+			const git = createGit(cwd, binary, {
+				signal: opts?.signal,
+				timeoutMs: LONG_GIT_TIMEOUT_MS,
+			});
+			const args: string[] = opts?.rebase ? ["--rebase"] : [];
+			if (opts?.onProgress) {
+				args.push("--progress");
+				git.onOutput(createProgressParser(opts.onProgress));
+			}
+			if (opts?.remote) args.push(opts.remote);
+			if (opts?.branch) args.push(opts.branch);
+			const { stdout } = await git.run(["pull", ...args]);
+			// " 3 files changed, 10 insertions(+), 2 deletions(-)"; absent when already up to date
+			const diffstat = stdout.match(
+				/(\d+) files? changed(?:, (\d+) insertions?\(\+\))?(?:, (\d+) deletions?\(-\))?/
+			);
+			const behindHint = (opts as { behind?: number })?.behind ?? 0;
+			return {
+				commitsPulled: behindHint,
+				filesChanged: Number(diffstat?.[1] ?? 0),
+				insertions: Number(diffstat?.[2] ?? 0),
+				deletions: Number(diffstat?.[3] ?? 0),
+			};
+		},
+
+		async push(cwd, opts): Promise<PushResultSummary> {
+			const git = createGit(cwd, binary, {
+				signal: opts?.signal,
+				timeoutMs: LONG_GIT_TIMEOUT_MS,
+			});
+			const args: string[] = ["--porcelain"];
+			const parseProgress = opts?.onProgress && createProgressParser(opts.onProgress);
+			if (parseProgress) args.push("--progress");
+			if (opts?.force) args.push("--force");
+			if (opts?.setUpstream) args.push("-u");
+			if (opts?.remote) args.push(opts.remote);
+			if (opts?.branch) args.push(opts.branch);
+			if (opts?.noVerify) args.push("--no-verify");
+			const onOutput =
+				opts?.onOutput || parseProgress
+					? (text: string) => {
+							opts?.onOutput?.(text);
+							parseProgress?.(text);
+						}
+					: undefined;
+			const { stdout } = await runWithHookTrace(git, onOutput, (hooked) =>
+				hooked.run(["push", ...args])
+			);
+			const { refsPushed, branch } = parsePushPorcelain(stdout);
+			const aheadHint = (opts as { ahead?: number })?.ahead ?? 0;
+			return {
+				commitsPushed: aheadHint > 0 ? aheadHint : refsPushed,
+				refsPushed,
+				branch,
+			};
+		},
+
+		async getInstalledHooks(cwd, action): Promise<string[]> {
+			return findInstalledHooks(createGit(cwd, binary), cwd, BLOCKING_HOOKS[action]);
+		},
+
+		async pushTags(
+			cwd: string,
+			opts?: { remote?: string; tags?: string[] }
+		): Promise<import("../../../shared/types.js").PushTagsResultSummary> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			const remote = opts?.remote ?? "origin";
+			const tags = opts?.tags;
+			const args: string[] = [remote];
+			if (tags && tags.length > 0) {
+				args.push(...tags);
+			} else {
+				args.push("--tags");
+			}
+			await git.raw(["push", ...args]);
+			return {
+				tagsPushed: tags?.length ?? (await listTagNames(git)).length,
+			};
+		},
+
+		async listRemotes(cwd: string): Promise<RemoteInfo[]> {
+			const git = createGit(cwd, binary);
+			const out = await git.raw(["remote", "-v"]);
+			const remotes = new Map<string, RemoteInfo>();
+			// "origin\thttps://example.com/repo.git (fetch)", once for fetch and once for push
+			for (const line of out.split("\n")) {
+				const match = line.match(/^(\S+)\t(.+) \((fetch|push)\)$/);
+				if (!match) continue;
+				const [, name, url, kind] = match as [string, string, string, string];
+				const remote = remotes.get(name) ?? { name, url: "" };
+				if (kind === "fetch") remote.url = url;
+				else remote.pushUrl = url;
+				remotes.set(name, remote);
+			}
+			return Array.from(remotes.values());
+		},
+
+		async addRemote(cwd: string, name: string, url: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["remote", "add", name, url]);
+		},
+
+		async removeRemote(cwd: string, name: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["remote", "remove", name]);
+		},
+
+		async stash(cwd, opts): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw([
+				"stash",
+				"push",
+				...(opts?.includeUntracked ? ["-u"] : []),
+				...(opts?.message ? ["-m", opts.message] : []),
+			]);
+		},
+
+		async stashPop(cwd: string, index?: number): Promise<void> {
+			const git = createGit(cwd, binary);
+			if (index != null) await git.raw(["stash", "pop", `stash@{${index}}`]);
+			else await git.raw(["stash", "pop"]);
+		},
+
+		async stashApply(cwd: string, index?: number): Promise<void> {
+			const git = createGit(cwd, binary);
+			if (index != null) await git.raw(["stash", "apply", `stash@{${index}}`]);
+			else await git.raw(["stash", "apply"]);
+		},
+
+		async stashList(cwd: string): Promise<StashEntry[]> {
+			const git = createGit(cwd, binary);
+			const out = await git.raw(["stash", "list"]);
+			return out
+				.trim()
+				.split("\n")
+				.filter(Boolean)
+				.map((line, i) => {
+					const colonIdx = line.indexOf(": ");
+					const message = colonIdx >= 0 ? line.slice(colonIdx + 2) : line;
+					const oidMatch = line.match(/\b([a-f0-9]{7,40})\b/);
+					return { index: i, message, oid: oidMatch?.[1] ?? "" };
+				});
+		},
+
+		async stashDrop(cwd: string, index?: number): Promise<void> {
+			const git = createGit(cwd, binary);
+			if (index != null) await git.raw(["stash", "drop", `stash@{${index}}`]);
+			else await git.raw(["stash", "drop"]);
+		},
+
+		async stashShow(cwd: string, index: number): Promise<StashDetail | null> {
+			const git = createGit(cwd, binary);
+			const stashRef = `stash@{${index}}`;
+
+			const [listOut, patchOut] = await Promise.all([
+				git.raw(["stash", "list", "-1", stashRef, "--format=%H%n%s%n%an%n%ae%n%ai%n%D"]),
+				git.raw(["stash", "show", "-p", stashRef]),
+			]);
+
+			const lines = listOut.trim().split("\n");
+			if (lines.length < 5 || !lines[0]) return null;
+
+			const oid = lines[0];
+			const message = lines[1] ?? "";
+			const authorName = lines[2] ?? "";
+			const authorEmail = lines[3] ?? "";
+			const date = lines[4] ?? "";
+
+			const branchMatch = listOut.match(/On\s+(.+?):/);
+			const branch = branchMatch?.[1] ?? "";
+
+			return {
+				index,
+				message,
+				oid,
+				branch,
+				author: { name: authorName, email: authorEmail },
+				date,
+				patch: patchOut,
+			};
+		},
+
+		async listTags(cwd: string): Promise<string[]> {
+			const git = createGit(cwd, binary);
+			return listTagNames(git);
+		},
+
+		async listTagsDetailed(cwd: string): Promise<TagInfo[]> {
+			const git = createGit(cwd, binary);
+			// %(refname:short) = tag name
+			// %(*objectname) = peeled OID (commit for annotated tags; empty for lightweight)
+			// %(objectname) = direct OID (commit for lightweight tags)
+			const out = await git.raw([
+				"for-each-ref",
+				"refs/tags",
+				"--format=%(refname:short) %(*objectname) %(objectname)",
+			]);
+			const lines = out.trim().split("\n").filter(Boolean);
+			const result: { name: string; oid: string }[] = [];
+			for (const line of lines) {
+				const parts = line.trim().split(/\s+/);
+				if (parts.length < 2) continue;
+				const [name, peeled, direct] = parts as [
+					string,
+					string | undefined,
+					string | undefined,
+				];
+				// Use peeled OID if present (annotated tag), else direct (lightweight tag)
+				const oid = (peeled && peeled.length === 40 ? peeled : direct) ?? "";
+				if (oid) result.push({ name, oid });
+			}
+			return result;
+		},
+
+		async createTag(cwd, name, opts): Promise<void> {
+			const git = createGit(cwd, binary);
+			const args: string[] = [name];
+			if (opts?.message) args.push("-m", opts.message);
+			if (opts?.ref) args.push(opts.ref);
+			if (opts?.sign) args.push("-s");
+			await git.raw(["tag", ...args]);
+		},
+
+		async deleteTag(cwd: string, name: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["tag", "-d", name]);
+		},
+
+		async rebase(cwd: string, opts: RebaseOptions): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			if (!opts.todo) {
+				await git.raw(["rebase", opts.onto]);
+				return;
+			}
+			// git drops commits missing from the todo, so a plan built from a partial log would lose them
+			const planned = new Set(opts.todo.map((entry) => entry.oid));
+			const rangeOids = await git.raw(["rev-list", "--no-merges", `${opts.onto}..HEAD`]);
+			if (rangeOids.split("\n").some((oid) => oid && !planned.has(oid))) {
+				throw new Error("The rebase plan does not list every commit after the base");
+			}
+			const gitDir = await resolveGitDir(cwd);
+			if (!gitDir) throw new Error("Not a git repository");
+			const todoPath = await writeRebasePlan(
+				join(gitDir, REBASE_PLAN_DIR),
+				opts.todo,
+				binary || "git"
+			);
+			try {
+				await git
+					.env(nonInteractiveEnv({ GIT_SEQUENCE_EDITOR: `cp ${shellQuote(todoPath)}` }))
+					.raw(["rebase", "-i", opts.onto]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
+		},
+
+		async rebaseAbort(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			try {
+				await git.raw(["rebase", "--abort"]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
+		},
+
+		async rebaseContinue(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			try {
+				await git.env(nonInteractiveEnv()).raw(["rebase", "--continue"]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
+		},
+
+		async rebaseSkip(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			try {
+				await git.env(nonInteractiveEnv()).raw(["rebase", "--skip"]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
+		},
+
+		async cherryPick(cwd: string, refs: string[]): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			await git.raw(["cherry-pick", ...refs]);
+		},
+
+		async cherryPickAbort(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["cherry-pick", "--abort"]);
+		},
+
+		async cherryPickContinue(cwd: string): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			await git.raw(["cherry-pick", "--continue"]);
+		},
+
+		async revertCommits(cwd: string, refs: string[]): Promise<void> {
+			const git = createGit(cwd, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			await git.raw(["revert", "--no-edit", ...refs]);
+		},
+
+		async createCheckpoint(cwd: string, name: string): Promise<CheckpointInfo> {
+			const git = createGit(cwd, binary);
+			const gitDir = await resolveGitDir(cwd);
+			if (!gitDir) throw new Error("Not a git repository");
+			const head = (
+				await git.raw(["rev-parse", "--verify", "-q", "HEAD"], { okExitCodes: [1] })
+			).trim();
+			if (!head) throw new Error("Cannot create a checkpoint before the first commit");
+			const branch =
+				(
+					await git.raw(["symbolic-ref", "-q", "--short", "HEAD"], { okExitCodes: [1] })
+				).trim() || null;
+			const indexTree = (await git.raw(["write-tree"])).trim();
+
+			// Stage everything into a scratch copy of the index to capture untracked files too
+			const scratchIndex = join(gitDir, "gitagen-checkpoint-index");
+			let worktreeTree: string;
+			try {
+				await copyFile(join(gitDir, "index"), scratchIndex).catch(() => {});
+				const scratch = createGit(cwd, binary).env({ GIT_INDEX_FILE: scratchIndex });
+				await scratch.raw(["add", "-A"]);
+				worktreeTree = (await scratch.raw(["write-tree"])).trim();
+			} finally {
+				await rm(scratchIndex, { force: true });
+			}
+
+			const committer = createGit(cwd, binary).env(CHECKPOINT_IDENTITY);
+			const indexCommit = (
+				await committer.raw(["commit-tree", indexTree, "-p", head, "-m", "index"])
+			).trim();
+			const snapshot = (
+				await committer.raw([
+					"commit-tree",
+					worktreeTree,
+					"-p",
+					head,
+					"-p",
+					indexCommit,
+					"-m",
+					`Checkpoint ${name}\n\nbranch: ${branch ?? ""}`,
+				])
+			).trim();
+			await git.raw(["update-ref", checkpointRef(name), snapshot]);
+
+			const refs = (
+				await git.raw([
+					"for-each-ref",
+					"--sort=-committerdate",
+					"--format=%(refname)",
+					CHECKPOINT_REF_PREFIX,
+				])
+			)
+				.split("\n")
+				.filter(Boolean);
+			for (const ref of refs.slice(MAX_CHECKPOINTS)) {
+				await git.raw(["update-ref", "-d", ref]);
+			}
+
+			const checkpoint = await readCheckpoint(git, name);
+			if (!checkpoint) throw new Error("Failed to record checkpoint");
+			return checkpoint;
+		},
+
+		async getCheckpoint(cwd: string, name: string): Promise<CheckpointInfo | null> {
+			return readCheckpoint(createGit(cwd, binary), name);
+		},
+
+		async restoreCheckpoint(cwd: string, name: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			const checkpoint = await readCheckpoint(git, name);
+			if (!checkpoint) throw new Error("Checkpoint not found");
+			const gitDir = await resolveGitDir(cwd);
+			if (!gitDir) throw new Error("Not a git repository");
+
+			if ((await detectConflictOperation(gitDir))?.type === "rebase") {
+				await git.raw(["rebase", "--quit"]);
+				await cleanupRebasePlan(cwd);
+			}
+			// Drop stopped cherry-pick or revert sequences; the hard reset below clears merge state
+			await git.raw(["cherry-pick", "--quit"]).catch(() => {});
+			await git.raw(["revert", "--quit"]).catch(() => {});
+
+			if (checkpoint.branch) await git.raw(["checkout", "-f", checkpoint.branch]);
+			else await git.raw(["checkout", "-f", "--detach", checkpoint.headOid]);
+			const ref = checkpointRef(name);
+			// Take index and working tree from the snapshot, then move the branch back to HEAD
+			// and restore what was staged
+			await git.raw(["reset", "--hard", ref]);
+			await git.raw(["reset", "--soft", checkpoint.headOid]);
+			await git.raw(["read-tree", `${ref}^2^{tree}`]);
+		},
+
+		async getConflictFiles(cwd: string): Promise<string[]> {
+			const git = createGit(cwd, binary);
+			const out = await git.raw(["diff", "--name-only", "--diff-filter=U"]);
+			return out
+				.split("\n")
+				.map((s) => s.trim())
+				.filter(Boolean);
+		},
+
+		async markResolved(cwd: string, paths: string[]): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["add", "--", ...paths]);
+		},
+
+		async getConflictState(cwd: string): Promise<ConflictState | null> {
+			const git = createGit(cwd, binary);
+			const out = await git.raw(["diff", "--name-only", "--diff-filter=U"]);
+			const conflictFiles = out
+				.split("\n")
+				.map((s) => s.trim())
+				.filter(Boolean);
+			const gitDir = await resolveGitDir(cwd);
+			const operation = gitDir ? await detectConflictOperation(gitDir) : null;
+			if (!operation && conflictFiles.length === 0) return null;
+			return { ...(operation ?? { type: "merge" }), conflictFiles };
+		},
+
+		async getConflictVersions(cwd: string, path: string): Promise<ConflictFileVersions> {
+			const git = createGit(cwd, binary);
+			// "<mode> <oid> <stage>\t<path>" per stage present; a side that deleted the file has none
+			const unmerged = await git.raw(["ls-files", "-u", "-z", "--", path]);
+			const stages = new Set(
+				unmerged
+					.split("\0")
+					.filter(Boolean)
+					.map((entry) => Number(entry.split("\t")[0]!.split(" ")[2]))
+			);
+			const showStage = (stage: number) =>
+				stages.has(stage) ? git.raw(["show", `:${stage}:${path}`]) : Promise.resolve(null);
+			const [base, ours, theirs, worktree] = await Promise.all([
+				showStage(1),
+				showStage(2),
+				showStage(3),
+				readFile(join(cwd, path), "utf-8").catch(() => null),
+			]);
+			// Without a working tree file, start from the side that kept it rather than from nothing
+			return { path, base, ours, theirs, merged: worktree ?? ours ?? theirs ?? "" };
+		},
+
+		async resolveConflict(cwd: string, path: string, content: string | null): Promise<void> {
+			const git = createGit(cwd, binary);
+			if (content === null) {
+				await git.raw(["rm", "--quiet", "--force", "--", path]);
+				return;
+			}
+			await writeFile(join(cwd, path), content, "utf-8");
+			await git.raw(["add", "--", path]);
+		},
+
+		async listWorktrees(cwd: string): Promise<WorktreeInfo[]> {
+			const git = createGit(cwd, binary);
+			const mainPath = (await git.raw(["rev-parse", "--show-toplevel"])).trim() || cwd;
+			const out = await git.raw(["worktree", "list", "--porcelain"]);
+			const list: WorktreeInfo[] = [];
+			let current: Partial<WorktreeInfo> = {};
+			for (const line of out.split("\n")) {
+				if (line.startsWith("worktree ")) {
+					if (current.path) {
+						list.push({
+							path: current.path,
+							branch: current.branch ?? "",
+							head: current.head ?? "",
+							isMainWorktree: current.path === mainPath,
+						});
+					}
+					current = { path: line.slice(9).trim() };
+				} else if (line.startsWith("HEAD ")) {
+					current.head = line.slice(5).trim();
+				} else if (line.startsWith("branch ")) {
+					current.branch = line.slice(7).replace("refs/heads/", "").trim();
+				}
+			}
+			if (current.path) {
+				list.push({
+					path: current.path,
+					branch: current.branch ?? "",
+					head: current.head ?? "",
+					isMainWorktree: current.path === mainPath,
+				});
+			}
+			return list;
+		},
+
+		async getDefaultBranch(cwd: string): Promise<string | null> {
+			const git = createGit(cwd, binary);
+			try {
+				const remoteHead = (
+					await git.raw([
+						"symbolic-ref",
+						"--quiet",
+						"--short",
+						"refs/remotes/origin/HEAD",
+					])
+				).trim();
+				if (remoteHead) return remoteHead;
+			} catch {
+				// no origin, or its HEAD was never recorded
+			}
+			for (const name of ["main", "master"]) {
+				const ref = (
+					await git.raw([
+						"for-each-ref",
+						"--format=%(refname:short)",
+						`refs/heads/${name}`,
+					])
+				).trim();
+				if (ref) return ref;
+			}
+			return null;
+		},
+
+		async getWorktreeSummary(cwd, defaultBranch): Promise<WorktreeSummary> {
+			const git = createGit(cwd, binary);
+			const out = await git.raw(["status", "--porcelain=v2", "--branch"]);
+			const summary: WorktreeSummary = {
+				staged: 0,
+				unstaged: 0,
+				untracked: 0,
+				conflicted: 0,
+				upstream: null,
+				ahead: 0,
+				behind: 0,
+				lastCommitAt: null,
+				merged: false,
+			};
+			let head = "";
+			for (const line of out.split("\n")) {
+				if (line.startsWith("# branch.oid ")) {
+					head = line.slice(13).trim();
+				} else if (line.startsWith("# branch.upstream ")) {
+					summary.upstream = line.slice(18).trim();
+				} else if (line.startsWith("# branch.ab ")) {
+					const match = line.match(/\+(\d+) -(\d+)/);
+					summary.ahead = Number(match?.[1] ?? 0);
+					summary.behind = Number(match?.[2] ?? 0);
+				} else if (line.startsWith("1 ") || line.startsWith("2 ")) {
+					if (line[2] !== ".") summary.staged += 1;
+					if (line[3] !== ".") summary.unstaged += 1;
+				} else if (line.startsWith("u ")) {
+					summary.conflicted += 1;
+				} else if (line.startsWith("? ")) {
+					summary.untracked += 1;
+				}
+			}
+			if (head === "(initial)" || !head) return summary;
+
+			const committedAt = (await git.raw(["log", "-1", "--format=%ct"])).trim();
+			summary.lastCommitAt = committedAt ? Number(committedAt) : null;
+			if (defaultBranch) {
+				try {
+					const count = (
+						await git.raw(["rev-list", "--count", `${defaultBranch}..HEAD`])
+					).trim();
+					if (count === "0") {
+						// Reachable, but a tip on the default branch's own history never diverged:
+						// only a tip brought in through a merge had commits of its own
+						const firstParents = await git.raw([
+							"rev-list",
+							"--first-parent",
+							defaultBranch,
+							"--not",
+							`${head}^@`,
+						]);
+						summary.merged = !firstParents.split("\n").includes(head);
+					}
+				} catch {
+					// the default branch is not reachable from this worktree
+				}
+			}
+			return summary;
+		},
+
+		async addWorktree(
+			repoPath: string,
+			worktreePath: string,
+			branch: string,
+			newBranch?: string
+		): Promise<void> {
+			const git = createGit(repoPath, binary, { timeoutMs: LONG_GIT_TIMEOUT_MS });
+			if (newBranch) {
+				await git.raw(["worktree", "add", "-b", newBranch, worktreePath, branch]);
+			} else {
+				await git.raw(["worktree", "add", worktreePath, branch]);
+			}
+		},
+
+		async removeWorktree(
+			repoPath: string,
+			worktreePath: string,
+			force?: boolean
+		): Promise<void> {
+			const git = createGit(repoPath, binary);
+			const args = ["worktree", "remove", worktreePath];
+			if (force) args.splice(2, 0, "--force");
+			await git.raw(args);
+		},
+
+		async moveWorktree(repoPath, worktreePath, newPath) {
+			const git = createGit(repoPath, binary);
+			await git.raw(["worktree", "move", worktreePath, newPath]);
+		},
+
+		async pruneWorktrees(repoPath: string): Promise<void> {
+			const git = createGit(repoPath, binary);
+			await git.raw(["worktree", "prune"]);
+		},
+	};
+}
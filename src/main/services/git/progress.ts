@@ -0,0 +1,32 @@
+import type { GitProgress } from "../../../shared/types.js";
+
+/** `Receiving objects:  45% (450/1000), 1.2 MiB | 2.0 MiB/s`, optionally relayed by the remote. */
+const PROGRESS_LINE = /^(?:remote:\s*)?([A-Za-z][A-Za-z ]*?):\s+(\d+)% \((\d+)\/(\d+)\)/;
+
+/**
+ * Returns a sink for git's stderr that reports each progress update. Git rewrites its progress
+ * line with carriage returns, so a chunk can hold several updates or end mid-line.
+ */
+export function createProgressParser(onProgress: (progress: GitProgress) => void) {
+	let pending = "";
+	let last = "";
+	return (text: string): void => {
+		const segments = (pending + text).split(/[\r\n]/);
+		pending = segments.pop() ?? "";
+		for (const segment of segments) {
+			const match = segment.trim().match(PROGRESS_LINE);
+			if (!match) continue;
+			const progress: GitProgress = {
+				stage: match[1]!,
+				percent: Number(match[2]),
+				processed: Number(match[3]),
+				total: Number(match[4]),
+			};
+			// Large transfers repeat the same percentage many times; only changes are reported
+			const key = `${progress.stage}:${progress.percent}`;
+			if (key === last) continue;
+			last = key;
+			onProgress(progress);
+		}
+	};
+}
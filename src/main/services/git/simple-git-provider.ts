@@ -1,9 +1,18 @@
 import { spawn } from "child_process";
 import { statSync } from "fs";
-import { readFile, stat } from "fs/promises";
-import { join, resolve } from "path";
-import simpleGit, { SimpleGit, StatusResult } from "simple-git";
-import type { FileChange, GitChangeType, StashDetail, TagInfo } from "../../../shared/types.js";
+import { copyFile, mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import simpleGit, { SimpleGit, SimpleGitOptions, StatusResult } from "simple-git";
+import type {
+	CheckpointInfo,
+	ConflictState,
+	FileChange,
+	GitChangeType,
+	StashDetail,
+	TagInfo,
+} from "../../../shared/types.js";
+import { BLOCKING_HOOKS, findInstalledHooks, traceHooks } from "./hooks.js";
+import { createProgressParser } from "./progress.js";
 
 const MAX_NEW_FILE_BYTES = 1024 * 1024;
 const STATUS_CACHE_TTL_MS = 1000;
@@ -52,6 +61,43 @@ async function resolveGitDir(repoPath: string): Promise<string | null> {
 	}
 }
 
+async function readNumberFile(path: string): Promise<number | undefined> {
+	try {
+		const value = Number.parseInt((await readFile(path, "utf-8")).trim(), 10);
+		return Number.isFinite(value) ? value : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+async function pathExists(path: string): Promise<boolean> {
+	try {
+		await stat(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Reads the operation markers git leaves in the git dir while a merge, rebase or cherry-pick is stopped. */
+async function detectConflictOperation(
+	gitDir: string
+): Promise<Omit<ConflictState, "conflictFiles"> | null> {
+	for (const dir of ["rebase-merge", "rebase-apply"]) {
+		const rebaseDir = join(gitDir, dir);
+		if (!(await pathExists(rebaseDir))) continue;
+		const interactive = dir === "rebase-merge";
+		return {
+			type: "rebase",
+			currentStep: await readNumberFile(join(rebaseDir, interactive ? "msgnum" : "next")),
+			totalSteps: await readNumberFile(join(rebaseDir, interactive ? "end" : "last")),
+		};
+	}
+	if (await pathExists(join(gitDir, "CHERRY_PICK_HEAD"))) return { type: "cherry-pick" };
+	if (await pathExists(join(gitDir, "MERGE_HEAD"))) return { type: "merge" };
+	return null;
+}
+
 function listGitPaths(
 	cwd: string,
 	binary: string | null | undefined,
@@ -82,6 +128,29 @@ function listGitPaths(
 	});
 }
 
+function applyPatch(
+	cwd: string,
+	binary: string | null | undefined,
+	patch: string,
+	args: string[]
+): Promise<void> {
+	return new Promise((resolvePromise, reject) => {
+		const cmd = binary ?? "git";
+		const child = spawn(cmd, ["apply", "--whitespace=nowarn", ...args, "-"], { cwd });
+		let stderr = "";
+		child.stderr.setEncoding("utf-8");
+		child.stderr.on("data", (chunk: string) => {
+			stderr += chunk;
+		});
+		child.on("close", (code) => {
+			if (code === 0) resolvePromise();
+			else reject(new Error(stderr.trim() || `git apply exited with code ${code}`));
+		});
+		child.on("error", reject);
+		child.stdin.end(patch);
+	});
+}
+
 async function buildNewFileDiff(repoPath: string, filePath: string): Promise<string | null> {
 	try {
 		const fullPath = join(repoPath, filePath);
@@ -104,14 +173,20 @@ ${diffLines}${eof}`;
 		return null;
 	}
 }
-import type { GetPatchOptions, GitProvider, RepoFingerprint } from "./types.js";
+import type { GetPatchOptions, GitProvider, RepoFingerprint, WorktreeSummary } from "./types.js";
 import type {
+	BlameCommit,
+	BlameResult,
 	BranchInfo,
 	CommitDetail,
 	CommitInfo,
+	CommitRef,
+	ConflictFileVersions,
 	FetchResultSummary,
 	PullResultSummary,
 	PushResultSummary,
+	RebaseOptions,
+	RebaseTodoEntry,
 	RepoStatus,
 	RemoteInfo,
 	StashEntry,
@@ -119,14 +194,221 @@ import type {
 	WorktreeInfo,
 } from "../../../shared/types.js";
 
-function createGit(cwd: string, binary?: string | null): SimpleGit {
-	const opts: { baseDir: string; binary?: string } = {
-		baseDir: cwd,
-	};
+/** Parses `git blame --line-porcelain` output, where every line repeats its commit headers. */
+function parseBlamePorcelain(out: string, path: string, rev: string | null): BlameResult {
+	const commits: Record<string, BlameCommit> = {};
+	const lines: BlameResult["lines"] = [];
+	let current: { oid: string; originalLine: number; finalLine: number } | null = null;
+	let headers: Map<string, string> = new Map();
+	for (const raw of out.split("\n")) {
+		if (raw.startsWith("\t")) {
+			if (!current) continue;
+			if (!commits[current.oid]) {
+				const previous = headers.get("previous")?.match(/^([0-9a-f]+) (.+)$/);
+				const time = Number(headers.get("author-time") ?? 0);
+				commits[current.oid] = {
+					oid: current.oid,
+					author: {
+						name: headers.get("author") ?? "",
+						email: (headers.get("author-mail") ?? "").replace(/^<|>$/g, ""),
+						date: new Date(time * 1000).toISOString(),
+					},
+					summary: headers.get("summary") ?? "",
+					...(previous && { previous: { oid: previous[1]!, path: previous[2]! } }),
+				};
+			}
+			lines.push({
+				oid: current.oid,
+				lineNumber: current.finalLine,
+				originalLineNumber: current.originalLine,
+				content: raw.slice(1),
+			});
+			current = null;
+			headers = new Map();
+			continue;
+		}
+		const header = raw.match(/^([0-9a-f]{40,64}) (\d+) (\d+)(?: \d+)?$/);
+		if (header && !current) {
+			current = {
+				oid: header[1]!,
+				originalLine: Number(header[2]),
+				finalLine: Number(header[3]),
+			};
+			continue;
+		}
+		const space = raw.indexOf(" ");
+		if (space === -1) headers.set(raw, "");
+		else headers.set(raw.slice(0, space), raw.slice(space + 1));
+	}
+	return { path, rev, commits, lines };
+}
+
+/** Parses a `%D` decoration list produced with `--decorate=full`. */
+function parseDecorations(raw: string): CommitRef[] {
+	const refs: CommitRef[] = [];
+	for (const part of raw.split(", ")) {
+		const decoration = part.trim();
+		if (!decoration) continue;
+		if (decoration === "HEAD") {
+			refs.push({ name: "HEAD", type: "head" });
+			continue;
+		}
+		const current = decoration.startsWith("HEAD -> ");
+		const ref = current ? decoration.slice("HEAD -> ".length) : decoration;
+		if (ref.startsWith("tag: refs/tags/")) {
+			refs.push({ name: ref.slice("tag: refs/tags/".length), type: "tag" });
+		} else if (ref.startsWith("refs/heads/")) {
+			refs.push({ name: ref.slice("refs/heads/".length), type: "branch", current });
+		} else if (ref.startsWith("refs/remotes/") && !ref.endsWith("/HEAD")) {
+			refs.push({ name: ref.slice("refs/remotes/".length), type: "remote" });
+		}
+	}
+	return refs;
+}
+
+/** Directory inside the git dir holding the generated todo and reword messages of a planned rebase. */
+const REBASE_PLAN_DIR = "gitagen-rebase";
+
+function shellQuote(value: string): string {
+	return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Turns a rebase plan into git's todo format. Rewords are expressed as a pick followed by an
+ * `exec` amending the message from a file, so git never needs to open an editor for them. The
+ * amend runs the repository's hooks; a rejected message stops the rebase at that commit.
+ */
+async function writeRebasePlan(
+	planDir: string,
+	todo: RebaseTodoEntry[],
+	gitCommand: string
+): Promise<string> {
+	const firstKept = todo.find((entry) => entry.action !== "drop");
+	if (!firstKept) throw new Error("Rebase plan drops every commit");
+	if (firstKept.action === "squash" || firstKept.action === "fixup") {
+		throw new Error("The first commit in a rebase plan cannot be squashed or fixed up");
+	}
+	await rm(planDir, { recursive: true, force: true });
+	await mkdir(planDir, { recursive: true });
+	const lines: string[] = [];
+	for (const [index, entry] of todo.entries()) {
+		const message = entry.message?.trim();
+		if (entry.action !== "reword" || !message) {
+			lines.push(`${entry.action === "reword" ? "pick" : entry.action} ${entry.oid}`);
+			continue;
+		}
+		const messagePath = join(planDir, `${index}.msg`);
+		await writeFile(messagePath, `${message}\n`, "utf-8");
+		lines.push(`pick ${entry.oid}`);
+		lines.push(
+			`exec ${shellQuote(gitCommand)} commit --amend --allow-empty -F ${shellQuote(messagePath)}`
+		);
+	}
+	const todoPath = join(planDir, "git-rebase-todo");
+	await writeFile(todoPath, `${lines.join("\n")}\n`, "utf-8");
+	return todoPath;
+}
+
+/** Removes the plan files once no rebase is in progress anymore. */
+async function cleanupRebasePlan(cwd: string): Promise<void> {
+	const gitDir = await resolveGitDir(cwd);
+	if (!gitDir) return;
+	const operation = await detectConflictOperation(gitDir);
+	if (operation?.type === "rebase") return;
+	await rm(join(gitDir, REBASE_PLAN_DIR), { recursive: true, force: true });
+}
+
+/** Environment for commands that may make git want an editor: accept the prepared message as-is. */
+function nonInteractiveEnv(extra?: Record<string, string>): Record<string, string | undefined> {
+	return { ...process.env, GIT_EDITOR: "true", ...extra };
+}
+
+const CHECKPOINT_REF_PREFIX = "refs/gitagen/checkpoints/";
+/** Older checkpoints are pruned when a new one is recorded. */
+const MAX_CHECKPOINTS = 20;
+/** Checkpoint commits are internal and never pushed, and the repo may have no identity configured. */
+const CHECKPOINT_IDENTITY = {
+	GIT_AUTHOR_NAME: "Gitagen",
+	GIT_AUTHOR_EMAIL: "gitagen@localhost",
+	GIT_COMMITTER_NAME: "Gitagen",
+	GIT_COMMITTER_EMAIL: "gitagen@localhost",
+};
+
+function checkpointRef(name: string): string {
+	const safe = name.replace(/[^A-Za-z0-9_-]/g, "-");
+	if (!safe) throw new Error("Checkpoint name is empty");
+	return `${CHECKPOINT_REF_PREFIX}${safe}`;
+}
+
+/**
+ * Checkpoints are stored like stash entries: a commit of the working tree whose parents are
+ * HEAD and a commit of the index. The branch that was checked out goes in the message.
+ */
+async function readCheckpoint(git: SimpleGit, name: string): Promise<CheckpointInfo | null> {
+	let out: string;
+	try {
+		out = (await git.raw([
+			"log",
+			"-1",
+			"--format=%P%x00%cI%x00%B",
+			checkpointRef(name),
+		])) as string;
+	} catch {
+		return null;
+	}
+	const [parents = "", createdAt = "", message = ""] = out.split("\0");
+	const headOid = parents.trim().split(/\s+/)[0];
+	if (!headOid) return null;
+	const branch = message.match(/^branch: (.+)$/m)?.[1]?.trim() ?? null;
+	return { name, headOid, branch, createdAt: createdAt.trim() };
+}
+
+/**
+ * simple-git refuses to pass on an environment holding variables such as `EDITOR` or
+ * `GIT_SSH_COMMAND`. The app's own environment is trusted, and the provider sets the editors
+ * itself to keep git non-interactive; flags in the arguments are still checked.
+ */
+const TRUSTED_ENV: SimpleGitOptions["unsafe"] = {
+	allowUnsafeAskPass: true,
+	allowUnsafeConfigEnvCount: true,
+	allowUnsafeConfigPaths: true,
+	allowUnsafeDiffExternal: true,
+	allowUnsafeEditor: true,
+	allowUnsafeGitProxy: true,
+	allowUnsafePager: true,
+	allowUnsafeSshCommand: true,
+};
+
+/** With `abort`, aborting the signal kills the running git process. */
+function createGit(cwd: string, binary?: string | null, abort?: AbortSignal): SimpleGit {
+	const opts: Partial<SimpleGitOptions> = { baseDir: cwd, unsafe: TRUSTED_ENV };
 	if (binary) opts.binary = binary;
+	if (abort) opts.abort = abort;
 	return simpleGit(opts);
 }
 
+/** Passes everything the instance's commands write to stdout and stderr to `onText`. */
+function streamOutput(git: SimpleGit, onText: (text: string) => void): void {
+	git.outputHandler((_command, stdout, stderr) => {
+		stdout.on("data", (chunk: Buffer) => onText(chunk.toString("utf-8")));
+		stderr.on("data", (chunk: Buffer) => onText(chunk.toString("utf-8")));
+	});
+}
+
+/** `traceHooks` for a simple-git instance, streaming the command's output to `onOutput`. */
+function runWithHookTrace<T>(
+	git: SimpleGit,
+	onOutput: ((text: string) => void) | undefined,
+	task: (git: SimpleGit) => Promise<T>
+): Promise<T> {
+	return traceHooks((env) => {
+		// simple-git replaces the whole environment rather than adding to it
+		git.env({ ...process.env, ...env });
+		if (onOutput) streamOutput(git, onOutput);
+		return task(git);
+	});
+}
+
 function buildTreeFromPaths(
 	paths: string[],
 	statusMap: Map<string, string>,
@@ -370,6 +652,18 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			await git.reset(["--", ...paths]);
 		},
 
+		async stagePatch(cwd: string, patch: string): Promise<void> {
+			await applyPatch(cwd, binary, patch, ["--cached"]);
+		},
+
+		async unstagePatch(cwd: string, patch: string): Promise<void> {
+			await applyPatch(cwd, binary, patch, ["--cached", "--reverse"]);
+		},
+
+		async discardPatch(cwd: string, patch: string): Promise<void> {
+			await applyPatch(cwd, binary, patch, ["--reverse"]);
+		},
+
 		async stageAll(cwd: string): Promise<void> {
 			const git = createGit(cwd, binary);
 			await git.add(["-A"]);
@@ -406,7 +700,12 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			const customArgs: string[] = [];
 			if (opts.amend) customArgs.push("--amend");
 			if (opts.sign) customArgs.push("-S");
-			await git.commit(opts.message, customArgs);
+			if (opts.noVerify) customArgs.push("--no-verify");
+			if (opts.allowEmpty) customArgs.push("--allow-empty");
+			// A separate instance, so the trace and output handler only apply to the commit itself
+			await runWithHookTrace(createGit(cwd, binary), opts.onOutput, (hooked) =>
+				hooked.commit(opts.message, customArgs)
+			);
 			const rev = await git.revparse(["HEAD"]);
 			const oid = (rev as string)?.trim() ?? "";
 			const logOut = await git.raw(["log", "-1", "--format=%G?"]);
@@ -416,29 +715,49 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 
 		async getLog(cwd, opts): Promise<CommitInfo[]> {
 			const git = createGit(cwd, binary);
-			const args = ["log", "--format=%H%n%s%n%an%n%ae%n%ai%n%P%n%G?"];
-			if (opts?.limit) args.push(`-n`, String(opts.limit));
-			if (opts?.offset) args.push("--skip", String(opts.offset));
+			// Each record starts with a separator so path-scoped logs can append --name-status lines
+			const args = [
+				"log",
+				"--decorate=full",
+				"--format=%x1e%H%n%s%n%an%n%ae%n%ai%n%P%n%G?%n%D",
+			];
+			// --skip stops --follow from seeing the renames it skips over, so path-scoped
+			// pages are read from the start and sliced instead
+			const skip = opts?.path ? 0 : (opts?.offset ?? 0);
+			const sliceFrom = opts?.path ? (opts.offset ?? 0) : 0;
+			// Commit dates can be skewed, so only topological order guarantees parents after children
+			if (opts?.topoOrder) args.push("--topo-order");
+			if (opts?.limit) args.push(`-n`, String(opts.limit + sliceFrom));
+			if (skip) args.push("--skip", String(skip));
+			if (opts?.path) args.push("--follow", "--name-status");
 			if (opts?.branch) args.push(opts.branch);
+			if (opts?.path) args.push("--", opts.path);
 			const out = (await git.raw(args)) as string;
-			const lines = out.trim().split("\n");
 			const entries: CommitInfo[] = [];
-			for (let i = 0; i + 6 < lines.length; i += 7) {
-				const oid = lines[i]?.trim() ?? "";
-				if (!oid) break;
-				entries.push({
+			for (const record of out.split("\x1e")) {
+				const lines = record.split("\n");
+				const oid = lines[0]?.trim() ?? "";
+				if (!oid) continue;
+				const entry: CommitInfo = {
 					oid,
-					message: lines[i + 1] ?? "",
+					message: lines[1] ?? "",
 					author: {
-						name: lines[i + 2] ?? "",
-						email: lines[i + 3] ?? "",
-						date: lines[i + 4] ?? "",
+						name: lines[2] ?? "",
+						email: lines[3] ?? "",
+						date: lines[4] ?? "",
 					},
-					parents: (lines[i + 5] ?? "").split(/\s+/).filter(Boolean),
-					signed: (lines[i + 6] ?? "") === "G" || (lines[i + 6] ?? "") === "S",
-				});
+					parents: (lines[5] ?? "").split(/\s+/).filter(Boolean),
+					signed: (lines[6] ?? "") === "G" || (lines[6] ?? "") === "S",
+					refs: parseDecorations(lines[7] ?? ""),
+				};
+				if (opts?.path) {
+					// "M\tpath" or "R100\told\tnew"; the last column is the name in this commit
+					const status = lines.slice(8).find((line) => line.includes("\t"));
+					entry.path = status?.split("\t").pop() ?? opts.path;
+				}
+				entries.push(entry);
 			}
-			return entries;
+			return sliceFrom ? entries.slice(sliceFrom) : entries;
 		},
 
 		async getCommitDetail(cwd: string, oid: string): Promise<CommitDetail | null> {
@@ -483,6 +802,15 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			}
 		},
 
+		async getBlame(cwd: string, path: string, rev?: string): Promise<BlameResult> {
+			const git = createGit(cwd, binary);
+			const args = ["blame", "--line-porcelain"];
+			if (rev) args.push(rev);
+			args.push("--", path);
+			const out = (await git.raw(args)) as string;
+			return parseBlamePorcelain(out, path, rev ?? null);
+		},
+
 		async getUnpushedOids(cwd: string): Promise<string[] | null> {
 			const git = createGit(cwd, binary);
 			try {
@@ -551,10 +879,60 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			await git.merge(args);
 		},
 
-		async fetch(cwd, opts): Promise<FetchResultSummary> {
+		async isRepository(cwd: string): Promise<boolean> {
+			try {
+				const out = await createGit(cwd, binary).raw([
+					"rev-parse",
+					"--is-inside-work-tree",
+				]);
+				return (out as string).trim() === "true";
+			} catch {
+				return false;
+			}
+		},
+
+		async initRepository(cwd, opts): Promise<void> {
 			const git = createGit(cwd, binary);
+			const args = ["init"];
+			if (opts?.initialBranch) args.push(`--initial-branch=${opts.initialBranch}`);
+			await git.raw(args);
+		},
+
+		async clone(opts): Promise<void> {
+			const directory = resolve(opts.directory);
+			const parent = dirname(directory);
+			await mkdir(parent, { recursive: true });
+			const git = createGit(parent, binary, opts.signal);
 			const args: string[] = [];
-			if (opts?.remote) args.push(opts.remote);
+			if (opts.onProgress) {
+				args.push("--progress");
+				streamOutput(git, createProgressParser(opts.onProgress));
+			}
+			if (opts.branch) args.push("--branch", opts.branch);
+			if (opts.depth) args.push("--depth", String(opts.depth));
+			const sparsePaths = opts.sparsePaths ?? [];
+			if (sparsePaths.length > 0) args.push("--sparse");
+			if (opts.recurseSubmodules) args.push("--recurse-submodules");
+			await git.clone(opts.url, directory, args);
+			if (sparsePaths.length > 0) {
+				await createGit(directory, binary, opts.signal).raw([
+					"sparse-checkout",
+					"set",
+					"--",
+					...sparsePaths,
+				]);
+			}
+		},
+
+		async fetch(cwd, opts): Promise<FetchResultSummary> {
+			const git = createGit(cwd, binary, opts?.signal);
+			const args: string[] = [];
+			if (opts?.onProgress) {
+				args.push("--progress");
+				streamOutput(git, createProgressParser(opts.onProgress));
+			}
+			if (opts?.all) args.push("--all");
+			else if (opts?.remote) args.push(opts.remote);
 			if (opts?.prune) args.push("--prune");
 			const result = await git.fetch(args);
 			const updated = result.updated ?? [];
@@ -570,8 +948,12 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 		},
 
 		async pull(cwd, opts): Promise<PullResultSummary> {
-			const git = createGit(cwd, binary);
+			const git = createGit(cwd, binary, opts?.signal);
 			const args: string[] = opts?.rebase ? ["--rebase"] : [];
+			if (opts?.onProgress) {
+				args.push("--progress");
+				streamOutput(git, createProgressParser(opts.onProgress));
+			}
 			if (opts?.remote) args.push(opts.remote);
 			if (opts?.branch) args.push(opts.branch);
 			const result = await git.pull(args);
@@ -586,13 +968,23 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 		},
 
 		async push(cwd, opts): Promise<PushResultSummary> {
-			const git = createGit(cwd, binary);
+			const git = createGit(cwd, binary, opts?.signal);
 			const args: string[] = [];
+			const parseProgress = opts?.onProgress && createProgressParser(opts.onProgress);
+			if (parseProgress) args.push("--progress");
 			if (opts?.force) args.push("--force");
 			if (opts?.setUpstream) args.push("-u");
 			if (opts?.remote) args.push(opts.remote);
 			if (opts?.branch) args.push(opts.branch);
-			const result = await git.push(args);
+			if (opts?.noVerify) args.push("--no-verify");
+			const onOutput =
+				opts?.onOutput || parseProgress
+					? (text: string) => {
+							opts?.onOutput?.(text);
+							parseProgress?.(text);
+						}
+					: undefined;
+			const result = await runWithHookTrace(git, onOutput, (hooked) => hooked.push(args));
 			const aheadHint = (opts as { ahead?: number })?.ahead ?? 0;
 			const refsPushed = result.pushed?.length ?? 0;
 			return {
@@ -602,6 +994,10 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			};
 		},
 
+		async getInstalledHooks(cwd, action): Promise<string[]> {
+			return findInstalledHooks(createGit(cwd, binary), cwd, BLOCKING_HOOKS[action]);
+		},
+
 		async pushTags(
 			cwd: string,
 			opts?: { remote?: string; tags?: string[] }
@@ -762,24 +1158,59 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			await git.tag(["-d", name]);
 		},
 
-		async rebase(cwd: string, opts: { onto: string }): Promise<void> {
+		async rebase(cwd: string, opts: RebaseOptions): Promise<void> {
 			const git = createGit(cwd, binary);
-			await git.rebase([opts.onto]);
+			if (!opts.todo) {
+				await git.rebase([opts.onto]);
+				return;
+			}
+			// git drops commits missing from the todo, so a plan built from a partial log would lose them
+			const planned = new Set(opts.todo.map((entry) => entry.oid));
+			const rangeOids = await git.raw(["rev-list", "--no-merges", `${opts.onto}..HEAD`]);
+			if (rangeOids.split("\n").some((oid) => oid && !planned.has(oid))) {
+				throw new Error("The rebase plan does not list every commit after the base");
+			}
+			const gitDir = await resolveGitDir(cwd);
+			if (!gitDir) throw new Error("Not a git repository");
+			const todoPath = await writeRebasePlan(
+				join(gitDir, REBASE_PLAN_DIR),
+				opts.todo,
+				binary || "git"
+			);
+			try {
+				await git
+					.env(nonInteractiveEnv({ GIT_SEQUENCE_EDITOR: `cp ${shellQuote(todoPath)}` }))
+					.rebase(["-i", opts.onto]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
 		},
 
 		async rebaseAbort(cwd: string): Promise<void> {
 			const git = createGit(cwd, binary);
-			await git.rebase(["--abort"]);
+			try {
+				await git.rebase(["--abort"]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
 		},
 
 		async rebaseContinue(cwd: string): Promise<void> {
 			const git = createGit(cwd, binary);
-			await git.rebase(["--continue"]);
+			try {
+				await git.env(nonInteractiveEnv()).rebase(["--continue"]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
 		},
 
 		async rebaseSkip(cwd: string): Promise<void> {
 			const git = createGit(cwd, binary);
-			await git.rebase(["--skip"]);
+			try {
+				await git.env(nonInteractiveEnv()).rebase(["--skip"]);
+			} finally {
+				await cleanupRebasePlan(cwd);
+			}
 		},
 
 		async cherryPick(cwd: string, refs: string[]): Promise<void> {
@@ -797,6 +1228,115 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			await git.raw(["cherry-pick", "--continue"]);
 		},
 
+		async revertCommits(cwd: string, refs: string[]): Promise<void> {
+			const git = createGit(cwd, binary);
+			await git.raw(["revert", "--no-edit", ...refs]);
+		},
+
+		async createCheckpoint(cwd: string, name: string): Promise<CheckpointInfo> {
+			const git = createGit(cwd, binary);
+			const gitDir = await resolveGitDir(cwd);
+			if (!gitDir) throw new Error("Not a git repository");
+			const head = (
+				(await git.raw(["rev-parse", "--verify", "-q", "HEAD"])) as string
+			).trim();
+			if (!head) throw new Error("Cannot create a checkpoint before the first commit");
+			const branch =
+				((await git.raw(["symbolic-ref", "-q", "--short", "HEAD"])) as string).trim() ||
+				null;
+			const indexTree = ((await git.raw(["write-tree"])) as string).trim();
+
+			// Stage everything into a scratch copy of the index to capture untracked files too
+			const scratchIndex = join(gitDir, "gitagen-checkpoint-index");
+			let worktreeTree: string;
+			try {
+				await copyFile(join(gitDir, "index"), scratchIndex).catch(() => {});
+				const scratch = createGit(cwd, binary).env({
+					...process.env,
+					GIT_INDEX_FILE: scratchIndex,
+				});
+				await scratch.raw(["add", "-A"]);
+				worktreeTree = ((await scratch.raw(["write-tree"])) as string).trim();
+			} finally {
+				await rm(scratchIndex, { force: true });
+			}
+
+			const committer = createGit(cwd, binary).env({
+				...process.env,
+				...CHECKPOINT_IDENTITY,
+			});
+			const indexCommit = (
+				(await committer.raw([
+					"commit-tree",
+					indexTree,
+					"-p",
+					head,
+					"-m",
+					"index",
+				])) as string
+			).trim();
+			const snapshot = (
+				(await committer.raw([
+					"commit-tree",
+					worktreeTree,
+					"-p",
+					head,
+					"-p",
+					indexCommit,
+					"-m",
+					`Checkpoint ${name}\n\nbranch: ${branch ?? ""}`,
+				])) as string
+			).trim();
+			await git.raw(["update-ref", checkpointRef(name), snapshot]);
+
+			const refs = (
+				(await git.raw([
+					"for-each-ref",
+					"--sort=-committerdate",
+					"--format=%(refname)",
+					CHECKPOINT_REF_PREFIX,
+				])) as string
+			)
+				.split("\n")
+				.filter(Boolean);
+			for (const ref of refs.slice(MAX_CHECKPOINTS)) {
+				await git.raw(["update-ref", "-d", ref]);
+			}
+
+			const checkpoint = await readCheckpoint(git, name);
+			if (!checkpoint) throw new Error("Failed to record checkpoint");
+			return checkpoint;
+		},
+
+		async getCheckpoint(cwd: string, name: string): Promise<CheckpointInfo | null> {
+			return readCheckpoint(createGit(cwd, binary), name);
+		},
+
+		async restoreCheckpoint(cwd: string, name: string): Promise<void> {
+			const git = createGit(cwd, binary);
+			const checkpoint = await readCheckpoint(git, name);
+			if (!checkpoint) throw new Error("Checkpoint not found");
+			const gitDir = await resolveGitDir(cwd);
+			if (!gitDir) throw new Error("Not a git repository");
+
+			if ((await detectConflictOperation(gitDir))?.type === "rebase") {
+				await git.raw(["rebase", "--quit"]);
+				await cleanupRebasePlan(cwd);
+			}
+			// Drop stopped cherry-pick or revert sequences; the hard reset below clears merge state
+			await git.raw(["cherry-pick", "--quit"]).catch(() => {});
+			await git.raw(["revert", "--quit"]).catch(() => {});
+
+			if (checkpoint.branch) await git.raw(["checkout", "-f", checkpoint.branch]);
+			else await git.raw(["checkout", "-f", "--detach", checkpoint.headOid]);
+			const ref = checkpointRef(name);
+			// Take index and working tree from the snapshot, then move the branch back to HEAD
+			// and restore what was staged
+			await git.raw(["reset", "--hard", ref]);
+			await git.raw(["reset", "--soft", checkpoint.headOid]);
+			await git.raw(["read-tree", `${ref}^2^{tree}`]);
+		},
+
 		async getConflictFiles(cwd: string): Promise<string[]> {
 			const git = createGit(cwd, binary);
 			const out = (await git.raw(["diff", "--name-only", "--diff-filter=U"])) as string;
@@ -811,6 +1351,51 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			await git.add(paths);
 		},
 
+		async getConflictState(cwd: string): Promise<ConflictState | null> {
+			const git = createGit(cwd, binary);
+			const out = (await git.raw(["diff", "--name-only", "--diff-filter=U"])) as string;
+			const conflictFiles = out
+				.split("\n")
+				.map((s) => s.trim())
+				.filter(Boolean);
+			const gitDir = await resolveGitDir(cwd);
+			const operation = gitDir ? await detectConflictOperation(gitDir) : null;
+			if (!operation && conflictFiles.length === 0) return null;
+			return { ...(operation ?? { type: "merge" }), conflictFiles };
+		},
+
+		async getConflictVersions(cwd: string, path: string): Promise<ConflictFileVersions> {
+			const git = createGit(cwd, binary);
+			// "<mode> <oid> <stage>\t<path>" per stage present; a side that deleted the file has none
+			const unmerged = await git.raw(["ls-files", "-u", "-z", "--", path]);
+			const stages = new Set(
+				unmerged
+					.split("\0")
+					.filter(Boolean)
+					.map((entry) => Number(entry.split("\t")[0]!.split(" ")[2]))
+			);
+			const showStage = async (stage: number) =>
+				stages.has(stage) ? await git.raw(["show", `:${stage}:${path}`]) : null;
+			const [base, ours, theirs, worktree] = await Promise.all([
+				showStage(1),
+				showStage(2),
+				showStage(3),
+				readFile(join(cwd, path), "utf-8").catch(() => null),
+			]);
+			// Without a working tree file, start from the side that kept it rather than from nothing
+			return { path, base, ours, theirs, merged: worktree ?? ours ?? theirs ?? "" };
+		},
+
+		async resolveConflict(cwd: string, path: string, content: string | null): Promise<void> {
+			const git = createGit(cwd, binary);
+			if (content === null) {
+				await git.raw(["rm", "--quiet", "--force", "--", path]);
+				return;
+			}
+			await writeFile(join(cwd, path), content, "utf-8");
+			await git.add([path]);
+		},
+
 		async listWorktrees(cwd: string): Promise<WorktreeInfo[]> {
 			const git = createGit(cwd, binary);
 			const mainPath = ((await git.revparse(["--show-toplevel"])) as string)?.trim() ?? cwd;
@@ -845,6 +1430,95 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			return list;
 		},
 
+		async getDefaultBranch(cwd: string): Promise<string | null> {
+			const git = createGit(cwd, binary);
+			try {
+				const remoteHead = (
+					(await git.raw([
+						"symbolic-ref",
+						"--quiet",
+						"--short",
+						"refs/remotes/origin/HEAD",
+					])) as string
+				).trim();
+				if (remoteHead) return remoteHead;
+			} catch {
+				// no origin, or its HEAD was never recorded
+			}
+			for (const name of ["main", "master"]) {
+				const ref = (
+					(await git.raw([
+						"for-each-ref",
+						"--format=%(refname:short)",
+						`refs/heads/${name}`,
+					])) as string
+				).trim();
+				if (ref) return ref;
+			}
+			return null;
+		},
+
+		async getWorktreeSummary(cwd, defaultBranch): Promise<WorktreeSummary> {
+			const git = createGit(cwd, binary);
+			const out = (await git.raw(["status", "--porcelain=v2", "--branch"])) as string;
+			const summary: WorktreeSummary = {
+				staged: 0,
+				unstaged: 0,
+				untracked: 0,
+				conflicted: 0,
+				upstream: null,
+				ahead: 0,
+				behind: 0,
+				lastCommitAt: null,
+				merged: false,
+			};
+			let head = "";
+			for (const line of out.split("\n")) {
+				if (line.startsWith("# branch.oid ")) {
+					head = line.slice(13).trim();
+				} else if (line.startsWith("# branch.upstream ")) {
+					summary.upstream = line.slice(18).trim();
+				} else if (line.startsWith("# branch.ab ")) {
+					const match = line.match(/\+(\d+) -(\d+)/);
+					summary.ahead = Number(match?.[1] ?? 0);
+					summary.behind = Number(match?.[2] ?? 0);
+				} else if (line.startsWith("1 ") || line.startsWith("2 ")) {
+					if (line[2] !== ".") summary.staged += 1;
+					if (line[3] !== ".") summary.unstaged += 1;
+				} else if (line.startsWith("u ")) {
+					summary.conflicted += 1;
+				} else if (line.startsWith("? ")) {
+					summary.untracked += 1;
+				}
+			}
+			if (head === "(initial)" || !head) return summary;
+
+			const committedAt = ((await git.raw(["log", "-1", "--format=%ct"])) as string).trim();
+			summary.lastCommitAt = committedAt ? Number(committedAt) : null;
+			if (defaultBranch) {
+				try {
+					const count = (
+						(await git.raw(["rev-list", "--count", `${defaultBranch}..HEAD`])) as string
+					).trim();
+					if (count === "0") {
+						// Reachable, but a tip on the default branch's own history never diverged:
+						// only a tip brought in through a merge had commits of its own
+						const firstParents = await git.raw([
+							"rev-list",
+							"--first-parent",
+							defaultBranch,
+							"--not",
+							`${head}^@`,
+						]);
+						summary.merged = !firstParents.split("\n").includes(head);
+					}
+				} catch {
+					// the default branch is not reachable from this worktree
+				}
+			}
+			return summary;
+		},
+
 		async addWorktree(
 			repoPath: string,
 			worktreePath: string,
@@ -870,6 +1544,11 @@ export function createSimpleGitProvider(binary?: string | null): GitProvider {
 			await git.raw(args);
 		},
 
+		async moveWorktree(repoPath, worktreePath, newPath) {
+			const git = createGit(repoPath, binary);
+			await git.raw(["worktree", "move", worktreePath, newPath]);
+		},
+
 		async pruneWorktrees(repoPath: string): Promise<void> {
 			const git = createGit(repoPath, binary);
 			await git.raw(["worktree", "prune"]);
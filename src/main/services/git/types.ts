@@ -1,11 +1,19 @@
 import type {
+	BlameResult,
 	BranchInfo,
+	CheckpointInfo,
+	CloneRepositoryOptions,
 	CommitDetail,
 	CommitInfo,
+	ConflictFileVersions,
+	ConflictState,
 	FetchResultSummary,
+	GitProgress,
+	HookAction,
 	PullResultSummary,
 	PushResultSummary,
 	PushTagsResultSummary,
+	RebaseOptions,
 	RepoStatus,
 	RemoteInfo,
 	StashDetail,
@@ -13,8 +21,12 @@ import type {
 	TagInfo,
 	TreeNode,
 	WorktreeInfo,
+	WorktreeStatus,
 } from "../../../shared/types.js";
 
+/** What the provider reads from one worktree; the manager adds the worktree's identity. */
+export type WorktreeSummary = Omit<WorktreeStatus, keyof WorktreeInfo | "error">;
+
 export interface RepoFingerprint {
 	repoPath: string;
 	headOid: string;
@@ -35,6 +47,14 @@ export interface GetPatchOptions {
 	scope: "staged" | "unstaged" | "untracked";
 }
 
+/** For long-running network commands. */
+export interface GitOperationOptions {
+	/** Aborting kills the git process */
+	signal?: AbortSignal;
+	/** Receives git's progress as it reports it */
+	onProgress?: (progress: GitProgress) => void;
+}
+
 export interface GitProvider {
 	getTree(options: GetTreeOptions): Promise<TreeNode[]>;
 	getStatus(cwd: string): Promise<RepoStatus | null>;
@@ -46,6 +66,12 @@ export interface GitProvider {
 
 	stageFiles(cwd: string, paths: string[]): Promise<void>;
 	unstageFiles(cwd: string, paths: string[]): Promise<void>;
+	/** Applies a single-file patch to the index (`git apply --cached`). */
+	stagePatch(cwd: string, patch: string): Promise<void>;
+	/** Reverse-applies a patch of staged changes to the index. */
+	unstagePatch(cwd: string, patch: string): Promise<void>;
+	/** Reverse-applies a patch of unstaged changes to the working tree. */
+	discardPatch(cwd: string, patch: string): Promise<void>;
 	stageAll(cwd: string): Promise<void>;
 	unstageAll(cwd: string): Promise<void>;
 	discardFiles(cwd: string, paths: string[]): Promise<void>;
@@ -53,15 +79,38 @@ export interface GitProvider {
 	deleteUntrackedFiles(cwd: string, paths: string[]): Promise<void>;
 	discardAll(cwd: string): Promise<void>;
 
+	/**
+	 * Commits the index. `noVerify` skips the pre-commit and commit-msg hooks; `onOutput` receives
+	 * git's and the hooks' output as it is written. Throws `HookFailedError` when a hook refuses.
+	 */
 	commit(
 		cwd: string,
-		opts: { message: string; amend?: boolean; sign?: boolean }
+		opts: {
+			message: string;
+			amend?: boolean;
+			sign?: boolean;
+			noVerify?: boolean;
+			allowEmpty?: boolean;
+			onOutput?: (text: string) => void;
+		}
 	): Promise<{ oid: string; signed: boolean }>;
+	/**
+	 * With `path`, lists only commits touching that file, following it across renames. With
+	 * `topoOrder`, children always come before their parents, as the commit graph needs.
+	 */
 	getLog(
 		cwd: string,
-		opts?: { limit?: number; branch?: string; offset?: number }
+		opts?: {
+			limit?: number;
+			branch?: string;
+			offset?: number;
+			path?: string;
+			topoOrder?: boolean;
+		}
 	): Promise<CommitInfo[]>;
 	getCommitDetail(cwd: string, oid: string): Promise<CommitDetail | null>;
+	/** Runs `git blame --line-porcelain` for a file at `rev`, or the working tree when omitted. */
+	getBlame(cwd: string, path: string, rev?: string): Promise<BlameResult>;
 
 	/** Returns OIDs of unpushed commits, or null if no upstream tracking branch exists. */
 	getUnpushedOids(cwd: string): Promise<string[] | null>;
@@ -80,7 +129,15 @@ export interface GitProvider {
 		opts?: { noFf?: boolean; squash?: boolean; message?: string }
 	): Promise<void>;
 
-	fetch(cwd: string, opts?: { remote?: string; prune?: boolean }): Promise<FetchResultSummary>;
+	/** Whether `cwd` is inside a git working tree. */
+	isRepository(cwd: string): Promise<boolean>;
+	initRepository(cwd: string, opts?: { initialBranch?: string }): Promise<void>;
+	/** Clones `opts.url` into `opts.directory`, creating its parent directories as needed. */
+	clone(opts: CloneRepositoryOptions & GitOperationOptions): Promise<void>;
+	fetch(
+		cwd: string,
+		opts?: { remote?: string; all?: boolean; prune?: boolean } & GitOperationOptions
+	): Promise<FetchResultSummary>;
 	pull(
 		cwd: string,
 		opts?: {
@@ -88,8 +145,9 @@ export interface GitProvider {
 			branch?: string;
 			rebase?: boolean;
 			behind?: number;
-		}
+		} & GitOperationOptions
 	): Promise<PullResultSummary>;
+	/** Like `commit`, `noVerify` skips the pre-push hook and `onOutput` streams the output. */
 	push(
 		cwd: string,
 		opts?: {
@@ -98,8 +156,12 @@ export interface GitProvider {
 			force?: boolean;
 			setUpstream?: boolean;
 			ahead?: number;
-		}
+			noVerify?: boolean;
+			onOutput?: (text: string) => void;
+		} & GitOperationOptions
 	): Promise<PushResultSummary>;
+	/** Which of the hooks that can stop `action` are installed. */
+	getInstalledHooks(cwd: string, action: HookAction): Promise<string[]>;
 	pushTags(
 		cwd: string,
 		opts?: { remote?: string; tags?: string[] }
@@ -124,7 +186,11 @@ export interface GitProvider {
 	): Promise<void>;
 	deleteTag(cwd: string, name: string): Promise<void>;
 
-	rebase(cwd: string, opts: { onto: string }): Promise<void>;
+	/**
+	 * Rebases onto `opts.onto`. With `opts.todo`, runs `git rebase -i` non-interactively by
+	 * handing git the generated todo list; reword messages are applied with `commit --amend`.
+	 */
+	rebase(cwd: string, opts: RebaseOptions): Promise<void>;
 	rebaseAbort(cwd: string): Promise<void>;
 	rebaseContinue(cwd: string): Promise<void>;
 	rebaseSkip(cwd: string): Promise<void>;
@@ -132,11 +198,40 @@ export interface GitProvider {
 	cherryPick(cwd: string, refs: string[]): Promise<void>;
 	cherryPickAbort(cwd: string): Promise<void>;
 	cherryPickContinue(cwd: string): Promise<void>;
+	/** Reverts the given commits in order, committing each revert with git's default message. */
+	revertCommits(cwd: string, refs: string[]): Promise<void>;
+
+	/**
+	 * Records HEAD, the checked-out branch, the index and the working tree (untracked files
+	 * included) under `refs/gitagen/checkpoints/`, replacing any checkpoint of the same name.
+	 */
+	createCheckpoint(cwd: string, name: string): Promise<CheckpointInfo>;
+	getCheckpoint(cwd: string, name: string): Promise<CheckpointInfo | null>;
+	/**
+	 * Puts the branch, index and working tree back as the checkpoint recorded them, abandoning
+	 * any rebase, merge, cherry-pick or revert in progress. Untracked files created since are kept.
+	 */
+	restoreCheckpoint(cwd: string, name: string): Promise<void>;
 
 	getConflictFiles(cwd: string): Promise<string[]>;
 	markResolved(cwd: string, paths: string[]): Promise<void>;
+	/** Detects an in-progress merge, rebase or cherry-pick. Returns null when there is none and nothing is conflicted. */
+	getConflictState(cwd: string): Promise<ConflictState | null>;
+	getConflictVersions(cwd: string, path: string): Promise<ConflictFileVersions>;
+	/**
+	 * Writes the resolved content to the working tree and marks the path resolved. With null,
+	 * resolves by deleting the file, e.g. when one side deleted it.
+	 */
+	resolveConflict(cwd: string, path: string, content: string | null): Promise<void>;
 
 	listWorktrees(cwd: string): Promise<WorktreeInfo[]>;
+	/**
+	 * The ref new work lands on: the remote's HEAD such as `origin/main` when known, otherwise a
+	 * local `main` or `master`. Null when there is neither.
+	 */
+	getDefaultBranch(cwd: string): Promise<string | null>;
+	/** File counts, upstream distance and last commit of the worktree at `cwd`. */
+	getWorktreeSummary(cwd: string, defaultBranch: string | null): Promise<WorktreeSummary>;
 	addWorktree(
 		repoPath: string,
 		worktreePath: string,
@@ -144,5 +239,6 @@ export interface GitProvider {
 		newBranch?: string
 	): Promise<void>;
 	removeWorktree(repoPath: string, worktreePath: string, force?: boolean): Promise<void>;
+	moveWorktree(repoPath: string, worktreePath: string, newPath: string): Promise<void>;
 	pruneWorktrees(repoPath: string): Promise<void>;
 }
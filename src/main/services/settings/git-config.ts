@@ -1,4 +1,4 @@
-import { execSync, spawnSync } from "child_process";
+import { runGit } from "../git/runner.js";
 import type { ConfigEntry } from "../../../shared/types.js";
 
 function normalizeScope(scope: string): ConfigEntry["scope"] {
@@ -13,14 +13,17 @@ function normalizeScope(scope: string): ConfigEntry["scope"] {
 	}
 }
 
-export function getEffectiveConfig(cwd: string): ConfigEntry[] {
+export async function getEffectiveConfig(
+	cwd: string,
+	binary?: string | null
+): Promise<ConfigEntry[]> {
 	try {
-		const out = execSync("git config --list --show-origin --show-scope --null", {
-			cwd,
-			encoding: "utf-8",
-			env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-		});
-		const parts = out.split("\0");
+		const { stdout, exitCode } = await runGit(
+			["config", "--list", "--show-origin", "--show-scope", "--null"],
+			{ cwd, binary }
+		);
+		if (exitCode !== 0) return [];
+		const parts = stdout.split("\0");
 		const entries: ConfigEntry[] = [];
 		for (let i = 0; i + 2 < parts.length; i += 3) {
 			const scopeRaw = parts[i]?.trim();
@@ -44,24 +47,26 @@ export function getEffectiveConfig(cwd: string): ConfigEntry[] {
 	}
 }
 
-export function setLocalConfig(cwd: string, key: string, value: string): void {
-	const result = spawnSync("git", ["config", "--local", key, value], {
-		cwd,
-		encoding: "utf-8",
-		env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-	});
-	if (result.status !== 0) {
+export async function setLocalConfig(
+	cwd: string,
+	key: string,
+	value: string,
+	binary?: string | null
+): Promise<void> {
+	const result = await runGit(["config", "--local", key, value], { cwd, binary });
+	if (result.exitCode !== 0) {
 		throw new Error(
-			result.stderr?.trim() || result.stdout?.trim() || "Failed to set local config"
+			result.stderr.trim() || result.stdout.trim() || "Failed to set local config"
 		);
 	}
 }
 
-export function testSigningConfig(
+export async function testSigningConfig(
 	cwd: string,
-	keyOverride?: string
-): { ok: boolean; message: string } {
-	const entries = getEffectiveConfig(cwd);
+	keyOverride?: string,
+	binary?: string | null
+): Promise<{ ok: boolean; message: string }> {
+	const entries = await getEffectiveConfig(cwd, binary);
 	const cfgVal = (k: string): string => {
 		for (let i = entries.length - 1; i >= 0; i--) {
 			if (entries[i].key === k && entries[i].value.trim()) return entries[i].value.trim();
@@ -78,12 +83,8 @@ export function testSigningConfig(
 	}
 
 	// Resolve a tree object to create the test signature against
-	const tree = spawnSync("git", ["rev-parse", "HEAD^{tree}"], {
-		cwd,
-		encoding: "utf-8",
-		env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-	});
-	if (tree.status !== 0 || !tree.stdout.trim()) {
+	const tree = await runGit(["rev-parse", "HEAD^{tree}"], { cwd, binary });
+	if (tree.exitCode !== 0 || !tree.stdout.trim()) {
 		return {
 			ok: false,
 			message: "No commits in this repository yet — cannot test signing.",
@@ -100,21 +101,20 @@ export function testSigningConfig(
 
 	// Create a signed dangling commit object — exercises the full
 	// signing pipeline without touching any refs.
-	const result = spawnSync("git", args, {
-		cwd,
-		encoding: "utf-8",
-		timeout: 15_000,
-		env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-	});
+	const result = await runGit(args, { cwd, binary, timeoutMs: 15_000 }).catch((error: Error) => ({
+		exitCode: null,
+		stdout: "",
+		stderr: error.message,
+	}));
 
-	if (result.status === 0 && result.stdout.trim()) {
+	if (result.exitCode === 0 && result.stdout.trim()) {
 		return { ok: true, message: `Signing works. Key: ${key}` };
 	}
 	return {
 		ok: false,
 		message:
-			result.stderr?.trim() ||
-			result.stdout?.trim() ||
+			result.stderr.trim() ||
+			result.stdout.trim() ||
 			"Signing failed — check your SSH agent and key.",
 	};
 }
@@ -1,7 +1,13 @@
 import { setAppSetting } from "../cache/queries.js";
 import { getDb } from "../cache/sqlite.js";
 import { appSettings } from "../cache/schema.js";
-import type { AppSettings, AIProviderInstance, CommitStyle } from "../../../shared/types.js";
+import type {
+	AppSettings,
+	AIProviderInstance,
+	CommitStyle,
+	GitProviderKind,
+	ModelPrice,
+} from "../../../shared/types.js";
 import { setAIApiKey, getAllAIApiKeys } from "./keychain.js";
 
 let cachedAppSettings: AppSettings | null = null;
@@ -11,38 +17,57 @@ function maskApiKey(key: string): string {
 	return `${key.slice(0, 4)}...${key.slice(-4)}`;
 }
 
+/** Main-process only: the returned providers carry plaintext API keys. */
 export async function getAppSettingsWithKeys(): Promise<AppSettings> {
 	const settings = await getAppSettings();
 	const apiKeys = await getAllAIApiKeys();
-
-	settings.ai.providers = settings.ai.providers.map((p) => ({
-		...p,
-		apiKey: apiKeys[p.id] ?? "",
-	}));
-
-	return settings;
+	// Copy rather than mutate: getAppSettings returns the shared cached object
+	return {
+		...settings,
+		ai: {
+			...settings.ai,
+			providers: settings.ai.providers.map((p) => ({ ...p, apiKey: apiKeys[p.id] ?? "" })),
+		},
+	};
 }
 
+/** Settings safe to hand to the renderer: API keys are masked. */
 export async function getAppSettingsForRenderer(): Promise<AppSettings> {
 	const settings = await getAppSettings();
 	const apiKeys = await getAllAIApiKeys();
+	return {
+		...settings,
+		ai: {
+			...settings.ai,
+			providers: settings.ai.providers.map((p) => ({
+				...p,
+				apiKey: maskApiKey(apiKeys[p.id] ?? ""),
+			})),
+		},
+	};
+}
 
-	settings.ai.providers = settings.ai.providers.map((p) => ({
-		...p,
-		apiKey: maskApiKey(apiKeys[p.id] ?? ""),
-	}));
-
-	return settings;
+/**
+ * The renderer only ever sees masked keys, so a key it sends back that matches the mask stands
+ * for the stored key.
+ */
+export async function resolveApiKey(providerId: string, apiKey: string): Promise<string> {
+	const apiKeys = await getAllAIApiKeys();
+	const stored = apiKeys[providerId] ?? "";
+	return apiKey && apiKey === maskApiKey(stored) ? stored : apiKey;
 }
 
 const KEYS = {
 	gitBinaryPath: "gitBinaryPath",
+	gitProvider: "gitProvider",
 	theme: "theme",
 	signingEnabled: "signing.enabled",
 	signingKey: "signing.key",
 	aiProviders: "ai.providers",
 	aiActiveProvider: "ai.activeProviderId",
 	aiCommitStyle: "ai.commitStyle",
+	aiPrices: "ai.prices",
+	aiMonthlyBudget: "ai.monthlyBudget",
 	uiScale: "uiScale",
 	fontSize: "fontSize",
 	commitMessageFontSize: "commitMessageFontSize",
@@ -51,10 +76,14 @@ const KEYS = {
 	devMode: "devMode",
 	autoExpandSingleFolder: "sidebar.autoExpandSingleFolder",
 	showWorktreePanel: "sidebar.showWorktreePanel",
+	worktreeRoot: "worktrees.root",
+	worktreeCustomRoot: "worktrees.customRoot",
+	worktreeNameTemplate: "worktrees.nameTemplate",
 } as const;
 
 const DEFAULTS: AppSettings = {
 	gitBinaryPath: null,
+	gitProvider: "process",
 	theme: "system",
 	signing: {
 		enabled: false,
@@ -65,6 +94,10 @@ const DEFAULTS: AppSettings = {
 		providers: [],
 		commitStyle: "conventional",
 	},
+	aiUsage: {
+		prices: [],
+		monthlyBudget: null,
+	},
 	uiScale: 1.0,
 	fontSize: 14,
 	commitMessageFontSize: 14,
@@ -73,6 +106,11 @@ const DEFAULTS: AppSettings = {
 	devMode: false,
 	autoExpandSingleFolder: true,
 	showWorktreePanel: true,
+	worktreeLocation: {
+		root: "gitagen",
+		customRoot: null,
+		nameTemplate: "{random}",
+	},
 };
 
 export async function getAppSettings(): Promise<AppSettings> {
@@ -90,12 +128,15 @@ export async function getAppSettings(): Promise<AppSettings> {
 	}
 
 	const gitBinaryPathRaw = map.get(KEYS.gitBinaryPath) ?? null;
+	const gitProviderRaw = map.get(KEYS.gitProvider) ?? null;
 	const themeRaw = map.get(KEYS.theme) ?? null;
 	const signingEnabledRaw = map.get(KEYS.signingEnabled) ?? null;
 	const signingKeyRaw = map.get(KEYS.signingKey) ?? null;
 	const aiProvidersRaw = map.get(KEYS.aiProviders) ?? null;
 	const aiActiveProviderRaw = map.get(KEYS.aiActiveProvider) ?? null;
 	const aiCommitStyleRaw = map.get(KEYS.aiCommitStyle) ?? null;
+	const aiPricesRaw = map.get(KEYS.aiPrices) ?? null;
+	const aiMonthlyBudgetRaw = map.get(KEYS.aiMonthlyBudget) ?? null;
 	const uiScaleRaw = map.get(KEYS.uiScale) ?? null;
 	const fontSizeRaw = map.get(KEYS.fontSize) ?? null;
 	const commitMessageFontSizeRaw = map.get(KEYS.commitMessageFontSize) ?? null;
@@ -104,10 +145,18 @@ export async function getAppSettings(): Promise<AppSettings> {
 	const devModeRaw = map.get(KEYS.devMode) ?? null;
 	const autoExpandSingleFolderRaw = map.get(KEYS.autoExpandSingleFolder) ?? null;
 	const showWorktreePanelRaw = map.get(KEYS.showWorktreePanel) ?? null;
+	const worktreeRootRaw = map.get(KEYS.worktreeRoot) ?? null;
+	const worktreeCustomRootRaw = map.get(KEYS.worktreeCustomRoot) ?? null;
+	const worktreeNameTemplateRaw = map.get(KEYS.worktreeNameTemplate) ?? null;
 
 	const gitBinaryPath =
 		gitBinaryPathRaw === "" || gitBinaryPathRaw === undefined ? null : gitBinaryPathRaw;
 
+	const gitProvider: GitProviderKind =
+		gitProviderRaw === "process" || gitProviderRaw === "simple-git"
+			? gitProviderRaw
+			: DEFAULTS.gitProvider;
+
 	const theme = (
 		themeRaw === "dark" || themeRaw === "light" || themeRaw === "system" ? themeRaw : "system"
 	) as AppSettings["theme"];
@@ -134,6 +183,21 @@ export async function getAppSettings(): Promise<AppSettings> {
 			? aiCommitStyleRaw
 			: DEFAULTS.ai.commitStyle;
 
+	let aiPrices: ModelPrice[] = DEFAULTS.aiUsage.prices;
+	if (aiPricesRaw) {
+		try {
+			aiPrices = JSON.parse(aiPricesRaw);
+		} catch {
+			aiPrices = DEFAULTS.aiUsage.prices;
+		}
+	}
+
+	const parsedBudget = aiMonthlyBudgetRaw ? parseFloat(aiMonthlyBudgetRaw) : NaN;
+	const aiMonthlyBudget =
+		Number.isFinite(parsedBudget) && parsedBudget > 0
+			? parsedBudget
+			: DEFAULTS.aiUsage.monthlyBudget;
+
 	const uiScale = uiScaleRaw ? parseFloat(uiScaleRaw) : DEFAULTS.uiScale;
 
 	const fontSize = fontSizeRaw ? parseInt(fontSizeRaw, 10) : DEFAULTS.fontSize;
@@ -160,8 +224,20 @@ export async function getAppSettings(): Promise<AppSettings> {
 
 	const showWorktreePanel = showWorktreePanelRaw === "false" ? false : DEFAULTS.showWorktreePanel;
 
+	const worktreeLocation: AppSettings["worktreeLocation"] = {
+		root:
+			worktreeRootRaw === "gitagen" ||
+			worktreeRootRaw === "sibling" ||
+			worktreeRootRaw === "custom"
+				? worktreeRootRaw
+				: DEFAULTS.worktreeLocation.root,
+		customRoot: worktreeCustomRootRaw || DEFAULTS.worktreeLocation.customRoot,
+		nameTemplate: worktreeNameTemplateRaw?.trim() || DEFAULTS.worktreeLocation.nameTemplate,
+	};
+
 	cachedAppSettings = {
 		gitBinaryPath,
+		gitProvider,
 		theme,
 		signing: {
 			enabled: signingEnabled,
@@ -172,6 +248,10 @@ export async function getAppSettings(): Promise<AppSettings> {
 			providers: aiProviders,
 			commitStyle,
 		},
+		aiUsage: {
+			prices: aiPrices,
+			monthlyBudget: aiMonthlyBudget,
+		},
 		uiScale,
 		fontSize,
 		commitMessageFontSize,
@@ -180,6 +260,7 @@ export async function getAppSettings(): Promise<AppSettings> {
 		devMode,
 		autoExpandSingleFolder,
 		showWorktreePanel,
+		worktreeLocation,
 	};
 	return cachedAppSettings;
 }
@@ -190,6 +271,9 @@ export async function setAppSettings(partial: Partial<AppSettings>): Promise<App
 	if (partial.gitBinaryPath !== undefined) {
 		await setAppSetting(KEYS.gitBinaryPath, partial.gitBinaryPath);
 	}
+	if (partial.gitProvider !== undefined) {
+		await setAppSetting(KEYS.gitProvider, partial.gitProvider);
+	}
 	if (partial.theme !== undefined) {
 		await setAppSetting(KEYS.theme, partial.theme);
 	}
@@ -206,8 +290,13 @@ export async function setAppSettings(partial: Partial<AppSettings>): Promise<App
 			await setAppSetting(KEYS.aiActiveProvider, partial.ai.activeProviderId ?? "");
 		}
 		if (partial.ai.providers !== undefined) {
+			const storedKeys = await getAllAIApiKeys();
 			for (const provider of partial.ai.providers) {
-				if (provider.apiKey) {
+				// A masked key is the renderer echoing back what it was given; keep the stored one
+				if (
+					provider.apiKey &&
+					provider.apiKey !== maskApiKey(storedKeys[provider.id] ?? "")
+				) {
 					await setAIApiKey(provider.id, provider.apiKey);
 				}
 			}
@@ -221,6 +310,17 @@ export async function setAppSettings(partial: Partial<AppSettings>): Promise<App
 			await setAppSetting(KEYS.aiCommitStyle, partial.ai.commitStyle);
 		}
 	}
+	if (partial.aiUsage !== undefined) {
+		if (partial.aiUsage.prices !== undefined) {
+			await setAppSetting(KEYS.aiPrices, JSON.stringify(partial.aiUsage.prices));
+		}
+		if (partial.aiUsage.monthlyBudget !== undefined) {
+			await setAppSetting(
+				KEYS.aiMonthlyBudget,
+				partial.aiUsage.monthlyBudget === null ? "" : String(partial.aiUsage.monthlyBudget)
+			);
+		}
+	}
 	if (partial.uiScale !== undefined) {
 		await setAppSetting(KEYS.uiScale, String(partial.uiScale));
 	}
@@ -248,6 +348,11 @@ export async function setAppSettings(partial: Partial<AppSettings>): Promise<App
 	if (partial.showWorktreePanel !== undefined) {
 		await setAppSetting(KEYS.showWorktreePanel, partial.showWorktreePanel ? "true" : "false");
 	}
+	if (partial.worktreeLocation !== undefined) {
+		await setAppSetting(KEYS.worktreeRoot, partial.worktreeLocation.root);
+		await setAppSetting(KEYS.worktreeCustomRoot, partial.worktreeLocation.customRoot ?? "");
+		await setAppSetting(KEYS.worktreeNameTemplate, partial.worktreeLocation.nameTemplate);
+	}
 
 	return getAppSettings();
 }
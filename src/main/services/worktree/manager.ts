@@ -1,12 +1,23 @@
 import { copyFile, mkdir, readdir } from "fs/promises";
 import { existsSync, mkdirSync } from "fs";
-import { dirname, join, relative } from "path";
+import { dirname, join, relative, resolve } from "path";
 import { homedir } from "os";
-import { createSimpleGitProvider } from "../git/simple-git-provider.js";
-import { generateWorktreeName } from "./naming.js";
-import type { WorktreeInfo as SharedWorktreeInfo } from "../../../shared/types.js";
+import { createProcessGitProvider } from "../git/process-provider.js";
+import { OperationCancelledError } from "../git/operations.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { generateWorktreeName, renderWorktreeName } from "./naming.js";
+import { applyRecipeFiles, isEmptyRecipe, runRecipeCommands } from "./recipe.js";
+import type {
+	WorktreeDashboard,
+	WorktreeInfo as SharedWorktreeInfo,
+	WorktreeLocation,
+	WorktreeRecipe,
+	WorktreeStatus,
+} from "../../../shared/types.js";
 
 const GITAGEN_DIR = join(homedir(), ".gitagen");
+/** Each worktree's status takes a few git processes, so only this many are read at once. */
+const WORKTREE_STATUS_CONCURRENCY = 4;
 
 function getProjectWorktreeDir(projectName: string): string {
 	return join(GITAGEN_DIR, projectName);
@@ -16,6 +27,50 @@ function sanitizeProjectName(name: string): string {
 	return name.replace(/[^a-zA-Z0-9_-]/g, "-").slice(0, 64) || "repo";
 }
 
+/** Used when no location setting is passed: random names under `~/.gitagen/<project>`. */
+const DEFAULT_WORKTREE_LOCATION: WorktreeLocation = {
+	root: "gitagen",
+	customRoot: null,
+	nameTemplate: "{random}",
+};
+
+function getWorktreeRoot(
+	repoPath: string,
+	projectName: string,
+	location: WorktreeLocation
+): string {
+	if (location.root === "sibling") return dirname(resolve(repoPath));
+	if (location.root === "custom") {
+		const customRoot = location.customRoot?.trim();
+		if (!customRoot) throw new Error("No custom worktree root is set.");
+		return resolve(customRoot.replace(/^~(?=$|[\\/])/, homedir()));
+	}
+	return getProjectWorktreeDir(sanitizeProjectName(projectName));
+}
+
+/**
+ * Where a new worktree for `branch` would be created under `location`. A name that is already
+ * taken gets a `-2`, `-3`, ... suffix.
+ */
+export function resolveWorktreePath(
+	repoPath: string,
+	projectName: string,
+	branch: string,
+	location: WorktreeLocation = DEFAULT_WORKTREE_LOCATION
+): string {
+	const root = getWorktreeRoot(repoPath, projectName, location);
+	const name = renderWorktreeName(location.nameTemplate, {
+		project: projectName,
+		branch,
+		date: new Date(),
+	});
+	let worktreePath = join(root, name);
+	for (let suffix = 2; existsSync(worktreePath); suffix++) {
+		worktreePath = join(root, `${name}-${suffix}`);
+	}
+	return worktreePath;
+}
+
 async function copyGitignoreFiles(sourceRoot: string, targetRoot: string): Promise<number> {
 	if (!existsSync(sourceRoot)) return 0;
 	const dirs: string[] = [sourceRoot];
@@ -50,17 +105,22 @@ interface AddWorktreeManagerOptions {
 	newBranch?: string;
 	copyGitIgnores?: boolean;
 	sourceWorktreePath?: string;
+	/** Root and name template; defaults to a random name under `~/.gitagen/<project>` */
+	location?: WorktreeLocation;
+	/** The project's recipe; its post-create output is streamed under `projectId` */
+	recipe?: { projectId: string; steps: WorktreeRecipe | null };
 }
 
 interface AddWorktreeManagerResult {
 	worktreePath: string;
 	copiedGitignoreCount: number;
 	copyGitignoreError?: string;
+	recipe?: { copied: number; linked: number; error?: string };
 }
 
 export function listWorktrees(
 	repoPath: string,
-	gitProvider: ReturnType<typeof createSimpleGitProvider>
+	gitProvider: ReturnType<typeof createProcessGitProvider>
 ): Promise<SharedWorktreeInfo[]> {
 	return gitProvider.listWorktrees(repoPath).then((list) =>
 		list.map((w) => {
@@ -76,24 +136,67 @@ export function listWorktrees(
 	);
 }
 
+/** Reads every worktree's status in parallel. A worktree that cannot be read carries an `error`. */
+export async function getWorktreeDashboard(
+	repoPath: string,
+	gitProvider: ReturnType<typeof createProcessGitProvider>
+): Promise<WorktreeDashboard> {
+	const [worktrees, defaultBranch] = await Promise.all([
+		listWorktrees(repoPath, gitProvider),
+		gitProvider.getDefaultBranch(repoPath),
+	]);
+	const defaultLocalBranch = defaultBranch?.replace(/^[^/]+\//, "") ?? null;
+	const statuses = await mapWithConcurrency(
+		worktrees,
+		WORKTREE_STATUS_CONCURRENCY,
+		async (worktree): Promise<WorktreeStatus> => {
+			try {
+				const summary = await gitProvider.getWorktreeSummary(worktree.path, defaultBranch);
+				// A detached HEAD or the default branch itself has nothing to merge
+				const mergeable =
+					!!worktree.branch &&
+					worktree.branch !== defaultBranch &&
+					worktree.branch !== defaultLocalBranch;
+				return { ...worktree, ...summary, merged: mergeable && summary.merged };
+			} catch (error) {
+				return {
+					...worktree,
+					staged: 0,
+					unstaged: 0,
+					untracked: 0,
+					conflicted: 0,
+					upstream: null,
+					ahead: 0,
+					behind: 0,
+					lastCommitAt: null,
+					merged: false,
+					error:
+						error instanceof Error ? error.message : "Failed to read worktree status.",
+				};
+			}
+		}
+	);
+	return { defaultBranch, worktrees: statuses };
+}
+
 export async function addWorktree(
 	repoPath: string,
 	projectName: string,
 	branch: string,
 	options?: AddWorktreeManagerOptions,
-	gitProvider?: ReturnType<typeof createSimpleGitProvider>
+	gitProvider?: ReturnType<typeof createProcessGitProvider>
 ): Promise<AddWorktreeManagerResult> {
-	const provider = gitProvider ?? createSimpleGitProvider();
-	const baseDir = getProjectWorktreeDir(sanitizeProjectName(projectName));
+	const provider = gitProvider ?? createProcessGitProvider();
+	const worktreePath = resolveWorktreePath(
+		repoPath,
+		projectName,
+		options?.newBranch ?? branch,
+		options?.location
+	);
+	const baseDir = dirname(worktreePath);
 	if (!existsSync(baseDir)) {
 		mkdirSync(baseDir, { recursive: true });
 	}
-	let name = generateWorktreeName();
-	let worktreePath = join(baseDir, name);
-	while (existsSync(worktreePath)) {
-		name = generateWorktreeName();
-		worktreePath = join(baseDir, name);
-	}
 	await provider.addWorktree(repoPath, worktreePath, branch, options?.newBranch);
 
 	let copiedGitignoreCount = 0;
@@ -108,27 +211,76 @@ export async function addWorktree(
 		}
 	}
 
+	// The worktree is usable even when its setup fails, so the error is reported, not thrown
+	let recipe: AddWorktreeManagerResult["recipe"];
+	const steps = options?.recipe?.steps;
+	if (options?.recipe && steps && !isEmptyRecipe(steps)) {
+		recipe = { copied: 0, linked: 0 };
+		try {
+			const sourcePath = options.sourceWorktreePath ?? repoPath;
+			Object.assign(recipe, await applyRecipeFiles(steps, sourcePath, worktreePath));
+			await runRecipeCommands(
+				options.recipe.projectId,
+				worktreePath,
+				"postCreate",
+				steps.postCreate
+			);
+		} catch (error) {
+			recipe.error = error instanceof Error ? error.message : "Worktree recipe failed.";
+		}
+	}
+
 	return {
 		worktreePath,
 		copiedGitignoreCount,
 		copyGitignoreError,
+		recipe,
 	};
 }
 
 export async function removeWorktree(
 	repoPath: string,
 	worktreePath: string,
-	gitProvider?: ReturnType<typeof createSimpleGitProvider>,
-	force?: boolean
+	gitProvider?: ReturnType<typeof createProcessGitProvider>,
+	force?: boolean,
+	preRemove?: { projectId: string; commands: string[] }
 ): Promise<void> {
-	const provider = gitProvider ?? createSimpleGitProvider();
+	const provider = gitProvider ?? createProcessGitProvider();
+	if (preRemove && existsSync(worktreePath)) {
+		try {
+			await runRecipeCommands(
+				preRemove.projectId,
+				worktreePath,
+				"preRemove",
+				preRemove.commands
+			);
+		} catch (error) {
+			// A forced removal goes ahead; the failure is in the recipe output. Cancelling stops it.
+			if (!force || error instanceof OperationCancelledError) throw error;
+		}
+	}
 	await provider.removeWorktree(repoPath, worktreePath, force);
 }
 
+/** Moves a linked worktree with `git worktree move`; the main worktree cannot be moved. */
+export async function moveWorktree(
+	repoPath: string,
+	worktreePath: string,
+	newPath: string,
+	gitProvider?: ReturnType<typeof createProcessGitProvider>
+): Promise<string> {
+	const provider = gitProvider ?? createProcessGitProvider();
+	const target = resolve(newPath);
+	if (existsSync(target)) throw new Error(`${target} already exists.`);
+	await mkdir(dirname(target), { recursive: true });
+	await provider.moveWorktree(repoPath, worktreePath, target);
+	return target;
+}
+
 export async function pruneWorktrees(
 	repoPath: string,
-	gitProvider?: ReturnType<typeof createSimpleGitProvider>
+	gitProvider?: ReturnType<typeof createProcessGitProvider>
 ): Promise<void> {
-	const provider = gitProvider ?? createSimpleGitProvider();
+	const provider = gitProvider ?? createProcessGitProvider();
 	await provider.pruneWorktrees(repoPath);
 }
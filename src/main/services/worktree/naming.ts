@@ -58,3 +58,42 @@ export function generateWorktreeName(): string {
 	}
 	return words.join("-");
 }
+
+export interface WorktreeNameTokens {
+	project: string;
+	branch: string;
+	date: Date;
+}
+
+/** Keeps a token's value to one safe path segment, e.g. `feature/login` becomes `feature-login`. */
+function toSegment(value: string): string {
+	return (
+		value
+			.replace(/[^a-zA-Z0-9._-]+/g, "-")
+			.replace(/^[.-]+|-+$/g, "")
+			.slice(0, 64) || "worktree"
+	);
+}
+
+function formatDate(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Fills in a worktree name template. `/` in the template nests directories; token values never
+ * do. Throws on a template whose result would leave the worktree root.
+ */
+export function renderWorktreeName(template: string, tokens: WorktreeNameTokens): string {
+	const rendered = template.trim().replace(/\{(project|branch|date|random)\}/g, (_, token) => {
+		if (token === "project") return toSegment(tokens.project);
+		if (token === "branch") return toSegment(tokens.branch);
+		if (token === "date") return formatDate(tokens.date);
+		return generateWorktreeName();
+	});
+	const segments = rendered.split(/[\\/]+/).filter(Boolean);
+	if (segments.length === 0 || segments.some((segment) => segment === "." || segment === "..")) {
+		throw new Error(`Invalid worktree name template: "${template}"`);
+	}
+	return segments.join("/");
+}
@@ -0,0 +1,233 @@
+import { spawn } from "child_process";
+import { cp, lstat, mkdir, readdir, symlink } from "fs/promises";
+import { dirname, join } from "path";
+import { randomUUID } from "crypto";
+import { emitWorktreeRecipe } from "../../ipc/events.js";
+import { runOperation } from "../git/operations.js";
+import type {
+	GitOperationKind,
+	WorktreeRecipe,
+	WorktreeRecipePhase,
+} from "../../../shared/types.js";
+
+/** A setup command such as `pnpm install` is killed after this long. */
+const RECIPE_COMMAND_TIMEOUT_MS = 30 * 60_000;
+
+const PHASE_OPERATIONS: Record<WorktreeRecipePhase, GitOperationKind> = {
+	postCreate: "worktreeSetup",
+	preRemove: "worktreeTeardown",
+};
+
+export interface RecipeFilesResult {
+	copied: number;
+	linked: number;
+}
+
+export function isEmptyRecipe(recipe: WorktreeRecipe | null | undefined): boolean {
+	return (
+		!recipe ||
+		(recipe.copy.length === 0 &&
+			recipe.symlink.length === 0 &&
+			recipe.postCreate.length === 0 &&
+			recipe.preRemove.length === 0)
+	);
+}
+
+function segmentToRegex(segment: string): RegExp {
+	const source = segment
+		.split("")
+		.map((char) => {
+			if (char === "*") return "[^/]*";
+			if (char === "?") return "[^/]";
+			return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Matches path segments against a glob's segments. With `partial`, also true when `path` is a
+ * directory that something below it could match, so the walk knows to descend.
+ */
+function matchSegments(
+	pattern: string[],
+	path: string[],
+	partial: boolean,
+	pi = 0,
+	si = 0
+): boolean {
+	if (si === path.length) {
+		return partial || pattern.slice(pi).every((segment) => segment === "**");
+	}
+	if (pi === pattern.length) return false;
+	const segment = pattern[pi]!;
+	if (segment === "**") {
+		return (
+			matchSegments(pattern, path, partial, pi + 1, si) ||
+			matchSegments(pattern, path, partial, pi, si + 1)
+		);
+	}
+	return (
+		segmentToRegex(segment).test(path[si]!) &&
+		matchSegments(pattern, path, partial, pi + 1, si + 1)
+	);
+}
+
+/**
+ * Relative paths under `root` matching any of `patterns`. A matching directory is returned whole
+ * rather than walked, so `node_modules` costs one entry.
+ */
+export async function findRecipeMatches(root: string, patterns: string[]): Promise<string[]> {
+	const globs = patterns
+		.map((pattern) =>
+			pattern
+				.trim()
+				.replace(/^\.?\/+/, "")
+				.replace(/\/+$/, "")
+		)
+		.filter(Boolean)
+		.map((pattern) => pattern.split("/").filter(Boolean));
+	if (globs.length === 0) return [];
+
+	const matches: string[] = [];
+	const dirs: string[][] = [[]];
+	while (dirs.length > 0) {
+		const segments = dirs.pop()!;
+		const entries = await readdir(join(root, ...segments), { withFileTypes: true });
+		for (const entry of entries) {
+			if (entry.name === ".git") continue;
+			const path = [...segments, entry.name];
+			if (globs.some((glob) => matchSegments(glob, path, false))) {
+				matches.push(path.join("/"));
+			} else if (
+				entry.isDirectory() &&
+				globs.some((glob) => matchSegments(glob, path, true))
+			) {
+				dirs.push(path);
+			}
+		}
+	}
+	return matches.sort();
+}
+
+async function exists(path: string): Promise<boolean> {
+	try {
+		await lstat(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Copies and symlinks the recipe's files from `sourceRoot` into a new worktree. Paths that already
+ * exist in the worktree, such as tracked files, are left alone.
+ */
+export async function applyRecipeFiles(
+	recipe: WorktreeRecipe,
+	sourceRoot: string,
+	worktreePath: string
+): Promise<RecipeFilesResult> {
+	const result: RecipeFilesResult = { copied: 0, linked: 0 };
+	for (const relPath of await findRecipeMatches(sourceRoot, recipe.copy)) {
+		const target = join(worktreePath, relPath);
+		if (await exists(target)) continue;
+		await mkdir(dirname(target), { recursive: true });
+		await cp(join(sourceRoot, relPath), target, { recursive: true, verbatimSymlinks: true });
+		result.copied += 1;
+	}
+	for (const relPath of await findRecipeMatches(sourceRoot, recipe.symlink)) {
+		const target = join(worktreePath, relPath);
+		if (await exists(target)) continue;
+		const source = join(sourceRoot, relPath);
+		await mkdir(dirname(target), { recursive: true });
+		// Junctions need no elevated rights on Windows
+		const type = (await lstat(source)).isDirectory() ? "junction" : "file";
+		await symlink(source, target, type);
+		result.linked += 1;
+	}
+	return result;
+}
+
+function runCommand(
+	command: string,
+	cwd: string,
+	onOutput: (text: string) => void,
+	signal: AbortSignal | undefined
+): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new Error(`"${command}" was cancelled`));
+			return;
+		}
+		// In its own process group, so killing it also ends what the shell started
+		const detached = process.platform !== "win32";
+		const child = spawn(command, { cwd, shell: true, env: process.env, detached });
+		let stopReason: string | null = null;
+		const stop = (reason: string) => {
+			if (stopReason) return;
+			stopReason = reason;
+			try {
+				if (detached && child.pid) process.kill(-child.pid);
+				else child.kill();
+			} catch {
+				// Already exited
+			}
+		};
+		const timer = setTimeout(
+			() => stop(`timed out after ${RECIPE_COMMAND_TIMEOUT_MS / 60_000} minutes`),
+			RECIPE_COMMAND_TIMEOUT_MS
+		);
+		const onAbort = () => stop("was cancelled");
+		signal?.addEventListener("abort", onAbort, { once: true });
+		const cleanup = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		child.stdout.on("data", (chunk: Buffer) => onOutput(chunk.toString()));
+		child.stderr.on("data", (chunk: Buffer) => onOutput(chunk.toString()));
+		child.on("error", (error) => {
+			cleanup();
+			reject(error);
+		});
+		child.on("close", (code, exitSignal) => {
+			cleanup();
+			if (stopReason) reject(new Error(`"${command}" ${stopReason}`));
+			else if (code === 0) resolve();
+			else reject(new Error(`"${command}" failed with ${exitSignal ?? `exit code ${code}`}`));
+		});
+	});
+}
+
+/**
+ * Runs a recipe phase's commands one after another in `worktreePath`, streaming their output on
+ * `events:worktreeRecipe`. Stops at, and rethrows, the first command that fails. The run is also
+ * an operation under its `runId`, so `cancelOperation(runId)` kills the running command.
+ */
+export async function runRecipeCommands(
+	projectId: string,
+	worktreePath: string,
+	phase: WorktreeRecipePhase,
+	commands: string[]
+): Promise<void> {
+	const steps = commands.map((command) => command.trim()).filter(Boolean);
+	if (steps.length === 0) return;
+
+	const runId = randomUUID();
+	const onOutput = (text: string) =>
+		emitWorktreeRecipe({ type: "output", runId, projectId, text });
+	emitWorktreeRecipe({ type: "start", runId, projectId, worktreePath, phase });
+	try {
+		await runOperation(runId, projectId, PHASE_OPERATIONS[phase], async ({ signal }) => {
+			for (const command of steps) {
+				onOutput(`$ ${command}\n`);
+				await runCommand(command, worktreePath, onOutput, signal);
+			}
+		});
+		emitWorktreeRecipe({ type: "end", runId, projectId });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		emitWorktreeRecipe({ type: "end", runId, projectId, error: message });
+		throw error;
+	}
+}
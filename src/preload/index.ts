@@ -1,5 +1,13 @@
 import { contextBridge, ipcRenderer } from "electron";
+import type { UIMessage } from "ai";
 import type {
+	AgentRunEvent,
+	AgentSession,
+	AgentSessionSummary,
+	AgentStatus,
+	BlameResult,
+	CheckpointInfo,
+	GitActivityEntry,
 	GroupedProject,
 	Project,
 	ProjectOpenData,
@@ -9,18 +17,31 @@ import type {
 	TreeNode,
 	CommitDetail,
 	CommitInfo,
+	CommitLintIssue,
+	HookRunEvent,
+	OperationProgressEvent,
+	WorktreeRecipeEvent,
+	WorktreeDashboard,
+	CommitMessageSource,
 	BranchInfo,
 	StashDetail,
 	StashEntry,
 	RemoteInfo,
 	CommitResult,
+	ConflictFileVersions,
 	ConflictState,
+	PatchSelection,
+	RebaseOptions,
 	WorktreeInfo,
 	ConfigEntry,
 	AIProviderDescriptor,
+	AIUsageReport,
 	AddWorktreeOptions,
 	AddWorktreeResult,
+	CloneRepositoryOptions,
 	ConfirmDialogOptions,
+	InitRepositoryOptions,
+	AddProjectResult,
 	FetchResultSummary,
 	PullResultSummary,
 	PushResultSummary,
@@ -61,6 +82,13 @@ function validatePath(path: string): void {
 	}
 }
 
+/** Revisions are passed to git before `--`, where a leading dash would be read as an option. */
+function validateRev(rev: string): void {
+	if (rev.startsWith("-")) {
+		throw new Error("Invalid revision: must not start with '-'");
+	}
+}
+
 function validateUrl(url: string): void {
 	if (!isValidUrl(url)) {
 		throw new Error("Invalid URL: only http and https are allowed");
@@ -71,15 +99,26 @@ const EVENT_REPO_UPDATED = "events:repoUpdated";
 const EVENT_REPO_ERROR = "events:repoError";
 const EVENT_CONFLICT_DETECTED = "events:conflictDetected";
 const EVENT_OPEN_REPO = "events:openRepo";
+const EVENT_HOOK_RUN = "events:hookRun";
+const EVENT_OPERATION_PROGRESS = "events:operationProgress";
+const EVENT_WORKTREE_RECIPE = "events:worktreeRecipe";
+const EVENT_GIT_ACTIVITY = "events:gitActivity";
 const EVENT_AI_COMMIT_CHUNK = "ai:commitChunk";
+const EVENT_AI_AGENT_EVENT = "ai:agentEvent";
 
 const projects = {
 	list: (): Promise<Project[]> => ipcRenderer.invoke("projects:list"),
 	listGrouped: (): Promise<GroupedProject[]> => ipcRenderer.invoke("projects:listGrouped"),
-	add: (name: string, path: string): Promise<Project> => {
+	add: (name: string, path: string, init?: InitRepositoryOptions): Promise<AddProjectResult> => {
 		validatePath(path);
-		return ipcRenderer.invoke("projects:add", name, path);
+		return ipcRenderer.invoke("projects:add", name, path, init);
 	},
+	clone: (opts: CloneRepositoryOptions & { operationId?: string }): Promise<Project> => {
+		validatePath(opts.directory);
+		return ipcRenderer.invoke("projects:clone", opts);
+	},
+	listGitignoreTemplates: (): Promise<string[]> =>
+		ipcRenderer.invoke("projects:listGitignoreTemplates"),
 	remove: (projectId: string): Promise<void> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("projects:remove", projectId);
@@ -139,6 +178,33 @@ const repo = {
 		paths.forEach(validatePath);
 		return ipcRenderer.invoke("repo:unstageFiles", projectId, paths);
 	},
+	stageSelection: (
+		projectId: string,
+		filePath: string,
+		selection: PatchSelection
+	): Promise<void> => {
+		validateProjectId(projectId);
+		validatePath(filePath);
+		return ipcRenderer.invoke("repo:stageSelection", projectId, filePath, selection);
+	},
+	unstageSelection: (
+		projectId: string,
+		filePath: string,
+		selection: PatchSelection
+	): Promise<void> => {
+		validateProjectId(projectId);
+		validatePath(filePath);
+		return ipcRenderer.invoke("repo:unstageSelection", projectId, filePath, selection);
+	},
+	discardSelection: (
+		projectId: string,
+		filePath: string,
+		selection: PatchSelection
+	): Promise<void> => {
+		validateProjectId(projectId);
+		validatePath(filePath);
+		return ipcRenderer.invoke("repo:discardSelection", projectId, filePath, selection);
+	},
 	stageAll: (projectId: string): Promise<void> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:stageAll", projectId);
@@ -168,7 +234,7 @@ const repo = {
 	commit: (
 		projectId: string,
 		message: string,
-		opts?: { amend?: boolean; sign?: boolean }
+		opts?: { amend?: boolean; sign?: boolean; noVerify?: boolean }
 	): Promise<CommitResult> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:commit", projectId, message, opts);
@@ -181,13 +247,23 @@ const repo = {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:getUnpushedOids", projectId);
 	},
-	generateCommitMessage: (projectId: string): Promise<string> => {
+	generateCommitMessage: (projectId: string, source?: CommitMessageSource): Promise<string> => {
 		validateProjectId(projectId);
-		return ipcRenderer.invoke("repo:generateCommitMessage", projectId);
+		return ipcRenderer.invoke("repo:generateCommitMessage", projectId, source);
+	},
+	lintCommitMessage: (projectId: string, message: string): Promise<CommitLintIssue[]> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("repo:lintCommitMessage", projectId, message);
 	},
 	getLog: (
 		projectId: string,
-		opts?: { limit?: number; branch?: string; offset?: number }
+		opts?: {
+			limit?: number;
+			branch?: string;
+			offset?: number;
+			path?: string;
+			topoOrder?: boolean;
+		}
 	): Promise<CommitInfo[]> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:getLog", projectId, opts);
@@ -200,6 +276,12 @@ const repo = {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:getCommitDetail", projectId, oid);
 	},
+	getBlame: (projectId: string, filePath: string, rev?: string): Promise<BlameResult | null> => {
+		validateProjectId(projectId);
+		validatePath(filePath);
+		if (rev) validateRev(rev);
+		return ipcRenderer.invoke("repo:getBlame", projectId, filePath, rev);
+	},
 	listBranches: (projectId: string): Promise<BranchInfo[]> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:listBranches", projectId);
@@ -230,7 +312,7 @@ const repo = {
 	},
 	fetch: (
 		projectId: string,
-		opts?: { remote?: string; prune?: boolean }
+		opts?: { remote?: string; all?: boolean; prune?: boolean; operationId?: string }
 	): Promise<FetchResultSummary> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:fetch", projectId, opts);
@@ -242,6 +324,7 @@ const repo = {
 			branch?: string;
 			rebase?: boolean;
 			behind?: number;
+			operationId?: string;
 		}
 	): Promise<PullResultSummary> => {
 		validateProjectId(projectId);
@@ -255,11 +338,16 @@ const repo = {
 			force?: boolean;
 			setUpstream?: boolean;
 			ahead?: number;
+			noVerify?: boolean;
+			operationId?: string;
 		}
 	): Promise<PushResultSummary> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:push", projectId, opts);
 	},
+	/** Kills a fetch, pull, push or clone started with this `operationId`, or a recipe run by its `runId`. */
+	cancelOperation: (operationId: string): Promise<boolean> =>
+		ipcRenderer.invoke("repo:cancelOperation", operationId),
 	pushTags: (
 		projectId: string,
 		opts?: { remote?: string; tags?: string[] }
@@ -326,7 +414,7 @@ const repo = {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:deleteTag", projectId, name);
 	},
-	rebase: (projectId: string, opts: { onto: string }): Promise<void> => {
+	rebase: (projectId: string, opts: RebaseOptions): Promise<void> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:rebase", projectId, opts);
 	},
@@ -354,6 +442,14 @@ const repo = {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:cherryPickContinue", projectId);
 	},
+	getCheckpoint: (projectId: string, name: string): Promise<CheckpointInfo | null> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("repo:getCheckpoint", projectId, name);
+	},
+	restoreCheckpoint: (projectId: string, name: string): Promise<void> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("repo:restoreCheckpoint", projectId, name);
+	},
 	getConflictFiles: (projectId: string): Promise<string[]> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:getConflictFiles", projectId);
@@ -363,6 +459,28 @@ const repo = {
 		paths.forEach(validatePath);
 		return ipcRenderer.invoke("repo:markResolved", projectId, paths);
 	},
+	getConflictState: (projectId: string): Promise<ConflictState | null> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("repo:getConflictState", projectId);
+	},
+	getConflictVersions: (
+		projectId: string,
+		filePath: string
+	): Promise<ConflictFileVersions | null> => {
+		validateProjectId(projectId);
+		validatePath(filePath);
+		return ipcRenderer.invoke("repo:getConflictVersions", projectId, filePath);
+	},
+	/** With null content, resolves the conflict by deleting the file. */
+	resolveConflict: (
+		projectId: string,
+		filePath: string,
+		content: string | null
+	): Promise<void> => {
+		validateProjectId(projectId);
+		validatePath(filePath);
+		return ipcRenderer.invoke("repo:resolveConflict", projectId, filePath, content);
+	},
 	getEffectiveConfig: (projectId: string): Promise<ConfigEntry[]> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:getEffectiveConfig", projectId);
@@ -396,6 +514,25 @@ const repo = {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:pruneWorktrees", projectId);
 	},
+	getWorktreeDashboard: (projectId: string): Promise<WorktreeDashboard> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("repo:getWorktreeDashboard", projectId);
+	},
+	openWorktreeInEditor: (projectId: string, worktreePath: string): Promise<void> => {
+		validateProjectId(projectId);
+		validatePath(worktreePath);
+		return ipcRenderer.invoke("repo:openWorktreeInEditor", projectId, worktreePath);
+	},
+	resolveWorktreePath: (projectId: string, branch: string): Promise<string> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("repo:resolveWorktreePath", projectId, branch);
+	},
+	moveWorktree: (projectId: string, worktreePath: string, newPath: string): Promise<string> => {
+		validateProjectId(projectId);
+		validatePath(worktreePath);
+		validatePath(newPath);
+		return ipcRenderer.invoke("repo:moveWorktree", projectId, worktreePath, newPath);
+	},
 	watchProject: (projectId: string): Promise<void> => {
 		validateProjectId(projectId);
 		return ipcRenderer.invoke("repo:watchProject", projectId);
@@ -408,7 +545,6 @@ const repo = {
 
 const settings = {
 	getGlobal: (): Promise<AppSettings> => ipcRenderer.invoke("settings:getGlobal"),
-	getGlobalWithKeys: (): Promise<AppSettings> => ipcRenderer.invoke("settings:getGlobalWithKeys"),
 	setGlobal: (partial: Partial<AppSettings>): Promise<AppSettings> =>
 		ipcRenderer.invoke("settings:setGlobal", partial),
 	getProjectPrefs: (projectId: string): Promise<ProjectPrefs | null> => {
@@ -428,15 +564,17 @@ const settings = {
 	fetchModels: (
 		type: string,
 		apiKey: string,
-		baseURL?: string
+		baseURL?: string,
+		providerId?: string
 	): Promise<{ success: boolean; models: string[]; error?: string }> => {
 		if (baseURL !== undefined && baseURL !== "" && baseURL !== null) {
 			validateUrl(baseURL);
 		}
-		return ipcRenderer.invoke("settings:fetchModels", type, apiKey, baseURL);
+		return ipcRenderer.invoke("settings:fetchModels", type, apiKey, baseURL, providerId);
 	},
 	listAIProviders: (): Promise<AIProviderDescriptor[]> =>
 		ipcRenderer.invoke("settings:listAIProviders"),
+	getAIUsage: (): Promise<AIUsageReport> => ipcRenderer.invoke("settings:getAIUsage"),
 };
 
 const events = {
@@ -474,6 +612,34 @@ const events = {
 		ipcRenderer.on(EVENT_CONFLICT_DETECTED, handler);
 		return () => ipcRenderer.removeListener(EVENT_CONFLICT_DETECTED, handler);
 	},
+	onHookRun: (callback: (event: HookRunEvent) => void) => {
+		const handler = (_: Electron.IpcRendererEvent, event: HookRunEvent) => {
+			callback(event);
+		};
+		ipcRenderer.on(EVENT_HOOK_RUN, handler);
+		return () => ipcRenderer.removeListener(EVENT_HOOK_RUN, handler);
+	},
+	onOperationProgress: (callback: (event: OperationProgressEvent) => void) => {
+		const handler = (_: Electron.IpcRendererEvent, event: OperationProgressEvent) => {
+			callback(event);
+		};
+		ipcRenderer.on(EVENT_OPERATION_PROGRESS, handler);
+		return () => ipcRenderer.removeListener(EVENT_OPERATION_PROGRESS, handler);
+	},
+	onWorktreeRecipe: (callback: (event: WorktreeRecipeEvent) => void) => {
+		const handler = (_: Electron.IpcRendererEvent, event: WorktreeRecipeEvent) => {
+			callback(event);
+		};
+		ipcRenderer.on(EVENT_WORKTREE_RECIPE, handler);
+		return () => ipcRenderer.removeListener(EVENT_WORKTREE_RECIPE, handler);
+	},
+	onGitActivity: (callback: (entry: GitActivityEntry) => void) => {
+		const handler = (_: Electron.IpcRendererEvent, entry: GitActivityEntry) => {
+			callback(entry);
+		};
+		ipcRenderer.on(EVENT_GIT_ACTIVITY, handler);
+		return () => ipcRenderer.removeListener(EVENT_GIT_ACTIVITY, handler);
+	},
 	onOpenRepo: (callback: (payload: { projectId: string; worktreePath?: string }) => void) => {
 		const handler = (
 			_: Electron.IpcRendererEvent,
@@ -491,6 +657,49 @@ const events = {
 		ipcRenderer.on(EVENT_AI_COMMIT_CHUNK, handler);
 		return () => ipcRenderer.removeListener(EVENT_AI_COMMIT_CHUNK, handler);
 	},
+	onAgentEvent: (callback: (event: AgentRunEvent) => void) => {
+		const handler = (_: Electron.IpcRendererEvent, event: AgentRunEvent) => {
+			callback(event);
+		};
+		ipcRenderer.on(EVENT_AI_AGENT_EVENT, handler);
+		return () => ipcRenderer.removeListener(EVENT_AI_AGENT_EVENT, handler);
+	},
+};
+
+const agent = {
+	getStatus: (): Promise<AgentStatus> => ipcRenderer.invoke("agent:getStatus"),
+	run: (
+		runId: string,
+		projectId: string,
+		sessionId: string,
+		messages: UIMessage[]
+	): Promise<void> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("agent:run", runId, projectId, sessionId, messages);
+	},
+	abort: (runId: string): Promise<void> => ipcRenderer.invoke("agent:abort", runId),
+	listSessions: (projectId: string): Promise<AgentSessionSummary[]> => {
+		validateProjectId(projectId);
+		return ipcRenderer.invoke("agent:listSessions", projectId);
+	},
+	getSession: (sessionId: string): Promise<AgentSession | null> =>
+		ipcRenderer.invoke("agent:getSession", sessionId),
+	deleteSession: (sessionId: string): Promise<void> =>
+		ipcRenderer.invoke("agent:deleteSession", sessionId),
+	exportSession: (sessionId: string): Promise<string | null> =>
+		ipcRenderer.invoke("agent:exportSession", sessionId),
+};
+
+const activity = {
+	list: (projectId?: string): Promise<GitActivityEntry[]> => {
+		if (projectId !== undefined) validateProjectId(projectId);
+		return ipcRenderer.invoke("activity:list", projectId);
+	},
+	clear: (): Promise<void> => ipcRenderer.invoke("activity:clear"),
+	export: (projectId?: string): Promise<string | null> => {
+		if (projectId !== undefined) validateProjectId(projectId);
+		return ipcRenderer.invoke("activity:export", projectId);
+	},
 };
 
 const app = {
@@ -507,6 +716,8 @@ const api = {
 	repo,
 	settings,
 	events,
+	agent,
+	activity,
 	app,
 };
 
@@ -49,16 +49,24 @@ import CommitPanel from "./components/CommitPanel";
 import BranchSelector from "./components/BranchSelector";
 import WorktreeSelector from "./components/WorktreeSelector";
 import LogPanel from "./components/LogPanel";
+import BlameView from "./components/BlameView";
 import CommitDetailView from "./components/CommitDetailView";
+import FileHistoryView from "./components/FileHistoryView";
+import ConflictResolverView from "./components/ConflictResolverView";
 import StashPanel from "./components/StashPanel";
 import StashDetailView from "./components/StashDetailView";
 import StashDialog from "./components/StashDialog";
+import HookOutputPane from "./components/HookOutputPane";
+import GitActivityDialog from "./components/GitActivityDialog";
+import InitRepositoryDialog from "./components/InitRepositoryDialog";
 import WorktreePanel from "./components/WorktreePanel";
 import RemotePanel from "./components/RemotePanel";
 import SyncButtons from "./components/SyncButtons";
 import ConflictBanner from "./components/ConflictBanner";
 import GitAgentModal from "./components/GitAgentModal";
+import AIUsagePanel from "./components/AIUsagePanel";
 import StartPage from "./components/StartPage";
+import { WorktreeLocationFields } from "./components/WorktreeLocationFields";
 import { FpsMonitor } from "./components/FpsMonitor";
 import { Dialog, DialogContent } from "./components/ui/dialog";
 import { ModalShell } from "./components/ui/modal-shell";
@@ -84,11 +92,13 @@ import type {
 	GitFileStatus,
 	ConfigEntry,
 	AppSettings,
+	GitProviderKind,
 	AIProviderDescriptor,
 	CommitStyle,
 	AIProviderInstance,
 	AIProviderType,
 	FontFamily,
+	WorktreeLocation,
 } from "../../shared/types";
 
 const MAIN_LAYOUT_FALLBACK = [20, 80];
@@ -241,6 +251,9 @@ function AppContent() {
 	const rightTab = useUIStore((s) => s.rightTab);
 	const selectedCommitOid = useUIStore((s) => s.selectedCommitOid);
 	const selectedStashIndex = useUIStore((s) => s.selectedStashIndex);
+	const showConflictResolver = useUIStore((s) => s.showConflictResolver);
+	const isBlameOpen = useUIStore((s) => s.blameStack.length > 0);
+	const fileHistoryPath = useUIStore((s) => s.fileHistoryPath);
 	const isRightPanelCollapsed = useUIStore((s) => s.isRightPanelCollapsed);
 	const isLeftPanelCollapsed = useUIStore((s) => s.isLeftPanelCollapsed);
 	const settingsTabOverride = useUIStore((s) => s.settingsTabOverride);
@@ -388,6 +401,7 @@ function AppContent() {
 			},
 			onOpenGitAgent: () => openGitAgent(),
 			onOpenSettings: (tab) => useUIStore.getState().openSettings(tab),
+			onOpenGitActivity: () => useUIStore.getState().openGitActivity(),
 			onCloseSettings: () => useUIStore.getState().closeSettings(),
 			onSetViewMode: (mode) => useUIStore.getState().setViewMode(mode),
 			onSetDiffStyle: (style) => useUIStore.getState().setDiffStyle(style),
@@ -399,6 +413,7 @@ function AppContent() {
 			onSelectFile: handleSelectFile,
 			onOpenCommitDetail: (oid) => useUIStore.getState().setSelectedCommitOid(oid),
 			onCloseCommitDetail: () => useUIStore.getState().setSelectedCommitOid(null),
+			onOpenFileHistory: (path) => useUIStore.getState().openFileHistory(path),
 			onNotifyError: (message) => toast.error(message),
 		}),
 		[
@@ -440,6 +455,9 @@ function AppContent() {
 			{appRoute !== "loading" && <CommandPalette commands={commands} />}
 			{activeProject && <GitAgentModal />}
 			{activeProject && <StashDialog />}
+			{activeProject && <HookOutputPane />}
+			<InitRepositoryDialog />
+			<GitActivityDialog />
 		</>
 	);
 
@@ -477,6 +495,7 @@ function AppContent() {
 				projects={projects}
 				onSelectProject={useProjectStore.getState().setActiveProject}
 				onAddProject={handleAddProject}
+				onProjectCloned={useProjectStore.getState().openAddedProject}
 				onRemoveProject={handleRemoveProject}
 			/>
 		);
@@ -706,10 +725,16 @@ function AppContent() {
 						onLayoutChanged={contentLayout.onLayoutChanged}
 					>
 						<Panel id="center" className="flex min-w-0 flex-1 flex-col" minSize="30%">
-							{selectedCommitOid ? (
+							{showConflictResolver ? (
+								<ConflictResolverView />
+							) : selectedCommitOid ? (
 								<CommitDetailView />
 							) : selectedStashIndex !== null ? (
 								<StashDetailView />
+							) : isBlameOpen ? (
+								<BlameView />
+							) : fileHistoryPath ? (
+								<FileHistoryView />
 							) : (
 								<Group
 									className="flex min-h-0 flex-1 flex-col"
@@ -851,6 +876,8 @@ function AISettingsSection() {
 
 	const selectedProviderType = providerById[newProviderType];
 	const requiresBaseURL = selectedProviderType?.requiresBaseURL ?? false;
+	const requiresApiKey = selectedProviderType?.requiresApiKey ?? true;
+	const defaultBaseURL = selectedProviderType?.defaultBaseURL;
 
 	const filteredNewProviderModels = useMemo(() => {
 		const query = newProviderModelSearch.trim().toLowerCase();
@@ -872,7 +899,7 @@ function AISettingsSection() {
 	}, []);
 
 	const loadProviders = useCallback(async () => {
-		const settings = await window.gitagen.settings.getGlobalWithKeys();
+		const settings = await window.gitagen.settings.getGlobal();
 		setProviders(settings.ai.providers);
 		setActiveProviderId(settings.ai.activeProviderId);
 		setCommitStyle(settings.ai.commitStyle);
@@ -885,7 +912,7 @@ function AISettingsSection() {
 
 	const handleFetchNewProviderModels = useCallback(
 		async (opts?: { silent?: boolean }) => {
-			if (!newProviderApiKey.trim()) {
+			if (requiresApiKey && !newProviderApiKey.trim()) {
 				if (!opts?.silent) {
 					setModelError("Enter an API key first");
 				}
@@ -902,7 +929,7 @@ function AISettingsSection() {
 			const result = await window.gitagen.settings.fetchModels(
 				newProviderType,
 				newProviderApiKey,
-				newProviderBaseURL || undefined
+				newProviderBaseURL || defaultBaseURL
 			);
 			setLoadingModels(false);
 			if (result.success) {
@@ -919,7 +946,14 @@ function AISettingsSection() {
 				setModelError(result.error || "Failed to fetch models");
 			}
 		},
-		[newProviderApiKey, newProviderBaseURL, newProviderType, requiresBaseURL]
+		[
+			newProviderApiKey,
+			newProviderBaseURL,
+			newProviderType,
+			requiresBaseURL,
+			requiresApiKey,
+			defaultBaseURL,
+		]
 	);
 
 	const handleAddCustomModel = () => {
@@ -944,7 +978,7 @@ function AISettingsSection() {
 	};
 
 	const handleAddProvider = async () => {
-		if (!newProviderApiKey.trim()) {
+		if (requiresApiKey && !newProviderApiKey.trim()) {
 			setModelError("API key is required");
 			return;
 		}
@@ -968,7 +1002,7 @@ function AISettingsSection() {
 			type: newProviderType,
 			enabled: true,
 			apiKey: newProviderApiKey,
-			baseURL: newProviderBaseURL || undefined,
+			baseURL: newProviderBaseURL || defaultBaseURL,
 			defaultModel,
 			models: modelList,
 		};
@@ -1096,7 +1130,7 @@ function AISettingsSection() {
 									placeholder="Provider name (optional)"
 									className="input w-full text-xs"
 								/>
-								{requiresBaseURL && (
+								{(requiresBaseURL || defaultBaseURL) && (
 									<input
 										value={newProviderBaseURL}
 										onChange={(e) =>
@@ -1104,7 +1138,10 @@ function AISettingsSection() {
 												(e.target as HTMLInputElement).value
 											)
 										}
-										placeholder="Base URL (e.g. https://api.example.com/v1)"
+										placeholder={
+											defaultBaseURL ??
+											"Base URL (e.g. https://api.example.com/v1)"
+										}
 										className="input w-full text-xs"
 									/>
 								)}
@@ -1116,7 +1153,9 @@ function AISettingsSection() {
 												(e.target as HTMLInputElement).value
 											)
 										}
-										placeholder="API Key"
+										placeholder={
+											requiresApiKey ? "API Key" : "API Key (optional)"
+										}
 										type="password"
 										className="input flex-1 text-xs"
 									/>
@@ -1230,9 +1269,15 @@ function AISettingsSection() {
 									<p className="text-xs font-medium text-(--text-primary)">
 										{provider.name}
 									</p>
-									<p className="text-[10px] text-(--text-muted)">
-										{providerById[provider.type]?.displayName ?? provider.type}
-										{provider.baseURL && ` - ${provider.baseURL}`}
+									<p className="flex items-center gap-1.5 text-[10px] text-(--text-muted)">
+										<span>
+											{providerById[provider.type]?.displayName ??
+												provider.type}
+											{provider.baseURL && ` - ${provider.baseURL}`}
+										</span>
+										{providerById[provider.type]?.requiresApiKey === false && (
+											<ProviderReachability provider={provider} />
+										)}
 									</p>
 								</div>
 								<div className="flex gap-1">
@@ -1282,6 +1327,10 @@ function AISettingsSection() {
 								requiresBaseURL={
 									providerById[editingProvider.type]?.requiresBaseURL ?? false
 								}
+								requiresApiKey={
+									providerById[editingProvider.type]?.requiresApiKey ?? true
+								}
+								defaultBaseURL={providerById[editingProvider.type]?.defaultBaseURL}
 								onSave={handleUpdateProvider}
 								onCancel={() => setEditingProvider(null)}
 							/>
@@ -1293,14 +1342,70 @@ function AISettingsSection() {
 	);
 }
 
+/** Probes a local model server through model discovery; hosted providers are assumed reachable. */
+function ProviderReachability({ provider }: { provider: AIProviderInstance }) {
+	const [state, setState] = useState<"checking" | "reachable" | "unreachable">("checking");
+	const [detail, setDetail] = useState("");
+
+	const check = useCallback(async () => {
+		setState("checking");
+		const result = await window.gitagen.settings.fetchModels(
+			provider.type,
+			provider.apiKey,
+			provider.baseURL,
+			provider.id
+		);
+		if (result.success) {
+			setState("reachable");
+			setDetail(`${result.models.length} model${result.models.length === 1 ? "" : "s"}`);
+		} else {
+			setState("unreachable");
+			setDetail(result.error || "Server did not respond");
+		}
+	}, [provider.type, provider.apiKey, provider.baseURL, provider.id]);
+
+	useEffect(() => {
+		void check();
+	}, [check]);
+
+	return (
+		<button
+			type="button"
+			onClick={() => void check()}
+			disabled={state === "checking"}
+			className="flex items-center gap-1 rounded px-1 hover:bg-(--bg-secondary)"
+			title={state === "checking" ? "Checking server..." : `${detail}. Click to recheck.`}
+		>
+			<span
+				className={`h-1.5 w-1.5 rounded-full ${
+					state === "reachable"
+						? "bg-(--success)"
+						: state === "unreachable"
+							? "bg-(--danger)"
+							: "bg-(--text-subtle)"
+				}`}
+			/>
+			{state === "checking"
+				? "Checking"
+				: state === "reachable"
+					? "Reachable"
+					: "Unreachable"}
+		</button>
+	);
+}
+
 function ProviderEditForm({
 	provider,
 	requiresBaseURL,
+	requiresApiKey,
+	defaultBaseURL,
 	onSave,
 	onCancel,
 }: {
 	provider: AIProviderInstance;
 	requiresBaseURL: boolean;
+	requiresApiKey: boolean;
+	defaultBaseURL?: string;
 	onSave: (p: AIProviderInstance) => void;
 	onCancel: () => void;
 }) {
@@ -1322,7 +1427,7 @@ function ProviderEditForm({
 
 	const handleFetchModels = useCallback(
 		async (opts?: { silent?: boolean }) => {
-			if (!apiKey.trim()) {
+			if (requiresApiKey && !apiKey.trim()) {
 				if (!opts?.silent) {
 					setModelError("Enter an API key first");
 				}
@@ -1339,7 +1444,8 @@ function ProviderEditForm({
 			const result = await window.gitagen.settings.fetchModels(
 				provider.type,
 				apiKey,
-				baseURL || undefined
+				baseURL || defaultBaseURL,
+				provider.id
 			);
 			setLoadingModels(false);
 			if (result.success) {
@@ -1356,7 +1462,15 @@ function ProviderEditForm({
 				setModelError(result.error || "Failed to fetch models");
 			}
 		},
-		[apiKey, baseURL, provider.type, requiresBaseURL]
+		[
+			apiKey,
+			baseURL,
+			provider.id,
+			provider.type,
+			requiresBaseURL,
+			requiresApiKey,
+			defaultBaseURL,
+		]
 	);
 
 	const handleAddCustomModel = () => {
@@ -1381,7 +1495,7 @@ function ProviderEditForm({
 			...provider,
 			name,
 			apiKey,
-			baseURL: baseURL || undefined,
+			baseURL: baseURL || defaultBaseURL,
 			defaultModel: trimmedDefaultModel,
 			models: normalizedModels,
 		});
@@ -1399,7 +1513,7 @@ function ProviderEditForm({
 				<input
 					value={apiKey}
 					onChange={(e) => setApiKey((e.target as HTMLInputElement).value)}
-					placeholder="API Key"
+					placeholder={requiresApiKey ? "API Key" : "API Key (optional)"}
 					type="password"
 					className="input flex-1 text-xs"
 				/>
@@ -1413,11 +1527,11 @@ function ProviderEditForm({
 				</button>
 			</div>
 			{modelError && <p className="text-xs text-(--danger)">{modelError}</p>}
-			{requiresBaseURL && (
+			{(requiresBaseURL || defaultBaseURL) && (
 				<input
 					value={baseURL}
 					onChange={(e) => setBaseURL((e.target as HTMLInputElement).value)}
-					placeholder="Base URL (e.g. https://api.example.com/v1)"
+					placeholder={defaultBaseURL ?? "Base URL (e.g. https://api.example.com/v1)"}
 					className="input w-full text-xs"
 				/>
 			)}
@@ -1490,6 +1604,7 @@ function SettingsPanel({
 }) {
 	const [activeTab, setActiveTab] = useState<SettingsTab>("general");
 	const [gitPath, setGitPath] = useState<string | null>(null);
+	const [gitProvider, setGitProvider] = useState<GitProviderKind>("process");
 	const [gitBinaries, setGitBinaries] = useState<string[]>([]);
 	const [signCommits, setSignCommits] = useState(false);
 	const [signingKey, setSigningKey] = useState("");
@@ -1520,6 +1635,7 @@ function SettingsPanel({
 	const [devMode, setDevMode] = useState(false);
 	const [autoExpandSingleFolder, setAutoExpandSingleFolder] = useState(true);
 	const [showWorktreePanel, setShowWorktreePanel] = useState(true);
+	const [worktreeLocation, setWorktreeLocation] = useState<WorktreeLocation | null>(null);
 	const signingConfigEntries = useMemo(() => {
 		return {
 			key: getLatestConfigEntry(effectiveConfig, "user.signingkey"),
@@ -1560,6 +1676,7 @@ function SettingsPanel({
 	useEffect(() => {
 		window.gitagen.settings.getGlobal().then((s: AppSettings) => {
 			setGitPath(s.gitBinaryPath);
+			setGitProvider(s.gitProvider ?? "process");
 			setSignCommits(s.signing?.enabled ?? false);
 			setSigningKey(s.signing?.key ?? "");
 			setUiScale(s.uiScale ?? 1.0);
@@ -1573,6 +1690,7 @@ function SettingsPanel({
 			setDevMode(s.devMode ?? false);
 			setAutoExpandSingleFolder(s.autoExpandSingleFolder ?? true);
 			setShowWorktreePanel(s.showWorktreePanel ?? true);
+			setWorktreeLocation(s.worktreeLocation);
 		});
 		window.gitagen.settings.discoverGitBinaries().then(setGitBinaries);
 		window.gitagen.settings.getSshAgentInfo().then(setSshAgentInfo);
@@ -1710,6 +1828,26 @@ function SettingsPanel({
 											Browse
 										</button>
 									</div>
+									<label className="mb-1.5 mt-4 block text-xs font-medium text-(--text-secondary)">
+										Command runner
+									</label>
+									<p className="mb-2 text-xs text-(--text-muted)">
+										How git commands are run. Only the built-in runner applies
+										timeouts and records commands in the activity log.
+									</p>
+									<select
+										value={gitProvider}
+										onChange={(e) =>
+											setGitProvider(
+												(e.target as HTMLSelectElement)
+													.value as GitProviderKind
+											)
+										}
+										className="input w-full text-[13px]"
+									>
+										<option value="process">Built-in</option>
+										<option value="simple-git">simple-git</option>
+									</select>
 								</div>
 								<div className="panel p-4">
 									<h3 className="mb-3 text-sm font-semibold text-(--text-primary)">
@@ -1867,6 +2005,22 @@ function SettingsPanel({
 										</div>
 									</div>
 								)}
+								<div className="panel p-4">
+									<h3 className="mb-3 text-sm font-semibold text-(--text-primary)">
+										Git activity
+									</h3>
+									<p className="mb-3 text-xs text-(--text-muted)">
+										Every git command Gitagen runs, with its output, duration
+										and exit code. Export it to attach to a bug report.
+									</p>
+									<button
+										type="button"
+										onClick={() => useUIStore.getState().openGitActivity()}
+										className="btn btn-secondary text-xs"
+									>
+										Open activity console
+									</button>
+								</div>
 							</div>
 						)}
 						{activeTab === "signing" && (
@@ -1978,6 +2132,7 @@ function SettingsPanel({
 						{activeTab === "ai" && (
 							<div className="space-y-6">
 								<AISettingsSection />
+								<AIUsagePanel />
 							</div>
 						)}
 						{activeTab === "appearance" && (
@@ -2171,6 +2326,22 @@ function SettingsPanel({
 										</span>
 									</label>
 								</div>
+								{worktreeLocation && (
+									<div className="panel p-4">
+										<h3 className="mb-1 text-sm font-semibold text-(--text-primary)">
+											Worktree location
+										</h3>
+										<p className="mb-3 text-xs text-(--text-muted)">
+											Where new worktrees are created and how they are named.
+											Projects can override this from the worktree panel.
+										</p>
+										<WorktreeLocationFields
+											value={worktreeLocation}
+											onChange={setWorktreeLocation}
+											idPrefix="global-worktree-location"
+										/>
+									</div>
+								)}
 							</div>
 						)}
 						{activeTab === "dev" && (
@@ -2218,10 +2389,12 @@ function SettingsPanel({
 										: fontFamily;
 									await window.gitagen.settings.setGlobal({
 										gitBinaryPath: gitPath,
+										gitProvider,
 										gpuAcceleration,
 										devMode,
 										autoExpandSingleFolder,
 										showWorktreePanel,
+										...(worktreeLocation ? { worktreeLocation } : {}),
 									});
 									await updateSettings({
 										uiScale,
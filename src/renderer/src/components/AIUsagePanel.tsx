@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useState } from "react";
+import { RefreshCw, Trash2 } from "lucide-react";
+import type { AIUsageGroup, AIUsageReport, AIUsageTotals, ModelPrice } from "../../../shared/types";
+
+function formatCost(cost: number): string {
+	if (cost > 0 && cost < 0.01) return "<$0.01";
+	return `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(count: number): string {
+	if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+	if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+	return String(count);
+}
+
+function TotalsLine({ totals }: { totals: AIUsageTotals }) {
+	return (
+		<span className="tabular-nums">
+			{formatCost(totals.cost)} · {formatTokens(totals.inputTokens)} in /{" "}
+			{formatTokens(totals.outputTokens)} out · {totals.requests} requests
+			{totals.unpricedTokens > 0 && (
+				<span className="text-(--text-muted)">
+					{" "}
+					({formatTokens(totals.unpricedTokens)} tokens unpriced)
+				</span>
+			)}
+		</span>
+	);
+}
+
+function UsageTable({ title, rows }: { title: string; rows: AIUsageGroup[] }) {
+	if (rows.length === 0) return null;
+	return (
+		<div>
+			<p className="mb-1 text-[10px] font-medium uppercase text-(--text-muted)">{title}</p>
+			<table className="w-full text-xs">
+				<tbody>
+					{rows.map((row) => (
+						<tr key={row.label} className="border-t border-(--border-secondary)">
+							<td className="truncate py-1 pr-2 text-(--text-primary)">
+								{row.label}
+							</td>
+							<td className="py-1 pr-2 text-right tabular-nums text-(--text-muted)">
+								{formatTokens(row.inputTokens + row.outputTokens)}
+							</td>
+							<td className="py-1 text-right tabular-nums text-(--text-secondary)">
+								{formatCost(row.cost)}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
+
+/** Settings > AI: spend for the current month, the monthly budget and the price table. */
+export default function AIUsagePanel() {
+	const [report, setReport] = useState<AIUsageReport | null>(null);
+	const [prices, setPrices] = useState<ModelPrice[]>([]);
+	const [budgetInput, setBudgetInput] = useState("");
+	const [newPrice, setNewPrice] = useState({ model: "", input: "", output: "" });
+
+	const load = useCallback(async () => {
+		const [usage, settings] = await Promise.all([
+			window.gitagen.settings.getAIUsage(),
+			window.gitagen.settings.getGlobal(),
+		]);
+		setReport(usage);
+		setPrices(settings.aiUsage.prices);
+		setBudgetInput(
+			settings.aiUsage.monthlyBudget === null ? "" : String(settings.aiUsage.monthlyBudget)
+		);
+	}, []);
+
+	useEffect(() => {
+		void load();
+	}, [load]);
+
+	const saveBudget = async () => {
+		const value = parseFloat(budgetInput);
+		const monthlyBudget = Number.isFinite(value) && value > 0 ? value : null;
+		await window.gitagen.settings.setGlobal({ aiUsage: { prices, monthlyBudget } });
+		void load();
+	};
+
+	const savePrices = async (next: ModelPrice[]) => {
+		setPrices(next);
+		await window.gitagen.settings.setGlobal({
+			aiUsage: { prices: next, monthlyBudget: report?.monthlyBudget ?? null },
+		});
+		void load();
+	};
+
+	const handleAddPrice = () => {
+		const model = newPrice.model.trim();
+		const inputPerMillion = parseFloat(newPrice.input);
+		const outputPerMillion = parseFloat(newPrice.output);
+		if (!model || !(inputPerMillion >= 0) || !(outputPerMillion >= 0)) return;
+		void savePrices([
+			...prices.filter((price) => price.model !== model),
+			{ model, inputPerMillion, outputPerMillion },
+		]);
+		setNewPrice({ model: "", input: "", output: "" });
+	};
+
+	if (!report) return null;
+
+	const budgetRatio =
+		report.monthlyBudget !== null ? Math.min(1, report.month.cost / report.monthlyBudget) : 0;
+
+	return (
+		<div className="space-y-4 rounded-lg border border-(--border-primary) p-3">
+			<div className="flex items-center justify-between">
+				<p className="text-xs font-medium text-(--text-secondary)">Usage</p>
+				<button
+					type="button"
+					onClick={() => void load()}
+					className="btn-icon rounded-md p-1"
+					title="Refresh"
+				>
+					<RefreshCw size={12} />
+				</button>
+			</div>
+
+			<div className="space-y-1 text-xs text-(--text-primary)">
+				<p>
+					<span className="inline-block w-20 text-(--text-muted)">Today</span>
+					<TotalsLine totals={report.today} />
+				</p>
+				<p>
+					<span className="inline-block w-20 text-(--text-muted)">This month</span>
+					<TotalsLine totals={report.month} />
+				</p>
+			</div>
+
+			<div className="space-y-1.5">
+				<div className="flex items-center gap-2">
+					<p className="shrink-0 text-xs font-medium text-(--text-secondary)">
+						Monthly budget (USD)
+					</p>
+					<input
+						type="number"
+						min={0}
+						step="any"
+						value={budgetInput}
+						onChange={(e) => setBudgetInput((e.target as HTMLInputElement).value)}
+						onBlur={() => void saveBudget()}
+						onKeyDown={(e) => e.key === "Enter" && void saveBudget()}
+						placeholder="No limit"
+						className="input flex-1 text-xs"
+					/>
+				</div>
+				{report.monthlyBudget !== null && (
+					<>
+						<div className="h-1.5 overflow-hidden rounded-full bg-(--bg-secondary)">
+							<div
+								className={`h-full ${budgetRatio >= 1 ? "bg-(--danger)" : "bg-(--accent)"}`}
+								style={{ width: `${budgetRatio * 100}%` }}
+							/>
+						</div>
+						<p className="text-[10px] text-(--text-muted)">
+							{formatCost(report.month.cost)} of {formatCost(report.monthlyBudget)}{" "}
+							spent.
+							{budgetRatio >= 1 &&
+								" AI features are paused until next month or until the budget is raised."}
+						</p>
+					</>
+				)}
+			</div>
+
+			{report.daily.length > 0 && (
+				<div>
+					<p className="mb-1 text-[10px] font-medium uppercase text-(--text-muted)">
+						Daily
+					</p>
+					<table className="w-full text-xs">
+						<tbody>
+							{report.daily.map((day) => (
+								<tr key={day.date} className="border-t border-(--border-secondary)">
+									<td className="py-1 pr-2 tabular-nums text-(--text-primary)">
+										{day.date}
+									</td>
+									<td className="py-1 pr-2 text-right tabular-nums text-(--text-muted)">
+										{formatTokens(day.inputTokens + day.outputTokens)}
+									</td>
+									<td className="py-1 text-right tabular-nums text-(--text-secondary)">
+										{formatCost(day.cost)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+			<UsageTable title="By provider" rows={report.byProvider} />
+			<UsageTable title="By model" rows={report.byModel} />
+			<UsageTable title="By project" rows={report.byProject} />
+
+			<div className="space-y-1.5">
+				<p className="text-xs font-medium text-(--text-secondary)">
+					Prices (USD per million tokens)
+				</p>
+				<p className="text-[10px] text-(--text-muted)">
+					A price applies to every model ID containing its name; the longest match wins.
+					Your entries take precedence over the built-in table, and local providers are
+					always free.
+				</p>
+				{prices.map((price) => (
+					<div key={price.model} className="flex items-center gap-2 text-xs">
+						<span className="flex-1 truncate text-(--text-primary)">{price.model}</span>
+						<span className="tabular-nums text-(--text-muted)">
+							${price.inputPerMillion} in / ${price.outputPerMillion} out
+						</span>
+						<button
+							type="button"
+							onClick={() =>
+								void savePrices(prices.filter((p) => p.model !== price.model))
+							}
+							className="btn-icon rounded-md p-1"
+							title="Remove price"
+						>
+							<Trash2 size={12} />
+						</button>
+					</div>
+				))}
+				<div className="flex gap-2">
+					<input
+						value={newPrice.model}
+						onChange={(e) =>
+							setNewPrice({
+								...newPrice,
+								model: (e.target as HTMLInputElement).value,
+							})
+						}
+						placeholder="Model ID"
+						className="input flex-1 text-xs"
+					/>
+					<input
+						type="number"
+						min={0}
+						step="any"
+						value={newPrice.input}
+						onChange={(e) =>
+							setNewPrice({
+								...newPrice,
+								input: (e.target as HTMLInputElement).value,
+							})
+						}
+						placeholder="Input"
+						className="input w-20 text-xs"
+					/>
+					<input
+						type="number"
+						min={0}
+						step="any"
+						value={newPrice.output}
+						onChange={(e) =>
+							setNewPrice({
+								...newPrice,
+								output: (e.target as HTMLInputElement).value,
+							})
+						}
+						onKeyDown={(e) => e.key === "Enter" && handleAddPrice()}
+						placeholder="Output"
+						className="input w-20 text-xs"
+					/>
+					<button
+						type="button"
+						onClick={handleAddPrice}
+						className="btn btn-secondary text-xs"
+					>
+						Add
+					</button>
+				</div>
+				<details className="text-xs">
+					<summary className="cursor-pointer text-(--text-muted)">
+						Built-in prices
+					</summary>
+					<div className="mt-1 space-y-0.5">
+						{report.defaultPrices.map((price) => (
+							<div key={price.model} className="flex gap-2 text-(--text-muted)">
+								<span className="flex-1 truncate">{price.model}</span>
+								<span className="tabular-nums">
+									${price.inputPerMillion} in / ${price.outputPerMillion} out
+								</span>
+							</div>
+						))}
+					</div>
+				</details>
+			</div>
+		</div>
+	);
+}
@@ -3,6 +3,8 @@ import type { ConflictState } from "../../../shared/types";
 import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
 import { useUIStore } from "../stores/uiStore";
+import { useHookStore } from "../stores/hookStore";
+import { useGitActivityStore } from "../stores/gitActivityStore";
 import { useThemeStore } from "../stores/themeStore";
 import { useSettingsStore } from "../stores/settingsStore";
 import { useToast } from "../toast/provider";
@@ -87,13 +89,28 @@ export function AppEffects() {
 				toast.error(payload.name, payload.message);
 			}
 		);
+		const unsubscribeHookRuns = window.gitagen.events.onHookRun((event) => {
+			useHookStore.getState().applyEvent(event);
+		});
 		return () => {
 			unsubscribeUpdated();
 			unsubscribeConflicts();
 			unsubscribeErrors();
+			unsubscribeHookRuns();
 		};
 	}, [activeProject?.id, toast]);
 
+	// Git activity: stream new entries, then backfill what ran before the window loaded
+	useEffect(() => {
+		const unsubscribe = window.gitagen.events.onGitActivity((entry) => {
+			useGitActivityStore.getState().append(entry);
+		});
+		void useGitActivityStore.getState().load();
+		return () => {
+			unsubscribe();
+		};
+	}, []);
+
 	// Theme DOM sync: toggle dark class and handle system preference
 	useEffect(() => {
 		document.documentElement.classList.toggle("dark", resolved === "dark");
@@ -0,0 +1,196 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ArrowLeft, History, X } from "lucide-react";
+import type { BlameResult } from "../../../shared/types";
+import { useProjectStore } from "../stores/projectStore";
+import { useUIStore } from "../stores/uiStore";
+
+const LINE_HEIGHT = 20;
+const OVERSCAN = 20;
+const UNCOMMITTED_OID = /^0+$/;
+
+function formatRelativeTime(dateStr: string): string {
+	const date = new Date(dateStr);
+	const diff = Date.now() - date.getTime();
+	const minutes = Math.floor(diff / 60000);
+	const hours = Math.floor(minutes / 60);
+	const days = Math.floor(hours / 24);
+	if (days > 365) return `${Math.floor(days / 365)}y ago`;
+	if (days > 30) return `${Math.floor(days / 30)}mo ago`;
+	if (days > 0) return `${days}d ago`;
+	if (hours > 0) return `${hours}h ago`;
+	if (minutes > 0) return `${minutes}m ago`;
+	return "just now";
+}
+
+export default function BlameView() {
+	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
+	const blameStack = useUIStore((s) => s.blameStack);
+	const target = blameStack[blameStack.length - 1];
+	const [blame, setBlame] = useState<BlameResult | null>(null);
+	const [loading, setLoading] = useState(true);
+	const scrollRef = useRef<HTMLDivElement>(null);
+	const requestIdRef = useRef(0);
+
+	useEffect(() => {
+		if (!target) return;
+		const requestId = requestIdRef.current + 1;
+		requestIdRef.current = requestId;
+		setLoading(true);
+		window.gitagen.repo
+			.getBlame(projectId, target.path, target.rev ?? undefined)
+			.then((result) => {
+				if (requestIdRef.current === requestId) setBlame(result);
+			})
+			.finally(() => {
+				if (requestIdRef.current === requestId) setLoading(false);
+			});
+	}, [projectId, target]);
+
+	// A group starts where the commit changes; groups alternate shading so boundaries stand out
+	const groups = useMemo(() => {
+		const starts: boolean[] = [];
+		const parity: number[] = [];
+		let group = 0;
+		blame?.lines.forEach((line, index) => {
+			const isStart = index === 0 || blame.lines[index - 1]!.oid !== line.oid;
+			if (isStart && index > 0) group++;
+			starts.push(isStart);
+			parity.push(group % 2);
+		});
+		return { starts, parity };
+	}, [blame]);
+
+	const rowVirtualizer = useVirtualizer({
+		count: blame?.lines.length ?? 0,
+		getScrollElement: () => scrollRef.current,
+		estimateSize: () => LINE_HEIGHT,
+		overscan: OVERSCAN,
+	});
+
+	if (!target) return null;
+
+	const { pushBlame, popBlame, closeBlame, setSelectedCommitOid } = useUIStore.getState();
+
+	return (
+		<div className="flex min-h-0 flex-1 flex-col">
+			<div className="flex shrink-0 items-center gap-2 border-b border-(--border-secondary) bg-(--bg-panel) px-4 py-3">
+				<button
+					type="button"
+					onClick={popBlame}
+					className="-ml-1 shrink-0 rounded p-1 text-(--text-muted) transition-colors hover:bg-(--bg-hover) hover:text-(--text-primary)"
+					title={blameStack.length > 1 ? "Back to newer revision" : "Close blame"}
+				>
+					<ArrowLeft size={16} />
+				</button>
+				<h2 className="min-w-0 truncate font-mono text-[13px] font-semibold text-(--text-primary)">
+					{target.path}
+				</h2>
+				<span className="shrink-0 rounded bg-(--bg-tertiary) px-1.5 py-px font-mono text-[11px] text-(--text-muted)">
+					{target.rev ? target.rev.slice(0, 7) : "working tree"}
+				</span>
+				<button
+					type="button"
+					onClick={closeBlame}
+					className="ml-auto shrink-0 rounded p-1 text-(--text-muted) transition-colors hover:bg-(--bg-hover) hover:text-(--text-primary)"
+					title="Close blame"
+				>
+					<X size={16} />
+				</button>
+			</div>
+			{loading && !blame ? (
+				<div className="flex flex-1 items-center justify-center">
+					<div className="h-6 w-6 animate-spin rounded-full border-2 border-(--border-primary) border-t-(--text-muted)" />
+				</div>
+			) : !blame ? (
+				<div className="flex flex-1 items-center justify-center px-6 text-center">
+					<p className="text-sm text-(--text-muted)">
+						Blame is not available for this file
+					</p>
+				</div>
+			) : (
+				<div ref={scrollRef} className="min-h-0 flex-1 overflow-auto">
+					<div
+						style={{
+							height: `${rowVirtualizer.getTotalSize()}px`,
+							width: "100%",
+							position: "relative",
+						}}
+					>
+						{rowVirtualizer.getVirtualItems().map((virtualRow) => {
+							const line = blame.lines[virtualRow.index]!;
+							const commit = blame.commits[line.oid];
+							const isStart = groups.starts[virtualRow.index];
+							const uncommitted = UNCOMMITTED_OID.test(line.oid);
+							return (
+								<div
+									key={virtualRow.key}
+									className={`absolute left-0 top-0 flex w-full font-mono text-[12px] ${
+										groups.parity[virtualRow.index] ? "bg-(--bg-secondary)" : ""
+									} ${isStart && virtualRow.index > 0 ? "border-t border-(--border-secondary)" : ""}`}
+									style={{
+										height: `${virtualRow.size}px`,
+										transform: `translateY(${virtualRow.start}px)`,
+									}}
+								>
+									<div className="flex w-72 shrink-0 items-center gap-1.5 border-r border-(--border-secondary) px-2 font-sans text-[11px]">
+										{isStart && commit && (
+											<>
+												{uncommitted ? (
+													<span className="truncate text-(--text-subtle)">
+														Uncommitted changes
+													</span>
+												) : (
+													<button
+														type="button"
+														onClick={() =>
+															setSelectedCommitOid(commit.oid)
+														}
+														className="flex min-w-0 flex-1 items-center gap-1.5 text-left hover:text-(--accent-primary)"
+														title={`${commit.oid.slice(0, 7)} ${commit.summary}\n${commit.author.name} <${commit.author.email}>`}
+													>
+														<span className="shrink-0 text-(--text-secondary)">
+															{commit.author.name}
+														</span>
+														<span className="shrink-0 text-(--text-subtle)">
+															{formatRelativeTime(commit.author.date)}
+														</span>
+														<span className="truncate text-(--text-muted)">
+															{commit.summary}
+														</span>
+													</button>
+												)}
+												{commit.previous && !uncommitted && (
+													<button
+														type="button"
+														onClick={() =>
+															pushBlame({
+																path: commit.previous!.path,
+																rev: commit.previous!.oid,
+															})
+														}
+														className="ml-auto shrink-0 rounded p-0.5 text-(--text-muted) transition-colors hover:bg-(--bg-hover) hover:text-(--text-primary)"
+														title="Blame prior revision"
+														aria-label="Blame prior revision"
+													>
+														<History size={12} />
+													</button>
+												)}
+											</>
+										)}
+									</div>
+									<span className="w-12 shrink-0 select-none pr-3 text-right text-(--text-subtle)">
+										{line.lineNumber}
+									</span>
+									<pre className="min-w-0 flex-1 whitespace-pre text-(--text-primary)">
+										{line.content}
+									</pre>
+								</div>
+							);
+						})}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
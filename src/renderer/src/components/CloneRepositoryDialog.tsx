@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { FolderOpen, Loader2, X } from "lucide-react";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+import { useToast } from "../toast/provider";
+import { formatProgress, useGitOperation } from "../hooks/useGitOperation";
+import type { Project } from "../../../shared/types";
+
+interface CloneRepositoryDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onCloned: (project: Project) => void;
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+/** Folder name git would pick for `url`, e.g. `repo` for `git@host:org/repo.git`. */
+function repoNameFromUrl(url: string): string {
+	const last =
+		url
+			.trim()
+			.replace(/[\\/]+$/, "")
+			.split(/[\\/:]/)
+			.pop() ?? "";
+	return last.replace(/\.git$/, "");
+}
+
+function joinPath(parent: string, name: string): string {
+	return `${parent.replace(/[\\/]+$/, "")}/${name}`;
+}
+
+const labelClass = "mb-1 block text-xs font-medium text-(--text-secondary)";
+
+export function CloneRepositoryDialog({
+	open,
+	onOpenChange,
+	onCloned,
+}: CloneRepositoryDialogProps) {
+	const [url, setUrl] = useState("");
+	const [location, setLocation] = useState("");
+	const [name, setName] = useState("");
+	const [nameEdited, setNameEdited] = useState(false);
+	const [branch, setBranch] = useState("");
+	const [depth, setDepth] = useState("");
+	const [sparsePaths, setSparsePaths] = useState("");
+	const [recurseSubmodules, setRecurseSubmodules] = useState(false);
+	const { operation, begin, end, cancel, isCancelled } = useGitOperation();
+	const { toast } = useToast();
+	const cloning = operation !== null;
+
+	useEffect(() => {
+		if (open) {
+			setUrl("");
+			setName("");
+			setNameEdited(false);
+			setBranch("");
+			setDepth("");
+			setSparsePaths("");
+			setRecurseSubmodules(false);
+		}
+	}, [open]);
+
+	const handleUrlChange = (value: string) => {
+		setUrl(value);
+		if (!nameEdited) setName(repoNameFromUrl(value));
+	};
+
+	const handleBrowse = async () => {
+		const path = await window.gitagen.settings.selectFolder();
+		if (path) setLocation(path);
+	};
+
+	const depthValue = depth.trim() ? Number(depth) : undefined;
+	const depthValid = depthValue === undefined || (Number.isInteger(depthValue) && depthValue > 0);
+	const canClone = !cloning && !!url.trim() && !!location.trim() && !!name.trim() && depthValid;
+
+	const handleClone = async () => {
+		if (!canClone) return;
+		const directory = joinPath(location.trim(), name.trim());
+		const operationId = begin("clone");
+		try {
+			const project = await window.gitagen.projects.clone({
+				url: url.trim(),
+				directory,
+				branch: branch.trim() || undefined,
+				depth: depthValue,
+				sparsePaths: sparsePaths
+					.split(/\r?\n/)
+					.map((path) => path.trim())
+					.filter(Boolean),
+				recurseSubmodules,
+				operationId,
+			});
+			toast.success("Repository cloned", directory);
+			onOpenChange(false);
+			onCloned(project);
+		} catch (error) {
+			if (isCancelled(operationId)) {
+				toast.info("Clone cancelled");
+			} else {
+				toast.error("Clone failed", getErrorMessage(error));
+			}
+		} finally {
+			end();
+		}
+	};
+
+	const progress = operation?.progress ?? null;
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !cloning && onOpenChange(next)}>
+			<DialogContent size="sm" className="p-0">
+				<ModalShell
+					title="Clone Repository"
+					description="Clone a remote repository and open it as a project."
+				>
+					<div className="space-y-3">
+						<div>
+							<label htmlFor="clone-url" className={labelClass}>
+								Repository URL
+							</label>
+							<input
+								id="clone-url"
+								type="text"
+								value={url}
+								onChange={(e) => handleUrlChange(e.target.value)}
+								placeholder="https://github.com/org/repo.git"
+								className="input w-full font-mono text-xs"
+								disabled={cloning}
+								autoFocus
+							/>
+						</div>
+						<div>
+							<label htmlFor="clone-location" className={labelClass}>
+								Location
+							</label>
+							<div className="flex gap-2">
+								<input
+									id="clone-location"
+									type="text"
+									value={location}
+									onChange={(e) => setLocation(e.target.value)}
+									placeholder="Parent folder"
+									className="input min-w-0 flex-1 font-mono text-xs"
+									disabled={cloning}
+								/>
+								<button
+									type="button"
+									onClick={() => void handleBrowse()}
+									className="btn btn-secondary text-xs"
+									disabled={cloning}
+								>
+									<FolderOpen size={13} />
+									Browse
+								</button>
+							</div>
+						</div>
+						<div>
+							<label htmlFor="clone-name" className={labelClass}>
+								Folder name
+							</label>
+							<input
+								id="clone-name"
+								type="text"
+								value={name}
+								onChange={(e) => {
+									setName(e.target.value);
+									setNameEdited(true);
+								}}
+								className="input w-full font-mono text-xs"
+								disabled={cloning}
+							/>
+						</div>
+						<div className="flex gap-3">
+							<div className="flex-1">
+								<label htmlFor="clone-branch" className={labelClass}>
+									Branch (optional)
+								</label>
+								<input
+									id="clone-branch"
+									type="text"
+									value={branch}
+									onChange={(e) => setBranch(e.target.value)}
+									placeholder="Default branch"
+									className="input w-full font-mono text-xs"
+									disabled={cloning}
+								/>
+							</div>
+							<div className="w-28">
+								<label htmlFor="clone-depth" className={labelClass}>
+									Depth (optional)
+								</label>
+								<input
+									id="clone-depth"
+									type="number"
+									min={1}
+									value={depth}
+									onChange={(e) => setDepth(e.target.value)}
+									placeholder="Full history"
+									className="input w-full text-xs"
+									disabled={cloning}
+								/>
+							</div>
+						</div>
+						<div>
+							<label htmlFor="clone-sparse" className={labelClass}>
+								Sparse checkout (optional, one directory per line)
+							</label>
+							<textarea
+								id="clone-sparse"
+								value={sparsePaths}
+								onChange={(e) => setSparsePaths(e.target.value)}
+								placeholder="Check out all files"
+								rows={2}
+								className="input w-full resize-none font-mono text-xs"
+								disabled={cloning}
+							/>
+						</div>
+						<label className="flex cursor-pointer items-center gap-2">
+							<input
+								type="checkbox"
+								checked={recurseSubmodules}
+								onChange={(e) => setRecurseSubmodules(e.target.checked)}
+								className="h-4 w-4 rounded border-(--border-primary)"
+								disabled={cloning}
+							/>
+							<span className="text-xs text-(--text-secondary)">
+								Clone submodules recursively
+							</span>
+						</label>
+						{cloning && (
+							<div className="space-y-1">
+								<div className="h-1.5 overflow-hidden rounded-full bg-(--bg-secondary)">
+									<div
+										className="h-full bg-(--accent)"
+										style={{ width: `${progress?.percent ?? 0}%` }}
+									/>
+								</div>
+								<p className="truncate text-[10px] text-(--text-muted)">
+									{operation.cancelling
+										? "Cancelling…"
+										: progress
+											? formatProgress(progress)
+											: "Connecting…"}
+								</p>
+							</div>
+						)}
+					</div>
+					<div className="mt-4 flex justify-end gap-2">
+						{cloning ? (
+							<button
+								type="button"
+								onClick={cancel}
+								disabled={operation.cancelling}
+								className="btn btn-secondary text-xs disabled:opacity-50"
+							>
+								<X size={13} />
+								Cancel clone
+							</button>
+						) : (
+							<button
+								type="button"
+								onClick={() => onOpenChange(false)}
+								className="btn btn-secondary text-xs"
+							>
+								Cancel
+							</button>
+						)}
+						<button
+							type="button"
+							onClick={() => void handleClone()}
+							disabled={!canClone}
+							className="btn btn-primary text-xs disabled:opacity-50"
+						>
+							{cloning ? (
+								<>
+									<Loader2 size={13} className="animate-spin" />
+									Cloning…
+								</>
+							) : (
+								"Clone"
+							)}
+						</button>
+					</div>
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -46,6 +46,7 @@ export default function CommitDetailView() {
 	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
 	const oid = useUIStore((s) => s.selectedCommitOid);
 	const diffStyle = useUIStore((s) => s.diffStyle);
+	const pathFilter = useUIStore((s) => s.commitPathFilter);
 	const onClose = () => useUIStore.getState().setSelectedCommitOid(null);
 	const resolved = useThemeStore((s) => s.resolved);
 	if (!oid) return null;
@@ -108,7 +109,10 @@ export default function CommitDetailView() {
 	const remoteUrl = remotes[0]?.url;
 	const links = extractLinksFromMessage(detail.message, detail.body, remoteUrl);
 	const dateFormatted = formatDate(detail.author.date);
-	const filePatches = splitPatchByFile(detail.patch);
+	const allFilePatches = splitPatchByFile(detail.patch);
+	const filePatches = pathFilter
+		? allFilePatches.filter(({ path }) => path === pathFilter)
+		: allFilePatches;
 
 	return (
 		<div className="flex min-h-0 flex-1 flex-col">
@@ -189,6 +193,25 @@ export default function CommitDetailView() {
 							</div>
 						)}
 					</div>
+					{pathFilter && (
+						<div className="flex items-center gap-2 border-b border-(--border-secondary) bg-(--bg-secondary) px-4 py-1.5 text-[12px] text-(--text-muted)">
+							<span className="min-w-0 truncate">
+								Showing changes to{" "}
+								<span className="font-mono text-(--text-secondary)">
+									{pathFilter}
+								</span>
+							</span>
+							{allFilePatches.length > filePatches.length && (
+								<button
+									type="button"
+									onClick={() => useUIStore.getState().setCommitPathFilter(null)}
+									className="ml-auto shrink-0 text-(--accent-primary) hover:underline"
+								>
+									Show all {allFilePatches.length} files
+								</button>
+							)}
+						</div>
+					)}
 					{filePatches.length === 0 ? (
 						<div className="flex items-center justify-center p-8">
 							<p className="text-sm text-(--text-muted)">No file changes</p>
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import type { CommitLintIssue } from "../../../shared/types";
+
+const LINT_DELAY_MS = 300;
+
+/** Lints `message` in the main process as it changes and lists what it finds. */
+export default function CommitLintWarnings({
+	projectId,
+	message,
+	className = "",
+}: {
+	projectId: string;
+	message: string;
+	className?: string;
+}) {
+	const [issues, setIssues] = useState<CommitLintIssue[]>([]);
+
+	useEffect(() => {
+		if (!projectId || !message.trim()) {
+			setIssues([]);
+			return;
+		}
+		let cancelled = false;
+		const timer = setTimeout(() => {
+			window.gitagen.repo
+				.lintCommitMessage(projectId, message)
+				.then((result) => {
+					if (!cancelled) setIssues(result);
+				})
+				.catch(() => {
+					if (!cancelled) setIssues([]);
+				});
+		}, LINT_DELAY_MS);
+		return () => {
+			cancelled = true;
+			clearTimeout(timer);
+		};
+	}, [projectId, message]);
+
+	if (issues.length === 0) return null;
+
+	return (
+		<ul className={`space-y-0.5 text-[11px] ${className}`}>
+			{issues.map((issue, index) => {
+				const Icon = issue.severity === "error" ? AlertCircle : AlertTriangle;
+				return (
+					<li
+						key={`${issue.rule}-${issue.line ?? 0}-${index}`}
+						className={`flex items-start gap-1 ${issue.severity === "error" ? "text-(--danger)" : "text-(--warning)"}`}
+						title={issue.rule}
+					>
+						<Icon size={11} className="mt-0.5 shrink-0" />
+						<span>
+							{issue.line !== undefined && issue.line > 1 && `Line ${issue.line}: `}
+							{issue.message}
+						</span>
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -1,22 +1,55 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { Send, GitCommit, Sparkles, Loader2, Bot } from "lucide-react";
 import { useToast } from "../toast/provider";
 import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
 import { useUIStore } from "../stores/uiStore";
+import { useHookStore } from "../stores/hookStore";
+import { confirmSkipHooks } from "../lib/skip-hooks";
+import CommitLintWarnings from "./CommitLintWarnings";
+import type { CommitMessageScope } from "../../../shared/types";
 
 const COMMIT_AGENT_INITIAL_PROMPT =
 	"Analyze all changes and propose 1 cohesive commit by default (maximum 2 only when there is a strong boundary).";
 
+const MESSAGE_SCOPES: { value: CommitMessageScope; label: string }[] = [
+	{ value: "staged", label: "Staged changes" },
+	{ value: "all", label: "Staged + unstaged" },
+	{ value: "selected", label: "Selected files" },
+];
+
 export default function CommitPanel({ disabled }: { disabled?: boolean } = {}) {
 	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
 	const [message, setMessage] = useState("");
 	const [amend, setAmend] = useState(false);
+	const [skipHooks, setSkipHooks] = useState(false);
 	const [loading, setLoading] = useState(false);
 	const [generating, setGenerating] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	const [messageScope, setMessageScope] = useState<CommitMessageScope>("staged");
+	const [selectedPaths, setSelectedPaths] = useState<string[]>([]);
+	const status = useRepoStore((s) => s.status);
 	const { toast } = useToast();
 
+	const changedPaths = useMemo(() => {
+		if (!status) return [];
+		const paths = [...status.staged, ...status.unstaged, ...status.untracked].map(
+			(f) => f.path
+		);
+		return Array.from(new Set(paths)).sort((a, b) => a.localeCompare(b));
+	}, [status]);
+	// Drop selections for files that are no longer changed
+	const describedPaths = useMemo(
+		() => selectedPaths.filter((path) => changedPaths.includes(path)),
+		[selectedPaths, changedPaths]
+	);
+
+	const togglePath = (path: string) => {
+		setSelectedPaths((current) =>
+			current.includes(path) ? current.filter((p) => p !== path) : [...current, path]
+		);
+	};
+
 	const handleGenerate = useCallback(async () => {
 		setGenerating(true);
 		setError(null);
@@ -25,7 +58,12 @@ export default function CommitPanel({ disabled }: { disabled?: boolean } = {}) {
 			setMessage((prev) => prev + chunk);
 		});
 		try {
-			await window.gitagen.repo.generateCommitMessage(projectId);
+			const generated = await window.gitagen.repo.generateCommitMessage(projectId, {
+				scope: messageScope,
+				...(messageScope === "selected" && { paths: describedPaths }),
+			});
+			// The final message can differ from the stream, e.g. when the issue key is added
+			setMessage(generated);
 		} catch (e) {
 			const msg = e instanceof Error ? e.message : "Failed to generate";
 			toast.error("Commit message generation failed", msg);
@@ -33,15 +71,13 @@ export default function CommitPanel({ disabled }: { disabled?: boolean } = {}) {
 			unsub();
 			setGenerating(false);
 		}
-	}, [projectId, toast]);
+	}, [projectId, toast, messageScope, describedPaths]);
 
-	const handleCommit = async () => {
-		const trimmed = message.trim();
-		if (!trimmed) return;
+	const runCommit = async (text: string, opts: { amend: boolean; noVerify: boolean }) => {
 		setLoading(true);
 		setError(null);
 		try {
-			await window.gitagen.repo.commit(projectId, trimmed, { amend });
+			await window.gitagen.repo.commit(projectId, text, opts);
 			setMessage("");
 			void useRepoStore.getState().refreshStatus();
 			toast.success("Changes committed");
@@ -49,11 +85,22 @@ export default function CommitPanel({ disabled }: { disabled?: boolean } = {}) {
 			const msg = e instanceof Error ? e.message : "Commit failed";
 			setError(msg);
 			toast.error("Commit failed", msg);
+			// Offered in the hook output pane when a hook was what stopped the commit
+			useHookStore
+				.getState()
+				.setRetry("commit", () => void runCommit(text, { ...opts, noVerify: true }));
 		} finally {
 			setLoading(false);
 		}
 	};
 
+	const handleCommit = async () => {
+		const trimmed = message.trim();
+		if (!trimmed) return;
+		if (skipHooks && !(await confirmSkipHooks("commit"))) return;
+		await runCommit(trimmed, { amend, noVerify: skipHooks });
+	};
+
 	const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
 		if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
 			e.preventDefault();
@@ -80,12 +127,34 @@ export default function CommitPanel({ disabled }: { disabled?: boolean } = {}) {
 					>
 						<Bot size={13} />
 					</button>
+					<select
+						value={messageScope}
+						onChange={(e) =>
+							setMessageScope(
+								(e.target as HTMLSelectElement).value as CommitMessageScope
+							)
+						}
+						disabled={disabled || generating}
+						className="rounded bg-transparent px-1 text-[11px] text-(--text-muted) hover:bg-(--bg-hover) hover:text-(--text-primary)"
+						title="Changes the AI commit message describes"
+						aria-label="Changes to describe"
+					>
+						{MESSAGE_SCOPES.map((scope) => (
+							<option key={scope.value} value={scope.value}>
+								{scope.label}
+							</option>
+						))}
+					</select>
 					<button
 						type="button"
 						onClick={handleGenerate}
-						disabled={disabled || generating}
+						disabled={
+							disabled ||
+							generating ||
+							(messageScope === "selected" && describedPaths.length === 0)
+						}
 						className="btn-icon rounded-md p-1"
-						title="Generate commit message with AI"
+						title={`Generate commit message from ${MESSAGE_SCOPES.find((s) => s.value === messageScope)!.label.toLowerCase()}`}
 					>
 						{generating ? (
 							<Loader2 size={13} className="animate-spin text-(--accent)" />
@@ -95,6 +164,28 @@ export default function CommitPanel({ disabled }: { disabled?: boolean } = {}) {
 					</button>
 				</div>
 			</div>
+			{messageScope === "selected" && (
+				<div className="max-h-28 shrink-0 overflow-auto border-t border-(--border-secondary) px-3 py-1">
+					{changedPaths.length === 0 ? (
+						<p className="py-1 text-[11px] text-(--text-subtle)">No changed files</p>
+					) : (
+						changedPaths.map((path) => (
+							<label
+								key={path}
+								className="flex cursor-pointer items-center gap-1.5 py-0.5 text-[11px] text-(--text-secondary) hover:text-(--text-primary)"
+								title={path}
+							>
+								<input
+									type="checkbox"
+									checked={describedPaths.includes(path)}
+									onChange={() => togglePath(path)}
+								/>
+								<span className="truncate font-mono">{path}</span>
+							</label>
+						))
+					)}
+				</div>
+			)}
 			<textarea
 				value={message}
 				onChange={(e) => setMessage(e.target.value)}
@@ -104,15 +195,33 @@ export default function CommitPanel({ disabled }: { disabled?: boolean } = {}) {
 				disabled={disabled}
 				style={{ fontSize: "var(--commit-message-font-size)" }}
 			/>
+			<CommitLintWarnings
+				projectId={projectId}
+				message={message}
+				className="max-h-24 shrink-0 overflow-auto border-t border-(--border-secondary) px-3 py-1"
+			/>
 			<div className="flex shrink-0 items-center justify-between gap-2 px-3 py-1.5">
-				<label className="flex cursor-pointer items-center gap-1.5 text-xs text-(--text-secondary) transition-colors hover:text-(--text-primary)">
-					<input
-						type="checkbox"
-						checked={amend}
-						onChange={(e) => setAmend(e.target.checked)}
-					/>
-					Amend
-				</label>
+				<div className="flex items-center gap-3">
+					<label className="flex cursor-pointer items-center gap-1.5 text-xs text-(--text-secondary) transition-colors hover:text-(--text-primary)">
+						<input
+							type="checkbox"
+							checked={amend}
+							onChange={(e) => setAmend(e.target.checked)}
+						/>
+						Amend
+					</label>
+					<label
+						className="flex cursor-pointer items-center gap-1.5 text-xs text-(--text-secondary) transition-colors hover:text-(--text-primary)"
+						title="Commit with --no-verify, skipping the pre-commit and commit-msg hooks"
+					>
+						<input
+							type="checkbox"
+							checked={skipHooks}
+							onChange={(e) => setSkipHooks(e.target.checked)}
+						/>
+						Skip hooks
+					</label>
+				</div>
 				<div className="flex items-center gap-2">
 					{error && (
 						<span className="max-w-45 truncate text-[11px] text-(--danger)">
@@ -1,15 +1,27 @@
 import { useState, useEffect } from "react";
 import { AlertTriangle } from "lucide-react";
+import type { ConflictState } from "../../../shared/types";
 import { useProjectStore } from "../stores/projectStore";
+import { useRepoStore } from "../stores/repoStore";
+import { useUIStore } from "../stores/uiStore";
+
+const OPERATION_LABELS: Record<ConflictState["type"], string> = {
+	merge: "Merge",
+	rebase: "Rebase",
+	"cherry-pick": "Cherry-pick",
+};
 
 export default function ConflictBanner() {
 	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
-	const [conflictFiles, setConflictFiles] = useState<string[]>([]);
+	const status = useRepoStore((s) => s.status);
+	const showConflictResolver = useUIStore((s) => s.showConflictResolver);
+	const [conflictState, setConflictState] = useState<ConflictState | null>(null);
 
 	useEffect(() => {
-		window.gitagen.repo.getConflictFiles(projectId).then(setConflictFiles);
-	}, [projectId]);
+		window.gitagen.repo.getConflictState(projectId).then(setConflictState);
+	}, [projectId, status]);
 
+	const conflictFiles = conflictState?.conflictFiles ?? [];
 	if (conflictFiles.length === 0) return null;
 
 	return (
@@ -17,14 +29,24 @@ export default function ConflictBanner() {
 			<div className="flex items-center gap-2.5">
 				<AlertTriangle size={16} className="text-(--warning)" />
 				<span className="text-[13px] font-medium text-(--warning)">
-					Merge/rebase conflicts ({conflictFiles.length} files)
+					{conflictState ? OPERATION_LABELS[conflictState.type] : "Merge"} conflicts (
+					{conflictFiles.length} files)
 				</span>
 			</div>
-			<div className="flex items-center gap-2">
+			<div className="flex min-w-0 items-center gap-2">
 				<span className="truncate text-xs text-(--text-secondary)">
 					{conflictFiles.slice(0, 3).join(", ")}
 					{conflictFiles.length > 3 && ` +${conflictFiles.length - 3} more`}
 				</span>
+				{!showConflictResolver && (
+					<button
+						type="button"
+						onClick={() => useUIStore.getState().openConflictResolver()}
+						className="btn btn-secondary shrink-0 text-xs"
+					>
+						Resolve
+					</button>
+				)}
 			</div>
 		</div>
 	);
@@ -0,0 +1,407 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import { ArrowLeft, Check, FileWarning, Trash2 } from "lucide-react";
+import type { ConflictFileVersions, ConflictState } from "../../../shared/types";
+import { useProjectStore } from "../stores/projectStore";
+import { useRepoStore } from "../stores/repoStore";
+import { useUIStore } from "../stores/uiStore";
+import { useToast } from "../toast/provider";
+import {
+	parseConflictMarkers,
+	resolveAllConflictBlocks,
+	resolveConflictBlock,
+	type ConflictChoice,
+} from "../utils/conflict-markers";
+
+const OPERATION_LABELS: Record<ConflictState["type"], string> = {
+	merge: "Merge",
+	rebase: "Rebase",
+	"cherry-pick": "Cherry-pick",
+};
+
+/** During a rebase, "ours" is the branch being rebased onto and "theirs" is the replayed commit. */
+function sideLabels(type: ConflictState["type"] | undefined): { ours: string; theirs: string } {
+	if (type === "rebase") return { ours: "Ours (upstream)", theirs: "Theirs (your commit)" };
+	if (type === "cherry-pick") return { ours: "Ours (HEAD)", theirs: "Theirs (picked commit)" };
+	return { ours: "Ours (HEAD)", theirs: "Theirs (incoming)" };
+}
+
+function VersionPane({ title, content }: { title: string; content: string | null }) {
+	return (
+		<div className="flex min-h-0 min-w-0 flex-1 flex-col border-r border-(--border-secondary) last:border-r-0">
+			<div className="shrink-0 border-b border-(--border-secondary) bg-(--bg-panel) px-3 py-1.5 text-[11px] font-medium uppercase tracking-wider text-(--text-muted)">
+				{title}
+			</div>
+			{content === null ? (
+				<p className="px-3 py-2 text-xs text-(--text-subtle)">Deleted on this side</p>
+			) : (
+				<pre className="min-h-0 flex-1 overflow-auto px-3 py-2 font-mono text-[12px] leading-relaxed text-(--text-secondary)">
+					{content}
+				</pre>
+			)}
+		</div>
+	);
+}
+
+export default function ConflictResolverView() {
+	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
+	const status = useRepoStore((s) => s.status);
+	const onClose = () => useUIStore.getState().closeConflictResolver();
+	const { toast } = useToast();
+	const [conflictState, setConflictState] = useState<ConflictState | null>(null);
+	const [selectedPath, setSelectedPath] = useState<string | null>(null);
+	const [versions, setVersions] = useState<ConflictFileVersions | null>(null);
+	const [result, setResult] = useState("");
+	const [busy, setBusy] = useState(false);
+	const requestIdRef = useRef(0);
+
+	const loadState = useCallback(async () => {
+		const state = await window.gitagen.repo.getConflictState(projectId);
+		setConflictState(state);
+		setSelectedPath((current) => {
+			const files = state?.conflictFiles ?? [];
+			if (current && files.includes(current)) return current;
+			return files[0] ?? null;
+		});
+	}, [projectId]);
+
+	useEffect(() => {
+		void loadState();
+	}, [loadState, status]);
+
+	useEffect(() => {
+		if (!selectedPath) {
+			setVersions(null);
+			setResult("");
+			return;
+		}
+		const requestId = requestIdRef.current + 1;
+		requestIdRef.current = requestId;
+		window.gitagen.repo.getConflictVersions(projectId, selectedPath).then((loaded) => {
+			if (requestIdRef.current !== requestId) return;
+			setVersions(loaded);
+			setResult(loaded?.merged ?? "");
+		});
+	}, [projectId, selectedPath]);
+
+	const blocks = useMemo(
+		() => parseConflictMarkers(result).filter((segment) => segment.kind === "conflict"),
+		[result]
+	);
+	const labels = sideLabels(conflictState?.type);
+
+	const runOperation = async (action: () => Promise<void>, failure: string) => {
+		setBusy(true);
+		try {
+			await action();
+			await loadState();
+			void useRepoStore.getState().refreshStatus();
+		} catch (error) {
+			const msg = error instanceof Error ? error.message : "Unknown error";
+			toast.error(failure, msg);
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const handleMarkResolved = async () => {
+		if (!selectedPath) return;
+		if (blocks.length > 0) {
+			const confirmed = await window.gitagen.app.confirm({
+				title: "Unresolved Conflicts",
+				message: `"${selectedPath}" still contains ${blocks.length} conflict block${blocks.length > 1 ? "s" : ""}.`,
+				detail: "Mark it as resolved anyway? The conflict markers will be committed.",
+				confirmLabel: "Mark Resolved",
+				cancelLabel: "Cancel",
+			});
+			if (!confirmed) return;
+		}
+		await runOperation(async () => {
+			await window.gitagen.repo.resolveConflict(projectId, selectedPath, result);
+			toast.success("Marked as resolved", selectedPath);
+		}, "Resolve failed");
+	};
+
+	const handleDelete = async () => {
+		if (!selectedPath) return;
+		const confirmed = await window.gitagen.app.confirm({
+			title: "Delete File",
+			message: `Resolve the conflict by deleting "${selectedPath}"?`,
+			detail: "The file is removed from the working tree and the index.",
+			confirmLabel: "Delete",
+			cancelLabel: "Cancel",
+		});
+		if (!confirmed) return;
+		await runOperation(async () => {
+			await window.gitagen.repo.resolveConflict(projectId, selectedPath, null);
+			toast.success("Resolved by deleting", selectedPath);
+		}, "Resolve failed");
+	};
+
+	const applyChoice = (index: number, choice: ConflictChoice) => {
+		setResult((current) => resolveConflictBlock(current, index, choice));
+	};
+
+	const conflictFiles = conflictState?.conflictFiles ?? [];
+	const type = conflictState?.type;
+	const step =
+		conflictState?.currentStep != null && conflictState.totalSteps != null
+			? ` (${conflictState.currentStep}/${conflictState.totalSteps})`
+			: "";
+
+	return (
+		<div className="flex min-h-0 flex-1 flex-col">
+			<div className="flex shrink-0 items-center gap-2 border-b border-(--border-secondary) bg-(--bg-panel) px-4 py-3">
+				<button
+					type="button"
+					onClick={onClose}
+					className="-ml-1 shrink-0 rounded p-1 text-(--text-muted) transition-colors hover:bg-(--bg-hover) hover:text-(--text-primary)"
+					title="Back to working directory"
+				>
+					<ArrowLeft size={16} />
+				</button>
+				<h2 className="text-[15px] font-semibold text-(--text-primary)">
+					{type ? `${OPERATION_LABELS[type]} conflicts${step}` : "Conflicts"}
+				</h2>
+				<div className="ml-auto flex items-center gap-1.5">
+					{type === "rebase" && (
+						<>
+							<button
+								type="button"
+								disabled={busy || conflictFiles.length > 0}
+								onClick={() =>
+									void runOperation(
+										() => window.gitagen.repo.rebaseContinue(projectId),
+										"Continue failed"
+									)
+								}
+								className="btn btn-primary text-xs"
+							>
+								Continue
+							</button>
+							<button
+								type="button"
+								disabled={busy}
+								onClick={() =>
+									void runOperation(
+										() => window.gitagen.repo.rebaseSkip(projectId),
+										"Skip failed"
+									)
+								}
+								className="btn btn-secondary text-xs"
+							>
+								Skip
+							</button>
+							<button
+								type="button"
+								disabled={busy}
+								onClick={() =>
+									void runOperation(
+										() => window.gitagen.repo.rebaseAbort(projectId),
+										"Abort failed"
+									)
+								}
+								className="btn btn-secondary text-xs"
+							>
+								Abort
+							</button>
+						</>
+					)}
+					{type === "cherry-pick" && (
+						<>
+							<button
+								type="button"
+								disabled={busy || conflictFiles.length > 0}
+								onClick={() =>
+									void runOperation(
+										() => window.gitagen.repo.cherryPickContinue(projectId),
+										"Continue failed"
+									)
+								}
+								className="btn btn-primary text-xs"
+							>
+								Continue
+							</button>
+							<button
+								type="button"
+								disabled={busy}
+								onClick={() =>
+									void runOperation(
+										() => window.gitagen.repo.cherryPickAbort(projectId),
+										"Abort failed"
+									)
+								}
+								className="btn btn-secondary text-xs"
+							>
+								Abort
+							</button>
+						</>
+					)}
+				</div>
+			</div>
+			{conflictFiles.length === 0 ? (
+				<div className="flex flex-1 flex-col items-center justify-center gap-2 px-6 text-center">
+					<Check size={22} className="text-(--success)" />
+					<p className="text-sm text-(--text-secondary)">All conflicts are resolved</p>
+					<p className="text-xs text-(--text-subtle)">
+						{type === "merge" || !type
+							? "Commit the merge from the commit panel."
+							: `Continue the ${OPERATION_LABELS[type].toLowerCase()} to apply the next step.`}
+					</p>
+				</div>
+			) : (
+				<div className="flex min-h-0 flex-1">
+					<div className="w-56 shrink-0 overflow-auto border-r border-(--border-secondary) py-1">
+						{conflictFiles.map((path) => (
+							<button
+								key={path}
+								type="button"
+								onClick={() => setSelectedPath(path)}
+								className={`flex w-full items-center gap-2 px-3 py-1.5 text-left font-mono text-[12px] transition-colors hover:bg-(--bg-hover) ${
+									path === selectedPath
+										? "bg-(--bg-active) text-(--text-primary)"
+										: "text-(--text-secondary)"
+								}`}
+								title={path}
+							>
+								<FileWarning size={13} className="shrink-0 text-(--warning)" />
+								<span className="truncate">{path}</span>
+							</button>
+						))}
+					</div>
+					{versions ? (
+						<div className="flex min-h-0 min-w-0 flex-1 flex-col">
+							<div className="flex min-h-0 flex-1 border-b border-(--border-secondary)">
+								<VersionPane title={labels.ours} content={versions.ours} />
+								{versions.base !== null && (
+									<VersionPane title="Base" content={versions.base} />
+								)}
+								<VersionPane title={labels.theirs} content={versions.theirs} />
+							</div>
+							<div className="flex min-h-0 flex-1 flex-col">
+								<div className="flex shrink-0 flex-wrap items-center gap-2 border-b border-(--border-secondary) bg-(--bg-panel) px-3 py-1.5">
+									<span className="text-[11px] font-medium uppercase tracking-wider text-(--text-muted)">
+										Result
+									</span>
+									<span className="text-[11px] text-(--text-subtle)">
+										{blocks.length === 0
+											? "No conflict markers left"
+											: `${blocks.length} conflict${blocks.length > 1 ? "s" : ""} remaining`}
+									</span>
+									<div className="ml-auto flex items-center gap-1">
+										<button
+											type="button"
+											disabled={blocks.length === 0}
+											onClick={() =>
+												setResult((r) =>
+													resolveAllConflictBlocks(r, "ours")
+												)
+											}
+											className="btn btn-ghost text-xs"
+										>
+											All ours
+										</button>
+										<button
+											type="button"
+											disabled={blocks.length === 0}
+											onClick={() =>
+												setResult((r) =>
+													resolveAllConflictBlocks(r, "theirs")
+												)
+											}
+											className="btn btn-ghost text-xs"
+										>
+											All theirs
+										</button>
+										<button
+											type="button"
+											onClick={() => setResult(versions.merged)}
+											className="btn btn-ghost text-xs"
+										>
+											Reset
+										</button>
+										{/* Modify/delete conflict: keeping the file or deleting it are the choices */}
+										{(versions.ours === null || versions.theirs === null) && (
+											<button
+												type="button"
+												disabled={busy}
+												onClick={() => void handleDelete()}
+												className="btn btn-secondary text-xs"
+												title="Resolve by deleting the file, as one side did"
+											>
+												<Trash2 size={13} />
+												Delete file
+											</button>
+										)}
+										<button
+											type="button"
+											disabled={busy}
+											onClick={() => void handleMarkResolved()}
+											className="btn btn-primary text-xs"
+										>
+											<Check size={13} />
+											Mark resolved
+										</button>
+									</div>
+								</div>
+								{blocks.length > 0 && (
+									<div className="flex shrink-0 flex-col gap-1 border-b border-(--border-secondary) px-3 py-2">
+										{blocks.map((block, index) => (
+											<div
+												key={index}
+												className="flex items-center gap-2 text-[12px]"
+											>
+												<span className="w-20 shrink-0 text-(--text-muted)">
+													Conflict {index + 1}
+												</span>
+												<span className="truncate font-mono text-(--text-subtle)">
+													{block.ours.split("\n")[0] ||
+														block.theirs.split("\n")[0]}
+												</span>
+												<div className="ml-auto flex shrink-0 items-center gap-1">
+													<button
+														type="button"
+														onClick={() => applyChoice(index, "ours")}
+														className="btn btn-secondary text-xs"
+													>
+														Ours
+													</button>
+													<button
+														type="button"
+														onClick={() => applyChoice(index, "theirs")}
+														className="btn btn-secondary text-xs"
+													>
+														Theirs
+													</button>
+													<button
+														type="button"
+														onClick={() => applyChoice(index, "both")}
+														className="btn btn-secondary text-xs"
+													>
+														Both
+													</button>
+												</div>
+											</div>
+										))}
+									</div>
+								)}
+								<textarea
+									value={result}
+									onChange={(e) =>
+										setResult((e.target as HTMLTextAreaElement).value)
+									}
+									spellCheck={false}
+									className="min-h-0 flex-1 resize-none bg-(--bg-primary) px-3 py-2 font-mono text-[12px] leading-relaxed text-(--text-primary) outline-none"
+									aria-label="Merged result"
+								/>
+							</div>
+						</div>
+					) : (
+						<div className="flex flex-1 items-center justify-center">
+							<div className="h-6 w-6 animate-spin rounded-full border-2 border-(--border-primary) border-t-(--text-muted)" />
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
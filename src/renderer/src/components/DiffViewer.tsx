@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { CircleMinus, CirclePlus, ExternalLink } from "lucide-react";
+import { CircleMinus, CirclePlus, ExternalLink, Undo2 } from "lucide-react";
 import { PatchDiff } from "@pierre/diffs/react";
 import { changeTypeColorClass, changeTypeLabel } from "../utils/status-badge";
 import { useThemeStore } from "../stores/themeStore";
@@ -7,6 +7,9 @@ import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
 import { useUIStore } from "../stores/uiStore";
 import { useToast } from "../toast/provider";
+import type { DiffLineRange } from "../../../shared/types";
+
+type SelectionAction = "stage" | "unstage" | "discard";
 
 export default function DiffViewer() {
 	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
@@ -17,10 +20,12 @@ export default function DiffViewer() {
 	const { toast } = useToast();
 	const [patch, setPatch] = useState<string | null>(null);
 	const [loading, setLoading] = useState(false);
+	const [selectedLines, setSelectedLines] = useState<DiffLineRange | null>(null);
 	const requestIdRef = useRef(0);
 
 	const filePath = selectedFile?.path ?? null;
 	const isStaged = selectedFile?.status === "staged";
+	const isUntracked = selectedFile?.status === "untracked";
 	const letter = selectedFile?.changeType ?? "M";
 
 	const handleStageToggle = useCallback(async () => {
@@ -38,7 +43,55 @@ export default function DiffViewer() {
 		}
 	}, [projectId, selectedFile, isStaged, toast]);
 
+	const handleSelectionAction = useCallback(
+		async (action: SelectionAction, wholeHunks: boolean) => {
+			if (!projectId || !selectedFile || !selectedLines) return;
+			if (action === "discard") {
+				const confirmed = await window.gitagen.app.confirm({
+					title: "Discard Changes",
+					message: wholeHunks
+						? "Discard the selected hunks?"
+						: "Discard the selected lines?",
+					detail: "This will restore the selected changes to their staged state.",
+					confirmLabel: "Discard",
+					cancelLabel: "Cancel",
+				});
+				if (!confirmed) return;
+			}
+			const selection = { range: selectedLines, wholeHunks };
+			try {
+				if (action === "stage") {
+					await window.gitagen.repo.stageSelection(
+						projectId,
+						selectedFile.path,
+						selection
+					);
+				} else if (action === "unstage") {
+					await window.gitagen.repo.unstageSelection(
+						projectId,
+						selectedFile.path,
+						selection
+					);
+				} else {
+					await window.gitagen.repo.discardSelection(
+						projectId,
+						selectedFile.path,
+						selection
+					);
+				}
+				setSelectedLines(null);
+				void useRepoStore.getState().refreshStatus();
+				useRepoStore.getState().triggerRefresh();
+			} catch (error) {
+				const msg = error instanceof Error ? error.message : "Unknown error";
+				toast.error(action === "discard" ? "Discard failed" : "Staging failed", msg);
+			}
+		},
+		[projectId, selectedFile, selectedLines, toast]
+	);
+
 	useEffect(() => {
+		setSelectedLines(null);
 		if (!filePath || !projectId || !selectedFile) {
 			setPatch(null);
 			return;
@@ -141,10 +194,47 @@ export default function DiffViewer() {
 			<span className="font-mono truncate text-sm text-(--text-primary)">
 				{selectedFile.path}
 			</span>
-			{isStaged && (
-				<span className="ml-auto font-mono text-[10px] font-semibold uppercase tracking-wider text-(--text-muted)">
-					Staged
-				</span>
+			{selectedLines && !isUntracked ? (
+				<div className="ml-auto flex shrink-0 items-center gap-1">
+					<button
+						type="button"
+						onClick={() =>
+							void handleSelectionAction(isStaged ? "unstage" : "stage", false)
+						}
+						className="btn btn-secondary text-xs"
+						title={isStaged ? "Unstage selected lines" : "Stage selected lines"}
+					>
+						{isStaged ? <CircleMinus size={13} /> : <CirclePlus size={13} />}
+						{isStaged ? "Unstage lines" : "Stage lines"}
+					</button>
+					<button
+						type="button"
+						onClick={() =>
+							void handleSelectionAction(isStaged ? "unstage" : "stage", true)
+						}
+						className="btn btn-secondary text-xs"
+						title={isStaged ? "Unstage selected hunks" : "Stage selected hunks"}
+					>
+						{isStaged ? "Unstage hunk" : "Stage hunk"}
+					</button>
+					{!isStaged && (
+						<button
+							type="button"
+							onClick={() => void handleSelectionAction("discard", false)}
+							className="btn-icon rounded-md p-1.5 hover:text-(--danger)"
+							title="Discard selected lines"
+							aria-label="Discard selected lines"
+						>
+							<Undo2 size={14} />
+						</button>
+					)}
+				</div>
+			) : (
+				isStaged && (
+					<span className="ml-auto font-mono text-[10px] font-semibold uppercase tracking-wider text-(--text-muted)">
+						Staged
+					</span>
+				)
 			)}
 		</div>
 	);
@@ -172,10 +262,13 @@ export default function DiffViewer() {
 				<div className="min-h-full [&_pre]:bg-transparent! [&_pre]:font-mono! [&_pre]:text-[13px]!">
 					<PatchDiff
 						patch={patch}
+						selectedLines={selectedLines}
 						options={{
 							theme: resolved === "dark" ? "github-dark" : "github-light",
 							diffStyle,
 							disableLineNumbers: false,
+							enableLineSelection: !isUntracked,
+							onLineSelected: setSelectedLines,
 						}}
 						className="min-h-full"
 					/>
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ArrowLeft, GitCommit, Loader2 } from "lucide-react";
+import type { CommitInfo } from "../../../shared/types";
+import { useProjectStore } from "../stores/projectStore";
+import { useUIStore } from "../stores/uiStore";
+
+const ROW_HEIGHT = 56;
+const OVERSCAN = 5;
+const PAGE_SIZE = 25;
+
+function formatRelativeTime(dateStr: string): string {
+	const date = new Date(dateStr);
+	const diff = Date.now() - date.getTime();
+	const minutes = Math.floor(diff / 60000);
+	const hours = Math.floor(minutes / 60);
+	const days = Math.floor(hours / 24);
+	if (days > 7) return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+	if (days > 0) return `${days}d ago`;
+	if (hours > 0) return `${hours}h ago`;
+	if (minutes > 0) return `${minutes}m ago`;
+	return "just now";
+}
+
+export default function FileHistoryView() {
+	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
+	const path = useUIStore((s) => s.fileHistoryPath);
+	const [commits, setCommits] = useState<CommitInfo[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [loadingMore, setLoadingMore] = useState(false);
+	const [hasMore, setHasMore] = useState(true);
+	const scrollRef = useRef<HTMLDivElement>(null);
+	const requestIdRef = useRef(0);
+
+	useEffect(() => {
+		if (!path) return;
+		const requestId = requestIdRef.current + 1;
+		requestIdRef.current = requestId;
+		setLoading(true);
+		setCommits([]);
+		setHasMore(true);
+		window.gitagen.repo
+			.getLog(projectId, { path, limit: PAGE_SIZE })
+			.then((page) => {
+				if (requestIdRef.current !== requestId) return;
+				setCommits(page);
+				setHasMore(page.length >= PAGE_SIZE);
+			})
+			.finally(() => {
+				if (requestIdRef.current === requestId) setLoading(false);
+			});
+	}, [projectId, path]);
+
+	const loadNextPage = useCallback(() => {
+		if (!path || loading || loadingMore || !hasMore) return;
+		const requestId = requestIdRef.current;
+		setLoadingMore(true);
+		window.gitagen.repo
+			.getLog(projectId, { path, limit: PAGE_SIZE, offset: commits.length })
+			.then((page) => {
+				if (requestIdRef.current !== requestId) return;
+				setCommits((current) => {
+					const existingOids = new Set(current.map((c) => c.oid));
+					return [...current, ...page.filter((c) => !existingOids.has(c.oid))];
+				});
+				setHasMore(page.length >= PAGE_SIZE);
+			})
+			.finally(() => setLoadingMore(false));
+	}, [projectId, path, loading, loadingMore, hasMore, commits.length]);
+
+	const rowVirtualizer = useVirtualizer({
+		count: commits.length,
+		getScrollElement: () => scrollRef.current,
+		estimateSize: () => ROW_HEIGHT,
+		overscan: OVERSCAN,
+	});
+
+	// Infinite scroll: load next page when nearing the bottom
+	const virtualItems = rowVirtualizer.getVirtualItems();
+	const lastItem = virtualItems[virtualItems.length - 1];
+	useEffect(() => {
+		if (!lastItem) return;
+		if (lastItem.index >= commits.length - 5 && hasMore && !loadingMore) {
+			loadNextPage();
+		}
+	}, [lastItem?.index, commits.length, hasMore, loadingMore, loadNextPage]);
+
+	if (!path) return null;
+
+	const { closeFileHistory, setSelectedCommitOid } = useUIStore.getState();
+
+	return (
+		<div className="flex min-h-0 flex-1 flex-col">
+			<div className="flex shrink-0 items-center gap-2 border-b border-(--border-secondary) bg-(--bg-panel) px-4 py-3">
+				<button
+					type="button"
+					onClick={closeFileHistory}
+					className="-ml-1 shrink-0 rounded p-1 text-(--text-muted) transition-colors hover:bg-(--bg-hover) hover:text-(--text-primary)"
+					title="Back to working directory"
+				>
+					<ArrowLeft size={16} />
+				</button>
+				<h2 className="text-[15px] font-semibold text-(--text-primary)">History</h2>
+				<span className="min-w-0 truncate font-mono text-[12px] text-(--text-muted)">
+					{path}
+				</span>
+			</div>
+			{loading && commits.length === 0 ? (
+				<div className="flex flex-1 items-center justify-center">
+					<div className="h-6 w-6 animate-spin rounded-full border-2 border-(--border-primary) border-t-(--text-muted)" />
+				</div>
+			) : commits.length === 0 ? (
+				<div className="flex flex-1 flex-col items-center justify-center gap-3 p-8 text-center">
+					<GitCommit size={24} className="text-(--border-primary)" />
+					<p className="text-sm font-medium text-(--text-muted)">
+						No commits touch this file yet
+					</p>
+				</div>
+			) : (
+				<div ref={scrollRef} className="min-h-0 flex-1 overflow-auto">
+					<div
+						style={{
+							height: `${rowVirtualizer.getTotalSize()}px`,
+							width: "100%",
+							position: "relative",
+						}}
+					>
+						{virtualItems.map((virtualRow) => {
+							const c = commits[virtualRow.index]!;
+							const renamed = c.path && c.path !== path;
+							return (
+								<button
+									key={virtualRow.key}
+									type="button"
+									onClick={() =>
+										setSelectedCommitOid(c.oid, { path: c.path ?? path })
+									}
+									className="absolute left-0 top-0 w-full border-b border-(--border-secondary) px-4 py-2 text-left transition-colors hover:bg-(--bg-hover)"
+									style={{
+										height: `${virtualRow.size}px`,
+										transform: `translateY(${virtualRow.start}px)`,
+									}}
+								>
+									<p className="truncate text-[12px] font-medium text-(--text-primary)">
+										{c.message}
+									</p>
+									<div className="mt-1 flex min-w-0 items-center gap-1.5 text-[10px] text-(--text-muted)">
+										<code className="shrink-0 rounded bg-(--bg-tertiary) px-1 py-px font-mono">
+											{c.oid.slice(0, 7)}
+										</code>
+										<span className="truncate text-(--text-secondary)">
+											{c.author.name}
+										</span>
+										<span className="shrink-0 text-(--text-subtle)">
+											{formatRelativeTime(c.author.date)}
+										</span>
+										{renamed && (
+											<span
+												className="truncate font-mono text-(--text-subtle)"
+												title={c.path}
+											>
+												as {c.path}
+											</span>
+										)}
+									</div>
+								</button>
+							);
+						})}
+					</div>
+					{loadingMore && (
+						<div className="flex items-center justify-center py-3">
+							<Loader2 size={14} className="animate-spin text-(--text-muted)" />
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Check, ChevronDown, ChevronRight, Download, Trash2 } from "lucide-react";
+import type { GitActivityEntry } from "../../../shared/types";
+import { useToast } from "../toast/provider";
+import { useGitActivityStore } from "../stores/gitActivityStore";
+import { useProjectStore } from "../stores/projectStore";
+import { useUIStore } from "../stores/uiStore";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+
+/** Project filter value for commands that ran outside every project, e.g. clones */
+const NO_PROJECT = "none";
+const ALL_PROJECTS = "all";
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+function formatDuration(ms: number): string {
+	return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function describeOutcome(entry: GitActivityEntry): string {
+	if (entry.exitCode === null) return "killed";
+	return `exit ${entry.exitCode}`;
+}
+
+function ActivityRow({ entry }: { entry: GitActivityEntry }) {
+	const [expanded, setExpanded] = useState(false);
+	const failed = entry.exitCode !== 0;
+	const hasOutput = !!(entry.stdout.trim() || entry.stderr.trim() || entry.error);
+
+	return (
+		<li className="border-t border-(--border-secondary) first:border-t-0">
+			<button
+				type="button"
+				onClick={() => setExpanded((prev) => !prev)}
+				className="flex w-full items-start gap-2 py-1.5 text-left text-[11px] hover:bg-(--bg-hover)"
+				aria-expanded={expanded}
+			>
+				{expanded ? (
+					<ChevronDown size={12} className="mt-0.5 shrink-0 text-(--text-muted)" />
+				) : (
+					<ChevronRight size={12} className="mt-0.5 shrink-0 text-(--text-muted)" />
+				)}
+				{failed ? (
+					<AlertCircle size={12} className="mt-0.5 shrink-0 text-(--danger)" />
+				) : (
+					<Check size={12} className="mt-0.5 shrink-0 text-(--success)" />
+				)}
+				<span className="min-w-0 flex-1">
+					<span className="block truncate font-mono text-(--text-primary)">
+						{entry.command}
+					</span>
+					<span className="block truncate font-mono text-[10px] text-(--text-subtle)">
+						{entry.cwd}
+					</span>
+				</span>
+				<span
+					className={`shrink-0 font-mono ${failed ? "text-(--danger)" : "text-(--text-muted)"}`}
+				>
+					{describeOutcome(entry)}
+				</span>
+				<span className="w-14 shrink-0 text-right text-(--text-muted)">
+					{formatDuration(entry.durationMs)}
+				</span>
+				<span className="w-16 shrink-0 text-right text-(--text-muted)">
+					{new Date(entry.startedAt).toLocaleTimeString()}
+				</span>
+			</button>
+			{expanded && (
+				<div className="space-y-2 pb-2 pl-7 text-[11px]">
+					{entry.error && <p className="text-(--danger)">{entry.error}</p>}
+					{entry.stdout.trim() && (
+						<div>
+							<p className="mb-0.5 text-[10px] font-medium text-(--text-muted)">
+								stdout
+							</p>
+							<pre className="max-h-48 overflow-auto rounded-md bg-(--bg-secondary) p-2 font-mono text-[10px] whitespace-pre-wrap text-(--text-secondary)">
+								{entry.stdout}
+							</pre>
+						</div>
+					)}
+					{entry.stderr.trim() && (
+						<div>
+							<p className="mb-0.5 text-[10px] font-medium text-(--text-muted)">
+								stderr
+							</p>
+							<pre className="max-h-48 overflow-auto rounded-md bg-(--bg-secondary) p-2 font-mono text-[10px] whitespace-pre-wrap text-(--text-secondary)">
+								{entry.stderr}
+							</pre>
+						</div>
+					)}
+					{!hasOutput && <p className="text-(--text-muted)">No output</p>}
+					{entry.truncated && (
+						<p className="text-[10px] text-(--text-muted)">
+							Output was truncated to the size kept per command.
+						</p>
+					)}
+				</div>
+			)}
+		</li>
+	);
+}
+
+/** Every git command the app ran, newest first, with its output. */
+export default function GitActivityDialog() {
+	const open = useUIStore((s) => s.showGitActivity);
+	const onClose = useUIStore((s) => s.closeGitActivity);
+	const projects = useProjectStore((s) => s.projects);
+	const activeProjectId = useProjectStore((s) => s.activeProject?.id ?? null);
+	const entries = useGitActivityStore((s) => s.entries);
+	const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
+	const [failedOnly, setFailedOnly] = useState(false);
+	const { toast } = useToast();
+
+	useEffect(() => {
+		if (!open) return;
+		setProjectFilter(activeProjectId ?? ALL_PROJECTS);
+		void useGitActivityStore.getState().load();
+	}, [open, activeProjectId]);
+
+	const visible = useMemo(() => {
+		const filtered = entries.filter((entry) => {
+			if (failedOnly && entry.exitCode === 0) return false;
+			if (projectFilter === ALL_PROJECTS) return true;
+			if (projectFilter === NO_PROJECT) return entry.projectId === null;
+			return entry.projectId === projectFilter;
+		});
+		return filtered.reverse();
+	}, [entries, projectFilter, failedOnly]);
+
+	const handleExport = async () => {
+		const projectId =
+			projectFilter === ALL_PROJECTS || projectFilter === NO_PROJECT
+				? undefined
+				: projectFilter;
+		try {
+			const path = await window.gitagen.activity.export(projectId);
+			if (path) toast.success("Git activity exported", path);
+		} catch (error) {
+			toast.error("Failed to export git activity", getErrorMessage(error));
+		}
+	};
+
+	const handleClear = async () => {
+		try {
+			await useGitActivityStore.getState().clear();
+		} catch (error) {
+			toast.error("Failed to clear git activity", getErrorMessage(error));
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+			<DialogContent size="xl" className="p-0">
+				<ModalShell
+					title="Git activity"
+					description="Every git command the app ran, newest first. The last 500 are kept until the app quits."
+					footer={
+						<>
+							<button
+								type="button"
+								onClick={() => void handleClear()}
+								disabled={entries.length === 0}
+								className="btn btn-secondary mr-auto"
+							>
+								<Trash2 size={12} />
+								Clear
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleExport()}
+								disabled={entries.length === 0}
+								className="btn btn-secondary"
+								title="Save the log as a text file, e.g. to attach to a bug report"
+							>
+								<Download size={12} />
+								Export…
+							</button>
+							<button type="button" onClick={onClose} className="btn btn-primary">
+								Close
+							</button>
+						</>
+					}
+				>
+					<div className="mb-3 flex items-center gap-3">
+						<select
+							value={projectFilter}
+							onChange={(e) => setProjectFilter(e.target.value)}
+							className="input text-xs"
+							aria-label="Filter by project"
+						>
+							<option value={ALL_PROJECTS}>All projects</option>
+							{projects.map((project) => (
+								<option key={project.id} value={project.id}>
+									{project.name}
+								</option>
+							))}
+							<option value={NO_PROJECT}>Outside projects</option>
+						</select>
+						<label className="flex cursor-pointer items-center gap-2">
+							<input
+								type="checkbox"
+								checked={failedOnly}
+								onChange={(e) => setFailedOnly(e.target.checked)}
+							/>
+							<span className="text-xs text-(--text-secondary)">Failures only</span>
+						</label>
+						<span className="ml-auto text-[11px] text-(--text-muted)">
+							{visible.length} of {entries.length}
+						</span>
+					</div>
+					{visible.length === 0 ? (
+						<p className="text-xs text-(--text-muted)">No git commands to show.</p>
+					) : (
+						<ul>
+							{visible.map((entry) => (
+								<ActivityRow key={entry.id} entry={entry} />
+							))}
+						</ul>
+					)}
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,15 +1,12 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import { AlertCircle, Loader2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import type { UIMessage } from "ai";
+import { AlertCircle, History, Loader2 } from "lucide-react";
 import { Dialog, DialogContent } from "./ui/dialog";
 import { ModalShell } from "./ui/modal-shell";
-import AgentChatModal, {
-	type AgentChatToolHelpers,
-	type AgentToolPartRenderArgs,
-} from "./agent/AgentChatModal";
-import { GIT_AGENT_SYSTEM_PROMPT } from "../lib/git-agent-prompt";
-import { createGitAgentTools } from "./git-agent/tools";
+import AgentChatModal, { type AgentToolPartRenderArgs } from "./agent/AgentChatModal";
+import AgentSessionList from "./agent/AgentSessionList";
 import GitActionProposal, { type GitActionPlanInput } from "./git-agent/GitActionProposal";
-import type { AIProviderInstance } from "../../../shared/types";
+import type { AgentSession, AgentStatus } from "../../../shared/types";
 import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
 import { useUIStore } from "../stores/uiStore";
@@ -19,12 +16,13 @@ interface GitAgentModalProps {
 	onClose?: () => void;
 	projectId?: string;
 	initialPrompt?: string;
-	systemPrompt?: string;
 }
 
-interface PlanGateState {
-	proposedPlanId: string | null;
-	approvedPlanId: string | null;
+interface ActiveSession {
+	id: string;
+	/** Set when reopening a stored session */
+	restored?: AgentSession;
+	initialPrompt?: string;
 }
 
 const WRITE_TOOLS = new Set([
@@ -33,6 +31,13 @@ const WRITE_TOOLS = new Set([
 	"stage_all",
 	"unstage_all",
 	"create_commit",
+	"amend_commit",
+	"undo_last_commit",
+	"cherry_pick",
+	"revert_commits",
+	"merge_branch",
+	"rebase_onto",
+	"squash_commits",
 	"stash_create",
 	"stash_apply",
 	"stash_pop",
@@ -73,7 +78,9 @@ function summarizeToolInput(toolName: string, input: unknown): string | null {
 			const preview = summarizePaths(data.paths);
 			return preview ? `Files: ${preview}` : null;
 		}
-		case "create_commit": {
+		case "create_commit":
+		case "amend_commit":
+		case "squash_commits": {
 			const message = typeof data.message === "string" ? data.message.trim() : "";
 			if (!message) return null;
 			const firstLine = message.split("\n")[0] ?? "";
@@ -98,6 +105,15 @@ function summarizeToolInput(toolName: string, input: unknown): string | null {
 		case "stash_pop": {
 			return typeof data.index === "number" ? `Entry: stash@{${data.index}}` : "Latest entry";
 		}
+		case "cherry_pick":
+		case "revert_commits": {
+			const refs = Array.isArray(data.refs) ? data.refs.map(String) : [];
+			return refs.length > 0 ? `Commits: ${refs.join(", ")}` : null;
+		}
+		case "merge_branch":
+			return typeof data.source === "string" ? `Branch: ${data.source}` : null;
+		case "rebase_onto":
+			return typeof data.onto === "string" ? `Onto: ${data.onto}` : null;
 		default:
 			return null;
 	}
@@ -109,7 +125,6 @@ export default function GitAgentModal(props: GitAgentModalProps = {}) {
 		onClose: onCloseProp,
 		projectId: projectIdProp,
 		initialPrompt: initialPromptProp,
-		systemPrompt,
 	} = props;
 	const openFromStore = useUIStore((s) => s.showGitAgent);
 	const projectIdFromStore = useProjectStore((s) => s.activeProject?.id ?? "");
@@ -125,61 +140,30 @@ export default function GitAgentModal(props: GitAgentModalProps = {}) {
 			void useRepoStore.getState().refreshStatus();
 		}
 	}, [onCloseProp]);
-	const [provider, setProvider] = useState<AIProviderInstance | null>(null);
+	const [provider, setProvider] = useState<AgentStatus["provider"] | null>(null);
 	const [initError, setInitError] = useState<string | null>(null);
 	const [loading, setLoading] = useState(true);
-	const planGateRef = useRef<PlanGateState>({
-		proposedPlanId: null,
-		approvedPlanId: null,
-	});
+	const [session, setSession] = useState<ActiveSession | null>(null);
+	const [showHistory, setShowHistory] = useState(false);
 
 	useEffect(() => {
 		if (!open) {
 			setProvider(null);
 			setInitError(null);
 			setLoading(true);
-			planGateRef.current = {
-				proposedPlanId: null,
-				approvedPlanId: null,
-			};
+			setSession(null);
+			setShowHistory(false);
 			return;
 		}
+		setSession({ id: crypto.randomUUID(), initialPrompt });
 
 		let cancelled = false;
-		window.gitagen.settings
-			.getGlobalWithKeys()
-			.then((settings) => {
+		window.gitagen.agent
+			.getStatus()
+			.then((status) => {
 				if (cancelled) return;
-				const { activeProviderId, providers } = settings.ai;
-				if (!activeProviderId) {
-					setInitError("No AI provider configured. Add one in Settings.");
-					setLoading(false);
-					return;
-				}
-				const instance = providers.find((p) => p.id === activeProviderId);
-				if (!instance) {
-					setInitError("AI provider not found. Reconfigure in Settings.");
-					setLoading(false);
-					return;
-				}
-				if (!instance.apiKey?.trim()) {
-					setInitError("AI provider missing API key. Add it in Settings.");
-					setLoading(false);
-					return;
-				}
-				if (instance.apiKey.includes("...")) {
-					setInitError(
-						"AI provider API key appears masked. Re-enter the full key in Settings."
-					);
-					setLoading(false);
-					return;
-				}
-				if (!instance.defaultModel?.trim()) {
-					setInitError("No model selected. Select a model in Settings.");
-					setLoading(false);
-					return;
-				}
-				setProvider(instance);
+				if (status.ready && status.provider) setProvider(status.provider);
+				else setInitError(status.error ?? "AI provider is not configured.");
 				setLoading(false);
 			})
 			.catch((error) => {
@@ -191,92 +175,80 @@ export default function GitAgentModal(props: GitAgentModalProps = {}) {
 		return () => {
 			cancelled = true;
 		};
+		// The initial prompt only seeds the session started when the modal opens
 	}, [open]);
 
-	const toolsFactory = useCallback(
-		(helpers: AgentChatToolHelpers) =>
-			createGitAgentTools(projectId, helpers, {
-				getApprovedPlanId: () => planGateRef.current.approvedPlanId,
-			}),
-		[projectId]
-	);
+	const renderGitAgentTool = useCallback(
+		(args: AgentToolPartRenderArgs) => {
+			const toolName = getToolName(args.part);
+			if (!toolName) return null;
+			if (toolName !== "propose_actions") {
+				const state = args.part.state ?? "input-available";
+				const statusLabel = getToolStateLabel(state);
+				const summary = summarizeToolInput(toolName, args.part.input);
+				const writeTool = WRITE_TOOLS.has(toolName);
 
-	const renderGitAgentTool = useCallback((args: AgentToolPartRenderArgs) => {
-		const toolName = getToolName(args.part);
-		if (!toolName) return null;
-		if (toolName !== "propose_actions") {
+				return (
+					<div className="ga-tool-step">
+						<div className="ga-tool-row">
+							<span
+								className="ga-tool-badge"
+								data-type={writeTool ? "write" : "read"}
+							>
+								{writeTool ? "WRITE" : "READ"}
+							</span>
+							<span className="ga-tool-name">{toolName}</span>
+							<span
+								className="ga-tool-state"
+								data-state={
+									statusLabel === "done"
+										? "done"
+										: statusLabel === "failed"
+											? "failed"
+											: "running"
+								}
+							>
+								{statusLabel}
+							</span>
+						</div>
+						{summary && <p className="ga-tool-summary">{summary}</p>}
+						{state === "output-error" && args.part.errorText && (
+							<p className="ga-tool-error">{args.part.errorText}</p>
+						)}
+					</div>
+				);
+			}
+			const toolCallId = args.part.toolCallId;
+			if (!toolCallId) return null;
 			const state = args.part.state ?? "input-available";
-			const statusLabel = getToolStateLabel(state);
-			const summary = summarizeToolInput(toolName, args.part.input);
-			const writeTool = WRITE_TOOLS.has(toolName);
+			const input = (args.part.input as GitActionPlanInput | undefined) ?? undefined;
 
 			return (
-				<div className="ga-tool-step">
-					<div className="ga-tool-row">
-						<span className="ga-tool-badge" data-type={writeTool ? "write" : "read"}>
-							{writeTool ? "WRITE" : "READ"}
-						</span>
-						<span className="ga-tool-name">{toolName}</span>
-						<span
-							className="ga-tool-state"
-							data-state={
-								statusLabel === "done"
-									? "done"
-									: statusLabel === "failed"
-										? "failed"
-										: "running"
-							}
-						>
-							{statusLabel}
-						</span>
-					</div>
-					{summary && <p className="ga-tool-summary">{summary}</p>}
-					{state === "output-error" && args.part.errorText && (
-						<p className="ga-tool-error">{args.part.errorText}</p>
-					)}
-				</div>
+				<GitActionProposal
+					projectId={projectId}
+					state={state}
+					input={input}
+					output={args.part.output}
+					toolCallId={toolCallId}
+					isLoading={args.isLoading}
+					onApprove={(id, planId) => {
+						args.onToolOutput("propose_actions", id, {
+							decision: "approved",
+							planId,
+						});
+					}}
+					onRevise={(id, planId, feedback) => {
+						args.onToolOutput("propose_actions", id, {
+							decision: "revise",
+							planId,
+							feedback,
+						});
+					}}
+				/>
 			);
-		}
-		const toolCallId = args.part.toolCallId;
-		if (!toolCallId) return null;
-		const state = args.part.state ?? "input-available";
-		const input = (args.part.input as GitActionPlanInput | undefined) ?? undefined;
-
-		const proposedPlanId = input?.planId?.trim() ?? "";
-		if (
-			(state === "input-streaming" || state === "input-available") &&
-			proposedPlanId !== "" &&
-			planGateRef.current.proposedPlanId !== proposedPlanId
-		) {
-			planGateRef.current.proposedPlanId = proposedPlanId;
-			planGateRef.current.approvedPlanId = null;
-		}
-
-		return (
-			<GitActionProposal
-				state={state}
-				input={input}
-				output={args.part.output}
-				toolCallId={toolCallId}
-				isLoading={args.isLoading}
-				onApprove={(id, planId) => {
-					planGateRef.current.approvedPlanId = planId;
-					args.onToolOutput("propose_actions", id, {
-						decision: "approved",
-						planId,
-					});
-				}}
-				onRevise={(id, planId, feedback) => {
-					planGateRef.current.approvedPlanId = null;
-					args.onToolOutput("propose_actions", id, {
-						decision: "revise",
-						planId,
-						feedback,
-					});
-				}}
-			/>
-		);
-	}, []);
+		},
+		[projectId]
+	);
 
 	return (
 		<Dialog
@@ -311,15 +283,41 @@ export default function GitAgentModal(props: GitAgentModalProps = {}) {
 							<span>{initError}</span>
 						</div>
 					</ModalShell>
-				) : provider ? (
+				) : provider && showHistory ? (
+					<AgentSessionList
+						title="GitAgent"
+						projectId={projectId}
+						onOpen={(stored) => {
+							setSession({ id: stored.id, restored: stored });
+							setShowHistory(false);
+						}}
+						onNew={() => {
+							setSession({ id: crypto.randomUUID() });
+							setShowHistory(false);
+						}}
+					/>
+				) : provider && session ? (
 					<AgentChatModal
+						key={session.id}
 						title="GitAgent"
 						description="AI assistant for practical git workflows"
+						projectId={projectId}
+						sessionId={session.id}
+						initialMessages={session.restored?.messages as UIMessage[] | undefined}
+						initialToolRuns={session.restored?.toolRuns}
 						provider={provider}
-						instructions={systemPrompt ?? GIT_AGENT_SYSTEM_PROMPT}
-						initialPrompt={initialPrompt}
+						initialPrompt={session.initialPrompt}
 						traceKey="git-agent"
-						createTools={toolsFactory}
+						footerActions={
+							<button
+								type="button"
+								className="btn btn-secondary"
+								title="Session history"
+								onClick={() => setShowHistory(true)}
+							>
+								<History size={13} />
+							</button>
+						}
 						renderToolPart={renderGitAgentTool}
 					/>
 				) : null}
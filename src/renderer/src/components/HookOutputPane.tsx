@@ -0,0 +1,94 @@
+import { useEffect, useRef } from "react";
+import { AlertCircle, Check, Loader2, SkipForward, TerminalSquare, X } from "lucide-react";
+import { useHookStore, type HookRun } from "../stores/hookStore";
+import { useProjectStore } from "../stores/projectStore";
+import { confirmSkipHooks } from "../lib/skip-hooks";
+
+/** How long the pane stays up after hooks pass. */
+const PASSED_DISMISS_MS = 2500;
+
+function getTitle(run: HookRun): string {
+	const action = run.action === "commit" ? "Commit" : "Push";
+	if (run.status === "running") return `Running ${run.hooks.join(", ")}…`;
+	if (run.status === "passed") return `${action} hooks passed`;
+	if (run.failure) {
+		return `${run.failure.hook} hook failed (exit code ${run.failure.exitCode})`;
+	}
+	return `${action} failed`;
+}
+
+/** Live output of commit and push hooks, kept open when a hook fails. */
+export default function HookOutputPane() {
+	const projectId = useProjectStore((s) => s.activeProject?.id ?? "");
+	const run = useHookStore((s) => s.run);
+	const retry = useHookStore((s) => s.retry);
+	const outputRef = useRef<HTMLPreElement>(null);
+
+	useEffect(() => {
+		const el = outputRef.current;
+		if (el) el.scrollTop = el.scrollHeight;
+	}, [run?.output]);
+
+	useEffect(() => {
+		if (run?.status !== "passed") return;
+		const timer = setTimeout(() => useHookStore.getState().dismiss(), PASSED_DISMISS_MS);
+		return () => clearTimeout(timer);
+	}, [run?.status, run?.runId]);
+
+	if (!run || run.projectId !== projectId) return null;
+
+	// Git's own error explains failures that happen before any hook writes output
+	const output = run.output || (run.status === "failed" ? (run.error ?? "") : "");
+	const canRetry = run.status === "failed" && run.failure && retry?.action === run.action;
+
+	const handleRetry = async () => {
+		if (!retry || !(await confirmSkipHooks(run.action, run.failure?.hook))) return;
+		useHookStore.getState().dismiss();
+		retry.run();
+	};
+
+	return (
+		<div className="hook-pane" data-status={run.status}>
+			<div className="hook-pane-header">
+				{run.status === "running" ? (
+					<Loader2 size={13} className="animate-spin text-(--accent)" />
+				) : run.status === "passed" ? (
+					<Check size={13} className="text-(--success)" />
+				) : (
+					<AlertCircle size={13} className="text-(--danger)" />
+				)}
+				<span className="hook-pane-title">{getTitle(run)}</span>
+				{canRetry && (
+					<button
+						type="button"
+						className="btn btn-secondary"
+						onClick={() => void handleRetry()}
+						title={`Run the ${run.action} again with --no-verify`}
+					>
+						<SkipForward size={12} />
+						Retry without hooks
+					</button>
+				)}
+				<button
+					type="button"
+					className="btn-icon rounded-md p-1"
+					onClick={() => useHookStore.getState().dismiss()}
+					title="Close"
+					aria-label="Close hook output"
+				>
+					<X size={13} />
+				</button>
+			</div>
+			{output ? (
+				<pre ref={outputRef} className="hook-pane-output">
+					{output}
+				</pre>
+			) : (
+				<p className="hook-pane-empty">
+					<TerminalSquare size={12} />
+					{run.status === "running" ? "Waiting for output…" : "No output"}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+import { useToast } from "../toast/provider";
+import { useProjectStore } from "../stores/projectStore";
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+const labelClass = "mb-1 block text-xs font-medium text-(--text-secondary)";
+
+/** Offered when the folder picked by "Add repository" is not a git repository yet. */
+export default function InitRepositoryDialog() {
+	const path = useProjectStore((s) => s.pendingInitPath);
+	const [templates, setTemplates] = useState<string[]>([]);
+	const [initialBranch, setInitialBranch] = useState("main");
+	const [gitignoreTemplate, setGitignoreTemplate] = useState("");
+	const [initialCommit, setInitialCommit] = useState(true);
+	const [remoteName, setRemoteName] = useState("origin");
+	const [remoteUrl, setRemoteUrl] = useState("");
+	const [loading, setLoading] = useState(false);
+	const { toast } = useToast();
+
+	useEffect(() => {
+		if (!path) return;
+		setInitialBranch("main");
+		setGitignoreTemplate("");
+		setInitialCommit(true);
+		setRemoteName("origin");
+		setRemoteUrl("");
+		window.gitagen.projects
+			.listGitignoreTemplates()
+			.then(setTemplates)
+			.catch(() => setTemplates([]));
+	}, [path]);
+
+	const canInit =
+		!loading && !!initialBranch.trim() && (!remoteUrl.trim() || !!remoteName.trim());
+
+	const handleInit = async () => {
+		if (!canInit) return;
+		setLoading(true);
+		try {
+			const initError = await useProjectStore.getState().initPendingProject({
+				initialBranch: initialBranch.trim(),
+				gitignoreTemplate: gitignoreTemplate || undefined,
+				initialCommit,
+				remote: remoteUrl.trim()
+					? { name: remoteName.trim(), url: remoteUrl.trim() }
+					: undefined,
+			});
+			if (initError) {
+				toast.error("Repository initialized, but setup did not finish", initError);
+			} else {
+				toast.success("Repository initialized", path ?? undefined);
+			}
+		} catch (error) {
+			toast.error("Failed to initialize repository", getErrorMessage(error));
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	return (
+		<Dialog
+			open={path !== null}
+			onOpenChange={(open) => {
+				if (!open && !loading) useProjectStore.getState().cancelPendingInit();
+			}}
+		>
+			<DialogContent size="sm" className="p-0">
+				<ModalShell
+					title="Initialize Repository"
+					description={`${path ?? ""} is not a git repository. Initialize one here?`}
+				>
+					<div className="space-y-3">
+						<div>
+							<label htmlFor="init-branch" className={labelClass}>
+								Initial branch
+							</label>
+							<input
+								id="init-branch"
+								type="text"
+								value={initialBranch}
+								onChange={(e) => setInitialBranch(e.target.value)}
+								className="input w-full font-mono text-xs"
+								autoFocus
+							/>
+						</div>
+						<div>
+							<label htmlFor="init-gitignore" className={labelClass}>
+								.gitignore template
+							</label>
+							<select
+								id="init-gitignore"
+								value={gitignoreTemplate}
+								onChange={(e) => setGitignoreTemplate(e.target.value)}
+								className="input w-full text-xs"
+							>
+								<option value="">None</option>
+								{templates.map((template) => (
+									<option key={template} value={template}>
+										{template}
+									</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<label htmlFor="init-remote-url" className={labelClass}>
+								Remote (optional)
+							</label>
+							<div className="flex gap-2">
+								<input
+									type="text"
+									value={remoteName}
+									onChange={(e) => setRemoteName(e.target.value)}
+									placeholder="Name"
+									aria-label="Remote name"
+									className="input w-24 font-mono text-xs"
+								/>
+								<input
+									id="init-remote-url"
+									type="text"
+									value={remoteUrl}
+									onChange={(e) => setRemoteUrl(e.target.value)}
+									placeholder="https://github.com/org/repo.git"
+									className="input min-w-0 flex-1 font-mono text-xs"
+								/>
+							</div>
+						</div>
+						<label className="flex cursor-pointer items-center gap-2">
+							<input
+								type="checkbox"
+								checked={initialCommit}
+								onChange={(e) => setInitialCommit(e.target.checked)}
+								className="h-4 w-4 rounded border-(--border-primary)"
+							/>
+							<span className="text-xs text-(--text-secondary)">
+								Commit the folder's files as "Initial commit"
+							</span>
+						</label>
+					</div>
+					<div className="mt-4 flex justify-end gap-2">
+						<button
+							type="button"
+							onClick={() => useProjectStore.getState().cancelPendingInit()}
+							disabled={loading}
+							className="btn btn-secondary text-xs"
+						>
+							Cancel
+						</button>
+						<button
+							type="button"
+							onClick={() => void handleInit()}
+							disabled={!canInit}
+							className="btn btn-primary text-xs disabled:opacity-50"
+						>
+							{loading ? "Initializing…" : "Initialize Repository"}
+						</button>
+					</div>
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
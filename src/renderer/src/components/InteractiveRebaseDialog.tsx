@@ -0,0 +1,284 @@
+import { useState, useEffect } from "react";
+import { GripVertical } from "lucide-react";
+import type { CommitInfo, RebaseTodoAction, RebaseTodoEntry } from "../../../shared/types";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+import { useToast } from "../toast/provider";
+import { useUIStore } from "../stores/uiStore";
+
+/** Longer ranges are refused rather than planned from a partial list, which would drop commits */
+const MAX_PLAN_COMMITS = 200;
+
+const ACTIONS: { value: RebaseTodoAction; label: string }[] = [
+	{ value: "pick", label: "Pick" },
+	{ value: "reword", label: "Reword" },
+	{ value: "squash", label: "Squash" },
+	{ value: "fixup", label: "Fixup" },
+	{ value: "drop", label: "Drop" },
+];
+
+interface PlanRow {
+	commit: CommitInfo;
+	action: RebaseTodoAction;
+	message: string;
+}
+
+interface InteractiveRebaseDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	projectId: string;
+	/** Commits after this one (up to HEAD) are rewritten on top of it */
+	baseOid: string;
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+function validatePlan(rows: PlanRow[]): string | null {
+	if (rows.some((row) => row.commit.parents.length > 1)) {
+		return "Merge commits in this range cannot be rebased interactively.";
+	}
+	const firstKept = rows.find((row) => row.action !== "drop");
+	if (!firstKept) return "The plan drops every commit.";
+	if (firstKept.action === "squash" || firstKept.action === "fixup") {
+		return "The first commit cannot be squashed or fixed up.";
+	}
+	if (rows.some((row) => row.action === "reword" && !row.message.trim())) {
+		return "Reworded commits need a message.";
+	}
+	return null;
+}
+
+export function InteractiveRebaseDialog({
+	open,
+	onOpenChange,
+	projectId,
+	baseOid,
+}: InteractiveRebaseDialogProps) {
+	const [rows, setRows] = useState<PlanRow[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [running, setRunning] = useState(false);
+	const [dragIndex, setDragIndex] = useState<number | null>(null);
+	const [tooManyCommits, setTooManyCommits] = useState(false);
+	const { toast } = useToast();
+
+	// Load the commits between the base and HEAD, oldest first like git's todo list
+	useEffect(() => {
+		if (!open) return;
+		let cancelled = false;
+		setLoading(true);
+		setTooManyCommits(false);
+		window.gitagen.repo
+			.getLog(projectId, { branch: `${baseOid}..HEAD`, limit: MAX_PLAN_COMMITS + 1 })
+			.then((commits) => {
+				if (cancelled) return;
+				setTooManyCommits(commits.length > MAX_PLAN_COMMITS);
+				setRows(
+					commits
+						.slice(0, MAX_PLAN_COMMITS)
+						.reverse()
+						.map((commit) => ({ commit, action: "pick", message: commit.message }))
+				);
+			})
+			.catch((error) => {
+				if (!cancelled) toast.error("Failed to load commits", getErrorMessage(error));
+			})
+			.finally(() => {
+				if (!cancelled) setLoading(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [open, projectId, baseOid, toast]);
+
+	const updateRow = (index: number, patch: Partial<PlanRow>) => {
+		setRows((current) => current.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+	};
+
+	const handleActionChange = async (index: number, action: RebaseTodoAction) => {
+		updateRow(index, { action });
+		const row = rows[index];
+		if (action !== "reword" || !row || row.message !== row.commit.message) return;
+		// The log only carries subjects; load the body so rewording does not drop it
+		let body: string | undefined;
+		try {
+			const detail = await window.gitagen.repo.getCommitDetail(projectId, row.commit.oid);
+			body = detail?.body.trim();
+		} catch (error) {
+			toast.error("Failed to load commit message", getErrorMessage(error));
+			return;
+		}
+		if (!body) return;
+		setRows((current) =>
+			current.map((r) =>
+				r.commit.oid === row.commit.oid && r.message === row.commit.message
+					? { ...r, message: `${row.commit.message}\n\n${body}` }
+					: r
+			)
+		);
+	};
+
+	const moveRow = (from: number, to: number) => {
+		if (from === to) return;
+		setRows((current) => {
+			const next = current.slice();
+			const [moved] = next.splice(from, 1);
+			next.splice(to, 0, moved!);
+			return next;
+		});
+	};
+
+	const validationError = tooManyCommits
+		? `More than ${MAX_PLAN_COMMITS} commits follow this one. Choose a more recent base commit.`
+		: rows.length > 0
+			? validatePlan(rows)
+			: null;
+
+	const handleStart = async () => {
+		const todo: RebaseTodoEntry[] = rows.map((row) => ({
+			oid: row.commit.oid,
+			action: row.action,
+			...(row.action === "reword" && { message: row.message }),
+		}));
+		setRunning(true);
+		try {
+			await window.gitagen.repo.rebase(projectId, { onto: baseOid, todo });
+			toast.success("Rebase complete", `${rows.length} commits rewritten`);
+			onOpenChange(false);
+		} catch (error) {
+			const state = await window.gitagen.repo.getConflictState(projectId).catch(() => null);
+			if (state?.type === "rebase") {
+				const step =
+					state.currentStep != null && state.totalSteps != null
+						? ` at step ${state.currentStep}/${state.totalSteps}`
+						: "";
+				toast.error(`Rebase stopped${step}`, "Resolve the conflicts to continue.");
+				onOpenChange(false);
+				useUIStore.getState().openConflictResolver();
+			} else {
+				toast.error("Rebase failed", getErrorMessage(error));
+			}
+		} finally {
+			setRunning(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent size="lg" className="p-0">
+				<ModalShell
+					title="Interactive Rebase"
+					description={`Rewrite the commits after ${baseOid.slice(0, 7)}. Drag to reorder; the top commit is applied first.`}
+					footer={
+						<>
+							{validationError && (
+								<span className="mr-auto text-xs text-(--danger)">
+									{validationError}
+								</span>
+							)}
+							<button
+								type="button"
+								onClick={() => onOpenChange(false)}
+								className="btn btn-secondary text-xs"
+							>
+								Cancel
+							</button>
+							<button
+								type="button"
+								onClick={handleStart}
+								disabled={
+									running || loading || rows.length === 0 || !!validationError
+								}
+								className="btn btn-primary text-xs disabled:opacity-50"
+							>
+								{running ? "Rebasing…" : "Start Rebase"}
+							</button>
+						</>
+					}
+				>
+					{loading ? (
+						<div className="flex items-center justify-center py-6">
+							<div className="h-5 w-5 animate-spin rounded-full border-2 border-(--border-primary) border-t-(--text-muted)" />
+						</div>
+					) : rows.length === 0 ? (
+						<p className="py-6 text-center text-xs text-(--text-muted)">
+							No commits after this one on the current branch.
+						</p>
+					) : (
+						<div className="space-y-1">
+							{rows.map((row, index) => (
+								<div
+									key={row.commit.oid}
+									draggable
+									onDragStart={() => setDragIndex(index)}
+									onDragOver={(e) => {
+										e.preventDefault();
+										if (dragIndex === null || dragIndex === index) return;
+										moveRow(dragIndex, index);
+										setDragIndex(index);
+									}}
+									onDragEnd={() => setDragIndex(null)}
+									className={`rounded border border-(--border-secondary) px-2 py-1.5 ${
+										dragIndex === index ? "bg-(--bg-hover)" : ""
+									} ${row.action === "drop" ? "opacity-50" : ""}`}
+								>
+									<div className="flex items-center gap-2">
+										<GripVertical
+											size={14}
+											className="shrink-0 cursor-grab text-(--text-subtle)"
+										/>
+										<select
+											value={row.action}
+											onChange={(e) =>
+												void handleActionChange(
+													index,
+													(e.target as HTMLSelectElement)
+														.value as RebaseTodoAction
+												)
+											}
+											className="input w-24 shrink-0 text-xs"
+											aria-label={`Action for ${row.commit.oid.slice(0, 7)}`}
+										>
+											{ACTIONS.map((action) => (
+												<option key={action.value} value={action.value}>
+													{action.label}
+												</option>
+											))}
+										</select>
+										<code className="shrink-0 font-mono text-[11px] text-(--text-muted)">
+											{row.commit.oid.slice(0, 7)}
+										</code>
+										<span
+											className={`truncate text-xs text-(--text-primary) ${
+												row.action === "drop" ? "line-through" : ""
+											}`}
+										>
+											{row.commit.message}
+										</span>
+									</div>
+									{row.action === "reword" && (
+										<textarea
+											value={row.message}
+											onChange={(e) =>
+												updateRow(index, {
+													message: (e.target as HTMLTextAreaElement)
+														.value,
+												})
+											}
+											rows={3}
+											className="input mt-1.5 w-full resize-none font-mono text-xs"
+											aria-label={`New message for ${row.commit.oid.slice(0, 7)}`}
+										/>
+									)}
+								</div>
+							))}
+						</div>
+					)}
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,7 +1,17 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { ArrowUpCircle, GitCommit, Loader2, RotateCcw, Shield, Tag } from "lucide-react";
-import type { CommitInfo } from "../../../shared/types";
+import {
+	ArrowUpCircle,
+	Cloud,
+	GitBranch,
+	GitCommit,
+	ListOrdered,
+	Loader2,
+	RotateCcw,
+	Shield,
+	Tag,
+} from "lucide-react";
+import type { CommitInfo, CommitRef } from "../../../shared/types";
 import { useToast } from "../toast/provider";
 import {
 	ContextMenu,
@@ -11,9 +21,16 @@ import {
 	ContextMenuTrigger,
 } from "./ui/context-menu";
 import { CreateTagDialog } from "./CreateTagDialog";
+import { InteractiveRebaseDialog } from "./InteractiveRebaseDialog";
 import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
 import { useUIStore } from "../stores/uiStore";
+import {
+	createGraphState,
+	layoutCommitGraph,
+	type GraphRow,
+	type GraphState,
+} from "../utils/commit-graph";
 
 /** Local extension: pre-computed relative time string to avoid new Date() on every row render */
 type CommitWithFormattedDate = CommitInfo & { formattedDate: string };
@@ -21,6 +38,89 @@ type CommitWithFormattedDate = CommitInfo & { formattedDate: string };
 const ROW_HEIGHT = 80;
 const OVERSCAN = 5;
 const PAGE_SIZE = 25;
+const LANE_WIDTH = 12;
+const MAX_GRAPH_LANES = 8;
+const NODE_Y = 18;
+const LANE_COLORS = [
+	"#4c8bf5",
+	"#2f9e44",
+	"#d29922",
+	"#c2255c",
+	"#7048e8",
+	"#0c8599",
+	"#e8590c",
+	"#5c940d",
+];
+
+function laneX(lane: number): number {
+	return lane * LANE_WIDTH + LANE_WIDTH / 2;
+}
+
+function laneColor(lane: number): string {
+	return LANE_COLORS[lane % LANE_COLORS.length]!;
+}
+
+function GraphCell({ row, width, isMerge }: { row: GraphRow; width: number; isMerge: boolean }) {
+	const nodeX = laneX(row.lane);
+	return (
+		<svg
+			width={width}
+			height={ROW_HEIGHT}
+			className="pointer-events-none absolute left-1 top-0 overflow-hidden"
+			aria-hidden
+		>
+			{row.edges.map((edge, index) => {
+				const fromX = laneX(edge.fromLane);
+				const toX = laneX(edge.toLane);
+				const color = laneColor(edge.lane);
+				if (edge.segment === "through") {
+					return (
+						<line
+							key={index}
+							x1={fromX}
+							y1={0}
+							x2={toX}
+							y2={ROW_HEIGHT}
+							stroke={color}
+							strokeWidth={1.5}
+						/>
+					);
+				}
+				const path =
+					edge.segment === "top"
+						? `M ${fromX} 0 C ${fromX} ${NODE_Y / 2}, ${toX} ${NODE_Y / 2}, ${toX} ${NODE_Y}`
+						: `M ${fromX} ${NODE_Y} C ${fromX} ${NODE_Y + 24}, ${toX} ${NODE_Y + 12}, ${toX} ${ROW_HEIGHT}`;
+				return <path key={index} d={path} fill="none" stroke={color} strokeWidth={1.5} />;
+			})}
+			<circle
+				cx={nodeX}
+				cy={NODE_Y}
+				r={isMerge ? 3 : 4}
+				fill={isMerge ? "var(--bg-primary)" : laneColor(row.lane)}
+				stroke={laneColor(row.lane)}
+				strokeWidth={1.5}
+			/>
+		</svg>
+	);
+}
+
+function RefBadge({ gitRef }: { gitRef: CommitRef }) {
+	const Icon = gitRef.type === "remote" ? Cloud : GitBranch;
+	return (
+		<span
+			className={`shrink-0 flex items-center gap-0.5 rounded px-1.5 py-px font-medium ${
+				gitRef.current
+					? "bg-(--accent-primary) text-white"
+					: gitRef.type === "remote"
+						? "bg-(--bg-tertiary) text-(--text-secondary)"
+						: "bg-(--success-bg) text-(--success)"
+			}`}
+		>
+			<Icon size={9} />
+			{gitRef.name}
+		</span>
+	);
+}
 
 function annotateWithPushedStatus(
 	commits: CommitInfo[],
@@ -110,6 +210,7 @@ export default function LogPanel() {
 	const [tagsByOid, setTagsByOid] = useState<Map<string, string[]>>(new Map());
 	const [tagDialogOpen, setTagDialogOpen] = useState(false);
 	const [tagDialogOid, setTagDialogOid] = useState<string | null>(null);
+	const [rebaseBaseOid, setRebaseBaseOid] = useState<string | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [showSpinner, setShowSpinner] = useState(false);
 	const [loadingMore, setLoadingMore] = useState(false);
@@ -117,6 +218,35 @@ export default function LogPanel() {
 	const [undoing, setUndoing] = useState(false);
 	const [hoveredRowIndex, setHoveredRowIndex] = useState<number | null>(null);
 	const scrollRef = useRef<HTMLDivElement>(null);
+	const graphRef = useRef<{ oids: string[]; rows: GraphRow[]; state: GraphState }>({
+		oids: [],
+		rows: [],
+		state: createGraphState(),
+	});
+
+	// Appended pages continue from the previous lane state; any other change re-lays out the list
+	const graphRows = useMemo(() => {
+		const previous = graphRef.current;
+		const extendsPrevious =
+			previous.oids.length > 0 &&
+			commits.length >= previous.oids.length &&
+			previous.oids.every((oid, index) => commits[index]?.oid === oid);
+		const base = extendsPrevious ? previous : { oids: [], rows: [], state: createGraphState() };
+		const added = commits.slice(base.oids.length);
+		if (extendsPrevious && added.length === 0) return previous.rows;
+		const layout = layoutCommitGraph(added, base.state);
+		graphRef.current = {
+			oids: [...base.oids, ...added.map((c) => c.oid)],
+			rows: [...base.rows, ...layout.rows],
+			state: layout.state,
+		};
+		return graphRef.current.rows;
+	}, [commits]);
+	const graphWidth =
+		Math.min(
+			MAX_GRAPH_LANES,
+			graphRows.reduce((max, row) => Math.max(max, row.width), 1)
+		) * LANE_WIDTH;
 
 	const refreshTags = useCallback(() => {
 		window.gitagen.repo
@@ -147,7 +277,7 @@ export default function LogPanel() {
 	const refreshFirstPage = useCallback(
 		(opts?: { replace?: boolean }) => {
 			Promise.all([
-				window.gitagen.repo.getLog(projectId, { limit: PAGE_SIZE }),
+				window.gitagen.repo.getLog(projectId, { limit: PAGE_SIZE, topoOrder: true }),
 				window.gitagen.repo.getUnpushedOids(projectId),
 			])
 				.then(([logData, oids]) => {
@@ -176,7 +306,7 @@ export default function LogPanel() {
 
 		const offset = commits.length;
 		window.gitagen.repo
-			.getLog(projectId, { limit: PAGE_SIZE, offset })
+			.getLog(projectId, { limit: PAGE_SIZE, offset, topoOrder: true })
 			.then((page) => {
 				if (page.length > 0) {
 					const annotated = annotateWithPushedStatus(page, unpushedOids);
@@ -340,6 +470,16 @@ export default function LogPanel() {
 					hasRemotes={hasRemotes}
 				/>
 			)}
+			{rebaseBaseOid && (
+				<InteractiveRebaseDialog
+					open
+					onOpenChange={(open) => {
+						if (!open) setRebaseBaseOid(null);
+					}}
+					projectId={projectId}
+					baseOid={rebaseBaseOid}
+				/>
+			)}
 			{canUndo && (
 				<div className="flex items-center justify-between border-b border-(--border-secondary) px-3 py-1.5">
 					<span className="text-[10px] text-(--text-muted)">
@@ -371,6 +511,10 @@ export default function LogPanel() {
 						const isUnpushed = c.pushed === false;
 						const commitTags = tagsByOid.get(c.oid) ?? [];
 						const isHovered = hoveredRowIndex === virtualRow.index;
+						const graphRow = graphRows[virtualRow.index];
+						const branchRefs = (c.refs ?? []).filter(
+							(ref) => ref.type === "branch" || ref.type === "remote"
+						);
 						return (
 							<ContextMenu key={virtualRow.key}>
 								<ContextMenuTrigger>
@@ -398,8 +542,16 @@ export default function LogPanel() {
 										style={{
 											height: `${virtualRow.size}px`,
 											transform: `translateY(${virtualRow.start}px)`,
+											paddingLeft: `${graphWidth + 12}px`,
 										}}
 									>
+										{graphRow && (
+											<GraphCell
+												row={graphRow}
+												width={graphWidth}
+												isMerge={c.parents.length > 1}
+											/>
+										)}
 										<div className="flex items-start justify-between gap-2">
 											<div className="min-w-0 flex-1">
 												<p className="truncate text-[12px] font-medium leading-snug text-(--text-primary)">
@@ -430,6 +582,12 @@ export default function LogPanel() {
 															<span>pushed</span>
 														</span>
 													)}
+													{branchRefs.map((ref) => (
+														<RefBadge
+															key={`${ref.type}:${ref.name}`}
+															gitRef={ref}
+														/>
+													))}
 													{commitTags.map((tagName) => (
 														<span
 															key={tagName}
@@ -490,6 +648,12 @@ export default function LogPanel() {
 												Push tag {tagName}
 											</ContextMenuItem>
 										))}
+									{!isFirst && (
+										<ContextMenuItem onClick={() => setRebaseBaseOid(c.oid)}>
+											<ListOrdered size={12} className="shrink-0" />
+											Interactive Rebase onto Here...
+										</ContextMenuItem>
+									)}
 									<ContextMenuSeparator />
 									<ContextMenuItem
 										onClick={() => {
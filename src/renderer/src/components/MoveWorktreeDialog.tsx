@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import type { WorktreeInfo } from "../../../shared/types";
+import { useToast } from "../toast/provider";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+
+interface MoveWorktreeDialogProps {
+	/** The worktree to move; null closes the dialog */
+	worktree: WorktreeInfo | null;
+	onClose: () => void;
+	projectId: string;
+	onMoved: (fromPath: string, toPath: string) => void;
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+/** Moves a linked worktree, suggesting the path the current location settings give it. */
+export function MoveWorktreeDialog({
+	worktree,
+	onClose,
+	projectId,
+	onMoved,
+}: MoveWorktreeDialogProps) {
+	const [destination, setDestination] = useState("");
+	const [moving, setMoving] = useState(false);
+	const { toast } = useToast();
+
+	useEffect(() => {
+		if (!worktree) return;
+		setDestination("");
+		const branch = worktree.branch || worktree.name || worktree.head.slice(0, 7);
+		window.gitagen.repo
+			.resolveWorktreePath(projectId, branch)
+			.then(setDestination)
+			.catch(() => setDestination(worktree.path));
+	}, [worktree, projectId]);
+
+	const target = destination.trim();
+	const canMove = !!worktree && !moving && !!target && target !== worktree.path;
+
+	const handleMove = async () => {
+		if (!worktree || !canMove) return;
+		setMoving(true);
+		try {
+			const movedPath = await window.gitagen.repo.moveWorktree(
+				projectId,
+				worktree.path,
+				target
+			);
+			toast.success("Worktree moved", movedPath);
+			onMoved(worktree.path, movedPath);
+			onClose();
+		} catch (error) {
+			toast.error("Failed to move worktree", getErrorMessage(error));
+		} finally {
+			setMoving(false);
+		}
+	};
+
+	return (
+		<Dialog open={worktree !== null} onOpenChange={(next) => !next && !moving && onClose()}>
+			<DialogContent size="sm" className="p-0">
+				<ModalShell
+					title="Move worktree"
+					description={worktree?.path}
+					footer={
+						<>
+							<button
+								type="button"
+								onClick={onClose}
+								disabled={moving}
+								className="btn btn-secondary"
+							>
+								Cancel
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleMove()}
+								disabled={!canMove}
+								className="btn btn-primary"
+							>
+								{moving ? "Moving..." : "Move"}
+							</button>
+						</>
+					}
+				>
+					<label
+						htmlFor="move-worktree-destination"
+						className="mb-1 block text-xs font-medium text-(--text-muted)"
+					>
+						New location
+					</label>
+					<input
+						id="move-worktree-destination"
+						type="text"
+						value={destination}
+						onChange={(e) => setDestination(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") void handleMove();
+						}}
+						className="input w-full font-mono text-xs"
+						disabled={moving}
+						autoFocus
+					/>
+					<p className="mt-1 text-[11px] text-(--text-muted)">
+						Suggested from the worktree location settings. Projects opened from this
+						worktree follow it.
+					</p>
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -4,6 +4,14 @@ import type { RemoteInfo } from "../../../shared/types";
 import { useToast } from "../toast/provider";
 import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
+import { useHookStore } from "../stores/hookStore";
+import { confirmSkipHooks } from "../lib/skip-hooks";
+import {
+	ContextMenu,
+	ContextMenuContent,
+	ContextMenuItem,
+	ContextMenuTrigger,
+} from "./ui/context-menu";
 
 function formatFetchToast(r: {
 	branchesUpdated: number;
@@ -104,20 +112,26 @@ export default function RemotePanel() {
 		}
 	};
 
-	const handlePush = async () => {
+	const handlePush = async (noVerify = false) => {
 		setLoadingOp("push");
 		try {
-			const result = await window.gitagen.repo.push(projectId);
+			const result = await window.gitagen.repo.push(projectId, { noVerify });
 			void useRepoStore.getState().refreshStatus();
 			const { title, desc } = formatPushToast(result);
 			toast.success(title, desc);
 		} catch (error) {
 			toast.error("Push failed", error instanceof Error ? error.message : "Unknown error");
+			useHookStore.getState().setRetry("push", () => void handlePush(true));
 		} finally {
 			setLoadingOp(null);
 		}
 	};
 
+	const handlePushWithoutHooks = async () => {
+		if (!(await confirmSkipHooks("push"))) return;
+		await handlePush(true);
+	};
+
 	return (
 		<div className="flex flex-col gap-4 p-3">
 			<div className="flex gap-2">
@@ -143,19 +157,31 @@ export default function RemotePanel() {
 						<Download size={14} />
 					)}
 				</button>
-				<button
-					type="button"
-					onClick={handlePush}
-					disabled={loading || remotes.length === 0}
-					className="btn btn-primary flex items-center justify-center p-2"
-					title="Push"
-				>
-					{loadingOp === "push" ? (
-						<Loader2 size={14} className="animate-spin" />
-					) : (
-						<Upload size={14} />
-					)}
-				</button>
+				<ContextMenu>
+					<ContextMenuTrigger>
+						<button
+							type="button"
+							onClick={() => void handlePush()}
+							disabled={loading || remotes.length === 0}
+							className="btn btn-primary flex items-center justify-center p-2"
+							title="Push; right-click to skip hooks"
+						>
+							{loadingOp === "push" ? (
+								<Loader2 size={14} className="animate-spin" />
+							) : (
+								<Upload size={14} />
+							)}
+						</button>
+					</ContextMenuTrigger>
+					<ContextMenuContent>
+						<ContextMenuItem
+							onClick={() => void handlePushWithoutHooks()}
+							disabled={loading || remotes.length === 0}
+						>
+							Push Without Hooks…
+						</ContextMenuItem>
+					</ContextMenuContent>
+				</ContextMenu>
 			</div>
 			{remotes.length > 0 ? (
 				<div className="space-y-2">
@@ -1,6 +1,15 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { FolderOpen, Plus, GitBranch, Check, GitFork, ChevronRight, Trash2 } from "lucide-react";
+import {
+	FolderOpen,
+	Plus,
+	GitBranch,
+	Check,
+	GitFork,
+	ChevronRight,
+	Trash2,
+	Download,
+} from "lucide-react";
 import type { GroupedProject, Project, RepoStatus } from "../../../shared/types";
 import {
 	ContextMenu,
@@ -8,6 +17,7 @@ import {
 	ContextMenuItem,
 	ContextMenuTrigger,
 } from "./ui/context-menu";
+import { CloneRepositoryDialog } from "./CloneRepositoryDialog";
 
 const CARD_MIN_WIDTH = 250;
 const CARD_ROW_HEIGHT = 120;
@@ -201,6 +211,7 @@ interface StartPageProps {
 	projects: Project[];
 	onSelectProject: (project: Project) => void;
 	onAddProject: () => void;
+	onProjectCloned: (project: Project) => void;
 	onRemoveProject?: (projectId: string) => void;
 }
 
@@ -208,8 +219,10 @@ export default function StartPage({
 	projects,
 	onSelectProject,
 	onAddProject,
+	onProjectCloned,
 	onRemoveProject,
 }: StartPageProps) {
+	const [cloneOpen, setCloneOpen] = useState(false);
 	const [grouped, setGrouped] = useState<GroupedProject[] | null>(null);
 	const [statusMap, setStatusMap] = useState<Record<string, RepoStatus | null>>({});
 	const scrollRef = useRef<HTMLDivElement>(null);
@@ -300,16 +313,32 @@ export default function StartPage({
 					</h1>
 					<span className="text-sm text-(--text-muted)">{roots.length} repositories</span>
 				</div>
-				<button
-					type="button"
-					onClick={onAddProject}
-					className="btn btn-primary flex shrink-0 items-center gap-2 whitespace-nowrap"
-				>
-					<Plus size={16} strokeWidth={2} />
-					Add repository
-				</button>
+				<div className="flex shrink-0 items-center gap-2">
+					<button
+						type="button"
+						onClick={() => setCloneOpen(true)}
+						className="btn btn-secondary flex shrink-0 items-center gap-2 whitespace-nowrap"
+					>
+						<Download size={16} strokeWidth={2} />
+						Clone repository
+					</button>
+					<button
+						type="button"
+						onClick={onAddProject}
+						className="btn btn-primary flex shrink-0 items-center gap-2 whitespace-nowrap"
+					>
+						<Plus size={16} strokeWidth={2} />
+						Add repository
+					</button>
+				</div>
 			</header>
 
+			<CloneRepositoryDialog
+				open={cloneOpen}
+				onOpenChange={setCloneOpen}
+				onCloned={onProjectCloned}
+			/>
+
 			<div
 				ref={containerRef}
 				className="relative z-10 flex min-h-0 flex-1 flex-col overflow-hidden px-4 pb-6 sm:px-6 lg:px-8"
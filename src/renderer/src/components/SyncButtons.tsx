@@ -1,5 +1,4 @@
-import { useState } from "react";
-import { RefreshCw, ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+import { RefreshCw, ArrowDown, ArrowUp, Loader2, X } from "lucide-react";
 import { useToast } from "../toast/provider";
 import type {
 	FetchResultSummary,
@@ -8,8 +7,15 @@ import type {
 } from "../../../shared/types";
 import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
-
-type LoadingOp = "fetch" | "pull" | "push" | null;
+import { useHookStore } from "../stores/hookStore";
+import { formatProgress, useGitOperation } from "../hooks/useGitOperation";
+import { confirmSkipHooks } from "../lib/skip-hooks";
+import {
+	ContextMenu,
+	ContextMenuContent,
+	ContextMenuItem,
+	ContextMenuTrigger,
+} from "./ui/context-menu";
 
 function formatFetchToast(r: FetchResultSummary): { title: string; desc?: string } {
 	const parts: string[] = [];
@@ -68,57 +74,76 @@ export default function SyncButtons() {
 	const ahead = currentBranchInfo?.ahead ?? 0;
 	const behind = currentBranchInfo?.behind ?? 0;
 	const hasRemotes = remotes.length > 0;
-	const [loadingOp, setLoadingOp] = useState<LoadingOp>(null);
+	const { operation, begin, end, cancel, isCancelled } = useGitOperation();
+	const loadingOp = operation?.kind ?? null;
 	const loading = loadingOp !== null;
 	const disabled = loading || !hasRemotes;
 
+	const handleFailure = (operationId: string, label: string, error: unknown) => {
+		if (isCancelled(operationId)) toast.info(`${label} cancelled`);
+		else toast.error("Sync failed", getErrorMessage(error));
+	};
+
 	const runFetch = async () => {
 		if (loading) return;
-		setLoadingOp("fetch");
+		const operationId = begin("fetch");
 		try {
 			const result = await window.gitagen.repo.fetch(projectId, {
 				prune: true,
+				operationId,
 			});
 			void useRepoStore.getState().refreshStatus();
 			const { title, desc } = formatFetchToast(result);
 			toast.success(title, desc);
 		} catch (error) {
-			toast.error("Sync failed", getErrorMessage(error));
+			handleFailure(operationId, "Fetch", error);
 		} finally {
-			setLoadingOp(null);
+			end();
 		}
 	};
 
 	const runPull = async () => {
 		if (loading) return;
-		setLoadingOp("pull");
+		const operationId = begin("pull");
 		try {
-			const result = await window.gitagen.repo.pull(projectId, { behind });
+			const result = await window.gitagen.repo.pull(projectId, { behind, operationId });
 			void useRepoStore.getState().refreshStatus();
 			const { title, desc } = formatPullToast(result);
 			toast.success(title, desc);
 		} catch (error) {
-			toast.error("Sync failed", getErrorMessage(error));
+			handleFailure(operationId, "Pull", error);
 		} finally {
-			setLoadingOp(null);
+			end();
 		}
 	};
 
-	const runPush = async () => {
+	const runPush = async (noVerify = false) => {
 		if (loading) return;
-		setLoadingOp("push");
+		const operationId = begin("push");
 		try {
-			const result = await window.gitagen.repo.push(projectId, { ahead });
+			const result = await window.gitagen.repo.push(projectId, {
+				ahead,
+				noVerify,
+				operationId,
+			});
 			void useRepoStore.getState().refreshStatus();
 			const { title, desc } = formatPushToast(result);
 			toast.success(title, desc);
 		} catch (error) {
-			toast.error("Sync failed", getErrorMessage(error));
+			handleFailure(operationId, "Push", error);
+			if (!isCancelled(operationId)) {
+				useHookStore.getState().setRetry("push", () => void runPush(true));
+			}
 		} finally {
-			setLoadingOp(null);
+			end();
 		}
 	};
 
+	const runPushWithoutHooks = async () => {
+		if (loading || !(await confirmSkipHooks("push"))) return;
+		await runPush(true);
+	};
+
 	return (
 		<div className="flex shrink-0 items-center gap-0.5">
 			<button
@@ -153,28 +178,59 @@ export default function SyncButtons() {
 					</span>
 				)}
 			</button>
-			<button
-				type="button"
-				onClick={runPush}
-				disabled={disabled}
-				className="btn-icon relative rounded-md p-1.5"
-				title={ahead > 0 ? `Push (${ahead} ahead)` : "Push to remote"}
-				aria-label={ahead > 0 ? `Push ${ahead} commits to remote` : "Push to remote"}
-			>
-				{loadingOp === "push" ? (
-					<Loader2 size={15} className="animate-spin" />
-				) : (
-					<ArrowUp size={15} />
-				)}
-				{ahead > 0 && (
-					<span
-						className="absolute -right-1 -top-0.5 min-w-[12px] rounded-full bg-(--success-bg) px-1 py-0.5 text-center font-mono text-[9px] font-bold leading-none text-(--success)"
-						aria-label={`${ahead} commits ahead`}
+			<ContextMenu>
+				<ContextMenuTrigger>
+					<button
+						type="button"
+						onClick={() => void runPush()}
+						disabled={disabled}
+						className="btn-icon relative rounded-md p-1.5"
+						title={`${ahead > 0 ? `Push (${ahead} ahead)` : "Push to remote"}; right-click to skip hooks`}
+						aria-label={
+							ahead > 0 ? `Push ${ahead} commits to remote` : "Push to remote"
+						}
 					>
-						{ahead > 99 ? "99+" : ahead}
+						{loadingOp === "push" ? (
+							<Loader2 size={15} className="animate-spin" />
+						) : (
+							<ArrowUp size={15} />
+						)}
+						{ahead > 0 && (
+							<span
+								className="absolute -right-1 -top-0.5 min-w-[12px] rounded-full bg-(--success-bg) px-1 py-0.5 text-center font-mono text-[9px] font-bold leading-none text-(--success)"
+								aria-label={`${ahead} commits ahead`}
+							>
+								{ahead > 99 ? "99+" : ahead}
+							</span>
+						)}
+					</button>
+				</ContextMenuTrigger>
+				<ContextMenuContent>
+					<ContextMenuItem onClick={() => void runPushWithoutHooks()} disabled={disabled}>
+						Push Without Hooks…
+					</ContextMenuItem>
+				</ContextMenuContent>
+			</ContextMenu>
+			{operation && (
+				<div
+					className="ml-1 flex items-center gap-0.5"
+					title={operation.progress ? formatProgress(operation.progress) : undefined}
+				>
+					<span className="min-w-7 text-right font-mono text-[10px] tabular-nums text-(--text-muted)">
+						{operation.progress ? `${operation.progress.percent}%` : "…"}
 					</span>
-				)}
-			</button>
+					<button
+						type="button"
+						onClick={cancel}
+						disabled={operation.cancelling}
+						className="btn-icon rounded-md p-1"
+						title={`Cancel ${operation.kind}`}
+						aria-label={`Cancel ${operation.kind}`}
+					>
+						<X size={13} />
+					</button>
+				</div>
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+	AlertCircle,
+	CloudDownload,
+	ExternalLink,
+	GitMerge,
+	RefreshCw,
+	Trash2,
+} from "lucide-react";
+import type { WorktreeDashboard, WorktreeStatus } from "../../../shared/types";
+import { useToast } from "../toast/provider";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+
+interface WorktreeDashboardDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	projectId: string;
+	/** Called after worktrees were removed, so the panel can reload its list */
+	onWorktreesChanged: () => void;
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+function formatAge(unixSeconds: number): string {
+	const sec = Math.max(0, Math.floor(Date.now() / 1000) - unixSeconds);
+	if (sec < 60) return "just now";
+	if (sec < 3600) return `${Math.floor(sec / 60)}m ago`;
+	if (sec < 86400) return `${Math.floor(sec / 3600)}h ago`;
+	if (sec < 2592000) return `${Math.floor(sec / 86400)}d ago`;
+	if (sec < 31536000) return `${Math.floor(sec / 2592000)}mo ago`;
+	return `${Math.floor(sec / 31536000)}y ago`;
+}
+
+function getName(worktree: WorktreeStatus): string {
+	return worktree.name ?? worktree.path.split("/").pop() ?? worktree.path;
+}
+
+function isClean(worktree: WorktreeStatus): boolean {
+	return (
+		worktree.staged + worktree.unstaged + worktree.untracked + worktree.conflicted === 0 &&
+		!worktree.error
+	);
+}
+
+function describeChanges(worktree: WorktreeStatus): string {
+	const parts: string[] = [];
+	if (worktree.conflicted) parts.push(`${worktree.conflicted} conflicted`);
+	if (worktree.staged) parts.push(`${worktree.staged} staged`);
+	if (worktree.unstaged) parts.push(`${worktree.unstaged} modified`);
+	if (worktree.untracked) parts.push(`${worktree.untracked} untracked`);
+	return parts.length > 0 ? parts.join(" · ") : "Clean";
+}
+
+function describeUpstream(worktree: WorktreeStatus): string {
+	if (!worktree.upstream) return worktree.branch ? "No upstream" : "Detached";
+	if (!worktree.ahead && !worktree.behind) return "Up to date";
+	return [worktree.ahead && `↑${worktree.ahead}`, worktree.behind && `↓${worktree.behind}`]
+		.filter(Boolean)
+		.join(" ");
+}
+
+/** State of every worktree of the project, with actions across several of them. */
+export function WorktreeDashboardDialog({
+	open,
+	onOpenChange,
+	projectId,
+	onWorktreesChanged,
+}: WorktreeDashboardDialogProps) {
+	const [dashboard, setDashboard] = useState<WorktreeDashboard | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [busy, setBusy] = useState<"fetch" | "remove" | null>(null);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const { toast } = useToast();
+
+	const load = useCallback(async () => {
+		setLoading(true);
+		try {
+			const next = await window.gitagen.repo.getWorktreeDashboard(projectId);
+			setDashboard(next);
+			setSelected(
+				(prev) => new Set(next.worktrees.filter((w) => prev.has(w.path)).map((w) => w.path))
+			);
+		} catch (error) {
+			toast.error("Failed to load worktree status", getErrorMessage(error));
+		} finally {
+			setLoading(false);
+		}
+	}, [projectId, toast]);
+
+	useEffect(() => {
+		if (!open) return;
+		setSelected(new Set());
+		void load();
+	}, [open, load]);
+
+	const worktrees = dashboard?.worktrees ?? [];
+	const removable = worktrees.filter((w) => !w.isMainWorktree && w.merged && isClean(w));
+
+	const toggleSelected = (path: string) => {
+		setSelected((prev) => {
+			const next = new Set(prev);
+			if (next.has(path)) next.delete(path);
+			else next.add(path);
+			return next;
+		});
+	};
+
+	const handleFetchAll = async () => {
+		setBusy("fetch");
+		try {
+			await window.gitagen.repo.fetch(projectId, { all: true, prune: true });
+			toast.success("Fetched all remotes");
+			await load();
+		} catch (error) {
+			toast.error("Fetch failed", getErrorMessage(error));
+		} finally {
+			setBusy(null);
+		}
+	};
+
+	const handleRemoveMerged = async () => {
+		if (removable.length === 0) return;
+		const confirmed = await window.gitagen.app.confirm({
+			title: "Remove Merged Worktrees",
+			message: `Remove ${removable.length} merged worktree${removable.length === 1 ? "" : "s"} without local changes?`,
+			detail: removable.map((w) => `${getName(w)} (${w.branch})`).join("\n"),
+			confirmLabel: "Remove",
+			cancelLabel: "Cancel",
+		});
+		if (!confirmed) return;
+		setBusy("remove");
+		const failures: string[] = [];
+		// One at a time: each removal updates the repository's worktree list
+		for (const worktree of removable) {
+			try {
+				await window.gitagen.repo.removeWorktree(projectId, worktree.path);
+			} catch (error) {
+				failures.push(`${getName(worktree)}: ${getErrorMessage(error)}`);
+			}
+		}
+		const removed = removable.length - failures.length;
+		if (failures.length > 0) {
+			toast.error(`Removed ${removed} of ${removable.length} worktrees`, failures.join("\n"));
+		} else {
+			toast.success(`Removed ${removed} merged worktree${removed === 1 ? "" : "s"}`);
+		}
+		onWorktreesChanged();
+		await load();
+		setBusy(null);
+	};
+
+	const handleOpenSelected = async () => {
+		for (const path of selected) {
+			try {
+				await window.gitagen.repo.openWorktreeInEditor(projectId, path);
+			} catch (error) {
+				toast.error("Failed to open worktree", getErrorMessage(error));
+			}
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !busy && onOpenChange(next)}>
+			<DialogContent size="lg" className="p-0">
+				<ModalShell
+					title="Worktree status"
+					description={
+						dashboard?.defaultBranch
+							? `Merged means the branch has nothing that ${dashboard.defaultBranch} lacks.`
+							: "No default branch found, so merge state is unknown."
+					}
+					footer={
+						<>
+							<button
+								type="button"
+								onClick={() => void load()}
+								disabled={loading || busy !== null}
+								className="btn btn-secondary mr-auto"
+								title="Reload status"
+							>
+								<RefreshCw size={12} className={loading ? "animate-spin" : ""} />
+								Refresh
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleFetchAll()}
+								disabled={busy !== null}
+								className="btn btn-secondary"
+							>
+								<CloudDownload size={12} />
+								{busy === "fetch" ? "Fetching..." : "Fetch all"}
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleOpenSelected()}
+								disabled={selected.size === 0}
+								className="btn btn-secondary"
+							>
+								<ExternalLink size={12} />
+								Open in editor{selected.size > 0 ? ` (${selected.size})` : ""}
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleRemoveMerged()}
+								disabled={busy !== null || removable.length === 0}
+								className="btn btn-primary"
+								title="Remove worktrees whose branch is merged and that have no local changes"
+							>
+								<Trash2 size={12} />
+								{busy === "remove"
+									? "Removing..."
+									: `Remove merged clean (${removable.length})`}
+							</button>
+						</>
+					}
+				>
+					{!dashboard && loading ? (
+						<p className="text-xs text-(--text-muted)">Loading worktree status...</p>
+					) : (
+						<table className="w-full text-left text-[11px]">
+							<thead className="text-[10px] text-(--text-muted)">
+								<tr>
+									<th className="w-6 pb-1.5" />
+									<th className="pb-1.5 font-medium">Worktree</th>
+									<th className="pb-1.5 font-medium">Changes</th>
+									<th className="pb-1.5 font-medium">Upstream</th>
+									<th className="pb-1.5 font-medium">Last commit</th>
+									<th className="pb-1.5 font-medium">Merged</th>
+								</tr>
+							</thead>
+							<tbody>
+								{worktrees.map((w) => (
+									<tr
+										key={w.path}
+										className="border-t border-(--border-secondary) align-top"
+									>
+										<td className="py-1.5">
+											<input
+												type="checkbox"
+												checked={selected.has(w.path)}
+												onChange={() => toggleSelected(w.path)}
+												aria-label={`Select ${getName(w)}`}
+											/>
+										</td>
+										<td className="max-w-48 py-1.5 pr-3" title={w.path}>
+											<p className="truncate font-medium text-(--text-primary)">
+												{getName(w)}
+												{w.isMainWorktree && (
+													<span className="ml-1 text-[10px] font-normal text-(--text-muted)">
+														main
+													</span>
+												)}
+											</p>
+											<p className="truncate font-mono text-[10px] text-(--text-subtle)">
+												{w.branch || w.head.slice(0, 7)}
+											</p>
+										</td>
+										{w.error ? (
+											<td colSpan={4} className="py-1.5 text-(--danger)">
+												<span className="flex items-start gap-1">
+													<AlertCircle
+														size={11}
+														className="mt-0.5 shrink-0"
+													/>
+													{w.error}
+												</span>
+											</td>
+										) : (
+											<>
+												<td
+													className={`py-1.5 pr-3 ${
+														isClean(w)
+															? "text-(--text-muted)"
+															: w.conflicted
+																? "text-(--danger)"
+																: "text-(--warning)"
+													}`}
+												>
+													{describeChanges(w)}
+												</td>
+												<td
+													className="py-1.5 pr-3 text-(--text-secondary)"
+													title={w.upstream ?? undefined}
+												>
+													{describeUpstream(w)}
+												</td>
+												<td className="py-1.5 pr-3 text-(--text-secondary)">
+													{w.lastCommitAt
+														? formatAge(w.lastCommitAt)
+														: "—"}
+												</td>
+												<td className="py-1.5">
+													{w.merged && (
+														<span className="inline-flex items-center gap-1 text-(--success)">
+															<GitMerge size={11} />
+															Merged
+														</span>
+													)}
+												</td>
+											</>
+										)}
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import type { WorktreeLocation } from "../../../shared/types";
+import { useToast } from "../toast/provider";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+import { WorktreeLocationFields } from "./WorktreeLocationFields";
+
+interface WorktreeLocationDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	projectId: string;
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+/** Edits where this project's new worktrees go, overriding the global setting. */
+export function WorktreeLocationDialog({
+	open,
+	onOpenChange,
+	projectId,
+}: WorktreeLocationDialogProps) {
+	const [useGlobal, setUseGlobal] = useState(true);
+	const [location, setLocation] = useState<WorktreeLocation | null>(null);
+	const [saving, setSaving] = useState(false);
+	const { toast } = useToast();
+
+	useEffect(() => {
+		if (!open) return;
+		setLocation(null);
+		void Promise.all([
+			window.gitagen.settings.getGlobal(),
+			window.gitagen.settings.getProjectPrefs(projectId),
+		]).then(([settings, prefs]) => {
+			const override = prefs?.worktreeLocation ?? null;
+			setUseGlobal(!override);
+			setLocation(override ?? settings.worktreeLocation);
+		});
+	}, [open, projectId]);
+
+	const handleSave = async () => {
+		if (!location) return;
+		setSaving(true);
+		try {
+			await window.gitagen.settings.setProjectPrefs(projectId, {
+				worktreeLocation: useGlobal ? null : location,
+			});
+			toast.success("Worktree location saved");
+			onOpenChange(false);
+		} catch (error) {
+			toast.error("Failed to save worktree location", getErrorMessage(error));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+			<DialogContent size="sm" className="p-0">
+				<ModalShell
+					title="Worktree location"
+					description="Where this project's new worktrees are created and how they are named. Existing worktrees stay where they are until moved."
+					bodyClassName="space-y-3"
+					footer={
+						<>
+							<button
+								type="button"
+								onClick={() => onOpenChange(false)}
+								disabled={saving}
+								className="btn btn-secondary"
+							>
+								Cancel
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleSave()}
+								disabled={saving || !location}
+								className="btn btn-primary"
+							>
+								{saving ? "Saving..." : "Save"}
+							</button>
+						</>
+					}
+				>
+					<label className="flex cursor-pointer items-center gap-2">
+						<input
+							type="checkbox"
+							checked={useGlobal}
+							onChange={(e) => setUseGlobal(e.target.checked)}
+							disabled={saving}
+						/>
+						<span className="text-xs text-(--text-secondary)">
+							Use the global setting
+						</span>
+					</label>
+					{location && (
+						<WorktreeLocationFields
+							value={location}
+							onChange={setLocation}
+							idPrefix="project-worktree-location"
+							disabled={saving || useGlobal}
+						/>
+					)}
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,97 @@
+import type { WorktreeLocation, WorktreeRoot } from "../../../shared/types";
+
+interface WorktreeLocationFieldsProps {
+	value: WorktreeLocation;
+	onChange: (value: WorktreeLocation) => void;
+	/** Prefixes the inputs' ids so the fields can appear more than once */
+	idPrefix: string;
+	disabled?: boolean;
+}
+
+const ROOT_OPTIONS: { value: WorktreeRoot; label: string }[] = [
+	{ value: "gitagen", label: "~/.gitagen/<project>" },
+	{ value: "sibling", label: "Next to the repository" },
+	{ value: "custom", label: "Custom folder" },
+];
+
+const labelClass = "mb-1 block text-xs font-medium text-(--text-muted)";
+
+/** Root and name template inputs, shared by the global settings and the per-project override. */
+export function WorktreeLocationFields({
+	value,
+	onChange,
+	idPrefix,
+	disabled,
+}: WorktreeLocationFieldsProps) {
+	const handleBrowse = async () => {
+		const folder = await window.gitagen.settings.selectFolder();
+		if (folder) onChange({ ...value, customRoot: folder });
+	};
+
+	return (
+		<div className="space-y-3">
+			<div>
+				<label htmlFor={`${idPrefix}-root`} className={labelClass}>
+					Root
+				</label>
+				<select
+					id={`${idPrefix}-root`}
+					value={value.root}
+					onChange={(e) => onChange({ ...value, root: e.target.value as WorktreeRoot })}
+					className="input w-full text-xs"
+					disabled={disabled}
+				>
+					{ROOT_OPTIONS.map((option) => (
+						<option key={option.value} value={option.value}>
+							{option.label}
+						</option>
+					))}
+				</select>
+			</div>
+			{value.root === "custom" && (
+				<div>
+					<label htmlFor={`${idPrefix}-custom-root`} className={labelClass}>
+						Folder
+					</label>
+					<div className="flex gap-2">
+						<input
+							id={`${idPrefix}-custom-root`}
+							type="text"
+							value={value.customRoot ?? ""}
+							onChange={(e) => onChange({ ...value, customRoot: e.target.value })}
+							placeholder="~/worktrees"
+							className="input min-w-0 flex-1 font-mono text-xs"
+							disabled={disabled}
+						/>
+						<button
+							type="button"
+							onClick={() => void handleBrowse()}
+							className="btn btn-secondary text-xs"
+							disabled={disabled}
+						>
+							Browse
+						</button>
+					</div>
+				</div>
+			)}
+			<div>
+				<label htmlFor={`${idPrefix}-template`} className={labelClass}>
+					Name template
+				</label>
+				<input
+					id={`${idPrefix}-template`}
+					type="text"
+					value={value.nameTemplate}
+					onChange={(e) => onChange({ ...value, nameTemplate: e.target.value })}
+					placeholder="{project}-{branch}"
+					className="input w-full font-mono text-xs"
+					disabled={disabled}
+				/>
+				<p className="mt-1 text-[11px] text-(--text-muted)">
+					Tokens: {"{project}"}, {"{branch}"}, {"{date}"} and {"{random}"}. A taken name
+					gets a numeric suffix.
+				</p>
+			</div>
+		</div>
+	);
+}
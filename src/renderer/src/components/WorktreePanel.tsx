@@ -1,14 +1,45 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { GitBranchPlus, Trash2, Check, ChevronDown } from "lucide-react";
-import type { AddWorktreeResult, BranchInfo, WorktreeInfo } from "../../../shared/types";
+import {
+	GitBranchPlus,
+	Trash2,
+	Check,
+	ChevronDown,
+	FolderCog,
+	FolderInput,
+	LayoutList,
+	ScrollText,
+	X,
+} from "lucide-react";
+import type {
+	AddWorktreeResult,
+	BranchInfo,
+	WorktreeInfo,
+	WorktreeRecipePhase,
+} from "../../../shared/types";
 import { useToast } from "../toast/provider";
 import { Dialog, DialogContent } from "./ui/dialog";
 import { ModalShell } from "./ui/modal-shell";
+import { MoveWorktreeDialog } from "./MoveWorktreeDialog";
+import { WorktreeDashboardDialog } from "./WorktreeDashboardDialog";
+import { WorktreeLocationDialog } from "./WorktreeLocationDialog";
+import { WorktreeRecipeDialog } from "./WorktreeRecipeDialog";
 import { useProjectStore } from "../stores/projectStore";
 import { useRepoStore } from "../stores/repoStore";
 import { useUIStore } from "../stores/uiStore";
 
 const DRAG_HEIGHT_KEY = "gitagen:worktreePanel:height";
+const RECIPE_PHASE_LABELS: Record<WorktreeRecipePhase, string> = {
+	postCreate: "Setting up",
+	preRemove: "Tearing down",
+};
+
+interface RecipeRun {
+	runId: string;
+	phase: WorktreeRecipePhase;
+	worktreePath: string;
+	output: string;
+	status: "running" | "passed" | "failed";
+}
 
 function getErrorMessage(error: unknown, fallback: string): string {
 	if (error instanceof Error && error.message.trim() !== "") {
@@ -46,6 +77,11 @@ export default function WorktreePanel() {
 	const [copyGitIgnores, setCopyGitIgnores] = useState(false);
 	const [pruning, setPruning] = useState(false);
 	const [removingPath, setRemovingPath] = useState<string | null>(null);
+	const [showRecipe, setShowRecipe] = useState(false);
+	const [showDashboard, setShowDashboard] = useState(false);
+	const [showLocation, setShowLocation] = useState(false);
+	const [movingWorktree, setMovingWorktree] = useState<WorktreeInfo | null>(null);
+	const [recipeRun, setRecipeRun] = useState<RecipeRun | null>(null);
 	const [dragHeight, setDragHeight] = useState<number | null>(readStoredHeight);
 	const [isDragging, setIsDragging] = useState(false);
 	const containerRef = useRef<HTMLDivElement>(null);
@@ -140,6 +176,34 @@ export default function WorktreePanel() {
 		void loadWorktrees();
 	}, [loadWorktrees]);
 
+	useEffect(() => {
+		const unsubscribe = window.gitagen.events.onWorktreeRecipe((event) => {
+			if (event.projectId !== projectId) return;
+			if (event.type === "start") {
+				setRecipeRun({
+					runId: event.runId,
+					phase: event.phase,
+					worktreePath: event.worktreePath,
+					output: "",
+					status: "running",
+				});
+				return;
+			}
+			setRecipeRun((run) => {
+				if (!run || run.runId !== event.runId) return run;
+				if (event.type === "output") return { ...run, output: run.output + event.text };
+				return {
+					...run,
+					output: event.error ? `${run.output}${event.error}\n` : run.output,
+					status: event.error ? "failed" : "passed",
+				};
+			});
+		});
+		return () => {
+			unsubscribe();
+		};
+	}, [projectId]);
+
 	const openAddForm = () => {
 		const defaultBranch = currentBranch || "main";
 		setAddBranch(defaultBranch);
@@ -213,7 +277,9 @@ export default function WorktreePanel() {
 			void useRepoStore.getState().refreshStatus();
 			setShowAddForm(false);
 			const checkedOutBranch = newBranch ?? requestedBranch;
-			if (copyGitIgnores) {
+			if (result.recipe?.error) {
+				toast.info("Worktree created", `Recipe failed: ${result.recipe.error}`);
+			} else if (copyGitIgnores) {
 				if (result.copyGitignoreError) {
 					toast.info(
 						"Worktree created",
@@ -226,6 +292,12 @@ export default function WorktreePanel() {
 						`Copied ${count} .gitignore file${count === 1 ? "" : "s"} into ${checkedOutBranch}`
 					);
 				}
+			} else if (result.recipe) {
+				const { copied, linked } = result.recipe;
+				toast.success(
+					"Worktree created",
+					`${checkedOutBranch}: copied ${copied} and linked ${linked} path${copied + linked === 1 ? "" : "s"}`
+				);
 			} else {
 				toast.success("Worktree created", checkedOutBranch);
 			}
@@ -257,6 +329,16 @@ export default function WorktreePanel() {
 		}
 	};
 
+	const handleMoved = (fromPath: string, toPath: string) => {
+		if (activeWorktreePath === fromPath) {
+			useRepoStore.getState().setWorktreePath(toPath);
+		}
+		void loadWorktrees();
+		void useRepoStore.getState().refreshStatus();
+		// Projects opened from the worktree now point at its new path
+		void useProjectStore.getState().loadProjects();
+	};
+
 	const handleRemove = async (path: string) => {
 		const name = getWorktreeName(path);
 		const shouldRemove = await window.gitagen.app.confirm({
@@ -405,6 +487,33 @@ export default function WorktreePanel() {
 					<span className="section-title">Worktrees</span>
 				</button>
 				<div className="flex items-center gap-1">
+					<button
+						type="button"
+						onClick={() => setShowDashboard(true)}
+						className="flex items-center gap-1 rounded-md px-1.5 py-0.5 text-[10px] font-medium text-(--text-muted) outline-none hover:bg-(--bg-hover) hover:text-(--text-secondary)"
+						title="Status of all worktrees"
+					>
+						<LayoutList size={11} />
+						Status
+					</button>
+					<button
+						type="button"
+						onClick={() => setShowRecipe(true)}
+						className="flex items-center gap-1 rounded-md px-1.5 py-0.5 text-[10px] font-medium text-(--text-muted) outline-none hover:bg-(--bg-hover) hover:text-(--text-secondary)"
+						title="Files and commands for new worktrees"
+					>
+						<ScrollText size={11} />
+						Recipe
+					</button>
+					<button
+						type="button"
+						onClick={() => setShowLocation(true)}
+						className="rounded-md p-1 text-(--text-muted) outline-none hover:bg-(--bg-hover) hover:text-(--text-secondary)"
+						title="Where new worktrees are created"
+						aria-label="Worktree location"
+					>
+						<FolderCog size={11} />
+					</button>
 					<button
 						type="button"
 						onClick={handlePrune}
@@ -426,6 +535,51 @@ export default function WorktreePanel() {
 					</button>
 				</div>
 			</div>
+			{recipeRun && (
+				<div className="mx-2 mb-1.5 shrink-0 rounded-md border border-(--border-secondary) bg-(--bg-secondary)">
+					<div className="flex items-center gap-1.5 px-2 py-1">
+						<span
+							className={`min-w-0 flex-1 truncate text-[10px] font-medium ${
+								recipeRun.status === "failed"
+									? "text-(--danger)"
+									: "text-(--text-secondary)"
+							}`}
+							title={recipeRun.worktreePath}
+						>
+							{RECIPE_PHASE_LABELS[recipeRun.phase]}{" "}
+							{getWorktreeName(recipeRun.worktreePath)}
+							{recipeRun.status === "running"
+								? "…"
+								: recipeRun.status === "passed"
+									? " — done"
+									: " — failed"}
+						</span>
+						{recipeRun.status === "running" ? (
+							<button
+								type="button"
+								onClick={() =>
+									void window.gitagen.repo.cancelOperation(recipeRun.runId)
+								}
+								className="rounded px-1 text-[10px] text-(--text-muted) outline-none hover:bg-(--bg-hover) hover:text-(--text-primary)"
+							>
+								Cancel
+							</button>
+						) : (
+							<button
+								type="button"
+								onClick={() => setRecipeRun(null)}
+								className="rounded p-0.5 text-(--text-muted) outline-none hover:bg-(--bg-hover) hover:text-(--text-primary)"
+								aria-label="Close recipe output"
+							>
+								<X size={11} />
+							</button>
+						)}
+					</div>
+					<pre className="max-h-32 overflow-auto border-t border-(--border-secondary) px-2 py-1 font-mono text-[10px] whitespace-pre-wrap text-(--text-muted)">
+						{recipeRun.output || "Waiting for output…"}
+					</pre>
+				</div>
+			)}
 			{/* Scrollable content area */}
 			<div className="min-h-0 flex-1 overflow-y-auto px-2 pb-2">
 				{loading ? (
@@ -477,6 +631,16 @@ export default function WorktreePanel() {
 												Switch
 											</button>
 										)}
+										{!w.isMainWorktree && (
+											<button
+												type="button"
+												onClick={() => setMovingWorktree(w)}
+												className="rounded p-0.5 text-(--text-muted) outline-none hover:bg-(--bg-tertiary) hover:text-(--text-primary)"
+												title="Move worktree"
+											>
+												<FolderInput size={11} />
+											</button>
+										)}
 										{!w.isMainWorktree && (
 											<button
 												type="button"
@@ -503,6 +667,31 @@ export default function WorktreePanel() {
 			>
 				{addFormContent}
 			</Dialog>
+			<WorktreeRecipeDialog
+				open={showRecipe}
+				onOpenChange={setShowRecipe}
+				projectId={projectId}
+			/>
+			<WorktreeLocationDialog
+				open={showLocation}
+				onOpenChange={setShowLocation}
+				projectId={projectId}
+			/>
+			<MoveWorktreeDialog
+				worktree={movingWorktree}
+				onClose={() => setMovingWorktree(null)}
+				projectId={projectId}
+				onMoved={handleMoved}
+			/>
+			<WorktreeDashboardDialog
+				open={showDashboard}
+				onOpenChange={setShowDashboard}
+				projectId={projectId}
+				onWorktreesChanged={() => {
+					void loadWorktrees();
+					void useRepoStore.getState().refreshStatus();
+				}}
+			/>
 		</div>
 	);
 }
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import type { WorktreeRecipe } from "../../../shared/types";
+import { useToast } from "../toast/provider";
+import { Dialog, DialogContent } from "./ui/dialog";
+import { ModalShell } from "./ui/modal-shell";
+
+interface WorktreeRecipeDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	projectId: string;
+}
+
+const FIELDS: {
+	key: keyof WorktreeRecipe;
+	label: string;
+	placeholder: string;
+}[] = [
+	{
+		key: "copy",
+		label: "Copy from the source worktree",
+		placeholder: ".env*\nconfig/local.json",
+	},
+	{
+		key: "symlink",
+		label: "Symlink from the source worktree",
+		placeholder: "node_modules\n.turbo",
+	},
+	{ key: "postCreate", label: "Run after creating", placeholder: "pnpm install\npnpm build" },
+	{ key: "preRemove", label: "Run before removing", placeholder: "docker compose down" },
+];
+
+type RecipeText = Record<keyof WorktreeRecipe, string>;
+
+const EMPTY_TEXT: RecipeText = { copy: "", symlink: "", postCreate: "", preRemove: "" };
+
+function toLines(text: string): string[] {
+	return text
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter(Boolean);
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+/** Edits the project's worktree recipe, stored in its project prefs. One entry per line. */
+export function WorktreeRecipeDialog({ open, onOpenChange, projectId }: WorktreeRecipeDialogProps) {
+	const [text, setText] = useState<RecipeText>(EMPTY_TEXT);
+	const [saving, setSaving] = useState(false);
+	const { toast } = useToast();
+
+	useEffect(() => {
+		if (!open) return;
+		setText(EMPTY_TEXT);
+		void window.gitagen.settings.getProjectPrefs(projectId).then((prefs) => {
+			const recipe = prefs?.worktreeRecipe;
+			if (!recipe) return;
+			setText({
+				copy: recipe.copy.join("\n"),
+				symlink: recipe.symlink.join("\n"),
+				postCreate: recipe.postCreate.join("\n"),
+				preRemove: recipe.preRemove.join("\n"),
+			});
+		});
+	}, [open, projectId]);
+
+	const handleSave = async () => {
+		setSaving(true);
+		try {
+			await window.gitagen.settings.setProjectPrefs(projectId, {
+				worktreeRecipe: {
+					copy: toLines(text.copy),
+					symlink: toLines(text.symlink),
+					postCreate: toLines(text.postCreate),
+					preRemove: toLines(text.preRemove),
+				},
+			});
+			toast.success("Worktree recipe saved");
+			onOpenChange(false);
+		} catch (error) {
+			toast.error("Failed to save worktree recipe", getErrorMessage(error));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+			<DialogContent size="sm" className="p-0">
+				<ModalShell
+					title="Worktree recipe"
+					description="Files to bring into each new worktree and commands to run around its lifecycle. One entry per line; * and ** globs are supported."
+					bodyClassName="space-y-3"
+					footer={
+						<>
+							<button
+								type="button"
+								onClick={() => onOpenChange(false)}
+								disabled={saving}
+								className="btn btn-secondary"
+							>
+								Cancel
+							</button>
+							<button
+								type="button"
+								onClick={() => void handleSave()}
+								disabled={saving}
+								className="btn btn-primary"
+							>
+								{saving ? "Saving..." : "Save"}
+							</button>
+						</>
+					}
+				>
+					{FIELDS.map((field) => (
+						<div key={field.key}>
+							<label
+								htmlFor={`worktree-recipe-${field.key}`}
+								className="mb-1 block text-xs font-medium text-(--text-muted)"
+							>
+								{field.label}
+							</label>
+							<textarea
+								id={`worktree-recipe-${field.key}`}
+								value={text[field.key]}
+								onChange={(e) =>
+									setText((prev) => ({ ...prev, [field.key]: e.target.value }))
+								}
+								placeholder={field.placeholder}
+								rows={2}
+								className="input w-full resize-y font-mono text-xs"
+								disabled={saving}
+							/>
+						</div>
+					))}
+					<p className="text-[11px] text-(--text-muted)">
+						A failing pre-remove command stops the worktree from being removed.
+					</p>
+				</ModalShell>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,21 +1,14 @@
 import { useState, useEffect, useRef, useMemo, useCallback, type ReactNode } from "react";
 import { useChat } from "@ai-sdk/react";
-import {
-	DirectChatTransport,
-	ToolLoopAgent,
-	lastAssistantMessageIsCompleteWithToolCalls,
-	stepCountIs,
-	type ToolSet,
-} from "ai";
+import { lastAssistantMessageIsCompleteWithToolCalls, type UIMessage } from "ai";
 import { Loader2, Check, AlertCircle, Send, Bot } from "lucide-react";
 import { ModalShell } from "../ui/modal-shell";
 import { cn } from "../../lib/cn";
-import { createModelFromSettings } from "../../lib/create-model";
-import type { AIProviderInstance } from "../../../../shared/types";
+import { IpcAgentTransport } from "../../lib/agent-transport";
+import type { AgentStatus, AgentToolRun } from "../../../../shared/types";
 
+/** Matches the main process tool timeout; a run still marked running past it has stalled. */
 const TOOL_TIMEOUT_MS = 30_000;
-const AGENT_STEP_TIMEOUT_MS = 45_000;
-const AGENT_CHUNK_TIMEOUT_MS = 12_000;
 const TRACE_MAX_ENTRIES = 200;
 
 export type TraceLevel = "info" | "warn" | "error";
@@ -27,25 +20,8 @@ interface TraceEntry {
 	at: number;
 }
 
-export interface AgentToolExecContext {
-	toolCallId?: string;
-}
-
-interface ToolRunState {
+interface ToolRunState extends AgentToolRun {
 	key: string;
-	toolName: string;
-	toolCallId: string;
-	status: "running" | "done" | "failed";
-	startedAt: number;
-	endedAt?: number;
-	error?: string;
-}
-
-export type TraceLogger = (level: TraceLevel, message: string) => void;
-
-export interface AgentChatToolHelpers {
-	trace: TraceLogger;
-	runTool: <T>(toolName: string, ctx: AgentToolExecContext, run: () => Promise<T>) => Promise<T>;
 }
 
 interface ToolPart {
@@ -70,32 +46,19 @@ export interface AgentToolPartRenderArgs {
 export interface AgentChatModalProps {
 	title: string;
 	description?: string;
-	provider: AIProviderInstance;
-	instructions: string;
+	projectId: string;
+	/** Stored session the conversation is saved to; reopening passes its messages and tool runs */
+	sessionId: string;
+	initialMessages?: UIMessage[];
+	initialToolRuns?: AgentToolRun[];
+	provider: NonNullable<AgentStatus["provider"]>;
 	initialPrompt?: string;
 	traceKey?: string;
-	createTools: (helpers: AgentChatToolHelpers) => ToolSet;
+	/** Extra controls shown before the message input */
+	footerActions?: ReactNode;
 	renderToolPart?: (args: AgentToolPartRenderArgs) => ReactNode | null;
 }
 
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
-	return new Promise((resolve, reject) => {
-		const timer = window.setTimeout(() => {
-			reject(new Error(`${label} timed out after ${timeoutMs}ms`));
-		}, timeoutMs);
-
-		promise
-			.then((result) => {
-				window.clearTimeout(timer);
-				resolve(result);
-			})
-			.catch((error: unknown) => {
-				window.clearTimeout(timer);
-				reject(error);
-			});
-	});
-}
-
 function getToolName(part: ToolPart): string | null {
 	if (part.type === "dynamic-tool" && part.toolName) return part.toolName;
 	if (part.type.startsWith("tool-")) return part.type.slice(5);
@@ -261,11 +224,14 @@ function ToolStep({
 export default function AgentChatModal({
 	title,
 	description,
+	projectId,
+	sessionId,
+	initialMessages,
+	initialToolRuns,
 	provider,
-	instructions,
 	initialPrompt,
 	traceKey = "agent",
-	createTools,
+	footerActions,
 	renderToolPart,
 }: AgentChatModalProps) {
 	const scrollRef = useRef<HTMLDivElement>(null);
@@ -274,7 +240,14 @@ export default function AgentChatModal({
 	const unresolvedLoggedRef = useRef<Set<string>>(new Set());
 	const seenPartStateRef = useRef<Map<string, string>>(new Map());
 	const [traceEntries, setTraceEntries] = useState<TraceEntry[]>([]);
-	const [toolRuns, setToolRuns] = useState<Record<string, ToolRunState>>({});
+	const [toolRuns, setToolRuns] = useState<Record<string, ToolRunState>>(() =>
+		Object.fromEntries(
+			(initialToolRuns ?? []).map((run) => {
+				const key = runKey(run.toolName, run.toolCallId);
+				return [key, { ...run, key }];
+			})
+		)
+	);
 	const [now, setNow] = useState(Date.now());
 	const [input, setInput] = useState("");
 	const verboseDebug = import.meta.env.VITE_AGENT_DEBUG === "1";
@@ -305,133 +278,23 @@ export default function AgentChatModal({
 		[traceKey, verboseDebug]
 	);
 
-	const runTool = useCallback(
-		async <T,>(
-			toolName: string,
-			ctx: AgentToolExecContext,
-			run: () => Promise<T>
-		): Promise<T> => {
-			const startedAt = Date.now();
-			const toolCallId = ctx?.toolCallId ?? `${toolName}-${startedAt}`;
-			const key = runKey(toolName, toolCallId);
-			setToolRuns((prev) => ({
-				...prev,
-				[key]: {
-					key,
-					toolName,
-					toolCallId,
-					status: "running",
-					startedAt,
-				},
-			}));
-			appendTrace("info", `${toolName}#${toolCallId} started`);
-
-			try {
-				const result = await withTimeout(
-					run(),
-					TOOL_TIMEOUT_MS,
-					`${toolName}#${toolCallId}`
-				);
-				const endedAt = Date.now();
-				setToolRuns((prev) => ({
-					...prev,
-					[key]: {
-						...(prev[key] ?? {
-							key,
-							toolName,
-							toolCallId,
-							startedAt,
-						}),
-						status: "done",
-						endedAt,
-					},
-				}));
-				appendTrace(
-					"info",
-					`${toolName}#${toolCallId} completed in ${endedAt - startedAt}ms`
-				);
-				return result;
-			} catch (error) {
-				const endedAt = Date.now();
-				const message = error instanceof Error ? error.message : String(error);
-				setToolRuns((prev) => ({
-					...prev,
-					[key]: {
-						...(prev[key] ?? {
-							key,
-							toolName,
-							toolCallId,
-							startedAt,
-						}),
-						status: "failed",
-						endedAt,
-						error: message,
-					},
-				}));
-				appendTrace(
-					"error",
-					`${toolName}#${toolCallId} failed after ${endedAt - startedAt}ms: ${message}`
-				);
-				throw error;
-			}
-		},
-		[appendTrace]
-	);
-
-	const tools = useMemo(
-		() => createTools({ trace: appendTrace, runTool }),
-		[appendTrace, createTools, runTool]
-	);
-
-	const agent = useMemo(
-		() =>
-			new ToolLoopAgent({
-				model: createModelFromSettings(provider),
-				instructions,
-				tools,
-				stopWhen: stepCountIs(20),
-				timeout: {
-					stepMs: AGENT_STEP_TIMEOUT_MS,
-					chunkMs: AGENT_CHUNK_TIMEOUT_MS,
-				},
-				onStepFinish: (step) => {
-					const calledTools = step.toolCalls.map((call) => call.toolName).join(", ");
-					const resolvedTools = step.toolResults
-						.map((result) => result.toolName)
-						.join(", ");
-					appendTrace(
-						"info",
-						[
-							`step finished reason=${step.finishReason}`,
-							calledTools ? `calls=[${calledTools}]` : null,
-							resolvedTools ? `results=[${resolvedTools}]` : null,
-							step.warnings?.length ? `warnings=${step.warnings.length}` : null,
-						]
-							.filter(Boolean)
-							.join(" ")
-					);
-				},
-				onFinish: ({ finishReason, steps }) => {
-					appendTrace(
-						"info",
-						`agent loop finished reason=${finishReason} steps=${steps.length}`
-					);
-				},
-			}),
-		[appendTrace, instructions, provider, tools]
-	);
-
+	// The agent and its tools run in the main process; this view only renders what it streams
 	const transport = useMemo(
 		() =>
-			new DirectChatTransport({
-				agent,
-				sendReasoning: true,
-				sendSources: true,
+			new IpcAgentTransport(projectId, sessionId, (event) => {
+				if (event.kind === "trace") {
+					appendTrace(event.level, event.message);
+					return;
+				}
+				const key = runKey(event.run.toolName, event.run.toolCallId);
+				setToolRuns((prev) => ({ ...prev, [key]: { ...event.run, key } }));
 			}),
-		[agent]
+		[appendTrace, projectId, sessionId]
 	);
 
 	const { messages, sendMessage, addToolOutput, status, error } = useChat({
+		id: sessionId,
+		messages: initialMessages,
 		transport,
 		sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithToolCalls,
 		onError: (chatError) => {
@@ -452,9 +315,9 @@ export default function AgentChatModal({
 	useEffect(() => {
 		appendTrace(
 			"info",
-			`session started with provider=${provider.name} type=${provider.type} model=${provider.defaultModel}`
+			`session started with provider=${provider.name} type=${provider.type} model=${provider.model}`
 		);
-	}, [appendTrace, provider.defaultModel, provider.name, provider.type]);
+	}, [appendTrace, provider.model, provider.name, provider.type]);
 
 	useEffect(() => {
 		appendTrace("info", `status=${status}`);
@@ -653,6 +516,7 @@ export default function AgentChatModal({
 
 	const footer = (
 		<div className="ac-input-row">
+			{footerActions}
 			<input
 				type="text"
 				className="input flex-1"
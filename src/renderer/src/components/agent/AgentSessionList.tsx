@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Download, Loader2, Plus, Trash2 } from "lucide-react";
+import { ModalShell } from "../ui/modal-shell";
+import { useToast } from "../../toast/provider";
+import type { AgentSession, AgentSessionSummary } from "../../../../shared/types";
+
+interface AgentSessionListProps {
+	title: string;
+	projectId: string;
+	onOpen: (session: AgentSession) => void;
+	onNew: () => void;
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message;
+	if (typeof error === "string") return error;
+	return "Unknown error";
+}
+
+function formatUpdatedAt(seconds: number): string {
+	const diffMs = Date.now() - seconds * 1000;
+	const minutes = Math.floor(diffMs / 60000);
+	const hours = Math.floor(minutes / 60);
+	const days = Math.floor(hours / 24);
+	if (days > 7) return new Date(seconds * 1000).toLocaleDateString();
+	if (days > 0) return `${days}d ago`;
+	if (hours > 0) return `${hours}h ago`;
+	if (minutes > 0) return `${minutes}m ago`;
+	return "just now";
+}
+
+function formatTokens(count: number): string {
+	return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+export default function AgentSessionList({
+	title,
+	projectId,
+	onOpen,
+	onNew,
+}: AgentSessionListProps) {
+	const { toast } = useToast();
+	const [sessions, setSessions] = useState<AgentSessionSummary[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [busyId, setBusyId] = useState<string | null>(null);
+
+	const load = useCallback(async () => {
+		try {
+			setSessions(await window.gitagen.agent.listSessions(projectId));
+			setError(null);
+		} catch (loadError) {
+			setError(getErrorMessage(loadError));
+		}
+	}, [projectId]);
+
+	useEffect(() => {
+		void load();
+	}, [load]);
+
+	const handleOpen = async (sessionId: string) => {
+		setBusyId(sessionId);
+		try {
+			const session = await window.gitagen.agent.getSession(sessionId);
+			if (session) onOpen(session);
+			else await load();
+		} catch (openError) {
+			toast.error("Failed to open session", getErrorMessage(openError));
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	const handleExport = async (sessionId: string) => {
+		try {
+			const path = await window.gitagen.agent.exportSession(sessionId);
+			if (path) toast.success("Session exported", path);
+		} catch (exportError) {
+			toast.error("Failed to export session", getErrorMessage(exportError));
+		}
+	};
+
+	const handleDelete = async (session: AgentSessionSummary) => {
+		const confirmed = await window.gitagen.app.confirm({
+			title: "Delete session",
+			message: `Delete "${session.title}"?`,
+			detail: "The conversation is removed from history. Changes the agent made to the repository are kept.",
+			confirmLabel: "Delete",
+		});
+		if (!confirmed) return;
+		try {
+			await window.gitagen.agent.deleteSession(session.id);
+			await load();
+		} catch (deleteError) {
+			toast.error("Failed to delete session", getErrorMessage(deleteError));
+		}
+	};
+
+	const footer = (
+		<button type="button" className="btn btn-primary" onClick={onNew}>
+			<Plus size={13} />
+			New session
+		</button>
+	);
+
+	return (
+		<ModalShell title={title} description="Past conversations in this project" footer={footer}>
+			{error ? (
+				<div className="ac-error">
+					<AlertCircle size={14} />
+					<span>{error}</span>
+				</div>
+			) : sessions === null ? (
+				<div className="ac-loading-initial">
+					<Loader2 size={16} className="animate-spin text-(--accent)" />
+					<span>Loading sessions...</span>
+				</div>
+			) : sessions.length === 0 ? (
+				<div className="ac-session-empty">No saved sessions yet.</div>
+			) : (
+				<div className="ac-session-list">
+					{sessions.map((session) => (
+						<div key={session.id} className="ac-session-row">
+							<button
+								type="button"
+								className="ac-session-open"
+								onClick={() => void handleOpen(session.id)}
+								disabled={busyId !== null}
+							>
+								<span className="ac-session-title">{session.title}</span>
+								<span className="ac-session-meta">
+									{formatUpdatedAt(session.updatedAt)} ·{" "}
+									{formatTokens(session.usage.inputTokens)} in /{" "}
+									{formatTokens(session.usage.outputTokens)} out
+								</span>
+							</button>
+							{busyId === session.id && (
+								<Loader2 size={14} className="animate-spin text-(--accent)" />
+							)}
+							<button
+								type="button"
+								className="btn-icon rounded-md p-1"
+								title="Export as Markdown"
+								onClick={() => void handleExport(session.id)}
+							>
+								<Download size={14} />
+							</button>
+							<button
+								type="button"
+								className="btn-icon rounded-md p-1"
+								title="Delete session"
+								onClick={() => void handleDelete(session)}
+							>
+								<Trash2 size={14} />
+							</button>
+						</div>
+					))}
+				</div>
+			)}
+		</ModalShell>
+	);
+}
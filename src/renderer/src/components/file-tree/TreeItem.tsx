@@ -1,10 +1,21 @@
 import { useCallback } from "react";
-import { ChevronRight, File, Folder, FolderOpen, Minus, Plus, Trash2 } from "lucide-react";
+import {
+	ChevronRight,
+	File,
+	Folder,
+	FolderOpen,
+	GitCommitVertical,
+	History,
+	Minus,
+	Plus,
+	Trash2,
+} from "lucide-react";
 import type { GitFileStatus } from "../../../../shared/types";
 import type { FileTreeNode } from "./types";
 import { collectFilePaths, statusBarColor } from "./utils";
 import { changeTypeColorClass, changeTypeLabel } from "../../utils/status-badge";
 import { useToast } from "../../toast/provider";
+import { useUIStore } from "../../stores/uiStore";
 import {
 	ContextMenu,
 	ContextMenuTrigger,
@@ -224,6 +235,22 @@ export function TreeItem({
 						<File size={14} strokeWidth={2} />
 						Open in Editor
 					</ContextMenuItem>
+					{!isUntracked && (
+						<ContextMenuItem
+							onClick={() => useUIStore.getState().openBlame(node.file!.path)}
+						>
+							<History size={14} strokeWidth={2} />
+							Blame
+						</ContextMenuItem>
+					)}
+					{!isUntracked && (
+						<ContextMenuItem
+							onClick={() => useUIStore.getState().openFileHistory(node.file!.path)}
+						>
+							<GitCommitVertical size={14} strokeWidth={2} />
+							File History
+						</ContextMenuItem>
+					)}
 					<ContextMenuSeparator />
 					{canStage && (
 						<ContextMenuItem
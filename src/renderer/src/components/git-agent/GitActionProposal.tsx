@@ -1,5 +1,7 @@
-import { useMemo, useState } from "react";
-import { AlertCircle, Check, Loader2, Send, Wrench } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Check, Loader2, Send, Undo2, Wrench } from "lucide-react";
+import type { CheckpointInfo } from "../../../../shared/types";
+import CommitLintWarnings from "../CommitLintWarnings";
 
 export interface GitActionItem {
 	id?: string;
@@ -22,6 +24,7 @@ interface GitActionDecision {
 }
 
 interface GitActionProposalProps {
+	projectId: string;
 	state: string;
 	input?: GitActionPlanInput;
 	output?: unknown;
@@ -46,23 +49,38 @@ function summarizeArgs(tool: string, args: unknown): string | null {
 			const head = paths.slice(0, 3).join(", ");
 			return paths.length > 3 ? `${head} +${paths.length - 3} more` : head;
 		}
-		case "create_commit": {
+		case "create_commit":
+		case "amend_commit":
+		case "squash_commits": {
 			const message = typeof data.message === "string" ? data.message : "";
-			if (!message) return null;
+			const skipHooks = data.noVerify === true ? " (skip hooks)" : "";
+			if (!message) return skipHooks ? "Keep message (skip hooks)" : null;
 			const firstLine = message.split("\n")[0] ?? "";
-			return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine;
+			return `${firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine}${skipHooks}`;
 		}
 		case "switch_branch":
 		case "create_branch": {
 			const name = typeof data.name === "string" ? data.name : "";
 			return name || null;
 		}
+		case "cherry_pick":
+		case "revert_commits": {
+			const refs = Array.isArray(data.refs) ? data.refs : [];
+			return refs.length > 0 ? refs.map((ref) => String(ref).slice(0, 12)).join(", ") : null;
+		}
+		case "merge_branch":
+			return typeof data.source === "string" ? `${data.source} → current branch` : null;
+		case "rebase_onto":
+			return typeof data.onto === "string" ? `onto ${data.onto}` : null;
 		case "fetch":
 		case "pull":
 		case "push": {
 			const parts: string[] = [];
 			if (typeof data.remote === "string" && data.remote) parts.push(data.remote);
 			if (typeof data.branch === "string" && data.branch) parts.push(data.branch);
+			if (tool === "push" && data.noVerify === true) {
+				return `${parts.length > 0 ? parts.join(" → ") : "Push"} (skip hooks)`;
+			}
 			return parts.length > 0 ? parts.join(" → ") : null;
 		}
 		case "stash_create": {
@@ -78,11 +96,22 @@ function summarizeArgs(tool: string, args: unknown): string | null {
 			return "Stage all changes";
 		case "unstage_all":
 			return "Unstage all changes";
+		case "undo_last_commit":
+			return "Undo last commit, keep changes staged";
 		default:
 			return null;
 	}
 }
 
+/** The commit message an action would write, for tools that write one. */
+function getCommitMessage(tool: string, args: unknown): string | null {
+	if (tool !== "create_commit" && tool !== "amend_commit" && tool !== "squash_commits") {
+		return null;
+	}
+	const message = (args as { message?: unknown } | undefined)?.message;
+	return typeof message === "string" && message ? message : null;
+}
+
 function toDecision(output: unknown): GitActionDecision | null {
 	if (!output || typeof output !== "object") return null;
 	const candidate = output as Partial<GitActionDecision>;
@@ -99,7 +128,79 @@ function toDecision(output: unknown): GitActionDecision | null {
 	};
 }
 
+/**
+ * Rolls an approved plan back to the checkpoint recorded before its first write. Shown once the
+ * agent has finished, and only if the plan actually changed something.
+ */
+function PlanRollback({
+	projectId,
+	toolCallId,
+	isLoading,
+}: {
+	projectId: string;
+	toolCallId: string;
+	isLoading: boolean;
+}) {
+	const [checkpoint, setCheckpoint] = useState<CheckpointInfo | null>(null);
+	const [rollingBack, setRollingBack] = useState(false);
+	const [rolledBack, setRolledBack] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (isLoading) return;
+		let cancelled = false;
+		window.gitagen.repo.getCheckpoint(projectId, toolCallId).then((result) => {
+			if (!cancelled) setCheckpoint(result);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [projectId, toolCallId, isLoading]);
+
+	if (rolledBack) return <span className="ga-proposal-rollback">Rolled back</span>;
+	if (!checkpoint || isLoading) return null;
+
+	const handleRollback = async () => {
+		const confirmed = await window.gitagen.app.confirm({
+			title: "Roll back plan",
+			message: "Restore the repository to how it was before this plan ran?",
+			detail: `${checkpoint.branch ?? "HEAD"} goes back to ${checkpoint.headOid.slice(0, 7)}, and staged and unstaged changes from that moment are restored. Pushes are not undone.`,
+			confirmLabel: "Roll Back",
+		});
+		if (!confirmed) return;
+		setRollingBack(true);
+		setError(null);
+		try {
+			await window.gitagen.repo.restoreCheckpoint(projectId, toolCallId);
+			setRolledBack(true);
+		} catch (rollbackError) {
+			setError(
+				rollbackError instanceof Error ? rollbackError.message : "Failed to roll back"
+			);
+		} finally {
+			setRollingBack(false);
+		}
+	};
+
+	return (
+		<span className="ga-proposal-rollback">
+			{error && <span className="text-(--danger)">{error}</span>}
+			<button
+				type="button"
+				className="btn btn-secondary"
+				onClick={() => void handleRollback()}
+				disabled={rollingBack}
+				title="Undo every change this plan made"
+			>
+				{rollingBack ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />}
+				Roll back
+			</button>
+		</span>
+	);
+}
+
 export default function GitActionProposal({
+	projectId,
 	state,
 	input,
 	output,
@@ -134,6 +235,13 @@ export default function GitActionProposal({
 					<AlertCircle size={14} className="text-(--warning)" />
 				)}
 				<span>{approved ? "Plan approved" : "Revision requested"}</span>
+				{approved && (
+					<PlanRollback
+						projectId={projectId}
+						toolCallId={toolCallId}
+						isLoading={isLoading}
+					/>
+				)}
 			</div>
 		);
 	}
@@ -158,6 +266,7 @@ export default function GitActionProposal({
 			<div className="ga-action-list">
 				{actions.map((action, index) => {
 					const argSummary = summarizeArgs(action.tool, action.args);
+					const commitMessage = getCommitMessage(action.tool, action.args);
 					return (
 						<div
 							key={`${action.id ?? action.tool}-${index}`}
@@ -173,6 +282,9 @@ export default function GitActionProposal({
 								</span>
 							</div>
 							{argSummary && <p className="ga-action-args">{argSummary}</p>}
+							{commitMessage && (
+								<CommitLintWarnings projectId={projectId} message={commitMessage} />
+							)}
 							{action.reasoning && (
 								<p className="ga-action-reasoning">{action.reasoning}</p>
 							)}
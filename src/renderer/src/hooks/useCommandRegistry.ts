@@ -36,6 +36,7 @@ export interface CommandActions {
 	onBackToProjects: () => void;
 	onOpenGitAgent: () => void;
 	onOpenSettings: (tab?: SettingsTab) => void;
+	onOpenGitActivity: () => void;
 	onCloseSettings: () => void;
 	onSetViewMode: (mode: ViewMode) => void;
 	onSetDiffStyle: (style: DiffStyle) => void;
@@ -47,6 +48,7 @@ export interface CommandActions {
 	onSelectFile: (file: GitFileStatus) => void;
 	onOpenCommitDetail: (oid: string) => void;
 	onCloseCommitDetail: () => void;
+	onOpenFileHistory: (path: string) => void;
 	onNotifyError: (message: string) => void;
 }
 
@@ -251,6 +253,19 @@ export function useCommandRegistry(
 			}
 		}
 
+		if (route !== "loading") {
+			commands.push({
+				id: "app.gitActivity.open",
+				label: "Show Git Activity",
+				description: "List the git commands the app ran, with their output",
+				category: "Repository",
+				keywords: ["log", "console", "commands", "debug", "output", "activity"],
+				run: () => {
+					actions.onOpenGitActivity();
+				},
+			});
+		}
+
 		if (hasProject) {
 			commands.push({
 				id: "repo.refresh",
@@ -599,9 +614,9 @@ export function useCommandRegistry(
 			commands.push({
 				id: "file.select",
 				label: "Select Changed File…",
-				description: "Move focus to a changed file",
+				description: "Move focus to a changed file or open its history",
 				category: "File",
-				keywords: ["file", "select", "diff"],
+				keywords: ["file", "select", "diff", "history"],
 				getSubItems: async () => {
 					const files = context.gitStatus
 						? [
@@ -610,7 +625,7 @@ export function useCommandRegistry(
 								...context.gitStatus.untracked,
 							]
 						: [];
-					return files.map((file) => ({
+					const selectItems = files.map((file) => ({
 						id: `${file.status}:${file.path}`,
 						label: file.path,
 						detail: `${file.status} • ${file.changeType ?? "M"}`,
@@ -619,6 +634,20 @@ export function useCommandRegistry(
 							actions.onSelectFile(file);
 						},
 					}));
+					const historyPaths = new Set(
+						files.filter((file) => file.status !== "untracked").map((file) => file.path)
+					);
+					const historyItems = [...historyPaths].map((path) => ({
+						id: `history:${path}`,
+						label: path,
+						detail: "Show commits touching this file",
+						badge: "History",
+						keywords: ["history", "log", path],
+						run: () => {
+							actions.onOpenFileHistory(path);
+						},
+					}));
+					return [...selectItems, ...historyItems];
 				},
 			});
 
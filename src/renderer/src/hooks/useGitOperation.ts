@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { GitOperationKind, GitProgress } from "../../../shared/types";
+
+export interface RunningOperation {
+	id: string;
+	kind: GitOperationKind;
+	/** Latest progress; null until git reports any */
+	progress: GitProgress | null;
+	cancelling: boolean;
+}
+
+/** Formats progress for a tooltip or status line, e.g. `Receiving objects 45% (450/1000)`. */
+export function formatProgress(progress: GitProgress): string {
+	return `${progress.stage} ${progress.percent}% (${progress.processed}/${progress.total})`;
+}
+
+/**
+ * Tracks one cancellable fetch, pull, push or clone at a time. `begin` returns the ID to pass
+ * as `operationId`, and progress events for that ID are collected until `end`.
+ */
+export function useGitOperation() {
+	const [operation, setOperation] = useState<RunningOperation | null>(null);
+	const operationIdRef = useRef<string | null>(null);
+	const cancelledIdRef = useRef<string | null>(null);
+
+	useEffect(() => {
+		const unsubscribe = window.gitagen.events.onOperationProgress((event) => {
+			if (event.type !== "progress" || event.operationId !== operationIdRef.current) return;
+			const { stage, percent, processed, total } = event;
+			setOperation((current) =>
+				current?.id === event.operationId
+					? { ...current, progress: { stage, percent, processed, total } }
+					: current
+			);
+		});
+		return () => {
+			unsubscribe();
+		};
+	}, []);
+
+	const begin = useCallback((kind: GitOperationKind): string => {
+		const id = crypto.randomUUID();
+		operationIdRef.current = id;
+		setOperation({ id, kind, progress: null, cancelling: false });
+		return id;
+	}, []);
+
+	const end = useCallback(() => {
+		operationIdRef.current = null;
+		setOperation(null);
+	}, []);
+
+	const cancel = useCallback(() => {
+		const id = operationIdRef.current;
+		if (!id) return;
+		cancelledIdRef.current = id;
+		setOperation((current) => (current ? { ...current, cancelling: true } : current));
+		void window.gitagen.repo.cancelOperation(id);
+	}, []);
+
+	/** Whether the user cancelled this operation, to tell a cancellation from a failure. */
+	const isCancelled = useCallback((id: string) => cancelledIdRef.current === id, []);
+
+	return { operation, begin, end, cancel, isCancelled };
+}
@@ -0,0 +1,62 @@
+import type { ChatTransport, UIMessage, UIMessageChunk } from "ai";
+import type { AgentRunEvent } from "../../../shared/types";
+
+type AgentSideEvent = Exclude<AgentRunEvent, { kind: "chunk" }>;
+
+/**
+ * Chat transport that runs the agent in the main process. Each send starts a run over IPC and
+ * turns its chunk events back into a stream; tool run and trace events go to `onEvent`. The
+ * main process saves the conversation under `sessionId` after every run.
+ */
+export class IpcAgentTransport implements ChatTransport<UIMessage> {
+	private projectId: string;
+	private sessionId: string;
+	private onEvent: (event: AgentSideEvent) => void;
+
+	constructor(projectId: string, sessionId: string, onEvent: (event: AgentSideEvent) => void) {
+		this.projectId = projectId;
+		this.sessionId = sessionId;
+		this.onEvent = onEvent;
+	}
+
+	async sendMessages({
+		messages,
+		abortSignal,
+	}: Parameters<ChatTransport<UIMessage>["sendMessages"]>[0]): Promise<
+		ReadableStream<UIMessageChunk>
+	> {
+		const runId = crypto.randomUUID();
+		const { projectId, sessionId, onEvent } = this;
+
+		return new ReadableStream<UIMessageChunk>({
+			start(controller) {
+				const unsubscribe = window.gitagen.events.onAgentEvent((event) => {
+					if (event.runId !== runId) return;
+					if (event.kind === "chunk") controller.enqueue(event.chunk as UIMessageChunk);
+					else onEvent(event);
+				});
+				const onAbort = () => void window.gitagen.agent.abort(runId);
+				abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+				window.gitagen.agent
+					.run(runId, projectId, sessionId, messages)
+					.then(
+						() => controller.close(),
+						(error: unknown) => controller.error(error)
+					)
+					.finally(() => {
+						unsubscribe();
+						abortSignal?.removeEventListener("abort", onAbort);
+					});
+			},
+			cancel() {
+				void window.gitagen.agent.abort(runId);
+			},
+		});
+	}
+
+	/** Runs do not outlive the request that started them, so there is nothing to resume. */
+	async reconnectToStream(): Promise<ReadableStream<UIMessageChunk> | null> {
+		return null;
+	}
+}
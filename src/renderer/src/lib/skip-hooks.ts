@@ -0,0 +1,19 @@
+import type { HookAction } from "../../../shared/types";
+
+const SKIPPED_HOOKS: Record<HookAction, string> = {
+	commit: "pre-commit and commit-msg hooks",
+	push: "pre-push hook",
+};
+
+/** Asks before running `action` with `--no-verify`, naming the hooks that will not run. */
+export function confirmSkipHooks(action: HookAction, failedHook?: string): Promise<boolean> {
+	const label = action === "commit" ? "Commit" : "Push";
+	return window.gitagen.app.confirm({
+		title: "Skip hooks",
+		message: failedHook
+			? `The ${failedHook} hook failed. ${label} without running hooks?`
+			: `${label} without running hooks?`,
+		detail: `Runs git ${action} --no-verify, so the ${SKIPPED_HOOKS[action]} will not check this ${action}.`,
+		confirmLabel: `${label} Without Hooks`,
+	});
+}
@@ -0,0 +1,43 @@
+import { create } from "zustand";
+import type { GitActivityEntry } from "../../../shared/types";
+
+/** Same as the main process buffer, so a reload shows what was streamed before. */
+const MAX_ENTRIES = 500;
+
+interface GitActivityState {
+	/** Oldest first */
+	entries: GitActivityEntry[];
+
+	/** Merges entries listed by the main process with those streamed so far. */
+	load: () => Promise<void>;
+	append: (entry: GitActivityEntry) => void;
+	clear: () => Promise<void>;
+}
+
+function mergeEntries(a: GitActivityEntry[], b: GitActivityEntry[]): GitActivityEntry[] {
+	const byId = new Map<number, GitActivityEntry>();
+	for (const entry of [...a, ...b]) byId.set(entry.id, entry);
+	return Array.from(byId.values())
+		.sort((x, y) => x.id - y.id)
+		.slice(-MAX_ENTRIES);
+}
+
+export const useGitActivityStore = create<GitActivityState>((set) => ({
+	entries: [],
+
+	load: async () => {
+		const listed = await window.gitagen.activity.list();
+		set((state) => ({ entries: mergeEntries(listed, state.entries) }));
+	},
+	append: (entry) =>
+		set((state) => ({
+			entries:
+				state.entries.length >= MAX_ENTRIES
+					? [...state.entries.slice(1 - MAX_ENTRIES), entry]
+					: [...state.entries, entry],
+		})),
+	clear: async () => {
+		await window.gitagen.activity.clear();
+		set({ entries: [] });
+	},
+}));
@@ -0,0 +1,74 @@
+import { create } from "zustand";
+import type { HookAction, HookFailure, HookRunEvent } from "../../../shared/types";
+
+/** Hook output beyond this is dropped from the start; the end of the log is what explains a failure. */
+const MAX_OUTPUT_CHARS = 200_000;
+
+export interface HookRun {
+	runId: string;
+	projectId: string;
+	action: HookAction;
+	hooks: string[];
+	output: string;
+	status: "running" | "passed" | "failed";
+	failure: HookFailure | null;
+	error: string | null;
+}
+
+interface HookState {
+	/** The latest commit or push that ran hooks */
+	run: HookRun | null;
+	/** Reruns the latest failed action with hooks skipped; registered by the view that started it */
+	retry: { action: HookAction; run: () => void } | null;
+
+	applyEvent: (event: HookRunEvent) => void;
+	setRetry: (action: HookAction, run: () => void) => void;
+	dismiss: () => void;
+}
+
+export const useHookStore = create<HookState>((set) => ({
+	run: null,
+	retry: null,
+
+	applyEvent: (event) =>
+		set((state) => {
+			if (event.type === "start") {
+				return {
+					run: {
+						runId: event.runId,
+						projectId: event.projectId,
+						action: event.action,
+						hooks: event.hooks,
+						output: "",
+						status: "running",
+						failure: null,
+						error: null,
+					},
+					retry: null,
+				};
+			}
+			if (!state.run || state.run.runId !== event.runId) return {};
+			if (event.type === "output") {
+				const output = state.run.output + event.text;
+				return {
+					run: {
+						...state.run,
+						output:
+							output.length > MAX_OUTPUT_CHARS
+								? output.slice(-MAX_OUTPUT_CHARS)
+								: output,
+					},
+				};
+			}
+			return {
+				run: {
+					...state.run,
+					status: event.error ? "failed" : "passed",
+					failure: event.failure,
+					error: event.error ?? null,
+				},
+			};
+		}),
+	setRetry: (action, run) => set({ retry: { action, run } }),
+	dismiss: () => set({ run: null, retry: null }),
+}));
@@ -3,3 +3,5 @@ export { useRepoStore, selectGitStatus } from "./repoStore";
 export { useUIStore } from "./uiStore";
 export { useThemeStore, resolveTheme, type Theme } from "./themeStore";
 export { useSettingsStore, type SettingsState } from "./settingsStore";
+export { useHookStore, type HookRun } from "./hookStore";
+export { useGitActivityStore } from "./gitActivityStore";
@@ -1,17 +1,28 @@
 import { create } from "zustand";
-import type { Project } from "../../../shared/types";
+import type { InitRepositoryOptions, Project } from "../../../shared/types";
 
 const LAST_PROJECT_KEY = "gitagen:lastProjectId";
 
+function folderName(path: string): string {
+	return path.split("/").filter(Boolean).pop() || "repo";
+}
+
 interface ProjectState {
 	projects: Project[];
 	activeProject: Project | null;
 	loading: boolean;
 	projectLoading: boolean;
+	/** Folder picked in `addProject` that is not a git repository yet, awaiting initialization */
+	pendingInitPath: string | null;
 
 	loadProjects: () => Promise<void>;
 	setActiveProject: (project: Project | null) => void;
 	addProject: () => Promise<void>;
+	/** Resolves with the error of a setup step that failed after `git init`, if any. */
+	initPendingProject: (init: InitRepositoryOptions) => Promise<string | undefined>;
+	cancelPendingInit: () => void;
+	/** Lists a project the main process just registered, e.g. a clone, and opens it. */
+	openAddedProject: (project: Project) => void;
 	removeProject: (projectId: string) => Promise<void>;
 	setProjectLoading: (loading: boolean) => void;
 }
@@ -21,6 +32,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 	activeProject: null,
 	loading: true,
 	projectLoading: false,
+	pendingInitPath: null,
 
 	loadProjects: async () => {
 		const list = (await window.gitagen.projects.list()) as Project[];
@@ -47,14 +59,41 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 	addProject: async () => {
 		const path: string | null = await window.gitagen.settings.selectFolder();
 		if (!path) return;
-		const name = path.split("/").filter(Boolean).pop() || "repo";
-		const p = await window.gitagen.projects.add(name, path);
+		const result = await window.gitagen.projects.add(folderName(path), path);
+		if (result.status === "notARepository") {
+			set({ pendingInitPath: path });
+			return;
+		}
+		const p = result.project;
 		set((state) => ({
 			projects: [p, ...state.projects],
 			activeProject: p,
 		}));
 	},
 
+	initPendingProject: async (init) => {
+		const path = get().pendingInitPath;
+		if (!path) return;
+		const result = await window.gitagen.projects.add(folderName(path), path, init);
+		if (result.status === "notARepository") throw new Error(`${path} is not a git repository`);
+		const p = result.project;
+		set((state) => ({
+			projects: [p, ...state.projects.filter((project) => project.id !== p.id)],
+			activeProject: p,
+			pendingInitPath: null,
+		}));
+		return result.initError;
+	},
+
+	cancelPendingInit: () => set({ pendingInitPath: null }),
+
+	openAddedProject: (project) => {
+		set((state) => ({
+			projects: [project, ...state.projects.filter((p) => p.id !== project.id)],
+		}));
+		get().setActiveProject(project);
+	},
+
 	removeProject: async (projectId) => {
 		await window.gitagen.projects.remove(projectId);
 		const { activeProject } = get();
@@ -92,6 +92,8 @@ export const useRepoStore = create<RepoState>((set, get) => ({
 	setSelectedFileAndClearCommit: (file: GitFileStatus | null) => {
 		set({ selectedFile: file });
 		useUIStore.getState().setSelectedCommitOid(null);
+		useUIStore.getState().closeBlame();
+		useUIStore.getState().closeFileHistory();
 	},
 	setStatus: (status) => {
 		set({ status });
@@ -2,6 +2,12 @@ import { create } from "zustand";
 import type { DiffStyle } from "../../../shared/types";
 import type { RightPanelTab, SettingsTab, ViewMode } from "../hooks/useCommandRegistry";
 
+export interface BlameTarget {
+	path: string;
+	/** Revision to blame; null for the working tree */
+	rev: string | null;
+}
+
 interface UIState {
 	diffStyle: DiffStyle;
 	viewMode: ViewMode;
@@ -10,8 +16,15 @@ interface UIState {
 	gitAgentInitialPrompt: string | undefined;
 	rightTab: RightPanelTab;
 	selectedCommitOid: string | null;
+	/** When set, the commit detail view only shows this file's diff */
+	commitPathFilter: string | null;
 	selectedStashIndex: number | null;
+	showConflictResolver: boolean;
+	/** Blame navigation history; the last entry is shown, earlier ones are reachable via back */
+	blameStack: BlameTarget[];
+	fileHistoryPath: string | null;
 	showStashDialog: boolean;
+	showGitActivity: boolean;
 	stashRefreshKey: number;
 	isRightPanelCollapsed: boolean;
 	isLeftPanelCollapsed: boolean;
@@ -31,10 +44,21 @@ interface UIState {
 	toggleWorktreePanel: () => void;
 	openCommandPalette: () => void;
 	closeCommandPalette: () => void;
-	setSelectedCommitOid: (oid: string | null) => void;
+	setSelectedCommitOid: (oid: string | null, opts?: { path?: string }) => void;
+	setCommitPathFilter: (path: string | null) => void;
 	setSelectedStashIndex: (index: number | null) => void;
+	openConflictResolver: () => void;
+	closeConflictResolver: () => void;
+	openBlame: (path: string) => void;
+	pushBlame: (target: BlameTarget) => void;
+	popBlame: () => void;
+	closeBlame: () => void;
+	openFileHistory: (path: string) => void;
+	closeFileHistory: () => void;
 	showStashDialogOpen: () => void;
 	showStashDialogClose: () => void;
+	openGitActivity: () => void;
+	closeGitActivity: () => void;
 	incrementStashRefreshKey: () => void;
 	setIsRightPanelCollapsed: (collapsed: boolean) => void;
 	setIsLeftPanelCollapsed: (collapsed: boolean) => void;
@@ -50,8 +74,13 @@ export const useUIStore = create<UIState>((set) => ({
 	gitAgentInitialPrompt: undefined,
 	rightTab: "log",
 	selectedCommitOid: null,
+	commitPathFilter: null,
 	selectedStashIndex: null,
+	showConflictResolver: false,
+	blameStack: [],
+	fileHistoryPath: null,
 	showStashDialog: false,
+	showGitActivity: false,
 	stashRefreshKey: 0,
 	isRightPanelCollapsed: false,
 	isLeftPanelCollapsed: false,
@@ -89,10 +118,50 @@ export const useUIStore = create<UIState>((set) => ({
 		set((s) => ({ isWorktreePanelCollapsed: !s.isWorktreePanelCollapsed })),
 	openCommandPalette: () => set({ isCommandPaletteOpen: true }),
 	closeCommandPalette: () => set({ isCommandPaletteOpen: false }),
-	setSelectedCommitOid: (oid) => set({ selectedCommitOid: oid }),
-	setSelectedStashIndex: (index) => set({ selectedStashIndex: index }),
+	setSelectedCommitOid: (oid, opts) =>
+		set(
+			oid
+				? {
+						selectedCommitOid: oid,
+						commitPathFilter: opts?.path ?? null,
+						showConflictResolver: false,
+					}
+				: { selectedCommitOid: oid, commitPathFilter: null }
+		),
+	setCommitPathFilter: (path) => set({ commitPathFilter: path }),
+	setSelectedStashIndex: (index) =>
+		set(
+			index !== null
+				? { selectedStashIndex: index, showConflictResolver: false }
+				: { selectedStashIndex: index }
+		),
+	openConflictResolver: () =>
+		set({ showConflictResolver: true, selectedCommitOid: null, selectedStashIndex: null }),
+	closeConflictResolver: () => set({ showConflictResolver: false }),
+	openBlame: (path) =>
+		set({
+			blameStack: [{ path, rev: null }],
+			fileHistoryPath: null,
+			selectedCommitOid: null,
+			selectedStashIndex: null,
+			showConflictResolver: false,
+		}),
+	pushBlame: (target) => set((s) => ({ blameStack: [...s.blameStack, target] })),
+	popBlame: () => set((s) => ({ blameStack: s.blameStack.slice(0, -1) })),
+	closeBlame: () => set({ blameStack: [] }),
+	openFileHistory: (path) =>
+		set({
+			fileHistoryPath: path,
+			blameStack: [],
+			selectedCommitOid: null,
+			selectedStashIndex: null,
+			showConflictResolver: false,
+		}),
+	closeFileHistory: () => set({ fileHistoryPath: null }),
 	showStashDialogOpen: () => set({ showStashDialog: true }),
 	showStashDialogClose: () => set({ showStashDialog: false }),
+	openGitActivity: () => set({ showGitActivity: true }),
+	closeGitActivity: () => set({ showGitActivity: false }),
 	incrementStashRefreshKey: () => set((s) => ({ stashRefreshKey: s.stashRefreshKey + 1 })),
 	setIsRightPanelCollapsed: (collapsed) => set({ isRightPanelCollapsed: collapsed }),
 	setIsLeftPanelCollapsed: (collapsed) => set({ isLeftPanelCollapsed: collapsed }),
@@ -100,6 +169,10 @@ export const useUIStore = create<UIState>((set) => ({
 	clearSelectionOnProjectChange: () =>
 		set({
 			selectedCommitOid: null,
+			commitPathFilter: null,
 			selectedStashIndex: null,
+			showConflictResolver: false,
+			blameStack: [],
+			fileHistoryPath: null,
 		}),
 }));
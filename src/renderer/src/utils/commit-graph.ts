@@ -0,0 +1,81 @@
+import type { CommitInfo } from "../../../shared/types";
+
+/** A line segment of one graph row, between lane centers. */
+export interface GraphEdge {
+	fromLane: number;
+	toLane: number;
+	/** `top` ends at the commit node, `bottom` starts at it, `through` passes the row untouched */
+	segment: "top" | "bottom" | "through";
+	lane: number;
+}
+
+export interface GraphRow {
+	lane: number;
+	edges: GraphEdge[];
+	/** Number of lanes occupied in this row */
+	width: number;
+}
+
+/** Lanes still waiting for a commit after the last laid out row; each slot holds the expected OID. */
+export interface GraphState {
+	lanes: (string | null)[];
+}
+
+export function createGraphState(): GraphState {
+	return { lanes: [] };
+}
+
+function allocateLane(lanes: (string | null)[]): number {
+	const free = lanes.indexOf(null);
+	return free === -1 ? lanes.length : free;
+}
+
+/**
+ * Assigns lanes to commits listed children-before-parents (as `git log` prints them).
+ * Continues from `state`, so pages loaded later can be laid out without revisiting earlier rows.
+ */
+export function layoutCommitGraph(
+	commits: CommitInfo[],
+	state: GraphState = createGraphState()
+): { rows: GraphRow[]; state: GraphState } {
+	const lanes = state.lanes.slice();
+	const rows: GraphRow[] = [];
+	for (const commit of commits) {
+		const edges: GraphEdge[] = [];
+		const incoming: number[] = [];
+		lanes.forEach((oid, index) => {
+			if (oid === commit.oid) incoming.push(index);
+		});
+		const lane = incoming[0] ?? allocateLane(lanes);
+		const before = lanes.slice();
+
+		// Children converge into the node; other lanes pass through
+		before.forEach((oid, index) => {
+			if (oid === null) return;
+			if (oid === commit.oid) {
+				edges.push({ fromLane: index, toLane: lane, segment: "top", lane: index });
+				lanes[index] = null;
+			} else {
+				edges.push({ fromLane: index, toLane: index, segment: "through", lane: index });
+			}
+		});
+
+		const [firstParent, ...otherParents] = commit.parents;
+		if (firstParent) {
+			lanes[lane] = firstParent;
+			edges.push({ fromLane: lane, toLane: lane, segment: "bottom", lane });
+		} else {
+			lanes[lane] = null;
+		}
+		for (const parent of otherParents) {
+			const existing = lanes.indexOf(parent);
+			const target = existing === -1 ? allocateLane(lanes) : existing;
+			lanes[target] = parent;
+			edges.push({ fromLane: lane, toLane: target, segment: "bottom", lane: target });
+		}
+
+		while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop();
+		rows.push({ lane, edges, width: Math.max(before.length, lanes.length, lane + 1) });
+	}
+	return { rows, state: { lanes } };
+}
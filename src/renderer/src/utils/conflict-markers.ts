@@ -0,0 +1,137 @@
+export interface ConflictBlock {
+	kind: "conflict";
+	ours: string;
+	/** Present only for diff3/zdiff3-style markers */
+	base: string | null;
+	theirs: string;
+	/** Raw marker lines, kept so unresolved blocks serialize back unchanged */
+	markers: { start: string; base: string | null; separator: string; end: string };
+}
+
+export type ConflictSegment = { kind: "text"; text: string } | ConflictBlock;
+
+export type ConflictChoice = "ours" | "theirs" | "both" | "base";
+
+function isMarker(line: string, marker: string): boolean {
+	if (!line.startsWith(marker)) return false;
+	const next = line[marker.length];
+	return next === undefined || next === " " || next === "\n" || next === "\r";
+}
+
+/**
+ * Splits file content into plain text and conflict blocks delimited by
+ * `<<<<<<<`, optional `|||||||`, `=======` and `>>>>>>>` markers.
+ * An unterminated block is treated as plain text.
+ */
+export function parseConflictMarkers(content: string): ConflictSegment[] {
+	const lines = content.split(/(?<=\n)/);
+	const segments: ConflictSegment[] = [];
+	let text = "";
+	let i = 0;
+	while (i < lines.length) {
+		const line = lines[i]!;
+		if (!isMarker(line, "<<<<<<<")) {
+			text += line;
+			i++;
+			continue;
+		}
+		let j = i + 1;
+		let ours = "";
+		let base: string | null = null;
+		let baseMarker: string | null = null;
+		let theirs = "";
+		let separator: string | null = null;
+		let end: string | null = null;
+		let section: "ours" | "base" | "theirs" = "ours";
+		for (; j < lines.length; j++) {
+			const current = lines[j]!;
+			if (section === "ours" && isMarker(current, "|||||||")) {
+				section = "base";
+				baseMarker = current;
+				base = "";
+			} else if (section !== "theirs" && isMarker(current, "=======")) {
+				section = "theirs";
+				separator = current;
+			} else if (section === "theirs" && isMarker(current, ">>>>>>>")) {
+				end = current;
+				break;
+			} else if (section === "ours") {
+				ours += current;
+			} else if (section === "base") {
+				base += current;
+			} else {
+				theirs += current;
+			}
+		}
+		if (separator === null || end === null) {
+			text += lines.slice(i).join("");
+			break;
+		}
+		if (text) segments.push({ kind: "text", text });
+		text = "";
+		segments.push({
+			kind: "conflict",
+			ours,
+			base,
+			theirs,
+			markers: { start: line, base: baseMarker, separator, end },
+		});
+		i = j + 1;
+	}
+	if (text) segments.push({ kind: "text", text });
+	return segments;
+}
+
+export function serializeConflictSegments(segments: ConflictSegment[]): string {
+	return segments
+		.map((segment) => {
+			if (segment.kind === "text") return segment.text;
+			const { markers } = segment;
+			return (
+				markers.start +
+				segment.ours +
+				(markers.base !== null ? markers.base + (segment.base ?? "") : "") +
+				markers.separator +
+				segment.theirs +
+				markers.end
+			);
+		})
+		.join("");
+}
+
+export function countConflictBlocks(content: string): number {
+	return parseConflictMarkers(content).filter((segment) => segment.kind === "conflict").length;
+}
+
+/** Replaces the `index`-th conflict block in `content` with the chosen side. */
+export function resolveConflictBlock(
+	content: string,
+	index: number,
+	choice: ConflictChoice
+): string {
+	let seen = -1;
+	const segments = parseConflictMarkers(content).map((segment): ConflictSegment => {
+		if (segment.kind !== "conflict") return segment;
+		seen++;
+		if (seen !== index) return segment;
+		const text =
+			choice === "ours"
+				? segment.ours
+				: choice === "theirs"
+					? segment.theirs
+					: choice === "base"
+						? (segment.base ?? "")
+						: segment.ours + segment.theirs;
+		return { kind: "text", text };
+	});
+	return serializeConflictSegments(segments);
+}
+
+/** Resolves every remaining conflict block in `content` with the same side. */
+export function resolveAllConflictBlocks(content: string, choice: ConflictChoice): string {
+	let result = content;
+	while (countConflictBlocks(result) > 0) {
+		result = resolveConflictBlock(result, 0, choice);
+	}
+	return result;
+}
@@ -14,7 +14,6 @@ declare global {
 			repo: Record<string, unknown>;
 			settings: {
 				getGlobal: () => Promise<import("../../shared/types").AppSettings>;
-				getGlobalWithKeys: () => Promise<import("../../shared/types").AppSettings>;
 				setGlobal: (
 					partial: Partial<import("../../shared/types").AppSettings>
 				) => Promise<import("../../shared/types").AppSettings>;
@@ -28,7 +27,8 @@ declare global {
 				fetchModels: (
 					type: string,
 					apiKey: string,
-					baseURL?: string
+					baseURL?: string,
+					providerId?: string
 				) => Promise<{ success: boolean; models: string[]; error?: string }>;
 				listAIProviders: () => Promise<import("../../shared/types").AIProviderDescriptor[]>;
 				selectGitBinary: () => Promise<string | null>;
@@ -26,6 +26,8 @@ export type IpcChannel =
 	| "projects:list"
 	| "projects:listGrouped"
 	| "projects:add"
+	| "projects:clone"
+	| "projects:listGitignoreTemplates"
 	| "projects:remove"
 	| "projects:switchTo"
 	| "repo:openProject"
@@ -37,6 +39,9 @@ export type IpcChannel =
 	| "repo:refresh"
 	| "repo:stageFiles"
 	| "repo:unstageFiles"
+	| "repo:stageSelection"
+	| "repo:unstageSelection"
+	| "repo:discardSelection"
 	| "repo:stageAll"
 	| "repo:unstageAll"
 	| "repo:discardFiles"
@@ -47,9 +52,11 @@ export type IpcChannel =
 	| "repo:undoLastCommit"
 	| "repo:getUnpushedOids"
 	| "repo:generateCommitMessage"
+	| "repo:lintCommitMessage"
 	| "repo:getLog"
 	| "repo:getCachedLog"
 	| "repo:getCommitDetail"
+	| "repo:getBlame"
 	| "repo:listBranches"
 	| "repo:createBranch"
 	| "repo:switchBranch"
@@ -59,6 +66,7 @@ export type IpcChannel =
 	| "repo:fetch"
 	| "repo:pull"
 	| "repo:push"
+	| "repo:cancelOperation"
 	| "repo:pushTags"
 	| "repo:listRemotes"
 	| "repo:addRemote"
@@ -80,8 +88,13 @@ export type IpcChannel =
 	| "repo:cherryPick"
 	| "repo:cherryPickAbort"
 	| "repo:cherryPickContinue"
+	| "repo:getCheckpoint"
+	| "repo:restoreCheckpoint"
 	| "repo:getConflictFiles"
 	| "repo:markResolved"
+	| "repo:getConflictState"
+	| "repo:getConflictVersions"
+	| "repo:resolveConflict"
 	| "repo:getEffectiveConfig"
 	| "repo:setLocalConfig"
 	| "repo:testSigning"
@@ -89,8 +102,11 @@ export type IpcChannel =
 	| "repo:addWorktree"
 	| "repo:removeWorktree"
 	| "repo:pruneWorktrees"
+	| "repo:getWorktreeDashboard"
+	| "repo:openWorktreeInEditor"
+	| "repo:resolveWorktreePath"
+	| "repo:moveWorktree"
 	| "settings:getGlobal"
-	| "settings:getGlobalWithKeys"
 	| "settings:setGlobal"
 	| "settings:getProjectPrefs"
 	| "settings:setProjectPrefs"
@@ -100,13 +116,29 @@ export type IpcChannel =
 	| "settings:selectFolder"
 	| "settings:fetchModels"
 	| "settings:listAIProviders"
+	| "settings:getAIUsage"
+	| "agent:getStatus"
+	| "agent:run"
+	| "agent:abort"
+	| "agent:listSessions"
+	| "agent:getSession"
+	| "agent:deleteSession"
+	| "agent:exportSession"
 	| "app:openExternal"
 	| "app:confirm"
+	| "activity:list"
+	| "activity:clear"
+	| "activity:export"
 	| "events:repoUpdated"
 	| "events:repoError"
 	| "events:conflictDetected"
 	| "events:openRepo"
-	| "ai:commitChunk";
+	| "events:hookRun"
+	| "events:operationProgress"
+	| "events:worktreeRecipe"
+	| "events:gitActivity"
+	| "ai:commitChunk"
+	| "ai:agentEvent";
 
 export type DiffStyle = "unified" | "split";
 
@@ -114,14 +146,19 @@ export type DiffStyle = "unified" | "split";
 
 export type FontFamily = "geist" | "geist-pixel" | "system" | (string & {});
 
+/** How git commands are run: the app's own process runner, or the simple-git library. */
+export type GitProviderKind = "process" | "simple-git";
+
 export interface AppSettings {
 	gitBinaryPath: string | null;
+	gitProvider: GitProviderKind;
 	theme: "dark" | "light" | "system";
 	signing: {
 		enabled: boolean;
 		key: string;
 	};
 	ai: AISettings;
+	aiUsage: AIUsageSettings;
 	uiScale: number;
 	fontSize: number;
 	commitMessageFontSize: number;
@@ -130,6 +167,7 @@ export interface AppSettings {
 	devMode: boolean;
 	autoExpandSingleFolder: boolean;
 	showWorktreePanel: boolean;
+	worktreeLocation: WorktreeLocation;
 }
 
 export interface Project {
@@ -156,6 +194,32 @@ export interface WorktreeInfo {
 	name?: string;
 }
 
+/** A worktree's state for the worktree dashboard. */
+export interface WorktreeStatus extends WorktreeInfo {
+	staged: number;
+	unstaged: number;
+	untracked: number;
+	conflicted: number;
+	upstream: string | null;
+	ahead: number;
+	behind: number;
+	/** Unix seconds; null on an unborn branch */
+	lastCommitAt: number | null;
+	/**
+	 * The branch had commits of its own that were merged into the default branch. A branch that
+	 * never diverged, e.g. a fresh worktree, or that was fast-forwarded is not reported as merged.
+	 */
+	merged: boolean;
+	/** Why the state could not be read, e.g. the directory is gone */
+	error?: string;
+}
+
+export interface WorktreeDashboard {
+	/** Ref `merged` is measured against, e.g. `origin/main`; null when none could be found */
+	defaultBranch: string | null;
+	worktrees: WorktreeStatus[];
+}
+
 export interface AddWorktreeOptions {
 	newBranch?: string;
 	copyGitIgnores?: boolean;
@@ -165,8 +229,43 @@ export interface AddWorktreeResult {
 	path: string;
 	copiedGitignoreCount: number;
 	copyGitignoreError?: string;
+	/** What the project's worktree recipe did; absent when it has none */
+	recipe?: { copied: number; linked: number; error?: string };
 }
 
+export interface CloneRepositoryOptions {
+	url: string;
+	/** Directory to clone into; created if missing, and must be empty if it exists */
+	directory: string;
+	/** Branch or tag to check out instead of the remote's default branch */
+	branch?: string;
+	/** Shallow-clone this many commits */
+	depth?: number;
+	/** Directories to check out in a cone-mode sparse checkout; all files when empty */
+	sparsePaths?: string[];
+	recurseSubmodules?: boolean;
+}
+
+/** How `projects:add` turns a folder that is not yet a git repository into one. */
+export interface InitRepositoryOptions {
+	initialBranch: string;
+	/** Name of a bundled template from `projects:listGitignoreTemplates` */
+	gitignoreTemplate?: string;
+	/** Commit everything in the folder as "Initial commit" */
+	initialCommit?: boolean;
+	remote?: { name: string; url: string };
+}
+
+/** Outcome of `projects:add`. A folder that is not a repository is only added with `init`. */
+export type AddProjectResult =
+	| {
+			status: "added";
+			project: Project;
+			/** Why a step after `git init` failed; the repository exists and the project was added */
+			initError?: string;
+	  }
+	| { status: "notARepository" };
+
 export interface ConfirmDialogOptions {
 	title?: string;
 	message: string;
@@ -200,6 +299,24 @@ export interface PatchResult {
 	fingerprint: string;
 }
 
+/** Side of a diff line: "deletions" uses old-file line numbers, "additions" new-file line numbers */
+export type DiffSide = "deletions" | "additions";
+
+/** Inclusive range of lines selected in a rendered diff */
+export interface DiffLineRange {
+	start: number;
+	end: number;
+	side?: DiffSide;
+	endSide?: DiffSide;
+}
+
+/** Lines (or the hunks containing them) to stage, unstage or discard within one file */
+export interface PatchSelection {
+	range: DiffLineRange;
+	/** Expand the selection to every hunk it touches */
+	wholeHunks?: boolean;
+}
+
 export interface ProjectPrefs {
 	includeIgnored: boolean;
 	changedOnly: boolean;
@@ -207,6 +324,61 @@ export interface ProjectPrefs {
 	selectedFilePath: string | null;
 	sidebarScrollTop: number;
 	activeWorktreePath: string | null;
+	worktreeRecipe: WorktreeRecipe | null;
+	/** Overrides the global `worktreeLocation` for this project; null uses the global one */
+	worktreeLocation: WorktreeLocation | null;
+}
+
+/**
+ * Where new worktrees go. `gitagen` is `~/.gitagen/<project>`, `sibling` is the directory holding
+ * the repository and `custom` is `customRoot`.
+ */
+export type WorktreeRoot = "gitagen" | "sibling" | "custom";
+
+export interface WorktreeLocation {
+	root: WorktreeRoot;
+	customRoot: string | null;
+	/**
+	 * Directory name for a new worktree, relative to the root. Tokens: `{project}`, `{branch}`,
+	 * `{date}` (YYYY-MM-DD) and `{random}` (five random words).
+	 */
+	nameTemplate: string;
+}
+
+/**
+ * Per-project steps that bootstrap a new worktree and tear one down. Paths are relative to the
+ * worktree root; `*` matches within a path segment and `**` across segments.
+ */
+export interface WorktreeRecipe {
+	/** Files, directories or globs copied from the source worktree, e.g. `.env*` */
+	copy: string[];
+	/** Like `copy`, but symlinked, e.g. `node_modules` */
+	symlink: string[];
+	/** Shell commands run in a new worktree once the files are in place */
+	postCreate: string[];
+	/** Shell commands run in a worktree before it is removed; a failure stops the removal */
+	preRemove: string[];
+}
+
+export type WorktreeRecipePhase = "postCreate" | "preRemove";
+
+/** Sent on `events:worktreeRecipe` while a recipe's commands run. */
+export type WorktreeRecipeEvent =
+	| {
+			type: "start";
+			runId: string;
+			projectId: string;
+			worktreePath: string;
+			phase: WorktreeRecipePhase;
+	  }
+	| { type: "output"; runId: string; projectId: string; text: string }
+	| { type: "end"; runId: string; projectId: string; error?: string };
+
+export interface CommitRef {
+	name: string;
+	type: "branch" | "remote" | "tag" | "head";
+	/** Branch that HEAD points to */
+	current?: boolean;
 }
 
 export interface CommitInfo {
@@ -217,6 +389,33 @@ export interface CommitInfo {
 	signed: boolean;
 	/** Whether this commit has been pushed to the upstream. undefined = unknown. false when no upstream. */
 	pushed?: boolean;
+	/** Branches, remote heads and tags pointing at this commit (from `git log` decorations) */
+	refs?: CommitRef[];
+	/** Name of the followed file in this commit; only set for path-scoped logs */
+	path?: string;
+}
+
+export interface BlameCommit {
+	oid: string;
+	author: { name: string; email: string; date: string };
+	summary: string;
+	/** Revision and path the blamed lines came from before this commit; absent for the commit that added them */
+	previous?: { oid: string; path: string };
+}
+
+export interface BlameLine {
+	oid: string;
+	lineNumber: number;
+	originalLineNumber: number;
+	content: string;
+}
+
+export interface BlameResult {
+	path: string;
+	/** Blamed revision; null for the working tree */
+	rev: string | null;
+	commits: Record<string, BlameCommit>;
+	lines: BlameLine[];
 }
 
 export interface CommitDetail extends CommitInfo {
@@ -232,6 +431,31 @@ export interface BranchInfo {
 	behind: number;
 }
 
+export type RebaseTodoAction = "pick" | "reword" | "squash" | "fixup" | "drop";
+
+/** One line of an interactive rebase plan, listed oldest first like git's todo file */
+export interface RebaseTodoEntry {
+	oid: string;
+	action: RebaseTodoAction;
+	/** New commit message for `reword` */
+	message?: string;
+}
+
+export interface RebaseOptions {
+	onto: string;
+	/** When set, runs an interactive rebase with this plan instead of a plain rebase */
+	todo?: RebaseTodoEntry[];
+}
+
+/** Snapshot of a repository taken before the agent runs an approved plan, so it can be rolled back */
+export interface CheckpointInfo {
+	name: string;
+	headOid: string;
+	/** Branch checked out when the checkpoint was taken; null when HEAD was detached */
+	branch: string | null;
+	createdAt: string;
+}
+
 export interface ConflictState {
 	type: "merge" | "rebase" | "cherry-pick";
 	conflictFiles: string[];
@@ -239,6 +463,18 @@ export interface ConflictState {
 	totalSteps?: number;
 }
 
+/** Index stages of a conflicted file plus the working-tree copy with conflict markers */
+export interface ConflictFileVersions {
+	path: string;
+	/** Stage 1 (common ancestor); null when the file was added on both sides */
+	base: string | null;
+	/** Stage 2 (HEAD / the branch being rebased onto); null when deleted on that side */
+	ours: string | null;
+	/** Stage 3 (the incoming change); null when deleted on that side */
+	theirs: string | null;
+	merged: string;
+}
+
 export interface CommitResult {
 	oid: string;
 	signed: boolean;
@@ -305,6 +541,86 @@ export interface PushResultSummary {
 	branch?: string;
 }
 
+/** Operations that can be cancelled: network operations, which also report progress, and worktree recipes. */
+export type GitOperationKind =
+	| "fetch"
+	| "pull"
+	| "push"
+	| "clone"
+	| "worktreeSetup"
+	| "worktreeTeardown";
+
+/** Progress parsed from git's `--progress` output. */
+export interface GitProgress {
+	/** Git's phase name, e.g. `Receiving objects` or `Resolving deltas` */
+	stage: string;
+	/** 0-100 within the current stage */
+	percent: number;
+	processed: number;
+	total: number;
+}
+
+/** Sent on `events:operationProgress` for operations started with an `operationId`. */
+export type OperationProgressEvent =
+	| { type: "start"; operationId: string; projectId: string | null; kind: GitOperationKind }
+	| ({
+			type: "progress";
+			operationId: string;
+			projectId: string | null;
+			kind: GitOperationKind;
+	  } & GitProgress)
+	| {
+			type: "end";
+			operationId: string;
+			projectId: string | null;
+			kind: GitOperationKind;
+			status: "done" | "failed" | "cancelled";
+	  };
+
+/** Git operations that run client-side hooks. */
+export type HookAction = "commit" | "push";
+
+export interface HookFailure {
+	/** Hook name, e.g. `pre-commit` */
+	hook: string;
+	exitCode: number;
+}
+
+/** Streamed while a commit or push runs hooks; only sent when the repository has hooks installed. */
+export type HookRunEvent =
+	| { type: "start"; runId: string; projectId: string; action: HookAction; hooks: string[] }
+	| { type: "output"; runId: string; projectId: string; text: string }
+	| {
+			type: "end";
+			runId: string;
+			projectId: string;
+			/** Set when a hook stopped the operation */
+			failure: HookFailure | null;
+			/** Set when the operation failed, whether or not a hook was the cause */
+			error?: string;
+	  };
+
+/** One git process the app ran, as listed in the activity console. */
+export interface GitActivityEntry {
+	/** Increases with every command, so entries sort in the order they finished */
+	id: number;
+	/** The project whose repository or worktree the command ran in, if any */
+	projectId: string | null;
+	/** Command line with arguments quoted where needed */
+	command: string;
+	cwd: string;
+	startedAt: number;
+	durationMs: number;
+	/** null when the process was killed or could not be started */
+	exitCode: number | null;
+	/** Why the process was killed or could not be started */
+	error: string | null;
+	stdout: string;
+	stderr: string;
+	/** Whether stdout or stderr was cut to the size kept per entry */
+	truncated: boolean;
+}
+
 /** Summary returned from pushTags */
 export interface PushTagsResultSummary {
 	tagsPushed: number;
@@ -325,12 +641,16 @@ export type AIProviderType =
 	| "openrouter"
 	| "cerebras"
 	| "fireworks"
+	| "ollama"
+	| "llamacpp"
 	| (string & {});
 
 export interface AIProviderDescriptor {
 	id: AIProviderType;
 	displayName: string;
 	requiresBaseURL: boolean;
+	requiresApiKey: boolean;
+	defaultBaseURL?: string;
 }
 
 export interface AIProviderInstance {
@@ -346,12 +666,138 @@ export interface AIProviderInstance {
 
 export type CommitStyle = "conventional" | "emoji" | "descriptive" | "imperative";
 
+/** Which changes an AI commit message describes. Generating a message never touches the index. */
+export type CommitMessageScope = "staged" | "all" | "selected";
+
+export interface CommitMessageSource {
+	scope: CommitMessageScope;
+	/** Files to describe when `scope` is `selected`; staged and unstaged changes are both included */
+	paths?: string[];
+}
+
+export type CommitLintSeverity = "error" | "warning";
+
+/** A custom rule from the `commit.lint` section of `.gitagen.json`. */
+export interface CommitLintRule {
+	/** Regular expression tested against `target` */
+	pattern: string;
+	/** Shown when the rule is broken */
+	message: string;
+	target: "subject" | "body" | "message";
+	/** Broken when the pattern matches, instead of when it does not */
+	forbid: boolean;
+	severity: CommitLintSeverity;
+}
+
+export interface CommitLintIssue {
+	/** Rule ID, e.g. `subject-max-length` or `custom` */
+	rule: string;
+	severity: CommitLintSeverity;
+	message: string;
+	/** 1-based line in the message, when the issue is tied to one */
+	line?: number;
+}
+
 export interface AISettings {
 	activeProviderId: string | null;
 	providers: AIProviderInstance[];
 	commitStyle: CommitStyle;
 }
 
+/** USD per million tokens. `model` matches any model ID containing it; the longest match wins. */
+export interface ModelPrice {
+	model: string;
+	inputPerMillion: number;
+	outputPerMillion: number;
+}
+
+export interface AIUsageSettings {
+	/** Overrides and additions to the built-in price table */
+	prices: ModelPrice[];
+	/** USD per calendar month; AI calls are refused once it is spent. `null` disables the limit. */
+	monthlyBudget: number | null;
+}
+
+export type AIFeature = "commit-message" | "agent";
+
+export interface AIUsageTotals {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	/** USD, counting only priced requests */
+	cost: number;
+	/** Tokens from models without a known price */
+	unpricedTokens: number;
+}
+
+export interface AIUsageGroup extends AIUsageTotals {
+	label: string;
+}
+
+export interface AIUsageReport {
+	today: AIUsageTotals;
+	month: AIUsageTotals;
+	monthlyBudget: number | null;
+	/** Days of the current month with usage, newest first; `date` is local YYYY-MM-DD */
+	daily: (AIUsageTotals & { date: string })[];
+	byProvider: AIUsageGroup[];
+	byModel: AIUsageGroup[];
+	byProject: AIUsageGroup[];
+	defaultPrices: ModelPrice[];
+}
+
+/** Whether the Git agent can start, and which model it would use. Never carries the API key. */
+export interface AgentStatus {
+	ready: boolean;
+	error?: string;
+	provider?: { name: string; type: AIProviderType; model: string };
+}
+
+export interface AgentToolRun {
+	toolName: string;
+	toolCallId: string;
+	status: "running" | "done" | "failed";
+	startedAt: number;
+	endedAt?: number;
+	error?: string;
+}
+
+/** Streamed from the main process while an agent run is in flight, tagged with its run ID. */
+export type AgentRunEvent =
+	| { runId: string; kind: "chunk"; chunk: unknown }
+	| { runId: string; kind: "tool-run"; run: AgentToolRun }
+	| { runId: string; kind: "trace"; level: "info" | "warn" | "error"; message: string };
+
+export interface AgentTokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+/** The user's answer to a `propose_actions` call. */
+export interface AgentPlanDecision {
+	toolCallId: string;
+	planId: string;
+	decision: "approved" | "revise";
+	feedback?: string;
+}
+
+export interface AgentSessionSummary {
+	id: string;
+	projectId: string;
+	/** First line of the opening prompt */
+	title: string;
+	usage: AgentTokenUsage;
+	createdAt: number;
+	updatedAt: number;
+}
+
+/** A stored agent conversation. `messages` are AI SDK UI messages as the renderer sent them. */
+export interface AgentSession extends AgentSessionSummary {
+	messages: unknown[];
+	toolRuns: AgentToolRun[];
+	decisions: AgentPlanDecision[];
+}
+
 export interface CliStatus {
 	installed: boolean;
 	path: string | null;